@@ -0,0 +1,148 @@
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import path from 'path';
+import { StackDetector } from '../core/StackDetector.js';
+import { GuidelineManager } from '../core/GuidelineManager.js';
+import { Fingerprint, type FingerprintDrift } from '../core/Fingerprint.js';
+import { InitCommand } from './InitCommand.js';
+import type { BaseCommand, CommandSignature } from '../core/types/Command.js';
+import type { Command } from 'commander';
+
+/**
+ * Exit codes reported by the check command
+ */
+export const CHECK_EXIT_CODES = {
+  upToDate: 0,
+  stale: 1,
+  missing: 2,
+  edited: 3,
+  error: 4
+} as const;
+
+export interface CheckOptions {
+  cache?: boolean;  // false with --no-cache
+}
+
+export class CheckCommand implements BaseCommand {
+  /**
+   * Get command signature metadata
+   */
+  getSignature(): CommandSignature {
+    return {
+      name: 'check',
+      description: 'Check whether CLAUDE.md is still in sync with the project (for CI)',
+      category: 'Setup',
+      usage: [
+        'franken-ai check'
+      ],
+      options: [
+        {
+          flags: '--no-cache',
+          description: 'Ignore the detection cache in .franken/cache'
+        }
+      ],
+      help: `Compare the fingerprint embedded in CLAUDE.md by 'init' with the current
+project: detected modules, their versions, guideline contents and the FrankenAI
+version. Only the detection cache in .franken/cache is updated (--no-cache
+leaves it untouched).
+
+Exit codes:
+  0  CLAUDE.md is up to date
+  1  CLAUDE.md is stale (inputs changed since it was generated)
+  2  CLAUDE.md or its fingerprint is missing
+  3  A FrankenAI section was edited by hand (takes precedence over stale)
+  4  The check itself failed (e.g. detection threw)
+
+Examples:
+  franken-ai check                    # Report drift
+  franken-ai check || franken-ai update --force`
+    };
+  }
+
+  /**
+   * Configure the command
+   */
+  configure(program: Command): void {
+    const signature = this.getSignature();
+
+    const cmd = program
+      .command(signature.name)
+      .description(signature.description);
+
+    signature.options?.forEach(opt => {
+      cmd.option(opt.flags, opt.description, opt.defaultValue);
+    });
+
+    cmd.action((options: CheckOptions) => this.execute(options));
+  }
+
+  /**
+   * Execute the check command
+   */
+  async execute(options: CheckOptions = {}): Promise<void> {
+    try {
+      const claudeMdPath = path.join(process.cwd(), 'CLAUDE.md');
+
+      if (!await fs.pathExists(claudeMdPath)) {
+        console.error(chalk.red('❌ CLAUDE.md not found. Run: franken-ai init'));
+        process.exitCode = CHECK_EXIT_CODES.missing;
+        return;
+      }
+
+      const content = await fs.readFile(claudeMdPath, 'utf-8');
+      const stored = Fingerprint.parse(content);
+
+      if (!stored) {
+        console.error(chalk.red('❌ CLAUDE.md has no FrankenAI fingerprint. Run: franken-ai init --force'));
+        process.exitCode = CHECK_EXIT_CODES.missing;
+        return;
+      }
+
+      const stack = await new StackDetector(process.cwd(), { cache: options.cache }).detect();
+      const context = await new InitCommand().createGuidelineContext(stack);
+      const guidelineManager = new GuidelineManager();
+      const { guidelines } = guidelineManager.applyTokenBudget(await guidelineManager.collectGuidelines(context), context);
+
+      const inputs = Fingerprint.computeInputs(guidelines, context, guidelineManager);
+      const drift = Fingerprint.compare(stored, inputs, content);
+
+      this.formatDrift(drift).forEach(line => console.log(line));
+
+      if (drift.editedSections.length > 0) {
+        console.log(chalk.red('✋ FrankenAI sections were edited by hand. Move custom notes outside the markers, then run: franken-ai update --force'));
+        process.exitCode = CHECK_EXIT_CODES.edited;
+      } else if (Fingerprint.isStale(drift)) {
+        console.log(chalk.yellow('🔄 CLAUDE.md is stale. Run: franken-ai update --force'));
+        process.exitCode = CHECK_EXIT_CODES.stale;
+      } else {
+        console.log(chalk.green('✅ CLAUDE.md is up to date'));
+      }
+
+    } catch (error) {
+      console.error(chalk.red('Error checking CLAUDE.md:'), error);
+      process.exitCode = CHECK_EXIT_CODES.error;
+    }
+  }
+
+  /**
+   * Describe each input that changed since CLAUDE.md was generated
+   */
+  private formatDrift(drift: FingerprintDrift): string[] {
+    const lines: string[] = [];
+
+    if (drift.franken) {
+      lines.push(chalk.yellow(`  • FrankenAI ${drift.franken.from} → ${drift.franken.to}`));
+    }
+    drift.modulesAdded.forEach(id => lines.push(chalk.yellow(`  • Module added: ${id}`)));
+    drift.modulesRemoved.forEach(id => lines.push(chalk.yellow(`  • Module removed: ${id}`)));
+    drift.versionsChanged.forEach(change =>
+      lines.push(chalk.yellow(`  • ${change.module} ${change.from} → ${change.to}`))
+    );
+    if (drift.guidelinesChanged) {
+      lines.push(chalk.yellow('  • Guideline content changed'));
+    }
+    drift.editedSections.forEach(name => lines.push(chalk.red(`  • Section edited by hand: ${name}`)));
+
+    return lines;
+  }
+}
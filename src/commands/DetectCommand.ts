@@ -1,12 +1,16 @@
 import chalk from 'chalk';
 import Table from 'cli-table3';
 import { StackDetector } from '../core/StackDetector.js';
+import type { DetectionCacheStats } from '../core/DetectionCache.js';
+import type { EvidenceContribution, ModuleDetection } from '../core/types/Module.js';
 import type { BaseCommand, CommandSignature } from '../core/types/Command.js';
 import type { Command } from 'commander';
 
 export interface DetectOptions {
   verbose?: boolean;
   json?: boolean;
+  cache?: boolean;  // false with --no-cache
+  explain?: string; // Module id
 }
 
 export class DetectCommand implements BaseCommand {
@@ -21,7 +25,8 @@ export class DetectCommand implements BaseCommand {
       usage: [
         'franken-ai detect',
         'franken-ai detect --verbose',
-        'franken-ai detect --json'
+        'franken-ai detect --json',
+        'franken-ai detect --explain tailwind'
       ],
       options: [
         {
@@ -31,6 +36,14 @@ export class DetectCommand implements BaseCommand {
         {
           flags: '--json',
           description: 'Output in JSON format'
+        },
+        {
+          flags: '--no-cache',
+          description: 'Ignore the detection cache in .franken/cache'
+        },
+        {
+          flags: '--explain <module>',
+          description: 'Show why a module was or was not detected'
         }
       ],
       help: `The detect command scans your project and displays what frameworks,
@@ -44,7 +57,9 @@ This is useful to:
 Examples:
   franken-ai detect           # Basic detection output
   franken-ai detect -v        # Show config files and evidence
-  franken-ai detect --json    # JSON output for scripts`
+  franken-ai detect --json    # JSON output for scripts
+  franken-ai detect --no-cache  # Rescan everything, ignoring .franken/cache
+  franken-ai detect --explain pest  # Evidence, confidence and exclusions of Pest`
     };
   }
 
@@ -57,6 +72,8 @@ Examples:
       .description('Detect and display project stack without writing files')
       .option('-v, --verbose', 'Show detailed detection information')
       .option('--json', 'Output in JSON format')
+      .option('--no-cache', 'Ignore the detection cache in .franken/cache')
+      .option('--explain <module>', 'Show why a module was or was not detected')
       .action((options: DetectOptions) => this.execute(options));
   }
 
@@ -68,7 +85,7 @@ Examples:
       console.log(chalk.bold('🔍 Detecting Project Stack...'));
       console.log();
 
-      const stackDetector = new StackDetector();
+      const stackDetector = new StackDetector(process.cwd(), { cache: options.cache });
       const detectedStack = await stackDetector.detect();
 
       // Check for Laravel Boost and display warning
@@ -76,12 +93,28 @@ Examples:
         this.displayBoostWarning();
       }
 
+      if (options.explain) {
+        const detection = detectedStack.detections?.find(candidate => candidate.module === options.explain);
+        if (!detection) {
+          console.error(chalk.red(`❌ Unknown module: ${options.explain}`));
+          process.exitCode = 1;
+          return;
+        }
+
+        if (options.json) {
+          console.log(JSON.stringify(detection, null, 2));
+        } else {
+          this.displayDetection(detection);
+        }
+        return;
+      }
+
       if (options.json) {
         console.log(JSON.stringify(detectedStack, null, 2));
         return;
       }
 
-      await this.displayStack(detectedStack, options.verbose || false);
+      await this.displayStack(detectedStack, options.verbose || false, stackDetector.getCacheStats());
 
     } catch (error) {
       console.error(chalk.red('Error detecting stack:'), error);
@@ -92,7 +125,7 @@ Examples:
   /**
    * Display detected stack in a readable format
    */
-  private async displayStack(stack: any, verbose: boolean): Promise<void> {
+  private async displayStack(stack: any, verbose: boolean, cacheStats?: DetectionCacheStats): Promise<void> {
     // Main stack information
     console.log(chalk.bold('📊 Detected Stack'));
 
@@ -118,9 +151,43 @@ Examples:
       stackTable.push(['Package Managers', stack.packageManagers.join(', ')]);
     }
 
+    if (stack.versions && Object.keys(stack.versions).length > 0) {
+      stackTable.push(['Versions', Object.entries(stack.versions).map(([id, version]) => `${id}@${version}`).join(', ')]);
+    }
+
     console.log(stackTable.toString());
     console.log();
 
+    // Workspace packages, each detected on its own
+    if (stack.packages && stack.packages.length > 0) {
+      const tools = stack.workspaceTools?.length ? ` (${stack.workspaceTools.join(', ')})` : '';
+      console.log(chalk.bold(`📦 Workspace Packages${tools}`));
+
+      const packagesTable = new Table({
+        head: ['Package', 'Path', 'Stack'],
+        style: {
+          head: ['cyan'],
+          border: ['grey']
+        }
+      });
+
+      for (const { name, path, stack: packageStack } of stack.packages) {
+        const technologies = [...packageStack.frameworks, ...packageStack.languages];
+        packagesTable.push([name, `${path}/`, technologies.join(', ') || 'Generic']);
+      }
+
+      console.log(packagesTable.toString());
+      console.log();
+    }
+
+    // Versioned guidelines falling back to another version
+    if (stack.guidelineWarnings && stack.guidelineWarnings.length > 0) {
+      for (const warning of stack.guidelineWarnings) {
+        console.log(chalk.yellow(`⚠️  ${warning}`));
+      }
+      console.log();
+    }
+
     // Commands available
     if (stack.commands && this.hasCommands(stack.commands)) {
       console.log(chalk.bold('🚀 Available Commands'));
@@ -177,6 +244,7 @@ Examples:
 
       detailsTable.push(['Project Root', process.cwd()]);
       detailsTable.push(['Detection Time', new Date().toLocaleTimeString()]);
+      detailsTable.push(['Detection Cache', this.formatCacheStats(cacheStats)]);
 
       console.log(detailsTable.toString());
       console.log();
@@ -187,11 +255,13 @@ Examples:
     const frameworkCount = stack.frameworks ? stack.frameworks.length : 0;
     const languageCount = stack.languages ? stack.languages.length : 0;
     const pmCount = stack.packageManagers ? stack.packageManagers.length : 0;
+    const packageCount = stack.packages ? stack.packages.length : 0;
 
-    console.log(`   ${frameworkCount} framework(s), ${languageCount} language(s), ${pmCount} package manager(s)`);
+    console.log(`   ${frameworkCount} framework(s), ${languageCount} language(s), ${pmCount} package manager(s)` +
+                (packageCount > 0 ? `, ${packageCount} workspace package(s)` : ''));
     console.log(`   Runtime: ${stack.runtime || 'generic'}`);
 
-    if (frameworkCount === 0 && languageCount === 0) {
+    if (frameworkCount === 0 && languageCount === 0 && packageCount === 0) {
       console.log(chalk.yellow('\n   ⚠️  No specific frameworks or languages detected'));
       console.log(chalk.dim('   Make sure package.json, composer.json, or other config files are present'));
     } else {
@@ -199,6 +269,72 @@ Examples:
     }
   }
 
+  /**
+   * Explain a module's detection: evidence with its confidence contribution, threshold and exclusions
+   */
+  private displayDetection(detection: ModuleDetection): void {
+    console.log(chalk.bold(`🔎 Detection of ${detection.module}`));
+    console.log();
+
+    if (detection.disabled) {
+      console.log(chalk.yellow('   ⚠️  Disabled in franken.config.json, detection did not run'));
+      return;
+    }
+
+    if (detection.error) {
+      console.log(chalk.red(`   ❌ Detection failed: ${detection.error}`));
+      return;
+    }
+
+    if (detection.evidence.length > 0) {
+      const evidenceTable = new Table({
+        head: ['Evidence', 'Confidence'],
+        style: {
+          head: ['cyan'],
+          border: ['grey']
+        }
+      });
+
+      for (const contribution of detection.evidence) {
+        evidenceTable.push([contribution.evidence, this.formatContribution(contribution)]);
+      }
+
+      console.log(evidenceTable.toString());
+    } else {
+      console.log(chalk.dim('   No evidence found'));
+    }
+    console.log();
+
+    const threshold = detection.threshold
+      ? ` (needs ${detection.threshold.inclusive ? '>=' : '>'} ${detection.threshold.minimum})`
+      : '';
+    console.log(`   Confidence: ${detection.confidence.toFixed(2)}${threshold}`);
+
+    if (detection.excludes) {
+      console.log(`   Excludes: ${detection.excludes.join(', ')}`);
+    }
+
+    if (detection.excludedBy && detection.excludedBy.length > 0) {
+      const outcome = detection.configured ? 'kept, enabled in franken.config.json' : 'not included';
+      console.log(chalk.yellow(`\n   ⚠️  Detected, but excluded by ${detection.excludedBy.join(', ')} (${outcome})`));
+    } else if (detection.configured) {
+      console.log(chalk.green('\n   ✅ Enabled in franken.config.json'));
+    } else if (detection.detected) {
+      console.log(chalk.green('\n   ✅ Detected'));
+    } else {
+      console.log(chalk.yellow('\n   ⚠️  Not detected, the confidence is below the threshold'));
+    }
+  }
+
+  /**
+   * Confidence contribution of an evidence item: '+0.70', '×0.50' or '-' for informative evidence
+   */
+  private formatContribution(contribution: EvidenceContribution): string {
+    if (contribution.factor !== undefined) return `×${contribution.factor.toFixed(2)}`;
+    if (contribution.confidence !== undefined) return `+${contribution.confidence.toFixed(2)}`;
+    return chalk.dim('-');
+  }
+
   /**
    * Display Laravel Boost priority warning
    */
@@ -222,4 +358,14 @@ Examples:
        (commands.test && commands.test.length > 0) ||
        (commands.lint && commands.lint.length > 0));
   }
+
+  /**
+   * Describe what detection reused from .franken/cache
+   */
+  private formatCacheStats(stats?: DetectionCacheStats): string {
+    if (!stats) return 'disabled (--no-cache)';
+
+    const directories = `${stats.directoriesScanned} directories scanned, ${stats.directoriesReused} reused`;
+    return `${stats.stackReused ? 'stack reused' : 'stack detected'}, ${directories}`;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,116 @@
+import chalk from 'chalk';
+import { StackDetector } from '../core/StackDetector.js';
+import { ConfigLoader } from '../core/ConfigLoader.js';
+import { ContentDiff } from '../core/ContentDiff.js';
+import { OutputWriterRegistry, DEFAULT_TARGETS } from '../core/OutputWriterRegistry.js';
+import { InitCommand } from './InitCommand.js';
+import type { BaseCommand, CommandSignature } from '../core/types/Command.js';
+import type { Command } from 'commander';
+
+export interface DiffOptions {
+  target?: string;
+  overwrite?: boolean;
+  cache?: boolean;  // false with --no-cache
+}
+
+export class DiffCommand implements BaseCommand {
+  /**
+   * Get command signature metadata
+   */
+  getSignature(): CommandSignature {
+    return {
+      name: 'diff',
+      description: 'Show what init would change in CLAUDE.md and other generated files',
+      category: 'Setup',
+      usage: [
+        'franken-ai diff',
+        'franken-ai diff --target claude',
+        'franken-ai diff --overwrite'
+      ],
+      options: [
+        {
+          flags: '-t, --target <targets>',
+          description: 'Files to compare, comma-separated (same targets as init)'
+        },
+        {
+          flags: '--overwrite',
+          description: 'Compare against a full replacement instead of a merge'
+        },
+        {
+          flags: '--no-cache',
+          description: 'Ignore the detection cache in .franken/cache'
+        }
+      ],
+      help: `Detect the stack, render the files 'init' would write and print a coloured
+unified diff against the files on disk. Only the detection cache in
+.franken/cache is updated (--no-cache leaves it untouched).
+
+Each FrankenAI section is reported as added, removed, changed or unchanged.
+
+Exit codes:
+  0  Files are up to date
+  1  Changes are pending (or an error occurred)
+
+Examples:
+  franken-ai diff                     # Compare all configured targets
+  franken-ai diff -t claude           # Only compare CLAUDE.md
+  franken-ai diff || echo "Run: franken-ai init --force"`
+    };
+  }
+
+  /**
+   * Configure the command
+   */
+  configure(program: Command): void {
+    const signature = this.getSignature();
+
+    const cmd = program
+      .command(signature.name)
+      .description(signature.description);
+
+    signature.options?.forEach(opt => {
+      cmd.option(opt.flags, opt.description, opt.defaultValue);
+    });
+
+    cmd.action((options: DiffOptions) => this.execute(options));
+  }
+
+  /**
+   * Execute the diff command
+   */
+  async execute(options: DiffOptions): Promise<void> {
+    try {
+      const config = await ConfigLoader.load();
+      const registry = new OutputWriterRegistry();
+      const { writers, unknown } = registry.resolve(options.target?.split(',') ?? config.targets ?? DEFAULT_TARGETS);
+
+      if (unknown.length > 0 || writers.length === 0) {
+        console.error(chalk.red(`❌ Unknown target: ${unknown.join(', ') || '(none)'}`));
+        console.error(chalk.gray(`   Available targets: ${registry.getTargets().join(', ')}`));
+        process.exitCode = 1;
+        return;
+      }
+
+      const stack = await new StackDetector(process.cwd(), { cache: options.cache }).detect();
+      const { files } = await new InitCommand().renderWorkspace(stack, writers, options.overwrite);
+
+      const results = files.map(file => ContentDiff.compare(file.path, file.current, file.content));
+      for (const result of results) {
+        ContentDiff.formatReport(result).forEach(line => console.log(line));
+        console.log();
+      }
+
+      const changed = results.filter(result => result.hasChanges).length;
+      if (changed > 0) {
+        console.log(chalk.yellow(`🔄 ${changed} file${changed > 1 ? 's' : ''} would change. Run: franken-ai init --force`));
+        process.exitCode = 1;
+      } else {
+        console.log(chalk.green('✅ Everything is up to date'));
+      }
+
+    } catch (error) {
+      console.error(chalk.red('Error computing diff:'), error);
+      process.exit(1);
+    }
+  }
+}
@@ -0,0 +1,265 @@
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import Table from 'cli-table3';
+import { StackDetector } from '../core/StackDetector.js';
+import { GuidelineManager, type AvailableGuideline, type GuidelineContext } from '../core/GuidelineManager.js';
+import { InitCommand } from './InitCommand.js';
+import type { BaseCommand, CommandSignature } from '../core/types/Command.js';
+import type { Command } from 'commander';
+
+export interface GuidelinesOptions {
+  json?: boolean;
+  cache?: boolean;  // false with --no-cache
+}
+
+export type GuidelinesAction = 'list' | 'show' | 'search';
+
+/**
+ * A line of a guideline file matching a search term
+ */
+interface GuidelineMatch {
+  path: string;
+  module?: string;
+  line: number;
+  text: string;
+}
+
+export class GuidelinesCommand implements BaseCommand {
+  /**
+   * Get command signature metadata
+   */
+  getSignature(): CommandSignature {
+    return {
+      name: 'guidelines',
+      description: 'List, show and search the bundled guidelines',
+      category: 'Module Management',
+      usage: [
+        'franken-ai guidelines list',
+        'franken-ai guidelines show laravel@11',
+        'franken-ai guidelines search "server components"'
+      ],
+      options: [
+        {
+          flags: '--json',
+          description: 'Output in JSON format'
+        }
+      ],
+      help: `Browse the guidelines FrankenAI can write into CLAUDE.md.
+
+Subcommands:
+  list              Every module, common and combination guideline, with whether
+                    it applies to this project
+  show <module>     The guidelines of a module as they would be generated here
+                    (version, templates and project overrides resolved). Use
+                    <module>@<version> for another version than the detected one.
+  search <term>     Case-insensitive search across all guideline files
+
+Examples:
+  franken-ai guidelines list --json
+  franken-ai guidelines show react@19
+  franken-ai guidelines search useEffect`
+    };
+  }
+
+  /**
+   * Configure the command
+   */
+  configure(program: Command): void {
+    const signature = this.getSignature();
+    const guidelines = program
+      .command(signature.name)
+      .description(signature.description);
+
+    guidelines
+      .command('list')
+      .description('List all guidelines and whether they apply to this project')
+      .option('--json', 'Output in JSON format')
+      .option('--no-cache', 'Ignore the detection cache in .franken/cache')
+      .action((options: GuidelinesOptions) => this.execute('list', undefined, options));
+
+    guidelines
+      .command('show <module>')
+      .description('Print the resolved guidelines of a module (<module>[@version])')
+      .option('--json', 'Output in JSON format')
+      .option('--no-cache', 'Ignore the detection cache in .franken/cache')
+      .action((module: string, options: GuidelinesOptions) => this.execute('show', module, options));
+
+    guidelines
+      .command('search <term>')
+      .description('Search all guideline files')
+      .option('--json', 'Output in JSON format')
+      .action((term: string, options: GuidelinesOptions) => this.execute('search', term, options));
+  }
+
+  /**
+   * Execute a guidelines subcommand
+   */
+  async execute(action: GuidelinesAction, argument: string | undefined, options: GuidelinesOptions = {}): Promise<void> {
+    try {
+      const guidelineManager = new GuidelineManager();
+
+      switch (action) {
+        case 'list':
+          await this.list(guidelineManager, options);
+          break;
+        case 'show':
+          await this.show(guidelineManager, argument ?? '', options);
+          break;
+        case 'search':
+          await this.search(guidelineManager, argument ?? '', options);
+          break;
+      }
+
+    } catch (error) {
+      console.error(chalk.red('Error reading guidelines:'), error);
+      process.exit(1);
+    }
+  }
+
+  /**
+   * List every guideline, marking those generated for the current project
+   */
+  private async list(guidelineManager: GuidelineManager, options: GuidelinesOptions): Promise<void> {
+    const available = await guidelineManager.listAvailableGuidelines();
+    const applied = new Set((await guidelineManager.collectGuidelines(await this.createContext(options))).map(g => g.path));
+    const guidelines = available.map(guideline => ({ ...guideline, applies: applied.has(guideline.path) }));
+
+    if (options.json) {
+      console.log(JSON.stringify({
+        guidelines: guidelines.map(({ file: _file, ...guideline }) => guideline)
+      }, null, 2));
+      return;
+    }
+
+    const table = new Table({
+      head: ['Guideline', 'Module', 'Version', 'Category', 'Applies'],
+      style: {
+        head: ['cyan'],
+        border: ['grey']
+      }
+    });
+
+    guidelines.forEach(guideline => {
+      table.push([
+        guideline.path,
+        this.formatSource(guideline),
+        guideline.version ?? '',
+        guideline.category,
+        guideline.applies ? chalk.green('✓') : chalk.gray('-')
+      ]);
+    });
+
+    console.log(chalk.bold('\n📚 Guidelines'));
+    console.log(table.toString());
+    console.log(chalk.dim(`\n${guidelines.filter(g => g.applies).length}/${guidelines.length} guidelines apply to this project`));
+  }
+
+  /**
+   * Print the resolved guidelines of a module
+   */
+  private async show(guidelineManager: GuidelineManager, target: string, options: GuidelinesOptions): Promise<void> {
+    const [moduleId, version] = target.split('@');
+    const context = await this.createContext(options);
+    if (version) {
+      context.versions = new Map(context.versions).set(moduleId, version);
+    }
+
+    const guidelines = await guidelineManager.collectModuleGuidelines(moduleId, context);
+
+    if (!guidelines) {
+      console.error(chalk.red(`❌ Unknown module: ${moduleId}. Run: franken-ai modules`));
+      process.exitCode = 1;
+      return;
+    }
+
+    const resolvedVersion = context.versions?.get(moduleId);
+
+    if (options.json) {
+      console.log(JSON.stringify({
+        module: moduleId,
+        version: resolvedVersion ?? null,
+        guidelines: guidelines.map(guideline => ({
+          path: guideline.path,
+          category: guideline.category,
+          priority: guideline.priority,
+          audience: guideline.audience,
+          content: guideline.content,
+          ...(guideline.pack ? { pack: guideline.pack } : {}),
+          ...(guideline.overrides ? { overrides: guideline.overrides } : {})
+        }))
+      }, null, 2));
+      return;
+    }
+
+    if (guidelines.length === 0) {
+      console.log(chalk.yellow(`No guidelines for ${target}`));
+      return;
+    }
+
+    console.log(chalk.bold(`📖 ${moduleId}${resolvedVersion ? ` ${resolvedVersion}` : ''} guidelines`));
+    for (const guideline of guidelines) {
+      const origin = guideline.overrides?.join(', ') ?? guideline.pack;
+      console.log();
+      console.log(chalk.cyan(`── ${guideline.path} (${guideline.category}, ${guideline.audience})${origin ? ` ← ${origin}` : ''}`));
+      console.log();
+      console.log(guideline.content.trim());
+    }
+  }
+
+  /**
+   * Search the guideline files line by line (case-insensitive)
+   */
+  private async search(guidelineManager: GuidelineManager, term: string, options: GuidelinesOptions): Promise<void> {
+    if (!term.trim()) {
+      console.error(chalk.red('❌ Search term cannot be empty'));
+      process.exitCode = 1;
+      return;
+    }
+
+    const matches: GuidelineMatch[] = [];
+    const needle = term.toLowerCase();
+
+    for (const guideline of await guidelineManager.listAvailableGuidelines()) {
+      const lines = (await fs.readFile(guideline.file, 'utf-8')).split('\n');
+      lines.forEach((text, index) => {
+        if (text.toLowerCase().includes(needle)) {
+          matches.push({ path: guideline.path, module: guideline.module, line: index + 1, text: text.trim() });
+        }
+      });
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify({ term, matches }, null, 2));
+      return;
+    }
+
+    if (matches.length === 0) {
+      console.log(chalk.yellow(`No guidelines mention "${term}"`));
+      return;
+    }
+
+    const pattern = new RegExp(term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
+    for (const match of matches) {
+      console.log(`${chalk.cyan(match.path)}${chalk.gray(`:${match.line}`)}  ${match.text.replace(pattern, found => chalk.yellow(found))}`);
+    }
+
+    const files = new Set(matches.map(match => match.path)).size;
+    console.log(chalk.dim(`\n${matches.length} matches in ${files} guidelines`));
+  }
+
+  /**
+   * Guideline context for the project in the current directory
+   */
+  private async createContext(options: GuidelinesOptions): Promise<GuidelineContext> {
+    const stack = await new StackDetector(process.cwd(), { cache: options.cache }).detect();
+    return new InitCommand().createGuidelineContext(stack);
+  }
+
+  /**
+   * Module column: the module id, or where a shared guideline comes from
+   */
+  private formatSource(guideline: AvailableGuideline): string {
+    if (guideline.module) return guideline.module;
+    return chalk.gray(guideline.source);
+  }
+}
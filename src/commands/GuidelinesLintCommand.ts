@@ -0,0 +1,108 @@
+import chalk from 'chalk';
+import { GuidelineLinter, type GuidelineLintIssue } from '../core/GuidelineLinter.js';
+import type { BaseCommand, CommandSignature } from '../core/types/Command.js';
+import type { Command } from 'commander';
+
+export interface GuidelinesLintOptions {
+  json?: boolean;
+}
+
+export class GuidelinesLintCommand implements BaseCommand {
+  /**
+   * Get command signature metadata
+   */
+  getSignature(): CommandSignature {
+    return {
+      name: 'guidelines:lint',
+      description: 'Check module guidelines for missing files and malformed markdown',
+      category: 'Module Management',
+      usage: [
+        'franken-ai guidelines:lint',
+        'franken-ai guidelines:lint react laravel',
+        'franken-ai guidelines:lint --json'
+      ],
+      options: [
+        {
+          flags: '--json',
+          description: 'Output in JSON format'
+        }
+      ],
+      help: `Validate the guidelines of the modules under src/modules.
+
+Errors (exit code 1):
+  - getGuidelinePaths() returns a file that does not exist
+  - unclosed code fences
+  - malformed front-matter, template or optional blocks
+
+Warnings:
+  - supported versions without a guidelines/<version>/ directory
+  - version-specific files that do not exist (the version falls back
+    to the unversioned guidelines)
+  - files without, or with several, top-level headings
+
+Examples:
+  franken-ai guidelines:lint
+  franken-ai guidelines:lint inertia --json`
+    };
+  }
+
+  /**
+   * Configure the command
+   */
+  configure(program: Command): void {
+    const signature = this.getSignature();
+    program
+      .command(signature.name)
+      .description(signature.description)
+      .argument('[modules...]', 'Only lint these modules')
+      .option('--json', 'Output in JSON format')
+      .action((modules: string[], options: GuidelinesLintOptions) => this.execute(modules, options));
+  }
+
+  /**
+   * Execute the lint
+   */
+  async execute(moduleIds: string[] = [], options: GuidelinesLintOptions = {}): Promise<void> {
+    try {
+      const issues = await GuidelineLinter.lintAll(moduleIds.length > 0 ? moduleIds : undefined);
+      const errors = issues.filter(issue => issue.severity === 'error').length;
+      const warnings = issues.length - errors;
+
+      if (errors > 0) {
+        process.exitCode = 1;
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify({ errors, warnings, issues }, null, 2));
+        return;
+      }
+
+      if (issues.length === 0) {
+        console.log(chalk.green('✅ All guidelines are valid'));
+        return;
+      }
+
+      for (const [file, fileIssues] of GuidelineLinter.groupByFile(issues)) {
+        console.log(chalk.bold.underline(file));
+        fileIssues.forEach(issue => console.log(`  ${this.formatIssue(issue)}`));
+        console.log();
+      }
+
+      const summary = `${errors} ${errors === 1 ? 'error' : 'errors'}, ${warnings} ${warnings === 1 ? 'warning' : 'warnings'}`;
+      console.log(errors > 0 ? chalk.red(`❌ ${summary}`) : chalk.yellow(`⚠️  ${summary}`));
+
+    } catch (error) {
+      console.error(chalk.red('Error linting guidelines:'), error);
+      process.exit(1);
+    }
+  }
+
+  /**
+   * One issue line: severity, location, message and rule
+   */
+  private formatIssue(issue: GuidelineLintIssue): string {
+    const severity = issue.severity === 'error' ? chalk.red('✖ error  ') : chalk.yellow('⚠ warning');
+    const line = issue.line !== undefined ? chalk.gray(`${issue.line}`.padEnd(5)) : ' '.repeat(5);
+    return `${line} ${severity}  ${issue.message}  ${chalk.gray(issue.rule)}`;
+  }
+}
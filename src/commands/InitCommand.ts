@@ -4,20 +4,41 @@ import inquirer from 'inquirer';
 import fs from 'fs-extra';
 import path from 'path';
 import { EnvironmentChecker } from '../core/EnvironmentChecker.js';
-import { StackDetector } from '../core/StackDetector.js';
-import { GuidelineManager, type GuidelineContext } from '../core/GuidelineManager.js';
+import { StackDetector, type DetectedStack } from '../core/StackDetector.js';
+import { GuidelineManager, type Guideline, type GuidelineContext } from '../core/GuidelineManager.js';
+import { ManagedSections } from '../core/ManagedSections.js';
+import { ConfigLoader, CONFIG_FILE, type FrankenConfig } from '../core/ConfigLoader.js';
+import { ContentDiff } from '../core/ContentDiff.js';
+import { Fingerprint } from '../core/Fingerprint.js';
+import { TokenBudget } from '../core/TokenBudget.js';
+import { OutputWriterRegistry, DEFAULT_TARGETS } from '../core/OutputWriterRegistry.js';
+import type { OutputWriter } from '../core/types/OutputWriter.js';
 import type { BaseCommand, CommandSignature } from '../core/types/Command.js';
 import type { Command } from 'commander';
 
 export interface InitOptions {
   docs?: boolean;
   force?: boolean;
+  overwrite?: boolean;
   safe?: boolean;
   verbose?: boolean;
   quiet?: boolean;
   silent?: boolean;
   yes?: boolean;
   noInteraction?: boolean;
+  target?: string;
+  dryRun?: boolean;
+  maxTokens?: string;
+  cache?: boolean;  // false with --no-cache
+}
+
+/**
+ * A generated file and the content currently on disk
+ */
+export interface PendingFile {
+  path: string;
+  current: string | null; // null when the file does not exist yet
+  content: string | null; // What would be written (already merged unless overwriting), null when removed
 }
 
 export enum LogLevel {
@@ -30,6 +51,9 @@ export enum LogLevel {
 export class InitCommand implements BaseCommand {
   private logLevel: LogLevel = LogLevel.NORMAL;
   private isInteractive = true;
+  private writerRegistry = new OutputWriterRegistry();
+  private writers: OutputWriter[] = [];
+  private maxTokens: number | undefined;
 
   /**
    * Get command signature metadata
@@ -43,6 +67,10 @@ export class InitCommand implements BaseCommand {
         'franken-ai init',
         'franken-ai init --docs',
         'franken-ai init --force --verbose',
+        'franken-ai init --target claude',
+        'franken-ai init --target claude,agents,cursor',
+        'franken-ai init --dry-run',
+        'franken-ai init --max-tokens 8000',
         'franken-ai init --yes --no-interaction'
       ],
       options: [
@@ -52,7 +80,11 @@ export class InitCommand implements BaseCommand {
         },
         {
           flags: '-f, --force',
-          description: 'Force overwrite existing CLAUDE.md without asking'
+          description: 'Update existing CLAUDE.md without asking'
+        },
+        {
+          flags: '--overwrite',
+          description: 'Replace the whole CLAUDE.md, discarding content outside FrankenAI sections'
         },
         {
           flags: '--safe',
@@ -77,6 +109,22 @@ export class InitCommand implements BaseCommand {
         {
           flags: '--no-interaction',
           description: 'Non-interactive mode (fail if input needed)'
+        },
+        {
+          flags: '--dry-run',
+          description: 'Show a diff of the pending changes without writing files'
+        },
+        {
+          flags: '--max-tokens <tokens>',
+          description: 'Trim guidelines so each generated file fits in this many tokens'
+        },
+        {
+          flags: '--no-cache',
+          description: 'Ignore the detection cache in .franken/cache'
+        },
+        {
+          flags: '-t, --target <targets>',
+          description: 'Assistants to generate files for, comma-separated (claude, gemini, agents, cursor, copilot, windsurf)'
         }
       ],
       help: `Initialize FrankenAI configuration in your current project.
@@ -86,25 +134,47 @@ creates an enhanced CLAUDE.md file with framework-specific guidelines and
 AI workflow configurations.
 
 The init process:
-1. Checks for existing CLAUDE.md (prompts for overwrite if needed)
+1. Checks for existing CLAUDE.md (prompts before updating it)
 2. Verifies Claude Code and Gemini CLI installation
 3. Detects your project stack (React, Laravel, etc.)
 4. Generates optimized CLAUDE.md with relevant guidelines
-5. Configures hybrid Claude Code + Gemini CLI workflow
+5. Generates GEMINI.md with the stack summary and analysis guidelines
+6. Configures hybrid Claude Code + Gemini CLI workflow
+
+An existing CLAUDE.md is merged, not replaced: FrankenAI only rewrites the
+blocks between its [//]: # (franken-ai:<section>:start/end) markers and keeps
+everything else you wrote. Use --overwrite to replace the whole file.
 
 Options combinations:
-  --force          Overwrite existing files without prompting
+  --force          Update existing files without prompting
+  --overwrite      Discard hand-written content outside FrankenAI sections
   --safe           Fail if CLAUDE.md exists (good for CI/CD)
   --yes            Auto-accept all prompts (non-destructive)
   --no-interaction Fail if any user input needed (CI/CD mode)
   --verbose        Show detailed detection and generation logs
   --quiet          Only show warnings and errors
   --silent         Minimal output for automation
+  --dry-run        Show a unified diff per file instead of writing
+  --no-cache       Rescan the project instead of reusing .franken/cache
+  --max-tokens     Token budget per generated file (default: "maxTokens" from
+                   franken.config.json). Optional blocks go first, then code
+                   examples, then whole guidelines, lowest priority first
+  --target         Assistants to generate files for (default: "targets" from
+                   franken.config.json, or claude,gemini):
+                     claude    CLAUDE.md
+                     gemini    GEMINI.md
+                     agents    AGENTS.md
+                     cursor    .cursor/rules/*.mdc
+                     copilot   .github/copilot-instructions.md
+                     windsurf  .windsurfrules
 
 Examples:
   franken-ai init                    # Interactive setup
-  franken-ai init --force --verbose # Overwrite with detailed logs
+  franken-ai init --force --verbose # Update with detailed logs
   franken-ai init --yes --docs       # Auto-accept, include docs
+  franken-ai init --target claude    # Only generate CLAUDE.md
+  franken-ai init -t claude,cursor   # CLAUDE.md and Cursor rules
+  franken-ai init --dry-run          # Preview changes to CLAUDE.md
   franken-ai init --no-interaction   # CI/CD mode (fails on conflicts)`
     };
   }
@@ -132,10 +202,41 @@ Examples:
     // Setup logging and interaction levels
     this.setupLogLevel(options);
     this.isInteractive = !options.noInteraction;
-    
+
+    let config: FrankenConfig;
+    try {
+      config = await ConfigLoader.load();
+    } catch (error) {
+      this.logError(chalk.red(`❌ ${(error as Error).message}`));
+      process.exitCode = 1;
+      return;
+    }
+
+    if (options.maxTokens !== undefined) {
+      const maxTokens = Number(options.maxTokens);
+      if (!ConfigLoader.isTokenBudget(maxTokens)) {
+        this.logError(chalk.red(`❌ --max-tokens must be a positive integer (got "${options.maxTokens}")`));
+        process.exitCode = 1;
+        return;
+      }
+      this.maxTokens = maxTokens;
+    }
+
+    const writers = this.resolveWriters(options.target?.split(',') ?? config.targets ?? DEFAULT_TARGETS);
+    if (!writers) {
+      return;
+    }
+    this.writers = writers;
+
     this.log(LogLevel.NORMAL, chalk.green.bold('🧟 FrankenAI Initialization'));
     this.log(LogLevel.NORMAL, chalk.gray('Multi-headed AI development assistant\n'));
 
+    // Dry run: show what would change without prompting or writing anything
+    if (options.dryRun) {
+      await this.previewWorkspace(await this.detectStack(options), options);
+      return;
+    }
+
     // Step 1: Check for existing CLAUDE.md and handle conflicts
     const shouldProceed = await this.checkExistingSetup(options);
     if (!shouldProceed) {
@@ -154,7 +255,7 @@ Examples:
     }
 
     // Step 4: Stack Detection
-    const stack = await this.detectStack();
+    const stack = await this.detectStack(options);
 
     // Check for Laravel Boost and display warning
     if (stack.frameworks && stack.frameworks.includes('laravel-boost')) {
@@ -164,7 +265,7 @@ Examples:
     // Step 5: Template Selection (now automatic based on stack)
     await this.selectTemplates(stack, toolStatus, options);
 
-    // Step 6: Generate Enhanced CLAUDE.md (our main value)
+    // Step 6: Generate Enhanced CLAUDE.md (our main value) and GEMINI.md
     await this.generateWorkspace(stack, options, toolStatus, null);
 
     this.log(LogLevel.NORMAL, chalk.green.bold('\n✅ FrankenAI setup complete!'));
@@ -172,6 +273,9 @@ Examples:
     this.log(LogLevel.NORMAL, chalk.cyan('   • Launch Claude Code in this directory'));
     this.log(LogLevel.NORMAL, chalk.cyan('   • Claude will auto-detect and use your enhanced CLAUDE.md'));
     this.log(LogLevel.NORMAL, chalk.cyan('   • Use: gemini -p "@src/ Analyze this codebase" for large analysis'));
+    if (this.hasTarget('gemini')) {
+      this.log(LogLevel.NORMAL, chalk.cyan('   • Gemini CLI will pick up the analysis guidelines from GEMINI.md'));
+    }
   }
 
   private setupLogLevel(options: InitOptions) {
@@ -186,6 +290,23 @@ Examples:
     }
   }
 
+  private resolveWriters(targets: string[]): OutputWriter[] | null {
+    const { writers, unknown } = this.writerRegistry.resolve(targets);
+
+    if (unknown.length > 0 || writers.length === 0) {
+      this.logError(chalk.red(`❌ Unknown target: ${unknown.join(', ') || '(none)'}`));
+      this.logError(chalk.gray(`   Available targets: ${this.writerRegistry.getTargets().join(', ')}`));
+      process.exitCode = 1;
+      return null;
+    }
+
+    return writers;
+  }
+
+  private hasTarget(target: string): boolean {
+    return this.writers.some(writer => writer.id === target);
+  }
+
   private log(level: LogLevel, message: string) {
     if (this.logLevel >= level) {
       console.log(message);
@@ -207,6 +328,10 @@ Examples:
   }
 
   private async checkExistingSetup(options: InitOptions): Promise<boolean> {
+    if (!this.hasTarget('claude')) {
+      return true; // Other context files are always merged
+    }
+
     const spinner = this.logLevel >= LogLevel.QUIET ? ora('🔍 Checking existing setup...').start() : null;
 
     try {
@@ -220,7 +345,8 @@ Examples:
 
       // Check if it has FrankenAI configuration
       const content = await fs.readFile(claudeMdPath, 'utf-8');
-      const hasFrankenAI = content.includes('# FrankenAI Configuration');
+      const hasFrankenAI = content.includes('# FrankenAI Configuration') ||
+        ManagedSections.list(content).length > 0;
 
       // STOP spinner before any user interaction
       spinner?.stop();
@@ -238,7 +364,9 @@ Examples:
 
   private async handleExistingFile(options: InitOptions, hasFrankenAI: boolean): Promise<boolean> {
     if (options.force) {
-      if (hasFrankenAI) {
+      if (options.overwrite) {
+        this.log(LogLevel.NORMAL, chalk.yellow('🔄 CLAUDE.md exists - replacing it (--overwrite)...'));
+      } else if (hasFrankenAI) {
         this.log(LogLevel.NORMAL, chalk.yellow('🔄 CLAUDE.md exists with FrankenAI config - updating...'));
       } else {
         this.log(LogLevel.NORMAL, chalk.yellow('🔄 CLAUDE.md exists - adding FrankenAI config...'));
@@ -439,11 +567,11 @@ Examples:
     return icons[category as keyof typeof icons] || '📄';
   }
 
-  private async detectStack() {
+  private async detectStack(options: InitOptions) {
     this.log(LogLevel.NORMAL, chalk.blue('🔍 Detecting project stack...'));
     
     try {
-      const detector = new StackDetector();
+      const detector = new StackDetector(process.cwd(), { cache: options.cache });
       const stack = await detector.detect();
       
       if (stack.frameworks.length > 0) {
@@ -464,40 +592,24 @@ Examples:
   }
 
 
-  private async generateWorkspace(stack: any, _options: InitOptions, _toolStatus: any, _selectedTemplates: any) {
-    this.log(LogLevel.NORMAL, chalk.blue('📝 Generating enhanced CLAUDE.md...'));
+  private async generateWorkspace(stack: any, options: InitOptions, _toolStatus: any, _selectedTemplates: any) {
+    this.log(LogLevel.NORMAL, chalk.blue(`📝 Generating ${this.writers.map(writer => writer.label).join(', ')}...`));
 
     try {
-      // Detect versions for context
-      const context: GuidelineContext = {
-        stack,
-        phpVersion: await this.detectPHPVersion(),
-        laravelVersion: await this.detectLaravelVersion(),
-        vueVersion: await this.detectVueVersion(),
-        reactVersion: await this.detectReactVersion(),
-        nextVersion: await this.detectNextVersion(),
-        nuxtVersion: await this.detectNuxtVersion(),
-        svelteVersion: await this.detectSvelteVersion(),
-        svelteKitVersion: await this.detectSvelteKitVersion(),
-      };
-
-      // Use the new GuidelineManager
-      const guidelineManager = new GuidelineManager();
-      const guidelines = await guidelineManager.collectGuidelines(context);
-
-      if (this.logLevel >= LogLevel.VERBOSE && guidelines.length > 0) {
-        this.log(LogLevel.VERBOSE, chalk.gray('Collected guidelines:'));
-        guidelines.forEach(guideline => {
-          this.log(LogLevel.VERBOSE, chalk.gray(`   • ${guideline.path} (${guideline.category})`));
-        });
-      }
-
-      // Generate and write the CLAUDE.md content
-      const content = guidelineManager.generateClaudeContent(guidelines, context);
-      const claudeMdPath = path.join(process.cwd(), 'CLAUDE.md');
-      await fs.writeFile(claudeMdPath, content, 'utf-8');
+      const { files, guidelines } = await this.renderWorkspace(stack, this.writers, options.overwrite);
+
+      for (const file of files) {
+        const filePath = path.join(process.cwd(), file.path);
+        if (file.content === null) {
+          await fs.remove(filePath);
+          this.log(LogLevel.NORMAL, chalk.gray(`🗑️  Removed stale ${file.path}`));
+          continue;
+        }
 
-      this.log(LogLevel.NORMAL, chalk.green('✅ Enhanced CLAUDE.md generated'));
+        await fs.ensureDir(path.dirname(filePath));
+        await fs.writeFile(filePath, file.content, 'utf-8');
+        this.log(LogLevel.NORMAL, chalk.green(`✅ Enhanced ${file.path} generated`));
+      }
 
       // Show summary
       const categoryCounts = guidelines.reduce((acc, g) => {
@@ -514,154 +626,136 @@ Examples:
     }
   }
 
-  private formatCategory(category: string): string {
-    return category.charAt(0).toUpperCase() + category.slice(1);
-  }
+  /**
+   * Print the pending change of every file init would write, without writing
+   */
+  private async previewWorkspace(stack: DetectedStack, options: InitOptions): Promise<void> {
+    const { files } = await this.renderWorkspace(stack, this.writers, options.overwrite);
 
-  private async detectPHPVersion(): Promise<string | undefined> {
-    try {
-      const composerPath = path.join(process.cwd(), 'composer.json');
-      if (await fs.pathExists(composerPath)) {
-        const composer = await fs.readJson(composerPath);
-        const phpRequire = composer.require?.php;
-        if (phpRequire) {
-          // Extract version like "^8.3" -> "8.3"
-          const match = phpRequire.match(/(\d+\.\d+)/);
-          return match ? match[1] : undefined;
-        }
-      }
-    } catch (error) {
-      // Ignore errors
+    this.log(LogLevel.NORMAL, chalk.blue('\n🔎 Dry run - no files will be written\n'));
+
+    for (const file of files) {
+      const result = ContentDiff.compare(file.path, file.current, file.content);
+      ContentDiff.formatReport(result).forEach(line => this.log(LogLevel.NORMAL, line));
+      this.log(LogLevel.NORMAL, '');
     }
-    return undefined;
   }
 
-  private async detectLaravelVersion(): Promise<string | undefined> {
-    try {
-      const composerLockPath = path.join(process.cwd(), 'composer.lock');
-      if (await fs.pathExists(composerLockPath)) {
-        const composerLock = await fs.readJson(composerLockPath);
-        const laravelPackage = composerLock.packages?.find(
-          (pkg: any) => pkg.name === 'laravel/framework'
-        );
-        if (laravelPackage?.version) {
-          // Extract version like "v11.0.0" -> "11"
-          const match = laravelPackage.version.match(/v?(\d+)/);
-          return match ? match[1] : undefined;
-        }
+  /**
+   * Render the files the given writers would produce, merged into existing files
+   * (through the FrankenAI section markers) unless overwrite is set
+   */
+  async renderWorkspace(
+    stack: DetectedStack,
+    writers: OutputWriter[],
+    overwrite = false
+  ): Promise<{ files: PendingFile[]; guidelines: Guideline[] }> {
+    const { files, guidelines, context } = await this.renderProject(stack, writers, overwrite);
+
+    // Monorepos: each workspace package gets context files for its own stack
+    if (context.config?.workspaces?.nested !== false) {
+      for (const workspacePackage of stack.packages ?? []) {
+        this.log(LogLevel.VERBOSE, chalk.gray(`Rendering workspace package ${workspacePackage.name} (${workspacePackage.path}/)`));
+        files.push(...(await this.renderProject(workspacePackage.stack, writers, overwrite, workspacePackage.path)).files);
       }
-    } catch (error) {
-      // Ignore errors
     }
-    return undefined;
+
+    return { files, guidelines };
   }
 
-  private async detectVueVersion(): Promise<string | undefined> {
-    try {
-      const packagePath = path.join(process.cwd(), 'package.json');
-      if (await fs.pathExists(packagePath)) {
-        const packageJson = await fs.readJson(packagePath);
-        const vueVersion = packageJson.dependencies?.vue || packageJson.devDependencies?.vue;
-        if (vueVersion) {
-          // Extract version like "^3.4.0" -> "3"
-          const match = vueVersion.match(/(\d+)/);
-          return match ? match[1] : undefined;
-        }
-      }
-    } catch (error) {
-      // Ignore errors
+  /**
+   * Render the files of one project (the root, or a workspace package directory)
+   */
+  private async renderProject(
+    stack: DetectedStack,
+    writers: OutputWriter[],
+    overwrite: boolean,
+    directory = ''
+  ): Promise<{ files: PendingFile[]; guidelines: Guideline[]; context: GuidelineContext }> {
+    const context = await this.createGuidelineContext(stack);
+
+    // Use the new GuidelineManager
+    const guidelineManager = new GuidelineManager();
+    const { guidelines, reports } = guidelineManager.applyTokenBudget(
+      await guidelineManager.collectGuidelines(context),
+      context
+    );
+
+    for (const report of reports) {
+      TokenBudget.formatReport(report.file, report).forEach(line => this.log(LogLevel.NORMAL, line));
     }
-    return undefined;
-  }
 
-  private async detectReactVersion(): Promise<string | undefined> {
-    try {
-      const packagePath = path.join(process.cwd(), 'package.json');
-      if (await fs.pathExists(packagePath)) {
-        const packageJson = await fs.readJson(packagePath);
-        const reactVersion = packageJson.dependencies?.react || packageJson.devDependencies?.react;
-        if (reactVersion) {
-          // Extract version like "^18.2.0" -> "18"
-          const match = reactVersion.match(/(\d+)/);
-          return match ? match[1] : undefined;
-        }
-      }
-    } catch (error) {
-      // Ignore errors
+    if (this.logLevel >= LogLevel.VERBOSE && guidelines.length > 0) {
+      this.log(LogLevel.VERBOSE, chalk.gray('Collected guidelines:'));
+      guidelines.forEach(guideline => {
+        const pack = guideline.pack ? ` [${guideline.pack}]` : '';
+        const overrides = guideline.overrides ? ` ← ${guideline.overrides.join(', ')}` : '';
+        this.log(LogLevel.VERBOSE, chalk.gray(`   • ${guideline.path} (${guideline.category})${pack}${overrides}`));
+        guideline.duplicates?.forEach(merge => {
+          const label = merge.kind === 'section' ? `"${merge.label}"` : `code sample "${merge.label}"`;
+          this.log(LogLevel.VERBOSE, chalk.gray(`     ↳ merged duplicate ${label} into ${merge.keptIn}`));
+        });
+      });
     }
-    return undefined;
-  }
 
-  private async detectNextVersion(): Promise<string | undefined> {
-    try {
-      const packagePath = path.join(process.cwd(), 'package.json');
-      if (await fs.pathExists(packagePath)) {
-        const packageJson = await fs.readJson(packagePath);
-        const nextVersion = packageJson.dependencies?.next || packageJson.devDependencies?.next;
-        if (nextVersion) {
-          // Extract version like "^14.2.0" -> "14"
-          const match = nextVersion.match(/(\d+)/);
-          return match ? match[1] : undefined;
+    // Render every selected assistant's files from the same guidelines
+    const files: PendingFile[] = [];
+    for (const writer of writers) {
+      const rendered = writer.render({ guidelines, context, generator: guidelineManager });
+
+      for (const file of rendered) {
+        const relativePath = directory ? path.join(directory, file.path) : file.path;
+        const filePath = path.join(process.cwd(), relativePath);
+        const current = await fs.pathExists(filePath) ? await fs.readFile(filePath, 'utf-8') : null;
+        let content = file.content;
+
+        // Keep hand-written content unless a full overwrite was explicitly requested
+        if (current !== null && file.merge !== false && !overwrite) {
+          content = ManagedSections.merge(current, content);
+          this.log(LogLevel.VERBOSE, chalk.gray(`Merged FrankenAI sections into existing ${relativePath}`));
+
+          // The fingerprint lives outside the sections, carry it over explicitly
+          const fingerprint = Fingerprint.parse(file.content);
+          if (fingerprint) {
+            content = Fingerprint.embed(content, fingerprint);
+          }
         }
+
+        files.push({ path: relativePath, current, content });
       }
-    } catch (error) {
-      // Ignore errors
-    }
-    return undefined;
-  }
 
-  private async detectNuxtVersion(): Promise<string | undefined> {
-    try {
-      const packagePath = path.join(process.cwd(), 'package.json');
-      if (await fs.pathExists(packagePath)) {
-        const packageJson = await fs.readJson(packagePath);
-        const nuxtVersion = packageJson.dependencies?.nuxt || packageJson.devDependencies?.nuxt;
-        if (nuxtVersion) {
-          // Extract version like "^3.8.0" -> "3"
-          const match = nuxtVersion.match(/(\d+)/);
-          return match ? match[1] : undefined;
-        }
+      // Files the writer generated earlier but no longer renders (e.g. rules of modules no longer detected)
+      for (const file of await writer.findStale?.(path.join(process.cwd(), directory), rendered) ?? []) {
+        const relativePath = directory ? path.join(directory, file) : file;
+        const current = await fs.readFile(path.join(process.cwd(), relativePath), 'utf-8');
+        files.push({ path: relativePath, current, content: null });
       }
-    } catch (error) {
-      // Ignore errors
     }
-    return undefined;
+
+    return { files, guidelines, context };
   }
 
-  private async detectSvelteVersion(): Promise<string | undefined> {
-    try {
-      const packagePath = path.join(process.cwd(), 'package.json');
-      if (await fs.pathExists(packagePath)) {
-        const packageJson = await fs.readJson(packagePath);
-        const svelteVersion = packageJson.dependencies?.svelte || packageJson.devDependencies?.svelte;
-        if (svelteVersion) {
-          // Extract version like "^4.2.0" -> "4" or "^5.0.0" -> "5"
-          const match = svelteVersion.match(/(\d+)/);
-          return match ? match[1] : undefined;
-        }
-      }
-    } catch (error) {
-      // Ignore errors
+  /**
+   * Build the guideline context for a detected stack, including the module versions
+   * and the token budget (--max-tokens, else "maxTokens" from the config)
+   */
+  async createGuidelineContext(stack: DetectedStack, maxTokens = this.maxTokens): Promise<GuidelineContext> {
+    const config = await ConfigLoader.load();
+    const pinned = config.versions ?? {};
+
+    if (Object.keys(pinned).length > 0) {
+      const list = Object.entries(pinned).map(([id, version]) => `${id}@${version}`).join(', ');
+      this.log(LogLevel.VERBOSE, chalk.gray(`Pinned versions from ${CONFIG_FILE}: ${list}`));
     }
-    return undefined;
+
+    // Versions detected by the modules, overridden by the pinned ones
+    const versions = new Map(Object.entries({ ...stack.versions, ...pinned }));
+
+    return { stack, config, versions, maxTokens: maxTokens ?? config.maxTokens };
   }
 
-  private async detectSvelteKitVersion(): Promise<string | undefined> {
-    try {
-      const packagePath = path.join(process.cwd(), 'package.json');
-      if (await fs.pathExists(packagePath)) {
-        const packageJson = await fs.readJson(packagePath);
-        const svelteKitVersion = packageJson.dependencies?.['@sveltejs/kit'] || packageJson.devDependencies?.['@sveltejs/kit'];
-        if (svelteKitVersion) {
-          // Extract version like "^1.20.0" -> "1" or "^2.0.0" -> "2"
-          const match = svelteKitVersion.match(/(\d+)/);
-          return match ? match[1] : undefined;
-        }
-      }
-    } catch (error) {
-      // Ignore errors
-    }
-    return undefined;
+  private formatCategory(category: string): string {
+    return category.charAt(0).toUpperCase() + category.slice(1);
   }
 
   /**
@@ -3,6 +3,8 @@ import chalk from 'chalk';
 import Table from 'cli-table3';
 import { ModuleManager } from '../core/ModuleManager.js';
 import { ModuleRegistry } from '../core/ModuleRegistry.js';
+import { ConfigLoader } from '../core/ConfigLoader.js';
+import { PRIORITY_ORDER } from '../core/types/Module.js';
 import type { ModuleMetadata, ModulePriorityType } from '../core/types/Module.js';
 import type { BaseCommand, CommandSignature } from '../core/types/Command.js';
 
@@ -138,6 +140,7 @@ Output formats:
    */
   private async initializeModules(): Promise<void> {
     await this.moduleRegistry.discoverModules();
+    await this.moduleRegistry.loadFromConfig(ConfigLoader.getPath());
 
     for (const registration of this.moduleRegistry.getEnabledRegistrations()) {
       this.moduleManager.register(registration);
@@ -169,8 +172,8 @@ Output formats:
           metadata = await Promise.resolve(module.getMetadata());
           moduleType = module.type;
           priority = module.priorityType || 'base-lang';
-        } else if (registration.enabled) {
-          // Try to load the module to get metadata
+        } else {
+          // Load disabled modules too so they are listed with their metadata
           const moduleInstance = await Promise.resolve(registration.factory());
           metadata = await Promise.resolve(moduleInstance.getMetadata());
           moduleType = moduleInstance.type;
@@ -221,12 +224,11 @@ Output formats:
   private sortModules(modules: ModuleInfo[]): ModuleInfo[] {
     return modules.sort((a, b) => {
       // 1. Sort by loading priority (meta-framework -> framework -> specialized-lang -> base-lang)
-      const priorityOrder = { 'meta-framework': 0, 'framework': 1, 'css-framework': 2, 'laravel-tool': 3, 'specialized-lang': 4, 'base-lang': 5 };
-      const aPriorityValue = priorityOrder[a.priority || 'base-lang'];
-      const bPriorityValue = priorityOrder[b.priority || 'base-lang'];
+      const aPriorityValue = PRIORITY_ORDER[a.priority || 'base-lang'];
+      const bPriorityValue = PRIORITY_ORDER[b.priority || 'base-lang'];
 
       if (aPriorityValue !== bPriorityValue) {
-        return aPriorityValue - bPriorityValue;
+        return bPriorityValue - aPriorityValue;
       }
 
       // 2. Sort by type (frameworks before languages)
@@ -2,6 +2,7 @@ import chalk from 'chalk';
 import Table from 'cli-table3';
 import fs from 'fs-extra';
 import path from 'path';
+import { GuidelineOverrides, type GuidelineOverride } from '../core/GuidelineOverrides.js';
 import type { BaseCommand, CommandSignature } from '../core/types/Command.js';
 import type { Command } from 'commander';
 
@@ -28,6 +29,7 @@ interface ParsedClaude {
     languages?: string[];
     frameworks?: string[];
     versions?: Record<string, string>;
+    guidelineWarnings?: string[];
   };
   commands?: {
     dev?: string[];
@@ -38,6 +40,7 @@ interface ParsedClaude {
   };
   workflowConfigured?: boolean;
   guidelinesConfigured?: boolean;
+  overrides?: GuidelineOverride[];
 }
 
 export class StatusCommand implements BaseCommand {
@@ -69,6 +72,7 @@ export class StatusCommand implements BaseCommand {
 - Which command sections are present
 - Whether workflow instructions are configured
 - Guidelines sections that are active
+- Guidelines overridden in .franken/guidelines (with --verbose)
 
 This is useful to:
 - See what's currently configured without regenerating
@@ -100,6 +104,7 @@ Examples:
   async execute(options: StatusOptions): Promise<void> {
     try {
       const claudeConfig = await this.parseClaude();
+      claudeConfig.overrides = await GuidelineOverrides.list();
 
       if (options.json) {
         console.log(JSON.stringify(claudeConfig, null, 2));
@@ -228,6 +233,12 @@ Examples:
       });
     }
 
+    // Extract versioned guideline fallbacks
+    const warningMatches = Array.from(content.matchAll(/- \*\*Guideline Note\*\*: (.+)/g));
+    if (warningMatches.length > 0) {
+      stackInfo.guidelineWarnings = warningMatches.map(match => match[1].trim());
+    }
+
     return Object.keys(stackInfo).length > 0 ? stackInfo : undefined;
   }
 
@@ -335,6 +346,13 @@ Examples:
 
       console.log(stackTable.toString());
       console.log();
+
+      for (const warning of claude.stackInfo.guidelineWarnings ?? []) {
+        console.log(chalk.yellow(`⚠️  ${warning}`));
+      }
+      if (claude.stackInfo.guidelineWarnings) {
+        console.log();
+      }
     }
 
     // Commands
@@ -370,6 +388,24 @@ Examples:
     console.log(`   Workflow: ${claude.workflowConfigured ? chalk.green('Yes') : chalk.yellow('No')}`);
     console.log(`   Guidelines: ${claude.guidelinesConfigured ? chalk.green('Yes') : chalk.yellow('No')}`);
 
+    if (verbose && claude.overrides && claude.overrides.length > 0) {
+      console.log();
+      console.log(chalk.bold('🧩 Guideline Overrides'));
+      const overridesTable = new Table({
+        head: ['File', 'Mode', 'Guideline'],
+        style: {
+          head: ['cyan'],
+          border: ['grey']
+        }
+      });
+
+      claude.overrides.forEach(override => {
+        overridesTable.push([override.file, override.mode, override.target]);
+      });
+
+      console.log(overridesTable.toString());
+    }
+
     if (verbose && claude.sections.some(s => s.exists)) {
       console.log();
       console.log(chalk.bold('🔍 Section Details'));
@@ -0,0 +1,240 @@
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import fs from 'fs-extra';
+import path from 'path';
+import { StackDetector } from '../core/StackDetector.js';
+import { GuidelineManager } from '../core/GuidelineManager.js';
+import { ManagedSections, MANAGED_SECTIONS, type ManagedSectionName } from '../core/ManagedSections.js';
+import { Fingerprint } from '../core/Fingerprint.js';
+import { TokenBudget } from '../core/TokenBudget.js';
+import { ConfigLoader } from '../core/ConfigLoader.js';
+import { InitCommand } from './InitCommand.js';
+import type { BaseCommand, CommandSignature } from '../core/types/Command.js';
+import type { Command } from 'commander';
+
+export interface UpdateOptions {
+  force?: boolean;
+  verbose?: boolean;
+  maxTokens?: string;
+  cache?: boolean;  // false with --no-cache
+}
+
+export class UpdateCommand implements BaseCommand {
+  /**
+   * Get command signature metadata
+   */
+  getSignature(): CommandSignature {
+    return {
+      name: 'update',
+      description: 'Update specific sections in CLAUDE.md',
+      category: 'Setup',
+      usage: [
+        'franken-ai update',
+        'franken-ai update stack',
+        'franken-ai update guidelines --force',
+        'franken-ai update commands --verbose',
+        'franken-ai update guidelines --max-tokens 8000'
+      ],
+      arguments: [
+        {
+          name: 'section',
+          description: `Section to regenerate (${MANAGED_SECTIONS.join('|')})`
+        }
+      ],
+      options: [
+        {
+          flags: '-f, --force',
+          description: 'Force update without confirmation'
+        },
+        {
+          flags: '-v, --verbose',
+          description: 'Show detailed output'
+        },
+        {
+          flags: '--max-tokens <tokens>',
+          description: 'Trim guidelines so CLAUDE.md fits in this many tokens'
+        },
+        {
+          flags: '--no-cache',
+          description: 'Ignore the detection cache in .franken/cache'
+        }
+      ],
+      help: `Re-run stack detection and regenerate FrankenAI sections in CLAUDE.md.
+
+Only the content between the matching markers is rewritten:
+  [//]: # (franken-ai:<section>:start)
+  [//]: # (franken-ai:<section>:end)
+
+Everything outside the markers is left untouched. Without a section argument,
+every FrankenAI section present in CLAUDE.md is regenerated.
+
+Sections:
+  stack       Detected stack and versions
+  commands    Development, build, test and lint commands
+  workflow    Claude Code + Gemini CLI workflow
+  guidelines  Framework and language guidelines
+
+Examples:
+  franken-ai update                    # Regenerate all sections
+  franken-ai update stack              # Regenerate only the stack section
+  franken-ai update guidelines -f      # Regenerate guidelines without prompting`
+    };
+  }
+
+  /**
+   * Configure the command
+   */
+  configure(program: Command): void {
+    const signature = this.getSignature();
+
+    const cmd = program
+      .command(`${signature.name} [section]`)
+      .description(signature.description);
+
+    signature.options?.forEach(opt => {
+      cmd.option(opt.flags, opt.description, opt.defaultValue);
+    });
+
+    cmd.action((section: string | undefined, options: UpdateOptions) => this.execute(section, options));
+  }
+
+  /**
+   * Execute the update command
+   */
+  async execute(section: string | undefined, options: UpdateOptions): Promise<void> {
+    try {
+      if (section && !ManagedSections.isManagedSection(section)) {
+        console.error(chalk.red(`❌ Unknown section "${section}"`));
+        console.error(chalk.gray(`   Available sections: ${MANAGED_SECTIONS.join(', ')}`));
+        process.exitCode = 1;
+        return;
+      }
+
+      const maxTokens = options.maxTokens !== undefined ? Number(options.maxTokens) : undefined;
+      if (maxTokens !== undefined && !ConfigLoader.isTokenBudget(maxTokens)) {
+        console.error(chalk.red(`❌ --max-tokens must be a positive integer (got "${options.maxTokens}")`));
+        process.exitCode = 1;
+        return;
+      }
+
+      const claudeMdPath = path.join(process.cwd(), 'CLAUDE.md');
+      if (!await fs.pathExists(claudeMdPath)) {
+        console.error(chalk.red('❌ CLAUDE.md not found'));
+        console.error(chalk.gray('   Run: franken-ai init'));
+        process.exitCode = 1;
+        return;
+      }
+
+      const currentContent = await fs.readFile(claudeMdPath, 'utf-8');
+      const sections: ManagedSectionName[] = section ? [section as ManagedSectionName] : ManagedSections.list(currentContent);
+
+      const missing = sections.filter(name => !ManagedSections.locate(currentContent, name));
+      if (missing.length > 0 || sections.length === 0) {
+        const label = missing.length > 0 ? `Section "${missing.join('", "')}"` : 'No FrankenAI sections';
+        console.error(chalk.red(`❌ ${label} not found in CLAUDE.md`));
+        console.error(chalk.gray('   Run: franken-ai init --force'));
+        process.exitCode = 1;
+        return;
+      }
+
+      console.log(chalk.blue('🔍 Detecting project stack...'));
+      const stack = await new StackDetector(process.cwd(), { cache: options.cache }).detect();
+      const context = await new InitCommand().createGuidelineContext(stack, maxTokens);
+
+      const guidelineManager = new GuidelineManager();
+      const { guidelines, reports } = guidelineManager.applyTokenBudget(
+        await guidelineManager.collectGuidelines(context),
+        context
+      );
+
+      const claudeReport = reports.find(report => report.file === 'CLAUDE.md');
+      if (claudeReport) {
+        TokenBudget.formatReport(claudeReport.file, claudeReport).forEach(line => console.log(line));
+      }
+
+      if (options.verbose) {
+        console.log(chalk.gray(`   Stack: ${stack.frameworks.join(', ') || 'Generic'}`));
+        guidelines.forEach(guideline => {
+          console.log(chalk.gray(`   • ${guideline.path} (${guideline.category})`));
+        });
+      }
+
+      // Rewrite each requested section in place
+      let updatedContent = currentContent;
+      const changed: ManagedSectionName[] = [];
+
+      for (const name of sections) {
+        const block = guidelineManager.generateSection(name, guidelines, context);
+        if (ManagedSections.extract(updatedContent, name) !== block) {
+          updatedContent = ManagedSections.replace(updatedContent, name, block);
+          changed.push(name);
+        }
+      }
+
+      updatedContent = this.refreshFingerprint(updatedContent, currentContent, section ? changed : null, () =>
+        Fingerprint.computeInputs(guidelines, context, guidelineManager)
+      );
+
+      if (updatedContent === currentContent) {
+        console.log(chalk.green('✅ CLAUDE.md is already up to date'));
+        return;
+      }
+
+      console.log(chalk.yellow(`🔄 Sections to update: ${changed.length > 0 ? changed.join(', ') : 'fingerprint'}`));
+
+      if (!options.force) {
+        const { shouldUpdate } = await inquirer.prompt([
+          {
+            type: 'confirm',
+            name: 'shouldUpdate',
+            message: 'Update these sections in CLAUDE.md?',
+            default: true,
+          },
+        ]);
+
+        if (!shouldUpdate) {
+          console.log(chalk.yellow('⚠️  Update cancelled by user'));
+          return;
+        }
+      }
+
+      await fs.writeFile(claudeMdPath, updatedContent, 'utf-8');
+      console.log(chalk.green(`✅ Updated ${changed.length} section${changed.length === 1 ? '' : 's'} in CLAUDE.md`));
+
+    } catch (error) {
+      console.error(chalk.red('Error updating CLAUDE.md:'), error);
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Keep the fingerprint in sync with the regenerated content.
+   *
+   * A full update signs the file with the current inputs. A single-section update
+   * only refreshes that section's hash: the other sections may still be stale,
+   * so the stored inputs are kept as they were.
+   */
+  private refreshFingerprint(
+    updatedContent: string,
+    currentContent: string,
+    regenerated: ManagedSectionName[] | null,
+    computeInputs: () => ReturnType<typeof Fingerprint.computeInputs>
+  ): string {
+    if (regenerated === null) {
+      return Fingerprint.embed(updatedContent, Fingerprint.create(computeInputs(), updatedContent));
+    }
+
+    const stored = Fingerprint.parse(currentContent);
+    if (!stored || regenerated.length === 0) {
+      return updatedContent;
+    }
+
+    const hashes = Fingerprint.hashSections(updatedContent);
+    const sections = { ...stored.sections };
+    regenerated.forEach(name => {
+      sections[name] = hashes[name];
+    });
+
+    return Fingerprint.embed(updatedContent, { ...stored, sections });
+  }
+}
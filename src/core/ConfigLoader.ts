@@ -0,0 +1,196 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { ManagedSections, type ManagedSectionName } from './ManagedSections.js';
+
+/**
+ * Project-level configuration file name
+ */
+export const CONFIG_FILE = 'franken.config.json';
+
+/**
+ * Module entry in franken.config.json
+ */
+export interface FrankenModuleConfig {
+  id: string;
+  enabled?: boolean; // true forces the module on, false disables it
+  config?: Record<string, unknown>;
+}
+
+/**
+ * Project scanning settings in franken.config.json ("scan")
+ */
+export interface FrankenScanConfig {
+  ignore?: string[];   // Extra paths to skip (gitignore syntax), on top of .gitignore files
+  include?: string[];  // Paths to scan even when ignored (e.g. "public/")
+  maxDepth?: number;   // Deepest directory level scanned below the project root
+  maxFiles?: number;   // Stop scanning after this many files
+}
+
+/**
+ * Monorepo settings in franken.config.json ("workspaces")
+ */
+export interface FrankenWorkspacesConfig {
+  packages?: string[];  // Package directories (globs), replacing the discovered ones ([] disables workspaces)
+  nested?: boolean;     // Generate context files inside each package (default true)
+}
+
+/**
+ * Contents of franken.config.json
+ */
+export interface FrankenConfig {
+  /** Modules to force-enable ("tailwind" or { id, enabled: true }) or disable ({ id, enabled: false }) */
+  modules?: Array<string | FrankenModuleConfig>;
+
+  /** Pinned versions keyed by module id (e.g. { "laravel": "11" }) */
+  versions?: Record<string, string>;
+
+  /** Extra guideline files, relative to the project root */
+  guidelines?: string[];
+
+  /** Output targets used when --target is not given (e.g. ["claude", "cursor"]) */
+  targets?: string[];
+
+  /** Order of the FrankenAI sections in generated files */
+  sections?: ManagedSectionName[];
+
+  /** Token budget per generated file, guidelines are trimmed to fit */
+  maxTokens?: number;
+
+  /** Which files detection looks at */
+  scan?: FrankenScanConfig;
+
+  /** Workspace packages detected and rendered on their own */
+  workspaces?: FrankenWorkspacesConfig;
+}
+
+/**
+ * Loads and validates franken.config.json
+ */
+export class ConfigLoader {
+  /**
+   * Get the config file path for a project
+   */
+  static getPath(projectRoot = process.cwd()): string {
+    return path.join(projectRoot, CONFIG_FILE);
+  }
+
+  /**
+   * Load the project config, or an empty config if the file does not exist
+   */
+  static async load(projectRoot = process.cwd()): Promise<FrankenConfig> {
+    const configPath = this.getPath(projectRoot);
+
+    if (!await fs.pathExists(configPath)) {
+      return {};
+    }
+
+    let config: unknown;
+    try {
+      config = await fs.readJson(configPath);
+    } catch (error) {
+      throw new Error(`Invalid ${CONFIG_FILE}: ${(error as Error).message}`);
+    }
+
+    this.validate(config);
+    return config;
+  }
+
+  /**
+   * Module ids forced on by the config
+   */
+  static getEnabledModules(config: FrankenConfig): string[] {
+    return (config.modules ?? [])
+      .filter(entry => typeof entry === 'string' || entry.enabled !== false)
+      .map(entry => typeof entry === 'string' ? entry : entry.id);
+  }
+
+  /**
+   * Module ids disabled by the config
+   */
+  static getDisabledModules(config: FrankenConfig): string[] {
+    return (config.modules ?? [])
+      .filter((entry): entry is FrankenModuleConfig => typeof entry !== 'string' && entry.enabled === false)
+      .map(entry => entry.id);
+  }
+
+  /**
+   * Check a token budget value (positive integer)
+   */
+  static isTokenBudget(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value > 0;
+  }
+
+  /**
+   * Check the config shape, throwing a descriptive error on the first problem
+   */
+  private static validate(config: unknown): asserts config is FrankenConfig {
+    const fail = (message: string): never => {
+      throw new Error(`Invalid ${CONFIG_FILE}: ${message}`);
+    };
+    const isStringArray = (value: unknown): boolean =>
+      Array.isArray(value) && value.every(item => typeof item === 'string');
+
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+      fail('expected a JSON object');
+    }
+
+    const { modules, versions, guidelines, targets, sections, maxTokens, scan, workspaces } = config as Record<string, unknown>;
+
+    if (modules !== undefined) {
+      const valid = Array.isArray(modules) && modules.every(entry =>
+        typeof entry === 'string' ||
+        (typeof entry === 'object' && entry !== null && typeof entry.id === 'string')
+      );
+      if (!valid) fail('"modules" must be an array of module ids or { "id": ..., "enabled": ... } objects');
+    }
+
+    if (versions !== undefined) {
+      const valid = typeof versions === 'object' && versions !== null && !Array.isArray(versions) &&
+        Object.values(versions).every(version => typeof version === 'string');
+      if (!valid) fail('"versions" must map module ids to version strings');
+    }
+
+    if (guidelines !== undefined && !isStringArray(guidelines)) {
+      fail('"guidelines" must be an array of file paths');
+    }
+
+    if (targets !== undefined && !isStringArray(targets)) {
+      fail('"targets" must be an array of target names');
+    }
+
+    if (sections !== undefined) {
+      if (!isStringArray(sections)) fail('"sections" must be an array of section names');
+
+      const unknown = (sections as string[]).filter(name => !ManagedSections.isManagedSection(name));
+      if (unknown.length > 0) fail(`unknown section(s) in "sections": ${unknown.join(', ')}`);
+    }
+
+    if (maxTokens !== undefined && !this.isTokenBudget(maxTokens)) {
+      fail('"maxTokens" must be a positive integer');
+    }
+
+    if (scan !== undefined) {
+      if (typeof scan !== 'object' || scan === null || Array.isArray(scan)) fail('"scan" must be an object');
+
+      const { ignore, include, maxDepth, maxFiles } = scan as Record<string, unknown>;
+      if (ignore !== undefined && !isStringArray(ignore)) fail('"scan.ignore" must be an array of patterns');
+      if (include !== undefined && !isStringArray(include)) fail('"scan.include" must be an array of patterns');
+      if (maxDepth !== undefined && !(Number.isInteger(maxDepth) && (maxDepth as number) >= 0)) {
+        fail('"scan.maxDepth" must be a non-negative integer');
+      }
+      if (maxFiles !== undefined && !(Number.isInteger(maxFiles) && (maxFiles as number) > 0)) {
+        fail('"scan.maxFiles" must be a positive integer');
+      }
+    }
+
+    if (workspaces !== undefined) {
+      if (typeof workspaces !== 'object' || workspaces === null || Array.isArray(workspaces)) {
+        fail('"workspaces" must be an object');
+      }
+
+      const { packages, nested } = workspaces as Record<string, unknown>;
+      if (packages !== undefined && !isStringArray(packages)) fail('"workspaces.packages" must be an array of paths');
+      if (nested !== undefined && typeof nested !== 'boolean') fail('"workspaces.nested" must be a boolean');
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import chalk from 'chalk';
+import { ManagedSections, MANAGED_SECTIONS, type ManagedSectionName } from './ManagedSections.js';
+import { DiffUtils } from './utils/DiffUtils.js';
+
+/**
+ * How a FrankenAI section changes between the current and pending content
+ */
+export type SectionChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface SectionChange {
+  name: ManagedSectionName;
+  status: SectionChangeStatus;
+}
+
+/**
+ * Pending change to one generated file
+ */
+export interface ContentDiffResult {
+  file: string;
+  exists: boolean;
+  removed: boolean;  // The file would be deleted
+  hasChanges: boolean;
+  sections: SectionChange[];
+  unified: string;
+}
+
+/**
+ * Compares a file on disk with the content FrankenAI would write
+ */
+export class ContentDiff {
+  /**
+   * Compare current content (null when the file does not exist) with pending content
+   * (null when the file would be removed)
+   */
+  static compare(file: string, current: string | null, pending: string | null, color = true): ContentDiffResult {
+    const existing = current ?? '';
+
+    return {
+      file,
+      exists: current !== null,
+      removed: pending === null,
+      hasChanges: current !== pending,
+      sections: this.compareSections(existing, pending ?? ''),
+      unified: DiffUtils.formatUnified(existing, pending ?? '', {
+        oldLabel: current === null ? '/dev/null' : `a/${file}`,
+        newLabel: pending === null ? '/dev/null' : `b/${file}`,
+        color
+      })
+    };
+  }
+
+  /**
+   * Report the status of each managed section present in either content
+   */
+  static compareSections(current: string, pending: string): SectionChange[] {
+    const changes: SectionChange[] = [];
+
+    for (const name of MANAGED_SECTIONS) {
+      const before = ManagedSections.extract(current, name);
+      const after = ManagedSections.extract(pending, name);
+
+      if (before === null && after === null) continue;
+
+      let status: SectionChangeStatus;
+      if (before === null) {
+        status = 'added';
+      } else if (after === null) {
+        status = 'removed';
+      } else {
+        status = before === after ? 'unchanged' : 'changed';
+      }
+
+      changes.push({ name, status });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Format a result for display: file status, per-section summary and unified diff
+   */
+  static formatReport(result: ContentDiffResult): string[] {
+    if (!result.hasChanges) {
+      return [chalk.green(`📄 ${result.file}: up to date`)];
+    }
+
+    const status = result.removed ? 'removed' : result.exists ? 'changes pending' : 'new file';
+    const lines = [chalk.yellow(`📄 ${result.file}: ${status}`)];
+    lines.push(...this.formatSections(result.sections));
+
+    if (result.unified) {
+      lines.push('', result.unified);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Format the per-section summary lines for display
+   */
+  static formatSections(sections: SectionChange[]): string[] {
+    const styles: Record<SectionChangeStatus, { icon: string; color: (text: string) => string }> = {
+      added: { icon: '+', color: chalk.green },
+      removed: { icon: '-', color: chalk.red },
+      changed: { icon: '~', color: chalk.yellow },
+      unchanged: { icon: '=', color: chalk.gray }
+    };
+
+    return sections.map(({ name, status }) => {
+      const style = styles[status];
+      return style.color(`   ${style.icon} ${name.padEnd(10)} ${status}`);
+    });
+  }
+}
@@ -0,0 +1,125 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { Fingerprint } from './Fingerprint.js';
+import { CONFIG_FILE } from './ConfigLoader.js';
+import type { DetectedStack } from './StackDetector.js';
+
+export const CACHE_DIR = path.join('.franken', 'cache');
+const CACHE_FILE = 'detection.json';
+const CACHE_FORMAT = 4;
+
+/**
+ * Manifests, lockfiles and version files read during detection, hashed to invalidate the cached stack
+ */
+export const CACHE_INPUT_FILES = [
+  'package.json', 'composer.json', CONFIG_FILE,
+  'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb', 'composer.lock',
+  'vendor/composer/installed.json', '.nvmrc', '.php-version'
+];
+
+/**
+ * Entries of a scanned directory, reused while its mtime is unchanged
+ */
+export interface CachedDirectory {
+  mtime: number;
+  entries: string[];  // All entries in readdir order, directories with a trailing '/' (ignore rules apply on use)
+}
+
+/**
+ * Contents of .franken/cache/detection.json
+ */
+export interface DetectionCacheData {
+  format: number;
+  franken: string;                               // FrankenAI version that wrote the cache
+  directories: Record<string, CachedDirectory>;  // Keyed by path relative to the project root ('' for the root)
+  inputs: Record<string, string>;                // Input file -> content hash ('-' when missing)
+  probed?: string[];                             // Files modules read through the content probe, also hashed in inputs
+  stack?: DetectedStack;
+}
+
+/**
+ * What a detection reused from the cache
+ */
+export interface DetectionCacheStats {
+  stackReused: boolean;
+  directoriesScanned: number;
+  directoriesReused: number;
+}
+
+/**
+ * Detection results cached in .franken/cache so repeated commands skip the
+ * tree walk and module detection while manifests and directories are unchanged
+ */
+export class DetectionCache {
+  /**
+   * Get the cache file path for a project
+   */
+  static getPath(projectRoot: string): string {
+    return path.join(projectRoot, CACHE_DIR, CACHE_FILE);
+  }
+
+  /**
+   * Load the cache, or null when missing, unreadable or written by another FrankenAI version
+   */
+  static async load(projectRoot: string): Promise<DetectionCacheData | null> {
+    try {
+      const data = await fs.readJson(this.getPath(projectRoot));
+      if (data?.format !== CACHE_FORMAT || data.franken !== Fingerprint.getFrankenVersion()) {
+        return null;
+      }
+      return data;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Write the cache. Failures (e.g. a read-only checkout) are ignored, the cache is only an optimization
+   */
+  static async save(projectRoot: string, data: Omit<DetectionCacheData, 'format' | 'franken'>): Promise<void> {
+    const cacheDir = path.join(projectRoot, CACHE_DIR);
+
+    try {
+      await fs.ensureDir(cacheDir);
+      const gitignore = path.join(cacheDir, '.gitignore');
+      if (!await fs.pathExists(gitignore)) {
+        await fs.writeFile(gitignore, '*\n');
+      }
+
+      await fs.writeJson(this.getPath(projectRoot), {
+        format: CACHE_FORMAT,
+        franken: Fingerprint.getFrankenVersion(),
+        ...data
+      });
+    } catch {
+      // Detection works the same without a cache
+    }
+  }
+
+  /**
+   * Hash the given files (relative to the project root), '-' for missing files
+   */
+  static async hashInputs(projectRoot: string, files: string[]): Promise<Record<string, string>> {
+    const inputs: Record<string, string> = {};
+
+    for (const file of Array.from(new Set(files)).sort()) {
+      try {
+        const content = await fs.readFile(path.join(projectRoot, file));
+        inputs[file] = crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+      } catch {
+        inputs[file] = '-';
+      }
+    }
+
+    return inputs;
+  }
+
+  /**
+   * Check whether two input hash sets are identical
+   */
+  static sameInputs(a: Record<string, string>, b: Record<string, string>): boolean {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+  }
+}
@@ -0,0 +1,110 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { ContentProbe } from './types/Module.js';
+
+/**
+ * Bytes read from the start of a file (markers like "@tailwind" or "createInertiaApp" sit near the top)
+ */
+export const DEFAULT_MAX_FILE_BYTES = 64 * 1024;
+
+/**
+ * Bytes read across all files of one detection
+ */
+export const DEFAULT_BYTE_BUDGET = 1024 * 1024;
+
+export interface FileContentProbeOptions {
+  maxFileBytes?: number;
+  byteBudget?: number;
+}
+
+/**
+ * ContentProbe reading from disk. Contents are cached, so modules probing the same
+ * file share one read, and every read is charged to the byte budget.
+ */
+export class FileContentProbe implements ContentProbe {
+  private projectRoot: string;
+  private maxFileBytes: number;
+  private remainingBytes: number;
+  private contents = new Map<string, string | null>();
+
+  constructor(projectRoot: string, options: FileContentProbeOptions = {}) {
+    this.projectRoot = path.resolve(projectRoot);
+    this.maxFileBytes = options.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES;
+    this.remainingBytes = options.byteBudget ?? DEFAULT_BYTE_BUDGET;
+  }
+
+  async readFile(file: string): Promise<string | null> {
+    const fullPath = path.resolve(this.projectRoot, file);
+    const relativePath = path.relative(this.projectRoot, fullPath);
+    if (relativePath === '' || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      return null;
+    }
+
+    if (this.contents.has(relativePath)) {
+      return this.contents.get(relativePath)!;
+    }
+
+    let content: string | null = null;
+    if (this.remainingBytes > 0) {
+      try {
+        content = await this.readHead(fullPath, Math.min(this.maxFileBytes, this.remainingBytes));
+      } catch {
+        // Missing or unreadable files count as no content
+      }
+    }
+
+    this.contents.set(relativePath, content);
+    return content;
+  }
+
+  async grep(pattern: RegExp, files: string[], limit = 1): Promise<string[]> {
+    const matches: string[] = [];
+
+    for (const file of files) {
+      if (matches.length >= limit || this.remainingBytes <= 0) break;
+
+      const content = await this.readFile(file);
+      pattern.lastIndex = 0;
+      if (content !== null && pattern.test(content)) {
+        matches.push(file);
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Files read so far (relative to the project root), so cached results can be invalidated when they change
+   */
+  getReadFiles(): string[] {
+    return Array.from(this.contents)
+      .filter(([, content]) => content !== null)
+      .map(([file]) => file.split(path.sep).join('/'))
+      .sort();
+  }
+
+  /**
+   * Whether reads were refused because the budget was spent
+   */
+  isExhausted(): boolean {
+    return this.remainingBytes <= 0;
+  }
+
+  /**
+   * Read up to `maxBytes` from the start of a file, charging them to the budget
+   */
+  private async readHead(fullPath: string, maxBytes: number): Promise<string | null> {
+    const stat = await fs.stat(fullPath);
+    if (!stat.isFile()) return null;
+
+    const handle = await fs.promises.open(fullPath, 'r');
+    try {
+      const buffer = Buffer.alloc(Math.min(stat.size, maxBytes));
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+      this.remainingBytes -= bytesRead;
+      return buffer.toString('utf-8', 0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+}
@@ -0,0 +1,241 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { fileURLToPath } from 'url';
+import { ManagedSections, MANAGED_SECTIONS, type ManagedSectionName } from './ManagedSections.js';
+import type { Guideline, GuidelineContext, GuidelineManager } from './GuidelineManager.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const MARKER_PREFIX = '[//]: # (franken-ai:fingerprint ';
+
+/**
+ * Inputs a generated CLAUDE.md depends on
+ */
+export interface FingerprintInputs {
+  franken: string;      // FrankenAI version
+  modules: string[];    // Sorted module ids with versions (e.g. 'laravel@12', 'tailwind')
+  guidelines: string;   // Hash of the guideline file contents
+}
+
+/**
+ * Fingerprint embedded in CLAUDE.md
+ */
+export interface FingerprintData extends FingerprintInputs {
+  hash: string;                                           // Hash of all inputs
+  sections: Partial<Record<ManagedSectionName, string>>;  // Hash of each generated section
+}
+
+/**
+ * Differences between a stored fingerprint and the current project
+ */
+export interface FingerprintDrift {
+  franken?: { from: string; to: string };
+  modulesAdded: string[];
+  modulesRemoved: string[];
+  versionsChanged: Array<{ module: string; from: string; to: string }>;
+  guidelinesChanged: boolean;
+  editedSections: ManagedSectionName[];
+}
+
+/**
+ * Fingerprint of the inputs used to generate CLAUDE.md, stored as a one-line
+ * `[//]: # (franken-ai:fingerprint ...)` marker so `check` can detect drift
+ */
+export class Fingerprint {
+  private static frankenVersion: string | undefined;
+
+  /**
+   * Get the installed FrankenAI version
+   */
+  static getFrankenVersion(): string {
+    if (!this.frankenVersion) {
+      try {
+        this.frankenVersion = fs.readJsonSync(path.join(__dirname, '..', '..', 'package.json')).version;
+      } catch {
+        // Fall through to 'unknown'
+      }
+      this.frankenVersion = this.frankenVersion || 'unknown';
+    }
+
+    return this.frankenVersion;
+  }
+
+  /**
+   * Short SHA-256 hash
+   */
+  static hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex').substring(0, 12);
+  }
+
+  /**
+   * Collect the inputs from the guidelines and context used for generation
+   */
+  static computeInputs(guidelines: Guideline[], context: GuidelineContext, generator: GuidelineManager): FingerprintInputs {
+    const moduleIds = Array.from(new Set(guidelines.map(g => g.module).filter((id): id is string => Boolean(id))));
+
+    const modules = moduleIds
+      .map(id => {
+        const version = generator.getModuleVersion(id, context);
+        return version ? `${id}@${version}` : id;
+      })
+      .sort();
+
+    const guidelineContents = [...guidelines]
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .map(g => `${g.id}\n${g.content}`)
+      .join('\n');
+
+    return {
+      franken: this.getFrankenVersion(),
+      modules,
+      guidelines: this.hash(guidelineContents)
+    };
+  }
+
+  /**
+   * Hash each managed section present in the content
+   */
+  static hashSections(content: string): Partial<Record<ManagedSectionName, string>> {
+    const sections: Partial<Record<ManagedSectionName, string>> = {};
+
+    for (const name of ManagedSections.list(content)) {
+      sections[name] = this.hash(ManagedSections.extract(content, name)!);
+    }
+
+    return sections;
+  }
+
+  /**
+   * Build the fingerprint for content generated from the given inputs
+   */
+  static create(inputs: FingerprintInputs, content: string): FingerprintData {
+    return {
+      ...inputs,
+      hash: this.hash(JSON.stringify(inputs)),
+      sections: this.hashSections(content)
+    };
+  }
+
+  /**
+   * Embed (or replace) the fingerprint marker, just above the first FrankenAI section
+   */
+  static embed(content: string, data: FingerprintData): string {
+    const stripped = this.strip(content);
+    const marker = this.format(data);
+
+    const starts = ManagedSections.list(stripped)
+      .map(name => ManagedSections.locate(stripped, name)!.start)
+      .sort((a, b) => a - b);
+
+    if (starts.length === 0) {
+      const base = stripped.replace(/\s*$/, '');
+      return base ? `${base}\n\n${marker}` : marker;
+    }
+
+    return `${stripped.substring(0, starts[0])}${marker}\n${stripped.substring(starts[0])}`;
+  }
+
+  /**
+   * Remove the fingerprint marker line
+   */
+  static strip(content: string): string {
+    return content
+      .split('\n')
+      .filter(line => !line.startsWith(MARKER_PREFIX))
+      .join('\n');
+  }
+
+  /**
+   * Format the fingerprint as a markdown comment line
+   */
+  static format(data: FingerprintData): string {
+    const sections = MANAGED_SECTIONS
+      .filter(name => data.sections[name])
+      .map(name => `${name}:${data.sections[name]}`)
+      .join(',');
+
+    return `${MARKER_PREFIX}hash=${data.hash} franken=${data.franken} modules=${data.modules.join(',')} ` +
+      `guidelines=${data.guidelines} sections=${sections})`;
+  }
+
+  /**
+   * Read the fingerprint from content, or null if there is none
+   */
+  static parse(content: string): FingerprintData | null {
+    const line = content.split('\n').find(l => l.startsWith(MARKER_PREFIX));
+    if (!line || !line.endsWith(')')) return null;
+
+    const fields: Record<string, string> = {};
+    for (const pair of line.substring(MARKER_PREFIX.length, line.length - 1).split(' ')) {
+      const separator = pair.indexOf('=');
+      if (separator > 0) {
+        fields[pair.substring(0, separator)] = pair.substring(separator + 1);
+      }
+    }
+
+    if (!fields.hash || fields.franken === undefined || fields.guidelines === undefined) {
+      return null;
+    }
+
+    const sections: Partial<Record<ManagedSectionName, string>> = {};
+    for (const entry of (fields.sections || '').split(',').filter(Boolean)) {
+      const [name, hash] = entry.split(':');
+      if (ManagedSections.isManagedSection(name) && hash) {
+        sections[name] = hash;
+      }
+    }
+
+    return {
+      hash: fields.hash,
+      franken: fields.franken,
+      modules: (fields.modules || '').split(',').filter(Boolean),
+      guidelines: fields.guidelines,
+      sections
+    };
+  }
+
+  /**
+   * Compare a stored fingerprint with the current inputs and content
+   */
+  static compare(stored: FingerprintData, inputs: FingerprintInputs, content: string): FingerprintDrift {
+    const split = (entry: string) => {
+      const at = entry.indexOf('@');
+      return at === -1 ? { id: entry, version: '' } : { id: entry.substring(0, at), version: entry.substring(at + 1) };
+    };
+    const before = new Map(stored.modules.map(entry => [split(entry).id, split(entry).version]));
+    const after = new Map(inputs.modules.map(entry => [split(entry).id, split(entry).version]));
+
+    const versionsChanged: FingerprintDrift['versionsChanged'] = [];
+    for (const [id, version] of after) {
+      if (before.has(id) && before.get(id) !== version) {
+        versionsChanged.push({ module: id, from: before.get(id) || 'unknown', to: version || 'unknown' });
+      }
+    }
+
+    const current = this.hashSections(content);
+
+    return {
+      franken: stored.franken !== inputs.franken ? { from: stored.franken, to: inputs.franken } : undefined,
+      modulesAdded: Array.from(after.keys()).filter(id => !before.has(id)),
+      modulesRemoved: Array.from(before.keys()).filter(id => !after.has(id)),
+      versionsChanged,
+      guidelinesChanged: stored.guidelines !== inputs.guidelines,
+      editedSections: MANAGED_SECTIONS.filter(name =>
+        stored.sections[name] !== undefined && stored.sections[name] !== current[name]
+      )
+    };
+  }
+
+  /**
+   * Check if any input changed since the fingerprint was written
+   */
+  static isStale(drift: FingerprintDrift): boolean {
+    return Boolean(drift.franken) ||
+      drift.modulesAdded.length > 0 ||
+      drift.modulesRemoved.length > 0 ||
+      drift.versionsChanged.length > 0 ||
+      drift.guidelinesChanged;
+  }
+}
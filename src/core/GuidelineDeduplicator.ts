@@ -0,0 +1,182 @@
+/**
+ * Sections whose bodies share at least this share of words (Jaccard index) are duplicates
+ */
+const SIMILARITY_THRESHOLD = 0.8;
+
+/**
+ * Code blocks shorter than this are too generic to deduplicate (`npm install`, ...)
+ */
+const MIN_CODE_LINES = 3;
+
+const HEADING_PATTERN = /^(#{2,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+/**
+ * Minimal guideline shape the deduplicator works on
+ */
+export interface DeduplicatedGuideline {
+  path: string;
+  content: string;
+  audience?: string;  // Guidelines only duplicate others written for the same tool
+}
+
+/**
+ * A section or code block removed because an earlier guideline has it
+ */
+export interface DuplicateMerge {
+  path: string;     // Guideline the duplicate was removed from
+  keptIn: string;   // Guideline that keeps it
+  kind: 'section' | 'code';
+  label: string;    // Heading text, or the first line of the code block
+}
+
+interface Section {
+  heading: string;
+  level: number;
+  start: number;  // Heading line
+  end: number;    // First line after the section (next heading of any level)
+}
+
+interface SeenSection {
+  path: string;
+  words: Set<string>;
+}
+
+/**
+ * Removes near-duplicate sections (same heading, highly similar body) and identical code
+ * blocks across guidelines. Earlier guidelines win, so callers pass them highest priority first.
+ */
+export class GuidelineDeduplicator {
+  static deduplicate<T extends DeduplicatedGuideline>(guidelines: T[]): { guidelines: T[]; merges: DuplicateMerge[] } {
+    const sections = new Map<string, SeenSection[]>();
+    const codeBlocks = new Map<string, string>();
+    const merges: DuplicateMerge[] = [];
+
+    const result = guidelines.map(guideline => {
+      const audience = guideline.audience ?? '';
+      const lines = guideline.content.split('\n');
+      const removed = new Set<number>();
+
+      for (const section of this.parseSections(lines)) {
+        const key = `${audience}\0${this.normalize(section.heading)}`;
+        const words = this.wordSet(lines.slice(section.start + 1, section.end).join('\n'));
+        if (words.size === 0) continue;
+
+        const seen = sections.get(key) ?? [];
+        const original = seen.find(s => s.path !== guideline.path && this.similarity(s.words, words) >= SIMILARITY_THRESHOLD);
+        if (original) {
+          for (let i = section.start; i < section.end; i++) removed.add(i);
+          merges.push({ path: guideline.path, keptIn: original.path, kind: 'section', label: section.heading });
+        } else {
+          sections.set(key, [...seen, { path: guideline.path, words }]);
+        }
+      }
+
+      for (const block of this.parseCodeBlocks(lines)) {
+        if (removed.has(block.start)) continue;
+
+        const code = lines.slice(block.start + 1, block.end).map(line => line.trimEnd()).join('\n').trim();
+        if (code.split('\n').filter(line => line.trim()).length < MIN_CODE_LINES) continue;
+
+        const key = `${audience}\0${code}`;
+        const keptIn = codeBlocks.get(key);
+        if (keptIn && keptIn !== guideline.path) {
+          for (let i = block.start; i <= block.end; i++) removed.add(i);
+          merges.push({ path: guideline.path, keptIn, kind: 'code', label: code.split('\n')[0] });
+        } else if (!keptIn) {
+          codeBlocks.set(key, guideline.path);
+        }
+      }
+
+      if (removed.size === 0) {
+        return guideline;
+      }
+
+      const content = this.removeEmptyHeadings(lines.filter((_, index) => !removed.has(index)))
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .replace(/^\n+/, '');
+      return { ...guideline, content };
+    });
+
+    return { guidelines: result, merges };
+  }
+
+  /**
+   * Sections from each heading (level 2 and below) to the next heading, ignoring code fences
+   */
+  private static parseSections(lines: string[]): Section[] {
+    const sections: Section[] = [];
+    let inFence = false;
+
+    lines.forEach((line, index) => {
+      if (FENCE_PATTERN.test(line)) inFence = !inFence;
+      if (inFence) return;
+
+      const match = line.match(HEADING_PATTERN);
+      if (!match) return;
+
+      const previous = sections[sections.length - 1];
+      if (previous) previous.end = index;
+      sections.push({ heading: match[2], level: match[1].length, start: index, end: lines.length });
+    });
+
+    return sections;
+  }
+
+  /**
+   * Fenced code blocks as [opening fence line, closing fence line]
+   */
+  private static parseCodeBlocks(lines: string[]): Array<{ start: number; end: number }> {
+    const blocks: Array<{ start: number; end: number }> = [];
+    let start: number | null = null;
+
+    lines.forEach((line, index) => {
+      if (!FENCE_PATTERN.test(line)) return;
+
+      if (start === null) {
+        start = index;
+      } else {
+        blocks.push({ start, end: index });
+        start = null;
+      }
+    });
+
+    return blocks;
+  }
+
+  /**
+   * Drop headings left without content once their sections were removed
+   */
+  private static removeEmptyHeadings(lines: string[]): string[] {
+    const headings = this.parseSections(lines);
+    const empty = new Set<number>();
+
+    // Last heading first, so a parent whose subsections are all empty is dropped too
+    for (let index = headings.length - 1; index >= 0; index--) {
+      const heading = headings[index];
+      const next = headings.slice(index + 1).find(h => h.level <= heading.level);
+      const body = lines.slice(heading.start + 1, next?.start ?? lines.length);
+      const hasContent = body.some((line, offset) => line.trim() && !empty.has(heading.start + 1 + offset));
+      if (!hasContent) empty.add(heading.start);
+    }
+
+    return lines.filter((_, index) => !empty.has(index));
+  }
+
+  private static similarity(a: Set<string>, b: Set<string>): number {
+    let shared = 0;
+    for (const word of a) {
+      if (b.has(word)) shared++;
+    }
+    return shared / (a.size + b.size - shared);
+  }
+
+  private static wordSet(text: string): Set<string> {
+    return new Set(text.toLowerCase().match(/[a-z0-9]+/g) ?? []);
+  }
+
+  private static normalize(heading: string): string {
+    return heading.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  }
+}
@@ -0,0 +1,137 @@
+import yaml from 'js-yaml';
+import semver from 'semver';
+import type { GuidelineMetadata } from './types/Module.js';
+
+const CATEGORIES = ['framework', 'language', 'feature', 'testing'];
+const PRIORITIES = ['meta-framework', 'framework', 'css-framework', 'laravel-tool', 'specialized-lang', 'base-lang'];
+const AUDIENCES = ['claude', 'gemini'];
+
+/**
+ * Parsed guideline file
+ */
+export interface ParsedGuideline {
+  metadata: GuidelineMetadata;
+  content: string;  // Markdown without the front-matter
+}
+
+/**
+ * YAML front-matter at the top of guideline files:
+ *
+ * ---
+ * title: Laravel 11 Features
+ * appliesTo: ">=11 <12"
+ * requiresModules: [livewire]
+ * ---
+ */
+export class GuidelineFrontMatter {
+  /**
+   * Split the front-matter from the markdown, throwing errors with file and line when invalid
+   */
+  static parse(raw: string, file: string): ParsedGuideline {
+    const lines = raw.split(/\r?\n/);
+    if (lines[0]?.trim() !== '---') {
+      return { metadata: {}, content: raw };
+    }
+
+    const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+    if (end === -1) {
+      throw this.error(file, 1, 'front-matter is not closed with "---"');
+    }
+
+    const block = lines.slice(1, end).join('\n');
+    let data: unknown;
+    try {
+      data = yaml.load(block) ?? {};
+    } catch (error) {
+      const yamlError = error as yaml.YAMLException;
+      throw this.error(file, (yamlError.mark?.line ?? 0) + 2, yamlError.reason || yamlError.message);
+    }
+
+    if (typeof data !== 'object' || Array.isArray(data)) {
+      throw this.error(file, 2, 'front-matter must be a mapping');
+    }
+
+    return {
+      metadata: this.validate(data as Record<string, unknown>, lines.slice(1, end), file),
+      content: lines.slice(end + 1).join('\n').replace(/^\s*\n/, '')
+    };
+  }
+
+  /**
+   * Check the metadata against the included modules and their versions
+   */
+  static isApplicable(
+    metadata: GuidelineMetadata,
+    moduleId: string | undefined,
+    includedModuleIds: string[],
+    versions: Map<string, string> | undefined,
+    file: string
+  ): boolean {
+    if (metadata.requiresModules?.some(id => !includedModuleIds.includes(id))) return false;
+    if (metadata.excludeWhenModules?.some(id => includedModuleIds.includes(id))) return false;
+
+    if (metadata.appliesTo !== undefined) {
+      if (typeof metadata.appliesTo === 'string' && !moduleId) {
+        throw new Error(`Invalid front-matter in ${file}: "appliesTo" must map module ids to ranges outside module guidelines`);
+      }
+
+      const ranges = typeof metadata.appliesTo === 'string'
+        ? { [moduleId!]: metadata.appliesTo }
+        : metadata.appliesTo;
+
+      for (const [id, range] of Object.entries(ranges)) {
+        const version = semver.coerce(versions?.get(id));
+        if (!version || !semver.satisfies(version, range)) return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Validate known keys and their types
+   */
+  private static validate(data: Record<string, unknown>, lines: string[], file: string): GuidelineMetadata {
+    const fail = (key: string, message: string): never => {
+      const index = lines.findIndex(line => line.startsWith(`${key}:`));
+      throw this.error(file, index === -1 ? 2 : index + 2, `"${key}" ${message}`);
+    };
+    const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+    const isRange = (value: unknown) => typeof value === 'string' && semver.validRange(value) !== null;
+
+    for (const [key, value] of Object.entries(data)) {
+      switch (key) {
+        case 'title':
+          if (typeof value !== 'string') fail(key, 'must be a string');
+          break;
+        case 'appliesTo': {
+          const valid = isRange(value) || (typeof value === 'object' && value !== null && !Array.isArray(value) &&
+            Object.values(value).every(isRange));
+          if (!valid) fail(key, 'must be a semver range or map module ids to semver ranges');
+          break;
+        }
+        case 'requiresModules':
+        case 'excludeWhenModules':
+          if (!isStringList(value)) fail(key, 'must be a list of module ids');
+          break;
+        case 'category':
+          if (!CATEGORIES.includes(value as string)) fail(key, `must be one of: ${CATEGORIES.join(', ')}`);
+          break;
+        case 'priority':
+          if (!PRIORITIES.includes(value as string)) fail(key, `must be one of: ${PRIORITIES.join(', ')}`);
+          break;
+        case 'audience':
+          if (!AUDIENCES.includes(value as string)) fail(key, `must be one of: ${AUDIENCES.join(', ')}`);
+          break;
+        default:
+          fail(key, 'is not a known front-matter key');
+      }
+    }
+
+    return data as GuidelineMetadata;
+  }
+
+  private static error(file: string, line: number, message: string): Error {
+    return new Error(`Invalid front-matter in ${file} (line ${line}): ${message}`);
+  }
+}
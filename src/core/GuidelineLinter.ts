@@ -0,0 +1,313 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { GuidelineFrontMatter } from './GuidelineFrontMatter.js';
+import { GuidelineTemplate } from './GuidelineTemplate.js';
+import { ModuleRegistry } from './ModuleRegistry.js';
+import { TokenBudget } from './TokenBudget.js';
+import { VersionedGuidelines } from './utils/VersionedGuidelines.js';
+import type { GuidelinePath, Module } from './types/Module.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const MODULES_DIR = path.join(__dirname, '..', 'modules');
+const FENCE_PATTERN = /^\s*(```+|~~~+)/;
+
+/**
+ * Template variables that do not belong to a module (see GuidelineManager.createTemplateVariables)
+ */
+const GLOBAL_TEMPLATE_VARIABLES = ['packageManager', 'runtime'];
+
+export type GuidelineLintSeverity = 'error' | 'warning';
+
+export type GuidelineLintRule =
+  | 'missing-path'     // getGuidelinePaths returns a file that does not exist
+  | 'missing-version'  // A supported version has no guidelines/<version>/ directory
+  | 'code-fence'       // Unbalanced ``` or ~~~ fences
+  | 'heading'          // No or several top-level headings
+  | 'front-matter'
+  | 'template'
+  | 'template-variable' // {{name}} naming no template variable, rendered as written
+  | 'optional-block';
+
+/**
+ * A problem found in a module's guidelines
+ */
+export interface GuidelineLintIssue {
+  file: string;  // Guideline path ('react/guidelines/framework.md'), or '<id>/guidelines/' for module-level issues
+  module: string;
+  severity: GuidelineLintSeverity;
+  rule: GuidelineLintRule;
+  message: string;
+  line?: number;
+}
+
+/**
+ * Module shape the linter needs (framework, library and language modules all have it)
+ */
+type LintedModule = Pick<Module, 'id' | 'getMetadata'> & {
+  getGuidelinePaths?(version?: string): Promise<GuidelinePath[]>;
+};
+
+/**
+ * Checks module guidelines for authoring mistakes:
+ *
+ * - every path returned by getGuidelinePaths exists (error, warning inside a version directory
+ *   since the version falls back to the unversioned guidelines)
+ * - every supported version has a guidelines/<version>/ directory (warning)
+ * - code fences are balanced (error)
+ * - each file has a single top-level heading (warning)
+ * - front-matter, template blocks and optional blocks are well-formed (error)
+ * - {{name}} tags name a template variable (warning)
+ */
+export class GuidelineLinter {
+  /**
+   * Lint the bundled modules under src/modules (all of them, or the given ids)
+   */
+  static async lintAll(moduleIds?: string[]): Promise<GuidelineLintIssue[]> {
+    const registry = new ModuleRegistry();
+    await registry.discoverModules();
+
+    const allRegistrations = registry.getAllRegistrations();
+    const registrations = allRegistrations
+      .filter(registration => !moduleIds || moduleIds.includes(registration.id));
+    const unknown = moduleIds?.filter(id => !registrations.some(registration => registration.id === id)) ?? [];
+    if (unknown.length > 0) {
+      throw new Error(`Unknown module: ${unknown.join(', ')}`);
+    }
+    const modules = await Promise.all(registrations.map(registration => registration.factory()));
+
+    return this.lint(modules, MODULES_DIR, allRegistrations.map(registration => registration.id));
+  }
+
+  /**
+   * Lint modules whose guidelines live in modulesDir; knownModuleIds are the modules
+   * templates can refer to ({{version.<id>}}, {{#if module.<id>}}), the linted ones by default
+   */
+  static async lint(
+    modules: LintedModule[],
+    modulesDir = MODULES_DIR,
+    knownModuleIds = modules.map(module => module.id)
+  ): Promise<GuidelineLintIssue[]> {
+    const issues: GuidelineLintIssue[] = [];
+
+    for (const module of [...modules].sort((a, b) => a.id.localeCompare(b.id))) {
+      issues.push(...await this.lintVersions(module, modulesDir));
+      issues.push(...await this.lintPaths(module, modulesDir));
+
+      const root = path.join(modulesDir, module.id, 'guidelines');
+      for (const file of await this.listMarkdownFiles(root)) {
+        const content = await fs.readFile(path.join(root, file), 'utf-8');
+        issues.push(...this.lintContent(content, `${module.id}/guidelines/${file}`, knownModuleIds)
+          .map(issue => ({ ...issue, module: module.id })));
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Group issues by file, keeping their order
+   */
+  static groupByFile(issues: GuidelineLintIssue[]): Map<string, GuidelineLintIssue[]> {
+    const files = new Map<string, GuidelineLintIssue[]>();
+    for (const issue of issues) {
+      files.set(issue.file, [...files.get(issue.file) ?? [], issue]);
+    }
+    return files;
+  }
+
+  /**
+   * Check the markdown of a single guideline file ({{name}} tags only when the known module ids are given)
+   */
+  static lintContent(content: string, file: string, knownModuleIds?: string[]): Array<Omit<GuidelineLintIssue, 'module'>> {
+    const issues: Array<Omit<GuidelineLintIssue, 'module'>> = [];
+    const error = (rule: GuidelineLintRule, message: string, line?: number) =>
+      issues.push({ file, severity: 'error', rule, message, line });
+
+    let body = content;
+    let offset = 0;
+    try {
+      body = GuidelineFrontMatter.parse(content, file).content;
+      offset = content.split('\n').length - body.split('\n').length;
+    } catch (e) {
+      error('front-matter', (e as Error).message);
+    }
+
+    const checks: Array<[GuidelineLintRule, () => unknown]> = [
+      ['template', () => GuidelineTemplate.validate(body, file)],
+      ['optional-block', () => TokenBudget.extractOptionalBlocks(body, file)]
+    ];
+    for (const [rule, check] of checks) {
+      try {
+        check();
+      } catch (e) {
+        error(rule, (e as Error).message);
+      }
+    }
+
+    if (knownModuleIds) {
+      issues.push(...this.lintTemplateVariables(body, file, knownModuleIds)
+        .map(issue => ({ ...issue, line: issue.line + offset })));
+    }
+
+    const lines = body.split('\n');
+    const headings: number[] = [];
+    let fence: { marker: string; line: number } | null = null;
+
+    lines.forEach((line, index) => {
+      const match = line.match(FENCE_PATTERN);
+      if (match) {
+        const marker = match[1];
+        if (!fence) {
+          fence = { marker, line: index + 1 };
+        } else if (marker[0] === fence.marker[0] && marker.length >= fence.marker.length && !line.trim().slice(marker.length)) {
+          fence = null;
+        }
+        return;
+      }
+
+      if (!fence && /^#\s/.test(line)) headings.push(index + 1);
+    });
+
+    if (fence) {
+      error('code-fence', 'Unclosed code fence', (fence as { line: number }).line + offset);
+    }
+
+    if (headings.length === 0) {
+      issues.push({ file, severity: 'warning', rule: 'heading', message: 'Missing top-level heading (# Title)' });
+    } else if (headings.length > 1) {
+      issues.push({
+        file,
+        severity: 'warning',
+        rule: 'heading',
+        message: `${headings.length} top-level headings, expected one`,
+        line: headings[1] + offset
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * {{name}} tags naming no template variable: rendered as written, so most likely a typo
+   */
+  private static lintTemplateVariables(
+    body: string,
+    file: string,
+    knownModuleIds: string[]
+  ): Array<Omit<GuidelineLintIssue, 'module'> & { line: number }> {
+    let variables: Array<{ name: string; line: number }>;
+    try {
+      variables = GuidelineTemplate.listVariables(body, file);
+    } catch {
+      return []; // Malformed blocks are reported by the 'template' rule
+    }
+
+    return variables
+      .filter(({ name }) => {
+        const [prefix, moduleId] = name.split(/\.(.*)/);
+        return !GLOBAL_TEMPLATE_VARIABLES.includes(name)
+          && !((prefix === 'module' || prefix === 'version') && knownModuleIds.includes(moduleId));
+      })
+      .map(({ name, line }) => ({
+        file,
+        severity: 'warning' as const,
+        rule: 'template-variable' as const,
+        message: `Unknown template variable "${name}" is rendered as written (escape it as \\{{${name}}})`,
+        line
+      }));
+  }
+
+  /**
+   * Supported versions without a guidelines/<version>/ directory
+   */
+  private static async lintVersions(module: LintedModule, modulesDir: string): Promise<GuidelineLintIssue[]> {
+    const missing: string[] = [];
+
+    for (const version of module.getMetadata().supportedVersions ?? []) {
+      if (!/^\d/.test(version)) continue; // Not a numeric version ('ES2015')
+
+      const match = await VersionedGuidelines.resolve(module.id, version, modulesDir);
+      if (!match?.exact) missing.push(version);
+    }
+
+    if (missing.length === 0) return [];
+
+    return [{
+      file: `${module.id}/guidelines/`,
+      module: module.id,
+      severity: 'warning',
+      rule: 'missing-version',
+      message: `No versioned guidelines for supported ${missing.length === 1 ? 'version' : 'versions'} ${missing.join(', ')}`
+    }];
+  }
+
+  /**
+   * Paths returned by getGuidelinePaths (for no version, each supported version
+   * and each version directory) that do not exist
+   */
+  private static async lintPaths(module: LintedModule, modulesDir: string): Promise<GuidelineLintIssue[]> {
+    if (!module.getGuidelinePaths) return [];
+
+    const versions = new Set<string | undefined>([
+      undefined,
+      ...module.getMetadata().supportedVersions ?? [],
+      ...await VersionedGuidelines.listVersions(module.id, modulesDir)
+    ]);
+
+    const missing = new Map<string, string | undefined>();
+    for (const version of versions) {
+      for (const guidelinePath of await module.getGuidelinePaths(version)) {
+        if (missing.has(guidelinePath.path)) continue;
+
+        const candidates = [
+          path.join(modulesDir, module.id, guidelinePath.path),
+          path.join(modulesDir, module.id, guidelinePath.path.replace(`${module.id}/`, ''))
+        ];
+        if (!await this.anyExists(candidates)) {
+          missing.set(guidelinePath.path, version);
+        }
+      }
+    }
+
+    return Array.from(missing, ([file, version]) => {
+      // Only returned for a version and below guidelines/<dir>/: the version-specific file
+      const versioned = version !== undefined && file.split('/guidelines/')[1]?.includes('/');
+      return {
+        file,
+        module: module.id,
+        severity: versioned ? 'warning' as const : 'error' as const,
+        rule: 'missing-path' as const,
+        message: `getGuidelinePaths(${version === undefined ? '' : `'${version}'`}) returns a file that does not exist`
+      };
+    });
+  }
+
+  private static async anyExists(files: string[]): Promise<boolean> {
+    for (const file of files) {
+      if (await fs.pathExists(file)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Markdown files below a directory, relative to it and sorted
+   */
+  private static async listMarkdownFiles(dir: string, prefix = ''): Promise<string[]> {
+    if (!await fs.pathExists(dir)) return [];
+
+    const files: string[] = [];
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        files.push(...await this.listMarkdownFiles(path.join(dir, entry.name), relativePath));
+      } else if (entry.name.endsWith('.md')) {
+        files.push(relativePath);
+      }
+    }
+    return files;
+  }
+}
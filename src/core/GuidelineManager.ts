@@ -1,32 +1,100 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import type { DetectedStack } from './StackDetector.js';
+import type { DetectedStack, StackCommands, StackCommandCategory } from './StackDetector.js';
 import { ModuleManager } from './ModuleManager.js';
 import { ModuleRegistry } from './ModuleRegistry.js';
-import type { GuidelinePath, ModulePriorityType } from './types/Module.js';
+import { PRIORITY_ORDER } from './types/Module.js';
+import type {
+  FrameworkModule,
+  GuidelineAudience,
+  GuidelineMetadata,
+  GuidelinePath,
+  LanguageModule,
+  LibraryModule,
+  ModuleDetection,
+  ModulePriorityType
+} from './types/Module.js';
+import { MANAGED_SECTIONS, type ManagedSectionName } from './ManagedSections.js';
+import { ConfigLoader, type FrankenConfig } from './ConfigLoader.js';
+import { GuidelineTemplate, type TemplateVariables } from './GuidelineTemplate.js';
+import { GuidelineFrontMatter } from './GuidelineFrontMatter.js';
+import { GuidelineOverrides } from './GuidelineOverrides.js';
+import { GuidelinePacks, type GuidelinePack, type PackGuideline } from './GuidelinePacks.js';
+import { TokenBudget, type TokenBudgetResult } from './TokenBudget.js';
+import { VersionedGuidelines } from './utils/VersionedGuidelines.js';
+import { GuidelineDeduplicator, type DuplicateMerge } from './GuidelineDeduplicator.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+/**
+ * Commands section headings and the description used when a module supplies none
+ */
+const COMMAND_CATEGORIES: Record<StackCommandCategory, { heading: string; description: string }> = {
+  dev: { heading: 'Development', description: 'Start development server' },
+  build: { heading: 'Build', description: 'Build for production' },
+  test: { heading: 'Testing', description: 'Run tests' },
+  lint: { heading: 'Linting', description: 'Run linter' },
+  install: { heading: 'Package Management', description: 'Install dependencies' }
+};
+
+/**
+ * Order of the guideline categories in the guidelines section
+ */
+export const RENDERED_CATEGORIES: Guideline['category'][] = ['framework', 'feature', 'language', 'testing'];
+
 export interface Guideline {
   id: string;
   path: string;
   content: string;
   category: 'framework' | 'language' | 'feature' | 'testing';
   priority: ModulePriorityType;
+  audience: GuidelineAudience;
+  module?: string; // Id of the module that provided the guideline (absent for common guidelines)
+  extensions?: string[]; // File extensions the providing module handles
+  title?: string;
+  metadata?: GuidelineMetadata; // Front-matter merged with the module's GuidelinePath metadata
+  optionalBlocks?: string[]; // Blocks marked optional, trimmed first under a token budget
+  overrides?: string[]; // Project files in .franken/guidelines that replaced or extended the bundled file
+  pack?: string; // Guideline pack (npm package) the file came from
+  combination?: string[]; // Module ids a combination guideline applies to (all of them must be included)
+  duplicates?: DuplicateMerge[]; // Sections and code samples removed because a higher-priority guideline has them
+}
+
+/**
+ * Priority types and categories of the included modules (categories keep the highest module priority)
+ */
+interface CommonGuidelineGroups {
+  priorityTypes: Set<ModulePriorityType>;
+  categories: Map<GuidelinePath['category'], ModulePriorityType>;
 }
 
 export interface GuidelineContext {
-  phpVersion?: string;
-  laravelVersion?: string;
-  vueVersion?: string;
-  reactVersion?: string;
-  nextVersion?: string;
-  nuxtVersion?: string;
-  svelteVersion?: string;
-  svelteKitVersion?: string;
+  versions?: Map<string, string>; // Module id -> version passed to getGuidelinePaths
   stack: DetectedStack;
+  config?: FrankenConfig;
+  maxTokens?: number; // Token budget per generated file (--max-tokens, else "maxTokens" from the config)
+}
+
+/**
+ * A bundled guideline file, as listed by `franken guidelines list`
+ */
+export interface AvailableGuideline {
+  path: string;      // Same form as Guideline.path ('laravel/guidelines/12/features.md', 'combinations/inertia+react.md')
+  file: string;      // Absolute path
+  source: 'module' | 'common' | 'combination';
+  module?: string;
+  version?: string;  // Version directory the file belongs to
+  category: GuidelinePath['category'];
+  priority?: ModulePriorityType;  // Combination guidelines take the priority of their modules
+}
+
+/**
+ * What was trimmed from the guidelines of one generated file to fit the token budget
+ */
+export interface TokenBudgetReport extends Omit<TokenBudgetResult<Guideline>, 'guidelines'> {
+  file: string;
 }
 
 export class GuidelineManager {
@@ -53,6 +121,9 @@ export class GuidelineManager {
    * Initialize modules for guideline collection
    */
   private async initializeModules(): Promise<void> {
+    // Already initialized by an earlier call on this manager
+    if (this.moduleManager.getModules().length > 0) return;
+
     await this.moduleRegistry.discoverModules();
     for (const registration of this.moduleRegistry.getEnabledRegistrations()) {
       this.moduleManager.register(registration);
@@ -68,9 +139,8 @@ export class GuidelineManager {
 
     const guidelines: Guideline[] = [];
     const modules = this.moduleManager.getModules();
-    const includedPriorityTypes = new Set<string>();
 
-    // First pass: collect included modules and their priority types
+    // First pass: collect included modules
     const includeModules: Array<{ module: any, version: string | undefined, detectionResult?: any }> = [];
 
     for (const module of modules) {
@@ -78,31 +148,29 @@ export class GuidelineManager {
       const shouldInclude = this.shouldIncludeModule(module, context);
 
       if (shouldInclude) {
-        // Track which priority types are included
-        const moduleInfo = module as any;
-        if (moduleInfo.priorityType) {
-          includedPriorityTypes.add(moduleInfo.priorityType);
-        }
-
         // Get version for this module
-        const version = this.getModuleVersion(module, context);
+        const version = this.getModuleVersion(module.id, context);
 
-        // Get detection result to access excludes
+        // Get detection result to access excludes, unless StackDetector recorded the exclusion trail
         let detectionResult;
-        try {
-          if ('detect' in module && typeof module.detect === 'function') {
-            // Create a minimal detection context for getting excludes
-            const detectionContext = {
-              projectRoot: process.cwd(),
-              configFiles: context.stack.configFiles || [],
-              files: [],
-              packageJson: undefined, // Don't need package.json for excludes
-              composerJson: null
-            };
-            detectionResult = await module.detect(detectionContext);
+        if (!context.stack.detections) {
+          try {
+            if (context.stack.excludes) {
+              detectionResult = { excludes: context.stack.excludes[module.id] };
+            } else if ('detect' in module && typeof module.detect === 'function') {
+              // Create a minimal detection context for getting excludes
+              const detectionContext = {
+                projectRoot: process.cwd(),
+                configFiles: context.stack.configFiles || [],
+                files: [],
+                packageJson: undefined, // Don't need package.json for excludes
+                composerJson: null
+              };
+              detectionResult = await module.detect(detectionContext);
+            }
+          } catch (error) {
+            // If detection fails, continue without excludes
           }
-        } catch (error) {
-          // If detection fails, continue without excludes
         }
 
         includeModules.push({ module, version, detectionResult });
@@ -110,59 +178,225 @@ export class GuidelineManager {
     }
 
     // Apply exclusion logic
-    const filteredModules = this.applyExclusions(includeModules);
+    const filteredModules = this.applyExclusions(includeModules, context.stack.detections);
 
-    // Second pass: Load common guidelines FIRST (only once per priority type)
-    await this.loadCommonGuidelines(guidelines, includedPriorityTypes);
+    // Priority types and categories of the included modules, for the common guidelines
+    const commonGroups: CommonGuidelineGroups = { priorityTypes: new Set(), categories: new Map() };
 
-    // Third pass: Load specific module guidelines
+    // Guideline packs installed as npm dependencies of the project
+    const { packs, warnings: packWarnings } = await GuidelinePacks.discover();
+    packWarnings.forEach(warning => console.warn(warning));
+
+    // Second pass: Load specific module guidelines
     for (const { module, version } of filteredModules) {
-      // Get guideline paths from the module
-      let guidelinePaths: GuidelinePath[] = [];
-      if (module.type === 'framework') {
-        const frameworkModule = module as any;
-        guidelinePaths = await frameworkModule.getGuidelinePaths(version);
-      } else if (module.type === 'language') {
-        const languageModule = module as any;
-        guidelinePaths = await languageModule.getGuidelinePaths(version);
-      } else if (module.type === 'library') {
-        const libraryModule = module as any;
-        guidelinePaths = await libraryModule.getGuidelinePaths(version);
+      for (const guideline of await this.loadModuleGuidelines(module, version, packs)) {
+        guidelines.push(guideline);
+
+        // Modules can opt out of the common guidelines of their priority type and categories
+        if (module.commonGuidelines !== false) {
+          const priorityType: ModulePriorityType = module.priorityType;
+          const categoryPriority = commonGroups.categories.get(guideline.category);
+          commonGroups.priorityTypes.add(priorityType);
+          if (!categoryPriority || PRIORITY_ORDER[priorityType] > PRIORITY_ORDER[categoryPriority]) {
+            commonGroups.categories.set(guideline.category, priorityType);
+          }
+        }
       }
+    }
+
+    // Third pass: Common guidelines go FIRST, once per priority type or category
+    guidelines.unshift(...await this.loadCommonGuidelines(commonGroups));
+
+    // Guidelines for modules used together (e.g. Inertia + React), after the individual modules
+    await this.loadCombinationGuidelines(guidelines, filteredModules);
+
+    // Fourth pass: Load extra project guidelines from franken.config.json
+    await this.loadProjectGuidelines(guidelines, context.config?.guidelines ?? []);
+
+    const includedModuleIds = filteredModules.map(({ module }) => module.id);
+    const rendered = this.renderGuidelines(guidelines, context, includedModuleIds);
+
+    // Drop sections and code samples repeated across guidelines, keeping the higher-priority copy
+    const { guidelines: deduplicated, merges } = GuidelineDeduplicator.deduplicate(this.sortGuidelines(rendered));
+
+    return deduplicated.map(guideline => {
+      const duplicates = merges.filter(merge => merge.path === guideline.path);
+      if (duplicates.length === 0) return guideline;
+
+      return {
+        ...guideline,
+        optionalBlocks: guideline.optionalBlocks?.filter(block => guideline.content.includes(block)),
+        duplicates
+      };
+    });
+  }
+
+  /**
+   * Resolve the guidelines of a single module as they would be generated for the project,
+   * whether or not the module was detected (null for an unknown module id)
+   */
+  async collectModuleGuidelines(moduleId: string, context: GuidelineContext): Promise<Guideline[] | null> {
+    await this.initializeModules();
+
+    const module = this.moduleManager.getModule(moduleId);
+    if (!module) return null;
+
+    const { packs } = await GuidelinePacks.discover();
+    const guidelines = await this.loadModuleGuidelines(module, this.getModuleVersion(moduleId, context), packs);
+
+    const includedModuleIds = this.moduleManager.getModules()
+      .filter(m => m.id === moduleId || this.shouldIncludeModule(m, context))
+      .map(m => m.id);
 
-      // Load the actual guideline content
-      for (const guidelinePath of guidelinePaths) {
-        const guideline = await this.loadModuleGuideline(guidelinePath, module.id);
-        if (guideline) {
-          guidelines.push(guideline);
+    return this.sortGuidelines(this.renderGuidelines(guidelines, context, includedModuleIds));
+  }
+
+  /**
+   * Load a module's guidelines for a version: declared paths, front-matter files
+   * found in its guidelines directory and files shipped by guideline packs
+   */
+  private async loadModuleGuidelines(module: any, version: string | undefined, packs: GuidelinePack[]): Promise<Guideline[]> {
+    // Get guideline paths from the module
+    let guidelinePaths: GuidelinePath[] = [];
+    if (module.type === 'framework') {
+      const frameworkModule = module as any;
+      guidelinePaths = await frameworkModule.getGuidelinePaths(version);
+    } else if (module.type === 'language') {
+      const languageModule = module as any;
+      guidelinePaths = await languageModule.getGuidelinePaths(version);
+    } else if (module.type === 'library') {
+      const libraryModule = module as any;
+      guidelinePaths = await libraryModule.getGuidelinePaths(version);
+    }
+
+    guidelinePaths.push(...await this.discoverModuleGuidelines(module, guidelinePaths));
+
+    // Pack files replace bundled files with the same path, the others are added
+    const packFiles = new Map<string, PackGuideline>();
+    if (packs.length > 0) {
+      const { guidelines: packGuidelines, conflicts } = await GuidelinePacks.collect(packs, module.id, version);
+      conflicts.forEach(conflict => console.warn(`Guideline pack conflict: ${conflict}`));
+
+      for (const packGuideline of packGuidelines) {
+        packFiles.set(packGuideline.path, packGuideline);
+        if (!guidelinePaths.some(g => g.path === packGuideline.path)) {
+          guidelinePaths.push(this.createModuleGuidelinePath(module, packGuideline.path));
         }
       }
     }
 
-    return this.sortGuidelines(guidelines);
+    // Load the actual guideline content
+    const guidelines: Guideline[] = [];
+    for (const guidelinePath of guidelinePaths) {
+      const guideline = await this.loadModuleGuideline(guidelinePath, module.id, packFiles.get(guidelinePath.path));
+      if (guideline) {
+        guidelines.push({
+          ...guideline,
+          module: module.id,
+          extensions: module.getSupportedExtensions?.() ?? []
+        });
+      }
+    }
+
+    return guidelines;
+  }
+
+  /**
+   * Drop guidelines whose front-matter rules do not match the project, then resolve
+   * template tags ({{packageManager}}, {{#if module.typescript}}, ...) and optional blocks
+   */
+  private renderGuidelines(guidelines: Guideline[], context: GuidelineContext, includedModuleIds: string[]): Guideline[] {
+    const applicable = guidelines.filter(guideline => !guideline.metadata || GuidelineFrontMatter.isApplicable(
+      guideline.metadata, guideline.module, includedModuleIds, context.versions, guideline.path
+    ));
+
+    const variables = this.createTemplateVariables(context, includedModuleIds);
+    return applicable.map(guideline => ({
+      ...guideline,
+      ...TokenBudget.extractOptionalBlocks(
+        GuidelineTemplate.render(guideline.content, variables, guideline.path),
+        guideline.path
+      )
+    }));
+  }
+
+  /**
+   * Trim the guidelines so each generated file fits in context.maxTokens
+   * (CLAUDE.md for implementation guidelines, GEMINI.md for analysis guidelines)
+   */
+  applyTokenBudget(guidelines: Guideline[], context: GuidelineContext): { guidelines: Guideline[]; reports: TokenBudgetReport[] } {
+    if (!context.maxTokens) {
+      return { guidelines, reports: [] };
+    }
+
+    const files: Array<{ file: string; audience: GuidelineAudience; overhead: string }> = [
+      { file: 'CLAUDE.md', audience: 'claude', overhead: this.generateClaudeContent([], context) },
+      { file: 'GEMINI.md', audience: 'gemini', overhead: this.generateGeminiContent([], context) }
+    ];
+
+    const kept = new Map<string, Guideline>();
+    const reports: TokenBudgetReport[] = [];
+
+    for (const { file, audience, overhead } of files) {
+      const { guidelines: fitted, ...report } = TokenBudget.fit(
+        this.filterByAudience(guidelines, audience),
+        TokenBudget.estimate(overhead),
+        context.maxTokens
+      );
+
+      fitted.forEach(guideline => kept.set(guideline.id, guideline));
+      reports.push({ file, ...report });
+    }
+
+    return {
+      guidelines: guidelines.filter(g => kept.has(g.id)).map(g => kept.get(g.id)!),
+      reports
+    };
   }
 
   /**
-   * Apply exclusions based on higher priority modules
+   * Variables available to guideline templates
+   */
+  private createTemplateVariables(context: GuidelineContext, includedModuleIds: string[]): TemplateVariables {
+    const variables: TemplateVariables = {
+      packageManager: this.getPreferredPackageManager(context.stack.packageManagers),
+      runtime: context.stack.runtime
+    };
+
+    for (const module of this.moduleManager.getModules()) {
+      variables[`module.${module.id}`] = includedModuleIds.includes(module.id);
+      variables[`version.${module.id}`] = undefined;
+    }
+
+    for (const [moduleId, version] of context.versions ?? []) {
+      variables[`version.${moduleId}`] = version;
+    }
+
+    return variables;
+  }
+
+  /**
+   * Apply exclusions based on higher priority modules. Uses the exclusion trail recorded by
+   * StackDetector (`excludedBy`), so guidelines drop the modules `detect --explain` reports as excluded.
    */
   private applyExclusions(
-    modules: Array<{ module: any, version: string | undefined, detectionResult?: any }>
+    modules: Array<{ module: any, version: string | undefined, detectionResult?: any }>,
+    detections?: ModuleDetection[]
   ): Array<{ module: any, version: string | undefined }> {
-    const priorityOrder: Record<string, number> = {
-      'meta-framework': 6,
-      'framework': 5,
-      'css-framework': 4,
-      'laravel-tool': 3,
-      'specialized-lang': 2,
-      'base-lang': 1
-    };
+    if (detections) {
+      const excludedIds = new Set(detections
+        .filter(detection => !detection.detected && detection.excludedBy?.length)
+        .map(detection => detection.module));
+
+      return modules
+        .filter(({ module }) => !excludedIds.has(module.id))
+        .map(({ module, version }) => ({ module, version }));
+    }
 
     // Sort modules by priority (higher first)
-    const sortedModules = [...modules].sort((a, b) => {
-      const priorityA = priorityOrder[a.module.priorityType] || 0;
-      const priorityB = priorityOrder[b.module.priorityType] || 0;
-      return priorityB - priorityA;
-    });
+    const sortedModules = [...modules].sort((a, b) =>
+      PRIORITY_ORDER[b.module.priorityType as ModulePriorityType] - PRIORITY_ORDER[a.module.priorityType as ModulePriorityType]
+    );
 
     const excludedIds = new Set<string>();
     const resultModules = [];
@@ -172,7 +406,6 @@ export class GuidelineManager {
 
       // Skip if this module is excluded by a higher priority module
       if (excludedIds.has(module.id)) {
-        console.log(`Module ${module.id} excluded by higher priority module`);
         continue;
       }
 
@@ -181,10 +414,7 @@ export class GuidelineManager {
 
       // Add excludes from this module's detection result
       if (detectionResult?.excludes) {
-        detectionResult.excludes.forEach((excludeId: string) => {
-          excludedIds.add(excludeId);
-          console.log(`Module ${module.id} excludes ${excludeId}`);
-        });
+        detectionResult.excludes.forEach((excludeId: string) => excludedIds.add(excludeId));
       }
     }
 
@@ -192,38 +422,88 @@ export class GuidelineManager {
   }
 
   /**
-   * Load common guidelines based on included priority types
-   * Common guidelines are loaded only once per priority type, even if multiple modules of that type exist
-   * They are loaded BEFORE specific module guidelines
+   * Load the common guidelines of the included priority types and categories:
+   * src/guidelines/common/priority/<priority-type>.md and src/guidelines/common/category/<category>.md.
+   * Each is loaded once, however many modules share the priority type or category.
    */
-  private async loadCommonGuidelines(guidelines: Guideline[], includedPriorityTypes: Set<string>): Promise<void> {
-    const commonGuidelineMap: Record<string, { path: string; category: 'framework' | 'language' | 'feature' | 'testing' }> = {
-      'css-framework': {
-        path: 'css-frameworks/common.md',
-        category: 'framework'
+  private async loadCommonGuidelines(groups: CommonGuidelineGroups): Promise<Guideline[]> {
+    const guidelines: Guideline[] = [];
+
+    for (const priorityType of groups.priorityTypes) {
+      const guideline = await this.loadCommonGuideline(
+        { path: `common/priority/${priorityType}.md`, priority: priorityType, category: 'framework' },
+        `common-${priorityType}`
+      );
+      if (guideline) guidelines.push(guideline);
+    }
+
+    for (const [category, priority] of groups.categories) {
+      const guideline = await this.loadCommonGuideline(
+        { path: `common/category/${category}.md`, priority, category },
+        `common-category-${category}`
+      );
+      if (guideline) guidelines.push(guideline);
+    }
+
+    return guidelines;
+  }
+
+  /**
+   * Load combination guidelines: src/guidelines/combinations/<id>+<id>[+<id>].md is
+   * loaded when every module id in the file name survived detection and exclusions.
+   * The guideline takes the highest priority of its modules.
+   */
+  private async loadCombinationGuidelines(
+    guidelines: Guideline[],
+    modules: Array<{ module: { id: string; priorityType: ModulePriorityType } }>
+  ): Promise<void> {
+    const combinationsDir = path.join(this.guidelinesPath, 'combinations');
+    if (!await fs.pathExists(combinationsDir)) return;
+
+    const included = new Map(modules.map(({ module }) => [module.id, module.priorityType]));
+    const files = (await fs.readdir(combinationsDir)).filter(file => file.endsWith('.md')).sort();
+
+    for (const file of files) {
+      const moduleIds = file.replace(/\.md$/, '').split('+');
+      if (moduleIds.length < 2 || !moduleIds.every(id => included.has(id))) continue;
+
+      const priority = moduleIds
+        .map(id => included.get(id)!)
+        .reduce((highest, type) => PRIORITY_ORDER[type] > PRIORITY_ORDER[highest] ? type : highest);
+
+      const guidelinePath: GuidelinePath = { path: `combinations/${file}`, priority, category: 'framework' };
+      const guideline = await this.loadCommonGuideline(guidelinePath, `combination-${moduleIds.join('-')}`);
+      if (guideline) {
+        guidelines.push({ ...guideline, combination: moduleIds });
       }
-      // Add more common guidelines as needed:
-      // 'testing-framework': { path: 'testing-frameworks/common.md', category: 'framework' },
-      // 'laravel-tool': { path: 'laravel-tools/common.md', category: 'framework' }
-    };
+    }
+  }
 
-    for (const priorityType of includedPriorityTypes) {
-      const commonGuideline = commonGuidelineMap[priorityType];
-      if (commonGuideline) {
-        const existingId = `common-${priorityType}`;
-
-        // Common guidelines are loaded only once, even with multiple modules of the same type
-        const guidelinePath: GuidelinePath = {
-          path: commonGuideline.path,
-          priority: priorityType as any,
-          category: commonGuideline.category
-        };
-
-        const guideline = await this.loadCommonGuideline(guidelinePath, existingId);
-        if (guideline) {
-          guidelines.push(guideline);
+  /**
+   * Load extra guideline files listed in franken.config.json (relative to the project root)
+   */
+  private async loadProjectGuidelines(guidelines: Guideline[], files: string[]): Promise<void> {
+    for (const file of files) {
+      const fullPath = path.resolve(process.cwd(), file);
+
+      let raw: string;
+      try {
+        if (!await fs.pathExists(fullPath)) {
+          console.warn(`Project guideline not found: ${file}`);
+          continue;
         }
+
+        raw = await fs.readFile(fullPath, 'utf-8');
+      } catch (error) {
+        console.warn(`Failed to load project guideline: ${file}`, error);
+        continue;
       }
+
+      guidelines.push(this.createGuideline(
+        `project-${file.replace(/[\\/]/g, '-').replace('.md', '')}`,
+        { path: file, category: 'framework', priority: 'base-lang' },
+        raw
+      ));
     }
   }
 
@@ -231,22 +511,16 @@ export class GuidelineManager {
    * Load a common guideline from the guidelines directory
    */
   private async loadCommonGuideline(guidelinePath: GuidelinePath, id: string): Promise<Guideline | null> {
+    let raw: string | null = null;
     try {
       const fullPath = path.join(this.guidelinesPath, guidelinePath.path);
       if (await fs.pathExists(fullPath)) {
-        const content = await fs.readFile(fullPath, 'utf-8');
-        return {
-          id,
-          path: guidelinePath.path,
-          content,
-          category: guidelinePath.category,
-          priority: guidelinePath.priority
-        };
+        raw = await fs.readFile(fullPath, 'utf-8');
       }
     } catch (error) {
       console.warn(`Failed to load common guideline: ${guidelinePath.path}`, error);
     }
-    return null;
+    return raw === null ? null : this.createGuideline(id, guidelinePath, raw);
   }
 
   /**
@@ -256,6 +530,12 @@ export class GuidelineManager {
     const metadata = module.getMetadata();
     const displayName = metadata.displayName;
 
+    // Modules enabled or disabled in franken.config.json win over detection
+    if (context.config) {
+      if (ConfigLoader.getDisabledModules(context.config).includes(module.id)) return false;
+      if (ConfigLoader.getEnabledModules(context.config).includes(module.id)) return true;
+    }
+
     // Check frameworks
     if (module.type === 'framework') {
       return context.stack.frameworks.includes(displayName);
@@ -277,86 +557,155 @@ export class GuidelineManager {
   /**
    * Get version for a specific module from context
    */
-  private getModuleVersion(module: any, context: GuidelineContext): string | undefined {
-    const moduleId = module.id.toLowerCase();
-
-    switch (moduleId) {
-      case 'laravel': return context.laravelVersion;
-      case 'vue': return context.vueVersion;
-      case 'react': return context.reactVersion;
-      case 'next': return context.nextVersion;
-      case 'nuxt': return context.nuxtVersion;
-      case 'svelte': return context.svelteVersion;
-      case 'sveltekit': return context.svelteKitVersion;
-      case 'php': return context.phpVersion;
-      default: return undefined;
-    }
+  getModuleVersion(moduleId: string, context: GuidelineContext): string | undefined {
+    return context.versions?.get(moduleId);
   }
 
+
   /**
    * Load a guideline from a module's guideline path
    */
-  private async loadModuleGuideline(guidelinePath: GuidelinePath, moduleId: string): Promise<Guideline | null> {
-    try {
-      // Try loading from module directory first
-      let fullPath = path.join(__dirname, '..', 'modules', moduleId, guidelinePath.path);
-      if (await fs.pathExists(fullPath)) {
-        const content = await fs.readFile(fullPath, 'utf-8');
-        return {
-          id: `${moduleId}-${guidelinePath.path.replace(/\//g, '-').replace('.md', '')}`,
-          path: guidelinePath.path,
-          content,
-          category: guidelinePath.category,
-          priority: guidelinePath.priority
-        };
-      }
-
+  private async loadModuleGuideline(
+    guidelinePath: GuidelinePath,
+    moduleId: string,
+    packGuideline?: PackGuideline
+  ): Promise<Guideline | null> {
+    const candidates = [
+      // Module directory first
+      path.join(__dirname, '..', 'modules', moduleId, guidelinePath.path),
       // Fallback to old guidelines directory
-      fullPath = path.join(this.guidelinesPath, guidelinePath.path);
-      if (await fs.pathExists(fullPath)) {
-        const content = await fs.readFile(fullPath, 'utf-8');
-        return {
-          id: `${moduleId}-${guidelinePath.path.replace(/\//g, '-').replace('.md', '')}`,
-          path: guidelinePath.path,
-          content,
-          category: guidelinePath.category,
-          priority: guidelinePath.priority
-        };
+      path.join(this.guidelinesPath, guidelinePath.path),
+      // Without the module prefix in the path
+      path.join(__dirname, '..', 'modules', moduleId, guidelinePath.path.replace(`${moduleId}/`, ''))
+    ];
+
+    // A guideline pack file comes before the bundled one
+    if (packGuideline) {
+      candidates.unshift(packGuideline.fullPath);
+    }
+
+    // .franken/guidelines/<moduleId>/ in the project can replace or extend the bundled file
+    const overrides = await GuidelineOverrides.find(moduleId, guidelinePath.path);
+    const replacement = overrides.find(override => override.mode === 'replace');
+    if (replacement) {
+      candidates.unshift(path.join(process.cwd(), replacement.file));
+    }
+
+    let raw: string | null = null;
+    const extensions: Record<'prepend' | 'append', string[]> = { prepend: [], append: [] };
+    try {
+      for (const fullPath of candidates) {
+        if (await fs.pathExists(fullPath)) {
+          raw = await fs.readFile(fullPath, 'utf-8');
+          break;
+        }
       }
 
-      // Try without the module prefix in the path
-      const pathWithoutModule = guidelinePath.path.replace(`${moduleId}/`, '');
-      fullPath = path.join(__dirname, '..', 'modules', moduleId, pathWithoutModule);
-      if (await fs.pathExists(fullPath)) {
-        const content = await fs.readFile(fullPath, 'utf-8');
-        return {
-          id: `${moduleId}-${guidelinePath.path.replace(/\//g, '-').replace('.md', '')}`,
-          path: guidelinePath.path,
-          content,
-          category: guidelinePath.category,
-          priority: guidelinePath.priority
-        };
+      for (const override of overrides) {
+        if (override.mode !== 'replace') {
+          extensions[override.mode].push((await fs.readFile(path.join(process.cwd(), override.file), 'utf-8')).trim());
+        }
       }
     } catch (error) {
       console.warn(`Failed to load guideline: ${guidelinePath.path}`, error);
     }
-    return null;
+
+    if (raw === null) return null;
+
+    // Invalid front-matter is an authoring error, so it is not swallowed like a missing file
+    const guideline = this.createGuideline(
+      `${moduleId}-${guidelinePath.path.replace(/\//g, '-').replace('.md', '')}`,
+      guidelinePath,
+      raw
+    );
+
+    if (packGuideline && !replacement) {
+      guideline.pack = packGuideline.pack;
+    }
+
+    if (overrides.length === 0) {
+      return guideline;
+    }
+
+    return {
+      ...guideline,
+      content: [...extensions.prepend, guideline.content.trim(), ...extensions.append].filter(Boolean).join('\n\n'),
+      overrides: overrides.map(override => override.file)
+    };
   }
 
   /**
-   * Sort guidelines by priority type
+   * Find guideline files with front-matter in a module's guidelines directory that
+   * getGuidelinePaths does not list, so they can be added without touching TypeScript
    */
-  private sortGuidelines(guidelines: Guideline[]): Guideline[] {
-    const priorityOrder: Record<ModulePriorityType, number> = {
-      'meta-framework': 6,
-      'framework': 5,
-      'css-framework': 4,
-      'laravel-tool': 3,
-      'specialized-lang': 2,
-      'base-lang': 1
+  private async discoverModuleGuidelines(module: any, declared: GuidelinePath[]): Promise<GuidelinePath[]> {
+    const root = path.join(__dirname, '..', 'modules', module.id, 'guidelines');
+    if (!await fs.pathExists(root)) return [];
+
+    const declaredPaths = new Set(declared.map(g => g.path.replace(`${module.id}/`, '')));
+    const discovered: GuidelinePath[] = [];
+
+    const walkDir = async (dir: string): Promise<void> => {
+      for (const entry of (await fs.readdir(dir, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name))) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walkDir(fullPath);
+          continue;
+        }
+        if (!entry.name.endsWith('.md')) continue;
+
+        const relativePath = path.relative(path.join(root, '..'), fullPath).split(path.sep).join('/');
+        if (declaredPaths.has(relativePath)) continue;
+
+        const raw = await fs.readFile(fullPath, 'utf-8');
+        if (!raw.startsWith('---')) continue;
+
+        discovered.push(this.createModuleGuidelinePath(module, `${module.id}/${relativePath}`));
+      }
+    };
+
+    await walkDir(root);
+    return discovered;
+  }
+
+  /**
+   * Guideline path for a file a module does not list itself (front-matter files, pack files)
+   */
+  private createModuleGuidelinePath(module: any, guidelinePath: string): GuidelinePath {
+    return {
+      path: guidelinePath,
+      priority: module.priorityType ?? 'framework',
+      category: module.type === 'language' ? 'language' : 'framework'
     };
+  }
 
-    return guidelines.sort((a, b) => priorityOrder[b.priority] - priorityOrder[a.priority]);
+  /**
+   * Build a guideline from its raw file content, applying the front-matter metadata
+   */
+  private createGuideline(id: string, guidelinePath: GuidelinePath, raw: string): Guideline {
+    const parsed = GuidelineFrontMatter.parse(raw, guidelinePath.path);
+    const metadata: GuidelineMetadata = { ...guidelinePath.metadata, ...parsed.metadata };
+
+    return {
+      id,
+      path: guidelinePath.path,
+      content: parsed.content,
+      category: metadata.category ?? guidelinePath.category,
+      priority: metadata.priority ?? guidelinePath.priority,
+      audience: metadata.audience ?? guidelinePath.audience ?? 'claude',
+      title: metadata.title,
+      metadata
+    };
+  }
+
+  /**
+   * Sort guidelines by priority type
+   */
+  private sortGuidelines(guidelines: Guideline[]): Guideline[] {
+    // Combination guidelines build on the individual module guidelines, so they come last
+    return guidelines.sort((a, b) =>
+      Number(!!a.combination) - Number(!!b.combination) || PRIORITY_ORDER[b.priority] - PRIORITY_ORDER[a.priority]
+    );
   }
 
 
@@ -377,40 +726,105 @@ export class GuidelineManager {
    * Generate the final CLAUDE.md content
    */
   generateClaudeContent(guidelines: Guideline[], context: GuidelineContext): string {
-    const sections: string[] = [];
+    const claudeGuidelines = this.filterByAudience(guidelines, 'claude');
+
+    return this.assembleContent({
+      stack: this.generateStackSection(context),
+      commands: this.generateCommandsSection(context),
+      workflow: this.generateWorkflowSection(),
+      guidelines: this.hasRenderableGuidelines(claudeGuidelines)
+        ? this.generateGuidelinesSection(claudeGuidelines)
+        : undefined
+    }, context);
+  }
 
-    // Add header
-    sections.push('# FrankenAI Configuration\n');
+  /**
+   * Generate the final GEMINI.md content (stack summary + analysis guidelines)
+   */
+  generateGeminiContent(guidelines: Guideline[], context: GuidelineContext): string {
+    const geminiGuidelines = this.filterByAudience(guidelines, 'gemini');
+
+    return this.assembleContent({
+      stack: this.generateStackSection(context),
+      workflow: this.generateGeminiWorkflowSection(),
+      guidelines: this.hasRenderableGuidelines(geminiGuidelines)
+        ? this.generateGuidelinesSection(geminiGuidelines)
+        : undefined
+    }, context);
+  }
 
-    // Add stack information
-    sections.push(this.generateStackSection(context));
+  /**
+   * Generate instructions for other coding assistants (AGENTS.md, Copilot, Windsurf).
+   * Same content as CLAUDE.md without the Claude Code + Gemini CLI workflow.
+   */
+  generateInstructionsContent(guidelines: Guideline[], context: GuidelineContext): string {
+    const implementationGuidelines = this.filterByAudience(guidelines, 'claude');
+
+    return this.assembleContent({
+      stack: this.generateStackSection(context),
+      commands: this.generateCommandsSection(context),
+      guidelines: this.hasRenderableGuidelines(implementationGuidelines)
+        ? this.generateGuidelinesSection(implementationGuidelines)
+        : undefined
+    }, context);
+  }
 
-    // Add commands section
-    sections.push(this.generateCommandsSection(context));
+  /**
+   * Join the header and sections, in the order set by franken.config.json "sections"
+   * (unlisted sections follow in the default order)
+   */
+  private assembleContent(blocks: Partial<Record<ManagedSectionName, string>>, context: GuidelineContext): string {
+    const order = Array.from(new Set([...(context.config?.sections ?? []), ...MANAGED_SECTIONS]));
+    const sections = order
+      .map(name => blocks[name])
+      .filter((block): block is string => Boolean(block));
+
+    return ['# FrankenAI Configuration\n', ...sections].join('\n\n');
+  }
+
+  /**
+   * Generate a single managed CLAUDE.md section, markers included
+   */
+  generateSection(section: ManagedSectionName, guidelines: Guideline[], context: GuidelineContext): string {
+    switch (section) {
+      case 'stack': return this.generateStackSection(context);
+      case 'commands': return this.generateCommandsSection(context);
+      case 'workflow': return this.generateWorkflowSection();
+      case 'guidelines': return this.generateGuidelinesSection(this.filterByAudience(guidelines, 'claude'));
+    }
+  }
 
-    // Add workflow section BEFORE guidelines (as requested)
-    sections.push(this.generateWorkflowSection());
+  /**
+   * Keep only the guidelines written for a given AI tool
+   */
+  private filterByAudience(guidelines: Guideline[], audience: GuidelineAudience): Guideline[] {
+    return guidelines.filter(g => g.audience === audience);
+  }
 
-    // Add guidelines by category
-    const frameworkGuidelines = guidelines.filter(g => g.category === 'framework');
-    const languageGuidelines = guidelines.filter(g => g.category === 'language');
+  /**
+   * Check if any guideline ends up in the guidelines section
+   */
+  private hasRenderableGuidelines(guidelines: Guideline[]): boolean {
+    return guidelines.some(g => RENDERED_CATEGORIES.includes(g.category));
+  }
 
-    if (frameworkGuidelines.length > 0 || languageGuidelines.length > 0) {
-      sections.push('[//]: # (franken-ai:guidelines:start)');
+  /**
+   * Generate guidelines section
+   */
+  private generateGuidelinesSection(guidelines: Guideline[]): string {
+    const sections: string[] = [];
 
-      // Add framework guidelines first
-      for (const guideline of frameworkGuidelines) {
-        sections.push(guideline.content);
-      }
+    sections.push('[//]: # (franken-ai:guidelines:start)');
 
-      // Add language guidelines
-      for (const guideline of languageGuidelines) {
+    // Framework guidelines first, then feature, language and testing guidelines
+    for (const category of RENDERED_CATEGORIES) {
+      for (const guideline of guidelines.filter(g => g.category === category)) {
         sections.push(guideline.content);
       }
-
-      sections.push('[//]: # (franken-ai:guidelines:end)');
     }
 
+    sections.push('[//]: # (franken-ai:guidelines:end)');
+
     return sections.join('\n\n');
   }
 
@@ -436,12 +850,25 @@ export class GuidelineManager {
       lines.push(`- **Frameworks**: ${context.stack.frameworks.join(', ')}`);
     }
 
-    if (context.laravelVersion) {
-      lines.push(`- **Laravel Version**: ${context.laravelVersion}`);
+    for (const [moduleId, version] of context.versions ?? []) {
+      const displayName = this.moduleManager.getModule(moduleId)?.getMetadata().displayName ?? moduleId;
+      lines.push(`- **${displayName} Version**: ${version}`);
     }
 
-    if (context.phpVersion) {
-      lines.push(`- **PHP Version**: ${context.phpVersion}`);
+    for (const warning of context.stack.guidelineWarnings ?? []) {
+      lines.push(`- **Guideline Note**: ${warning}`);
+    }
+
+    // Monorepos: one line per package, details live in the package's own context files
+    if (context.stack.packages && context.stack.packages.length > 0) {
+      const tools = context.stack.workspaceTools?.length ? ` (${context.stack.workspaceTools.join(', ')})` : '';
+      lines.push('');
+      lines.push(`### Workspace Packages${tools}`);
+
+      for (const { name, path: packagePath, stack } of context.stack.packages) {
+        const technologies = [...stack.frameworks, ...stack.languages];
+        lines.push(`- **${name}** (\`${packagePath}/\`): ${technologies.join(', ') || 'Generic'}`);
+      }
     }
 
     lines.push('[//]: # (franken-ai:stack:end)');
@@ -450,69 +877,31 @@ export class GuidelineManager {
   }
 
   /**
-   * Generate commands section
+   * Generate commands section from the commands contributed by the detected modules
    */
   private generateCommandsSection(context: GuidelineContext): string {
     const lines: string[] = [];
+    const commands: Partial<StackCommands> = context.stack.commands ?? {};
 
     lines.push('[//]: # (franken-ai:commands:start)');
     lines.push('## Commands\n');
 
-    // Generate commands based on detected stack
-    if (context.stack.frameworks.includes('Laravel')) {
-      lines.push('### Development');
-      lines.push('- `php artisan serve` - Start development server');
-      lines.push('- `php artisan tinker` - Interactive REPL\n');
-
-      lines.push('### Build');
-      lines.push('- `npm run build` - Build assets for production');
-      lines.push('- `npm run dev` - Build assets for development\n');
-
-      lines.push('### Testing');
-      lines.push('- `php artisan test` - Run tests');
-      lines.push('- `vendor/bin/phpunit` - Run PHPUnit tests\n');
+    const categories = (Object.keys(COMMAND_CATEGORIES) as StackCommandCategory[])
+      .filter(category => (commands[category]?.length ?? 0) > 0);
 
-      lines.push('### Linting');
-      lines.push('- `./vendor/bin/pint` - Run Laravel Pint (if installed)');
-      lines.push('- `composer run lint` - Run linter\n');
-
-      lines.push('### Package Management');
-      lines.push('- `composer install` - Install PHP dependencies');
-      lines.push('- `npm install` - Install Node.js dependencies\n');
-    } else if (context.stack.frameworks.some(f => ['Next', 'Nuxt', 'Vue', 'React'].includes(f))) {
-      // Frontend framework commands
-      const packageManager = this.getPreferredPackageManager(context.stack.packageManagers);
-
-      lines.push('### Development');
-      lines.push(`- \`${packageManager} run dev\` - Start development server`);
-
-      if (context.stack.frameworks.includes('Next') || context.stack.frameworks.includes('Nuxt')) {
-        lines.push(`- \`${packageManager} run start\` - Start production server\n`);
-      } else {
-        lines.push('');
-      }
+    if (categories.length > 0) {
+      // Commands generated by the detected modules
+      for (const category of categories) {
+        lines.push(`### ${COMMAND_CATEGORIES[category].heading}`);
 
-      lines.push('### Build');
-      lines.push(`- \`${packageManager} run build\` - Build for production`);
+        for (const command of Array.from(new Set(commands[category]!))) {
+          const description = commands.descriptions?.[command] ?? COMMAND_CATEGORIES[category].description;
+          const sources = commands.sources?.[command];
+          lines.push(`- \`${command}\` - ${description}${sources?.length ? ` (${sources.join(', ')})` : ''}`);
+        }
 
-      if (context.stack.frameworks.includes('Next')) {
-        lines.push(`- \`${packageManager} run export\` - Export static site\n`);
-      } else if (context.stack.frameworks.includes('Nuxt')) {
-        lines.push(`- \`${packageManager} run generate\` - Generate static site\n`);
-      } else {
         lines.push('');
       }
-
-      lines.push('### Testing');
-      lines.push(`- \`${packageManager} run test\` - Run tests`);
-      lines.push(`- \`${packageManager} run test:watch\` - Run tests in watch mode\n`);
-
-      lines.push('### Linting');
-      lines.push(`- \`${packageManager} run lint\` - Run linter`);
-      lines.push(`- \`${packageManager} run lint:fix\` - Fix linting issues\n`);
-
-      lines.push('### Package Management');
-      lines.push(`- \`${packageManager} install\` - Install dependencies\n`);
     } else {
       // Generic commands based on detected package managers
       const packageManager = this.getPreferredPackageManager(context.stack.packageManagers);
@@ -573,27 +962,112 @@ export class GuidelineManager {
   }
 
   /**
-   * List all available guideline files (for debugging/info)
+   * Generate Gemini CLI role section for GEMINI.md
    */
-  async listAvailableGuidelines(): Promise<string[]> {
-    const guidelines: string[] = [];
+  private generateGeminiWorkflowSection(): string {
+    const lines: string[] = [];
 
-    const walkDir = async (dir: string, prefix = ''): Promise<void> => {
-      const entries = await fs.readdir(dir, { withFileTypes: true });
+    lines.push('[//]: # (franken-ai:workflow:start)');
+    lines.push('## FrankenAI Workflow\n');
+    lines.push('### Your Role: Discovery Phase (Gemini CLI)');
+    lines.push('Use your large context window for analysis across many files:\n');
+    lines.push('- **Architecture Overview**: Explain how the main components fit together');
+    lines.push('- **Feature Verification**: Confirm whether a feature is implemented and where');
+    lines.push('- **Pattern Detection**: Find conventions, duplication and inconsistencies');
+    lines.push('- **Impact Analysis**: List the files affected by a planned change\n');
+    lines.push('### Implementation Phase (Claude Code)');
+    lines.push('Precise code changes are made with Claude Code using CLAUDE.md.');
+    lines.push('Keep answers focused on findings and file locations so they can be handed over.');
+    lines.push('[//]: # (franken-ai:workflow:end)');
 
-      for (const entry of entries) {
-        const fullPath = path.join(dir, entry.name);
+    return lines.join('\n');
+  }
+
+  /**
+   * List every bundled guideline file: module guidelines (with the version directory
+   * they belong to), common guidelines and combination guidelines
+   */
+  async listAvailableGuidelines(): Promise<AvailableGuideline[]> {
+    await this.initializeModules();
+
+    const available: AvailableGuideline[] = [];
+
+    for (const module of this.moduleManager.getModules() as Array<FrameworkModule | LanguageModule | LibraryModule>) {
+      const root = path.join(__dirname, '..', 'modules', module.id, 'guidelines');
+      if (!await fs.pathExists(root)) continue;
+
+      // Category and priority declared by the module, for the unversioned files and each version directory
+      const declared = new Map<string, GuidelinePath>();
+      for (const version of [undefined, ...await VersionedGuidelines.listVersions(module.id)]) {
+        for (const guidelinePath of await module.getGuidelinePaths(version)) {
+          declared.set(guidelinePath.path, guidelinePath);
+        }
+      }
+
+      for (const file of await this.listMarkdownFiles(root)) {
+        const guidelinePath = `${module.id}/guidelines/${file}`;
+        const directory = file.includes('/') ? file.split('/')[0] : undefined;
+        const fullPath = path.join(root, file);
+        const { metadata } = GuidelineFrontMatter.parse(await fs.readFile(fullPath, 'utf-8'), guidelinePath);
+        const defaults = declared.get(guidelinePath) ?? this.createModuleGuidelinePath(module, guidelinePath);
+
+        available.push({
+          path: guidelinePath,
+          file: fullPath,
+          source: 'module',
+          module: module.id,
+          version: directory && /^\d+(\.\d+)*$/.test(directory) ? directory : undefined,
+          category: metadata.category ?? defaults.category,
+          priority: metadata.priority ?? defaults.priority
+        });
+      }
+    }
+
+    for (const file of await this.listMarkdownFiles(path.join(this.guidelinesPath, 'common'))) {
+      const [group, name] = file.replace(/\.md$/, '').split('/');
+      available.push({
+        path: `common/${file}`,
+        file: path.join(this.guidelinesPath, 'common', file),
+        source: 'common',
+        category: group === 'category' ? name as GuidelinePath['category'] : 'framework',
+        priority: group === 'priority' ? name as ModulePriorityType : undefined
+      });
+    }
+
+    for (const file of await this.listMarkdownFiles(path.join(this.guidelinesPath, 'combinations'))) {
+      available.push({
+        path: `combinations/${file}`,
+        file: path.join(this.guidelinesPath, 'combinations', file),
+        source: 'combination',
+        category: 'framework'
+      });
+    }
+
+    return available;
+  }
+
+  /**
+   * Markdown files below a directory, relative to it and sorted
+   */
+  private async listMarkdownFiles(dir: string): Promise<string[]> {
+    if (!await fs.pathExists(dir)) return [];
+
+    const files: string[] = [];
+    const walkDir = async (current: string, prefix = ''): Promise<void> => {
+      const entries = await fs.readdir(current, { withFileTypes: true });
+
+      for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
         const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
 
         if (entry.isDirectory()) {
-          await walkDir(fullPath, relativePath);
+          await walkDir(path.join(current, entry.name), relativePath);
         } else if (entry.name.endsWith('.md')) {
-          guidelines.push(relativePath);
+          files.push(relativePath);
         }
       }
     };
 
-    await walkDir(this.guidelinesPath);
-    return guidelines;
+    await walkDir(dir);
+    return files;
   }
 }
\ No newline at end of file
@@ -0,0 +1,98 @@
+import fs from 'fs-extra';
+import path from 'path';
+
+/**
+ * Project directory holding guideline overrides, one folder per module id
+ */
+export const OVERRIDES_DIR = path.join('.franken', 'guidelines');
+
+export type GuidelineOverrideMode = 'replace' | 'prepend' | 'append';
+
+/**
+ * A project file overriding or extending a bundled module guideline
+ */
+export interface GuidelineOverride {
+  file: string;      // Relative to the project root (e.g. '.franken/guidelines/tailwind/css-framework.append.md')
+  moduleId: string;
+  target: string;    // Bundled guideline path (e.g. 'tailwind/guidelines/css-framework.md')
+  mode: GuidelineOverrideMode;
+}
+
+/**
+ * Project-local guideline overrides:
+ *
+ * - `.franken/guidelines/<moduleId>/<file>.md` replaces the bundled file
+ * - `.franken/guidelines/<moduleId>/<file>.prepend.md` is added before it
+ * - `.franken/guidelines/<moduleId>/<file>.append.md` is added after it
+ *
+ * `<file>` is the path inside the module's guidelines directory (e.g. `css-framework.md`, `12/features.md`)
+ */
+export class GuidelineOverrides {
+  /**
+   * Find the override files for a bundled guideline
+   */
+  static async find(moduleId: string, guidelinePath: string, projectRoot = process.cwd()): Promise<GuidelineOverride[]> {
+    const relativePath = this.getRelativePath(moduleId, guidelinePath);
+    const base = relativePath.replace(/\.md$/, '');
+    const candidates: Array<{ file: string; mode: GuidelineOverrideMode }> = [
+      { file: `${base}.prepend.md`, mode: 'prepend' },
+      { file: relativePath, mode: 'replace' },
+      { file: `${base}.append.md`, mode: 'append' }
+    ];
+
+    const overrides: GuidelineOverride[] = [];
+    for (const { file, mode } of candidates) {
+      const overridePath = path.join(OVERRIDES_DIR, moduleId, file);
+      if (await fs.pathExists(path.join(projectRoot, overridePath))) {
+        overrides.push({ file: this.toPosix(overridePath), moduleId, target: guidelinePath, mode });
+      }
+    }
+
+    return overrides;
+  }
+
+  /**
+   * List every override file in the project
+   */
+  static async list(projectRoot = process.cwd()): Promise<GuidelineOverride[]> {
+    const root = path.join(projectRoot, OVERRIDES_DIR);
+    if (!await fs.pathExists(root)) return [];
+
+    const overrides: GuidelineOverride[] = [];
+    const walkDir = async (dir: string): Promise<void> => {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walkDir(fullPath);
+        } else if (entry.name.endsWith('.md')) {
+          const [moduleId, ...rest] = this.toPosix(path.relative(root, fullPath)).split('/');
+          if (rest.length === 0) continue; // Files must live in a module folder
+
+          const match = rest.join('/').match(/^(.*?)(?:\.(prepend|append))?\.md$/)!;
+          overrides.push({
+            file: this.toPosix(path.relative(projectRoot, fullPath)),
+            moduleId,
+            target: `${moduleId}/guidelines/${match[1]}.md`,
+            mode: (match[2] as GuidelineOverrideMode | undefined) ?? 'replace'
+          });
+        }
+      }
+    };
+
+    await walkDir(root);
+    return overrides;
+  }
+
+  /**
+   * Path of a bundled guideline inside its module's guidelines directory
+   * ('tailwind/guidelines/css-framework.md' -> 'css-framework.md')
+   */
+  static getRelativePath(moduleId: string, guidelinePath: string): string {
+    return guidelinePath.replace(`${moduleId}/`, '').replace(/^guidelines\//, '');
+  }
+
+  private static toPosix(file: string): string {
+    return file.split(path.sep).join('/');
+  }
+}
@@ -0,0 +1,169 @@
+import fs from 'fs-extra';
+import path from 'path';
+import semver from 'semver';
+import { Fingerprint } from './Fingerprint.js';
+import { VersionedGuidelines } from './utils/VersionedGuidelines.js';
+
+/**
+ * package.json keyword marking a guideline pack
+ */
+export const PACK_KEYWORD = 'franken-guidelines';
+
+/**
+ * Package name used for the FrankenAI peer dependency of a pack
+ */
+const FRANKEN_PACKAGE = '@franken-ai/franken-ai';
+
+/**
+ * `franken` field in a pack's package.json
+ */
+export interface GuidelinePackConfig {
+  frankenVersion?: string;  // Supported FrankenAI versions (semver range), or a peer dependency on @franken-ai/franken-ai
+  guidelines?: string;      // Directory laid out like src/modules (<id>/guidelines/...), defaults to 'modules'
+  priority?: number;        // Higher wins when packs ship the same file (ties go to the package name)
+}
+
+/**
+ * Fields read from package.json files
+ */
+interface PackageManifest {
+  version?: string;
+  keywords?: string[];
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  franken?: GuidelinePackConfig;
+}
+
+/**
+ * An installed guideline pack
+ */
+export interface GuidelinePack {
+  name: string;
+  version: string;
+  modulesDir: string;  // Absolute path of the pack's modules directory
+  priority: number;
+}
+
+/**
+ * A guideline file contributed by a pack
+ */
+export interface PackGuideline {
+  pack: string;
+  path: string;      // Same form as bundled paths (e.g. 'laravel/guidelines/12/features.md')
+  fullPath: string;
+}
+
+/**
+ * Guideline packs: npm packages shipping guidelines with the same layout as
+ * src/modules/<id>/guidelines, picked up from the project's dependencies
+ */
+export class GuidelinePacks {
+  /**
+   * Find the packs installed in the project, ordered by precedence
+   */
+  static async discover(projectRoot = process.cwd()): Promise<{ packs: GuidelinePack[]; warnings: string[] }> {
+    const packs: GuidelinePack[] = [];
+    const warnings: string[] = [];
+
+    const packageJsonPath = path.join(projectRoot, 'package.json');
+    if (!await fs.pathExists(packageJsonPath)) {
+      return { packs, warnings };
+    }
+
+    let projectPackage: PackageManifest;
+    try {
+      projectPackage = await fs.readJson(packageJsonPath);
+    } catch {
+      return { packs, warnings };
+    }
+
+    const dependencies = Object.keys({ ...projectPackage.dependencies, ...projectPackage.devDependencies });
+    const frankenVersion = Fingerprint.getFrankenVersion();
+
+    for (const name of dependencies.sort()) {
+      const packageDir = path.join(projectRoot, 'node_modules', name);
+      let manifest: PackageManifest;
+      try {
+        manifest = await fs.readJson(path.join(packageDir, 'package.json'));
+      } catch {
+        continue; // Not installed
+      }
+
+      const config = manifest.franken;
+      const isPack = (Array.isArray(manifest.keywords) && manifest.keywords.includes(PACK_KEYWORD)) ||
+        (typeof config === 'object' && config !== null);
+      if (!isPack) continue;
+
+      const supported = config?.frankenVersion ?? manifest.peerDependencies?.[FRANKEN_PACKAGE];
+      if (!supported) {
+        warnings.push(`Guideline pack ${name} ignored: it does not declare the FrankenAI versions it supports`);
+        continue;
+      }
+      if (!semver.validRange(supported) || !semver.satisfies(frankenVersion, supported, { includePrerelease: true })) {
+        warnings.push(`Guideline pack ${name} ignored: it supports FrankenAI ${supported}, installed ${frankenVersion}`);
+        continue;
+      }
+
+      packs.push({
+        name,
+        version: manifest.version ?? 'unknown',
+        modulesDir: path.join(packageDir, config?.guidelines ?? 'modules'),
+        priority: typeof config?.priority === 'number' ? config.priority : 0
+      });
+    }
+
+    packs.sort((a, b) => b.priority - a.priority || a.name.localeCompare(b.name));
+    return { packs, warnings };
+  }
+
+  /**
+   * Collect the guideline files packs ship for a module: files at the top of
+   * <id>/guidelines plus the versioned directory matching the module version.
+   * When several packs ship the same file, the first pack in precedence order wins.
+   */
+  static async collect(
+    packs: GuidelinePack[],
+    moduleId: string,
+    version: string | undefined
+  ): Promise<{ guidelines: PackGuideline[]; conflicts: string[] }> {
+    const selected = new Map<string, PackGuideline>();
+    const conflicts: string[] = [];
+
+    for (const pack of packs) {
+      const guidelinesDir = path.join(pack.modulesDir, moduleId, 'guidelines');
+      if (!await fs.pathExists(guidelinesDir)) continue;
+
+      const files = await this.listMarkdown(guidelinesDir);
+      const match = version ? await VersionedGuidelines.resolve(moduleId, version, pack.modulesDir) : null;
+      if (match) {
+        files.push(...(await this.listMarkdown(path.join(guidelinesDir, match.directory))).map(file => `${match.directory}/${file}`));
+      }
+
+      for (const file of files) {
+        const guidelinePath = `${moduleId}/guidelines/${file}`;
+        const existing = selected.get(guidelinePath);
+        if (existing) {
+          conflicts.push(`${guidelinePath} from ${pack.name} ignored: ${existing.pack} takes precedence`);
+          continue;
+        }
+        selected.set(guidelinePath, { pack: pack.name, path: guidelinePath, fullPath: path.join(guidelinesDir, file) });
+      }
+    }
+
+    return { guidelines: Array.from(selected.values()), conflicts };
+  }
+
+  /**
+   * Markdown files directly inside a directory, sorted
+   */
+  private static async listMarkdown(dir: string): Promise<string[]> {
+    if (!await fs.pathExists(dir)) return [];
+
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    return entries
+      .filter(entry => entry.isFile() && entry.name.endsWith('.md'))
+      .map(entry => entry.name)
+      .sort();
+  }
+}
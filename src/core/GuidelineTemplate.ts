@@ -0,0 +1,164 @@
+/**
+ * Values available to guideline templates, keyed by dotted name
+ * (e.g. 'packageManager', 'version.laravel', 'module.typescript')
+ */
+export type TemplateVariables = Record<string, string | boolean | undefined>;
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string; line: number; tag: string }
+  | { type: 'if'; name: string; negate: boolean; line: number; then: TemplateNode[]; else: TemplateNode[] };
+
+/**
+ * Matches template tags. Names cannot contain spaces, so Vue and Blade
+ * mustaches such as `{{ user.name }}` are left untouched. `\{{name}}` escapes a tag.
+ * Variable tags naming no known variable (e.g. `{{title}}` in an Angular example) are kept as written.
+ */
+const TAG_PATTERN = /\\?\{\{(?:#(if|unless) ([A-Za-z][\w.-]*)|(else)|\/(if|unless)|([A-Za-z][\w.-]*))\}\}/g;
+
+/**
+ * Minimal templating for guideline markdown:
+ *
+ * - `{{packageManager}}` / `{{version.laravel}}` - insert a value
+ * - `{{#if module.typescript}}...{{else}}...{{/if}}` - keep a block when the value is set
+ * - `{{#unless module.typescript}}...{{/unless}}` - keep a block when the value is not set
+ */
+export class GuidelineTemplate {
+  /**
+   * Render a guideline, throwing an error naming the file for missing variables
+   * and for blocks on unknown variables
+   */
+  static render(content: string, variables: TemplateVariables, file: string): string {
+    if (!content.includes('{{')) return content;
+
+    const nodes = this.parse(content, file);
+    return this.renderNodes(nodes, variables, file);
+  }
+
+  /**
+   * Check the block structure ({{#if}}/{{else}}/{{/if}}) without rendering
+   */
+  static validate(content: string, file: string): void {
+    if (content.includes('{{')) this.parse(content, file);
+  }
+
+  /**
+   * Variable tags ({{name}}, not blocks) with their line, e.g. to report names that are not variables
+   */
+  static listVariables(content: string, file: string): Array<{ name: string; line: number }> {
+    if (!content.includes('{{')) return [];
+
+    const collect = (nodes: TemplateNode[]): Array<{ name: string; line: number }> => nodes.flatMap(node => {
+      switch (node.type) {
+        case 'text':
+          return [];
+        case 'variable':
+          return [{ name: node.name, line: node.line }];
+        case 'if':
+          return [...collect(node.then), ...collect(node.else)];
+      }
+    });
+    return collect(this.parse(content, file));
+  }
+
+  /**
+   * Parse the content into text, variable and conditional nodes
+   */
+  private static parse(content: string, file: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const stack: Array<{ node: Extract<TemplateNode, { type: 'if' }>; keyword: string; inElse: boolean }> = [];
+    const current = () => {
+      const open = stack[stack.length - 1];
+      return open ? (open.inElse ? open.node.else : open.node.then) : root;
+    };
+
+    let offset = 0;
+    for (const match of content.matchAll(TAG_PATTERN)) {
+      const [tag, blockKeyword, blockName, elseKeyword, closeKeyword, variable] = match;
+      const index = match.index!;
+      const line = content.substring(0, index).split('\n').length;
+
+      // Block tags alone on their line take the whole line with them
+      let start = index;
+      let end = index + tag.length;
+      if (!variable && !tag.startsWith('\\')) {
+        const lineStart = content.lastIndexOf('\n', index - 1) + 1;
+        const lineEnd = content.indexOf('\n', end);
+        const rest = content.substring(end, lineEnd === -1 ? content.length : lineEnd);
+        if (lineStart >= offset && !content.substring(lineStart, index).trim() && !rest.trim()) {
+          start = lineStart;
+          end = lineEnd === -1 ? content.length : lineEnd + 1;
+        }
+      }
+
+      current().push({ type: 'text', value: content.substring(offset, start) });
+      offset = end;
+
+      if (tag.startsWith('\\')) {
+        current().push({ type: 'text', value: tag.substring(1) });
+      } else if (blockKeyword) {
+        const node: Extract<TemplateNode, { type: 'if' }> = {
+          type: 'if', name: blockName, negate: blockKeyword === 'unless', line, then: [], else: []
+        };
+        current().push(node);
+        stack.push({ node, keyword: blockKeyword, inElse: false });
+      } else if (elseKeyword) {
+        const open = stack[stack.length - 1];
+        if (!open || open.inElse) {
+          throw new Error(`Unexpected {{else}} in ${file} (line ${line})`);
+        }
+        open.inElse = true;
+      } else if (closeKeyword) {
+        const open = stack.pop();
+        if (!open || open.keyword !== closeKeyword) {
+          throw new Error(`Unexpected {{/${closeKeyword}}} in ${file} (line ${line})`);
+        }
+      } else {
+        current().push({ type: 'variable', name: variable, line, tag });
+      }
+    }
+
+    if (stack.length > 0) {
+      const open = stack[stack.length - 1];
+      throw new Error(`Unclosed {{#${open.keyword} ${open.node.name}}} in ${file} (line ${open.node.line})`);
+    }
+
+    current().push({ type: 'text', value: content.substring(offset) });
+    return root;
+  }
+
+  /**
+   * Render parsed nodes with the given variables
+   */
+  private static renderNodes(nodes: TemplateNode[], variables: TemplateVariables, file: string): string {
+    return nodes.map(node => {
+      switch (node.type) {
+        case 'text':
+          return node.value;
+        case 'variable': {
+          if (!(node.name in variables)) return node.tag;
+
+          const value = variables[node.name];
+          if (value === undefined || value === false) {
+            throw new Error(`Missing template variable "${node.name}" in ${file} (line ${node.line})`);
+          }
+          return String(value);
+        }
+        case 'if': {
+          const value = Boolean(this.lookup(node.name, node.line, variables, file));
+          return this.renderNodes(value !== node.negate ? node.then : node.else, variables, file);
+        }
+      }
+    }).join('');
+  }
+
+  /**
+   * Look up a variable, rejecting names that are not known at all (typos)
+   */
+  private static lookup(name: string, line: number, variables: TemplateVariables, file: string): string | boolean | undefined {
+    if (!(name in variables)) {
+      throw new Error(`Unknown template variable "${name}" in ${file} (line ${line})`);
+    }
+    return variables[name];
+  }
+}
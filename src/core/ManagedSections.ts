@@ -0,0 +1,146 @@
+/**
+ * Sections of CLAUDE.md that FrankenAI generates and owns
+ */
+export type ManagedSectionName = 'stack' | 'commands' | 'workflow' | 'guidelines';
+
+/**
+ * Managed sections in the order they are written to CLAUDE.md
+ */
+export const MANAGED_SECTIONS: ManagedSectionName[] = ['stack', 'commands', 'workflow', 'guidelines'];
+
+/**
+ * Helpers for reading and rewriting the blocks delimited by
+ * `[//]: # (franken-ai:<section>:start)` / `[//]: # (franken-ai:<section>:end)` markers
+ */
+export class ManagedSections {
+  /**
+   * Check if a name is a known managed section
+   */
+  static isManagedSection(name: string): name is ManagedSectionName {
+    return (MANAGED_SECTIONS as string[]).includes(name);
+  }
+
+  /**
+   * Get the start marker for a section
+   */
+  static startMarker(name: string): string {
+    return `[//]: # (franken-ai:${name}:start)`;
+  }
+
+  /**
+   * Get the end marker for a section
+   */
+  static endMarker(name: string): string {
+    return `[//]: # (franken-ai:${name}:end)`;
+  }
+
+  /**
+   * Locate a section block (markers included) in the content
+   */
+  static locate(content: string, name: string): { start: number; end: number } | null {
+    const start = content.indexOf(this.startMarker(name));
+    if (start === -1) return null;
+
+    const endMarker = this.endMarker(name);
+    const endIndex = content.indexOf(endMarker, start);
+    if (endIndex === -1) return null;
+
+    return { start, end: endIndex + endMarker.length };
+  }
+
+  /**
+   * Extract a section block (markers included), or null if not present
+   */
+  static extract(content: string, name: string): string | null {
+    const location = this.locate(content, name);
+    return location ? content.substring(location.start, location.end) : null;
+  }
+
+  /**
+   * Replace an existing section block, leaving the rest of the content untouched
+   */
+  static replace(content: string, name: string, block: string): string {
+    const location = this.locate(content, name);
+    if (!location) {
+      throw new Error(`Section "${name}" not found`);
+    }
+
+    return content.substring(0, location.start) + block + content.substring(location.end);
+  }
+
+  /**
+   * Remove a section block and collapse the blank lines around it
+   */
+  static remove(content: string, name: string): string {
+    const location = this.locate(content, name);
+    if (!location) return content;
+
+    const before = content.substring(0, location.start).replace(/\s*$/, '');
+    const after = content.substring(location.end).replace(/^\s*/, '');
+
+    return before && after ? `${before}\n\n${after}` : before || after;
+  }
+
+  /**
+   * Insert a missing section next to its closest neighbour, following MANAGED_SECTIONS order
+   */
+  static insert(content: string, name: ManagedSectionName, block: string): string {
+    const index = MANAGED_SECTIONS.indexOf(name);
+
+    const previous = MANAGED_SECTIONS.slice(0, index).reverse().find(other => this.locate(content, other));
+    if (previous) {
+      const { end } = this.locate(content, previous)!;
+      return `${content.substring(0, end)}\n\n${block}${content.substring(end)}`;
+    }
+
+    const next = MANAGED_SECTIONS.slice(index + 1).find(other => this.locate(content, other));
+    if (next) {
+      const { start } = this.locate(content, next)!;
+      return `${content.substring(0, start)}${block}\n\n${content.substring(start)}`;
+    }
+
+    const base = content.replace(/\s*$/, '');
+    return base ? `${base}\n\n${block}` : block;
+  }
+
+  /**
+   * Merge freshly generated content into an existing file.
+   *
+   * Content outside FrankenAI markers is never touched: marked blocks are updated
+   * in place, missing blocks are inserted next to their neighbours, and blocks the
+   * generator no longer produces are dropped. A file without any FrankenAI block
+   * gets the generated content appended after its own content.
+   */
+  static merge(existing: string, generated: string): string {
+    const generatedSections = this.list(generated);
+
+    if (this.list(existing).length === 0) {
+      const base = existing.replace(/\s*$/, '');
+      return base ? `${base}\n\n${generated}` : generated;
+    }
+
+    let merged = existing;
+
+    for (const name of MANAGED_SECTIONS) {
+      if (!generatedSections.includes(name)) {
+        merged = this.remove(merged, name);
+      }
+    }
+
+    for (const name of generatedSections) {
+      const block = this.extract(generated, name)!;
+      merged = this.locate(merged, name)
+        ? this.replace(merged, name, block)
+        : this.insert(merged, name, block);
+    }
+
+    return merged;
+  }
+
+  /**
+   * List the managed sections present in the content
+   */
+  static list(content: string): ManagedSectionName[] {
+    return MANAGED_SECTIONS.filter(name => this.locate(content, name) !== null);
+  }
+}
@@ -8,11 +8,15 @@ import type {
   ModuleConfig,
   DetectionContext,
   DetectionResult,
+  ModuleDetection,
   ModuleContext,
   GuidelinePath,
   ModulePriorityType
 } from './types/Module.js';
-import type { StackCommands } from './StackDetector.js';
+import { PRIORITY_ORDER } from './types/Module.js';
+import type { StackCommands, StackCommandCategory } from './StackDetector.js';
+
+const COMMAND_CATEGORIES: StackCommandCategory[] = ['dev', 'build', 'test', 'lint', 'install'];
 
 /**
  * Manages module lifecycle and operations
@@ -209,16 +213,7 @@ export class ModuleManager extends EventEmitter {
    * Sort modules by priority type
    */
   private sortByPriority = (a: Module, b: Module): number => {
-    const priorityOrder: Record<ModulePriorityType, number> = {
-      'meta-framework': 6,
-      'framework': 5,
-      'css-framework': 4,
-      'laravel-tool': 3,
-      'specialized-lang': 2,
-      'base-lang': 1
-    };
-
-    return priorityOrder[b.priorityType] - priorityOrder[a.priorityType];
+    return PRIORITY_ORDER[b.priorityType] - PRIORITY_ORDER[a.priorityType];
   };
 
   /**
@@ -243,6 +238,7 @@ export class ModuleManager extends EventEmitter {
     this.emit('detection:start', { context });
 
     const results = new Map<string, DetectionResult>();
+    const detections = new Map<string, ModuleDetection>();
     const exclusions = new Set<string>();
 
     // Run detection for all modules
@@ -264,39 +260,72 @@ export class ModuleManager extends EventEmitter {
           throw new Error(`Unknown module type: ${module.type}`);
         }
 
+        detections.set(module.id, this.describeDetection(module.id, result));
         if (result.detected) {
           results.set(module.id, result);
-
-          // If this module excludes other modules, add them to exclusions
-          if (result.excludes && result.excludes.length > 0) {
-            result.excludes.forEach(excludedId => {
-              exclusions.add(excludedId);
-            });
-          }
         }
       } catch (error) {
         console.error(`Detection failed for module ${module.id}:`, error);
+        detections.set(module.id, {
+          module: module.id,
+          detected: false,
+          confidence: 0,
+          evidence: [],
+          error: error instanceof Error ? error.message : String(error)
+        });
         this.emit('module:error', { module, error: error as Error });
       }
     });
 
     await Promise.all(detectionPromises);
 
-    // Remove excluded modules from results
-    if (exclusions.size > 0) {
-      for (const excludedId of exclusions) {
-        if (results.has(excludedId)) {
-          const excludedResult = results.get(excludedId);
-          results.delete(excludedId);
-          console.log(`Module ${excludedId} excluded by higher-priority module (confidence: ${excludedResult?.confidence})`);
-        }
-      }
+    // Detected modules can exclude others (e.g. Pest excludes PHPUnit)
+    for (const result of results.values()) {
+      result.excludes?.forEach(excludedId => exclusions.add(excludedId));
     }
 
-    this.emit('detection:complete', { results, exclusions: Array.from(exclusions) });
+    // Remove excluded modules from results, recording which modules excluded them
+    const detected = Array.from(results);
+    for (const excludedId of exclusions) {
+      if (!results.delete(excludedId)) continue;
+
+      const detection = detections.get(excludedId)!;
+      detection.detected = false;
+      detection.excludedBy = detected
+        .filter(([, result]) => result.excludes?.includes(excludedId))
+        .map(([moduleId]) => moduleId)
+        .sort();
+    }
+
+    this.emit('detection:complete', {
+      results,
+      exclusions: Array.from(exclusions),
+      detections: Array.from(detections.values()).sort((a, b) => a.module.localeCompare(b.module))
+    });
     return results;
   }
 
+  /**
+   * Record a module's detection result for `detect --explain`
+   */
+  private describeDetection(moduleId: string, result: DetectionResult): ModuleDetection {
+    const detection: ModuleDetection = {
+      module: moduleId,
+      detected: result.detected,
+      confidence: result.confidence,
+      evidence: result.contributions ?? result.evidence.map(evidence => ({ evidence }))
+    };
+
+    if (result.threshold) {
+      detection.threshold = result.threshold;
+    }
+    if (result.detected && result.excludes?.length) {
+      detection.excludes = result.excludes;
+    }
+
+    return detection;
+  }
+
   /**
    * Detect versions for detected frameworks/languages
    */
@@ -377,7 +406,8 @@ export class ModuleManager extends EventEmitter {
   }
 
   /**
-   * Generate commands from framework modules
+   * Generate commands from framework and library modules, deduplicated per category
+   * and keeping track of the modules contributing each command
    */
   async generateCommands(
     context: ModuleContext,
@@ -388,7 +418,9 @@ export class ModuleManager extends EventEmitter {
       build: [],
       test: [],
       lint: [],
-      install: []
+      install: [],
+      descriptions: {},
+      sources: {}
     };
 
     const frameworkModules = this.getModulesByType<FrameworkModule>('framework')
@@ -399,22 +431,39 @@ export class ModuleManager extends EventEmitter {
 
     const allModulesWithCommands = [...frameworkModules, ...libraryModules];
 
-    const commandPromises = allModulesWithCommands.map(async (module) => {
+    const results = await Promise.all(allModulesWithCommands.map(async (module) => {
       try {
-        const moduleCommands = await module.generateCommands(context);
-
-        // Merge commands
-        if (moduleCommands.dev) commands.dev.push(...moduleCommands.dev);
-        if (moduleCommands.build) commands.build.push(...moduleCommands.build);
-        if (moduleCommands.test) commands.test.push(...moduleCommands.test);
-        if (moduleCommands.lint) commands.lint.push(...moduleCommands.lint);
-        if (moduleCommands.install) commands.install.push(...moduleCommands.install);
+        return { module, moduleCommands: await module.generateCommands(context) };
       } catch (error) {
         console.error(`Command generation failed for module ${module.id}:`, error);
+        return null;
       }
-    });
+    }));
+
+    // Merge in module order so the section is stable between runs
+    for (const result of results) {
+      if (!result) continue;
+      const { module, moduleCommands } = result;
+
+      for (const category of COMMAND_CATEGORIES) {
+        for (const command of moduleCommands[category] ?? []) {
+          if (!commands[category].includes(command)) {
+            commands[category].push(command);
+          }
+
+          const sources = commands.sources![command] ??= [];
+          if (!sources.includes(module.id)) {
+            sources.push(module.id);
+          }
+
+          const description = moduleCommands.descriptions?.[command];
+          if (description && !commands.descriptions![command]) {
+            commands.descriptions![command] = description;
+          }
+        }
+      }
+    }
 
-    await Promise.all(commandPromises);
     return commands;
   }
 
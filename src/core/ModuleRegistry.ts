@@ -212,7 +212,18 @@ export class ModuleRegistry {
 
       if (config.modules && Array.isArray(config.modules)) {
         for (const moduleConfig of config.modules) {
-          if (typeof moduleConfig === 'string') {
+          const id = typeof moduleConfig === 'string' ? moduleConfig : moduleConfig?.id || moduleConfig?.name;
+          const existing = id ? this.registrations.get(id) : undefined;
+
+          if (existing) {
+            // Keep the discovered factory, only apply the configured state
+            if (typeof moduleConfig === 'object') {
+              existing.enabled = moduleConfig.enabled !== false;
+              existing.config = moduleConfig.config || existing.config;
+            } else {
+              existing.enabled = true;
+            }
+          } else if (typeof moduleConfig === 'string') {
             // Simple module name
             const registration: ModuleRegistration = {
               id: moduleConfig,
@@ -0,0 +1,72 @@
+import type { OutputWriter } from './types/OutputWriter.js';
+import { ClaudeWriter } from './writers/ClaudeWriter.js';
+import { GeminiWriter } from './writers/GeminiWriter.js';
+import { AgentsWriter } from './writers/AgentsWriter.js';
+import { CursorWriter } from './writers/CursorWriter.js';
+import { CopilotWriter } from './writers/CopilotWriter.js';
+import { WindsurfWriter } from './writers/WindsurfWriter.js';
+
+/**
+ * Targets generated when none are selected
+ */
+export const DEFAULT_TARGETS = ['claude', 'gemini'];
+
+/**
+ * Built-in output writers, keyed by target name
+ */
+export class OutputWriterRegistry {
+  private writers = new Map<string, OutputWriter>();
+
+  constructor() {
+    [
+      new ClaudeWriter(),
+      new GeminiWriter(),
+      new AgentsWriter(),
+      new CursorWriter(),
+      new CopilotWriter(),
+      new WindsurfWriter()
+    ].forEach(writer => this.register(writer));
+  }
+
+  /**
+   * Register a writer, replacing any writer with the same target name
+   */
+  register(writer: OutputWriter): void {
+    this.writers.set(writer.id, writer);
+  }
+
+  /**
+   * Get a writer by target name
+   */
+  get(target: string): OutputWriter | undefined {
+    return this.writers.get(target);
+  }
+
+  /**
+   * Get all registered writers
+   */
+  getAll(): OutputWriter[] {
+    return Array.from(this.writers.values());
+  }
+
+  /**
+   * Resolve target names (case-insensitive, duplicates ignored) to writers
+   */
+  resolve(targets: string[]): { writers: OutputWriter[]; unknown: string[] } {
+    const names = Array.from(new Set(
+      targets.map(name => name.trim().toLowerCase()).filter(Boolean)
+    ));
+
+    return {
+      writers: names.filter(name => this.writers.has(name)).map(name => this.writers.get(name)!),
+      unknown: names.filter(name => !this.writers.has(name))
+    };
+  }
+
+  /**
+   * Get all registered target names
+   */
+  getTargets(): string[] {
+    return Array.from(this.writers.keys());
+  }
+}
@@ -0,0 +1,158 @@
+import fs from 'fs-extra';
+import path from 'path';
+import ignore, { type Ignore } from 'ignore';
+import type { FrankenScanConfig } from './ConfigLoader.js';
+import type { CachedDirectory } from './DetectionCache.js';
+
+/**
+ * Paths skipped unless re-added with "scan.include" (gitignore syntax)
+ */
+export const DEFAULT_SCAN_IGNORE = ['.*', 'node_modules/', 'vendor/', 'dist/', 'build/', '__pycache__/'];
+
+/**
+ * Deepest directory level scanned below the project root (resources/js/Pages/Auth is level 4)
+ */
+export const DEFAULT_MAX_DEPTH = 5;
+
+/**
+ * Files listed before the scan stops
+ */
+export const DEFAULT_MAX_FILES = 10000;
+
+/**
+ * Files found by a scan, with the directory listings to cache for the next one
+ */
+export interface ScanResult {
+  files: string[];
+  directories: Record<string, CachedDirectory>;
+  directoriesScanned: number;  // Read from disk
+  directoriesReused: number;   // Taken from the cache (unchanged mtime)
+  truncated: boolean;          // Stopped at maxFiles
+}
+
+/**
+ * Ignore rules of a .gitignore (or the configured rules for the root), relative to its directory
+ */
+interface IgnoreScope {
+  base: string;
+  rules: Ignore;
+}
+
+/**
+ * Lists project files for detection, honouring .gitignore files (nested ones apply to their
+ * directory), the default and configured ignore rules, "scan.include", maxDepth and maxFiles
+ */
+export class ProjectScanner {
+  private projectRoot: string;
+  private ignore: string[];
+  private include: string[];
+  private maxDepth: number;
+  private maxFiles: number;
+
+  constructor(projectRoot: string, config: FrankenScanConfig = {}) {
+    this.projectRoot = projectRoot;
+    this.ignore = [...DEFAULT_SCAN_IGNORE, ...config.ignore ?? []];
+    this.include = config.include ?? [];
+    this.maxDepth = config.maxDepth ?? DEFAULT_MAX_DEPTH;
+    this.maxFiles = config.maxFiles ?? DEFAULT_MAX_FILES;
+  }
+
+  /**
+   * Scan the project. Directories whose mtime matches `cachedDirectories` are not read again.
+   */
+  async scan(cachedDirectories: Record<string, CachedDirectory> = {}): Promise<ScanResult> {
+    const result: ScanResult = { files: [], directories: {}, directoriesScanned: 0, directoriesReused: 0, truncated: false };
+    const include = ignore().add(this.include);
+
+    const scanDirectory = async (relativeDir: string, scopes: IgnoreScope[], depth: number): Promise<void> => {
+      if (depth > this.maxDepth || result.truncated) return;
+
+      try {
+        const dir = path.join(this.projectRoot, relativeDir);
+        const mtime = (await fs.stat(dir)).mtimeMs;
+        let directory = cachedDirectories[relativeDir];
+
+        if (directory?.mtime === mtime) {
+          result.directoriesReused++;
+        } else {
+          directory = { mtime, entries: await this.readDirectory(dir) };
+          result.directoriesScanned++;
+        }
+        result.directories[relativeDir] = directory;
+
+        // A .gitignore applies to everything below its directory
+        if (directory.entries.includes('.gitignore')) {
+          scopes = [...scopes, { base: relativeDir, rules: await this.loadGitignore(relativeDir) }];
+        }
+
+        for (const entry of directory.entries) {
+          const isDirectory = entry.endsWith('/');
+          const relativePath = path.join(relativeDir, isDirectory ? entry.slice(0, -1) : entry);
+
+          // Included paths (and directories leading to them) are scanned even when ignored
+          const included = include.ignores(isDirectory ? `${relativePath}/` : relativePath) ||
+            (isDirectory && this.containsIncludedPath(relativePath));
+          if (!included && this.isIgnored(relativePath, isDirectory, scopes)) continue;
+
+          if (isDirectory) {
+            await scanDirectory(relativePath, scopes, depth + 1);
+          } else if (result.files.length >= this.maxFiles) {
+            result.truncated = true;
+          } else {
+            result.files.push(relativePath);
+          }
+
+          if (result.truncated) return;
+        }
+      } catch (error) {
+        // Ignore permission errors or other issues
+      }
+    };
+
+    await scanDirectory('', [{ base: '', rules: ignore().add(this.ignore) }], 0);
+    return result;
+  }
+
+  /**
+   * Check a path against the ignore scopes, the deepest .gitignore deciding first
+   */
+  private isIgnored(relativePath: string, isDirectory: boolean, scopes: IgnoreScope[]): boolean {
+    for (const { base, rules } of [...scopes].reverse()) {
+      const scopedPath = path.relative(base, relativePath);
+      const { ignored, unignored } = rules.test(isDirectory ? `${scopedPath}/` : scopedPath);
+      if (ignored) return true;
+      if (unignored) return false;
+    }
+    return false;
+  }
+
+  /**
+   * Whether an "include" entry points below the directory (e.g. ".github/workflows" for ".github")
+   */
+  private containsIncludedPath(relativeDir: string): boolean {
+    const prefix = `${relativeDir.split(path.sep).join('/')}/`;
+    return this.include.some(pattern => pattern.replace(/^\//, '').startsWith(prefix));
+  }
+
+  /**
+   * Rules of the .gitignore in a directory
+   */
+  private async loadGitignore(relativeDir: string): Promise<Ignore> {
+    try {
+      return ignore().add(await fs.readFile(path.join(this.projectRoot, relativeDir, '.gitignore'), 'utf-8'));
+    } catch {
+      return ignore();
+    }
+  }
+
+  /**
+   * Files and directories (with a trailing '/') of a directory, in readdir order
+   */
+  private async readDirectory(dir: string): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+
+    return entries
+      .filter(entry => entry.isDirectory() || entry.isFile())
+      .map(entry => entry.isDirectory() ? `${entry.name}/` : entry.name);
+  }
+}
@@ -2,7 +2,14 @@ import fs from 'fs-extra';
 import path from 'path';
 import { ModuleManager } from './ModuleManager.js';
 import { ModuleRegistry } from './ModuleRegistry.js';
-import type { DetectionContext } from './types/Module.js';
+import { ConfigLoader, CONFIG_FILE, type FrankenConfig } from './ConfigLoader.js';
+import type { DetectionContext, DetectionResult, ModuleDetection } from './types/Module.js';
+import { VersionedGuidelines } from './utils/VersionedGuidelines.js';
+import { DetectionCache, CACHE_INPUT_FILES, type DetectionCacheStats } from './DetectionCache.js';
+import { Fingerprint } from './Fingerprint.js';
+import { ProjectScanner, type ScanResult } from './ProjectScanner.js';
+import { WorkspaceDetector, type WorkspacePackage, type WorkspaceTool } from './WorkspaceDetector.js';
+import { FileContentProbe } from './FileContentProbe.js';
 
 export interface DetectedStack {
   runtime: string;
@@ -11,6 +18,19 @@ export interface DetectedStack {
   packageManagers: string[];
   configFiles: string[];
   commands: StackCommands;
+  versions?: Record<string, string>;  // Detected versions keyed by module id (e.g. { laravel: '12' })
+  guidelineWarnings?: string[];       // Versioned guidelines used for another version than the one detected
+  excludes?: Record<string, string[]>; // Modules excluded by each detected module (e.g. { pest: ['phpunit'] })
+  workspaceTools?: WorkspaceTool[];    // Tools declaring the workspace packages (e.g. ['pnpm', 'turbo'])
+  packages?: PackageStack[];           // Workspace packages, each detected on its own
+  detections?: ModuleDetection[];      // Evidence, confidence and exclusions of every module (detect --explain)
+}
+
+/**
+ * Stack of a workspace package
+ */
+export interface PackageStack extends WorkspacePackage {
+  stack: DetectedStack;
 }
 
 export interface StackCommands {
@@ -19,29 +39,107 @@ export interface StackCommands {
   test: string[];
   lint: string[];
   install: string[];
+  descriptions?: Record<string, string>;  // What each command does, supplied by the module
+  sources?: Record<string, string[]>;     // Ids of the modules contributing each command
+}
+
+export type StackCommandCategory = 'dev' | 'build' | 'test' | 'lint' | 'install';
+
+export interface StackDetectorOptions {
+  cache?: boolean;       // Reuse and update .franken/cache (default true, --no-cache disables it)
+  workspaces?: boolean;  // Also detect the workspace packages (default true)
 }
 
 export class StackDetector {
   private projectRoot: string;
   private moduleManager: ModuleManager;
   private moduleRegistry: ModuleRegistry;
+  private useCache: boolean;
+  private detectWorkspaces: boolean;
+  private cacheStats: DetectionCacheStats | undefined;
 
-  constructor(projectRoot = process.cwd()) {
+  constructor(projectRoot = process.cwd(), options: StackDetectorOptions = {}) {
     this.projectRoot = projectRoot;
     this.moduleManager = new ModuleManager();
     this.moduleRegistry = new ModuleRegistry();
+    this.useCache = options.cache !== false;
+    this.detectWorkspaces = options.workspaces !== false;
+  }
+
+  /**
+   * What the last detect() reused from the cache (undefined when the cache is disabled)
+   */
+  getCacheStats(): DetectionCacheStats | undefined {
+    return this.cacheStats;
   }
 
   async detect(): Promise<DetectedStack> {
+    const config = await ConfigLoader.load(this.projectRoot);
+    const stack = await this.detectProject(config);
+
+    const workspace = this.detectWorkspaces
+      ? await WorkspaceDetector.discover(this.projectRoot, config.workspaces?.packages)
+      : null;
+    if (!workspace) return stack;
+
+    // Each package is a project of its own (its own franken.config.json and cache)
+    const packages: PackageStack[] = [];
+    for (const workspacePackage of workspace.packages) {
+      const detector = new StackDetector(path.join(this.projectRoot, workspacePackage.path), {
+        cache: this.useCache,
+        workspaces: false
+      });
+      packages.push({ ...workspacePackage, stack: await detector.detect() });
+    }
+
+    return { ...stack, workspaceTools: workspace.tools, packages };
+  }
+
+  /**
+   * Detect the stack of the project root, reusing the cached stack when nothing changed
+   */
+  private async detectProject(config: FrankenConfig): Promise<DetectedStack> {
+    const cache = this.useCache ? await DetectionCache.load(this.projectRoot) : null;
+
     // Initialize modules
     await this.initializeModules();
 
-    // Prepare detection context
-    const context = await this.createDetectionContext();
+    // Prepare detection context, rescanning only directories changed since the cache was written
+    const scan = await new ProjectScanner(this.projectRoot, config.scan).scan(cache?.directories ?? {});
+    const { directories } = scan;
+    const probe = new FileContentProbe(this.projectRoot);
+    const context = await this.createDetectionContext(scan, probe);
+
+    if (scan.truncated) {
+      console.warn(`⚠️  Stopped scanning after ${scan.files.length} files, detection may miss parts of the project. ` +
+        `Skip large directories with "scan.ignore" or raise "scan.maxFiles" in ${CONFIG_FILE}`);
+    }
+    if (this.useCache) {
+      this.cacheStats = {
+        stackReused: false,
+        directoriesScanned: scan.directoriesScanned,
+        directoriesReused: scan.directoriesReused
+      };
+    }
+
+    // Reuse the cached stack while the scanned files, manifests, lockfiles, config files
+    // and the files modules read last time are unchanged
+    const probed = cache?.probed ?? [];
+    const inputs = this.useCache ? await this.hashCacheInputs(context, probed) : {};
+    if (this.cacheStats && cache?.stack && DetectionCache.sameInputs(cache.inputs, inputs)) {
+      this.cacheStats.stackReused = true;
+      if (this.cacheStats.directoriesScanned > 0) {
+        await DetectionCache.save(this.projectRoot, { directories, inputs, probed, stack: cache.stack });
+      }
+      return cache.stack;
+    }
 
     // Run module-based detection
+    let detections: ModuleDetection[] = [];
+    this.moduleManager.once('detection:complete', event => { detections = event.detections; });
     const detectionResults = await this.moduleManager.detectStack(context);
-    await this.moduleManager.detectVersions(context, detectionResults);
+    this.applyConfiguredModules(detectionResults, config);
+    const versions = await this.moduleManager.detectVersions(context, detectionResults);
 
     // Extract detected frameworks and languages
     const frameworks: string[] = [];
@@ -77,19 +175,84 @@ export class StackDetector {
       detectionResults
     );
 
-    return {
+    const stack: DetectedStack = {
       runtime,
       languages,
       frameworks,
       packageManagers,
       configFiles: context.configFiles,
       commands,
+      versions: Object.fromEntries(Array.from(versions).sort(([a], [b]) => a.localeCompare(b))),
+      guidelineWarnings: await this.collectGuidelineWarnings({ ...Object.fromEntries(versions), ...config.versions }),
+      excludes: Object.fromEntries(Array.from(detectionResults)
+        .filter(([, result]) => result.excludes?.length)
+        .map(([moduleId, result]) => [moduleId, result.excludes!])),
+      detections: this.completeDetections(detections, detectionResults)
     };
+
+    if (this.useCache) {
+      const probedNow = probe.getReadFiles();
+      await DetectionCache.save(this.projectRoot, {
+        directories,
+        inputs: await this.hashCacheInputs(context, probedNow),
+        probed: probedNow,
+        stack
+      });
+    }
+
+    return stack;
+  }
+
+  /**
+   * Hash everything module detection reads: manifests, lockfiles, config files, probed files and the file list
+   */
+  private async hashCacheInputs(context: DetectionContext, probed: string[]): Promise<Record<string, string>> {
+    const inputs = await DetectionCache.hashInputs(this.projectRoot, [...CACHE_INPUT_FILES, ...context.configFiles, ...probed]);
+    inputs['#files'] = Fingerprint.hash(context.files.join('\n'));
+    inputs['#configFiles'] = Fingerprint.hash(context.configFiles.join('\n'));
+    return inputs;
+  }
+
+  /**
+   * Mark modules detected only through franken.config.json, and add the disabled modules
+   */
+  private completeDetections(detections: ModuleDetection[], detectionResults: Map<string, DetectionResult>): ModuleDetection[] {
+    const completed = detections.map(detection =>
+      !detection.detected && detectionResults.has(detection.module)
+        ? { ...detection, detected: true, configured: true }
+        : detection
+    );
+
+    for (const registration of this.moduleRegistry.getAllRegistrations()) {
+      if (!registration.enabled) {
+        completed.push({ module: registration.id, detected: false, confidence: 0, evidence: [], disabled: true });
+      }
+    }
+
+    return completed.sort((a, b) => a.module.localeCompare(b.module));
+  }
+
+  /**
+   * Warn when a module has no guidelines for its exact version and the nearest lower version is used
+   */
+  private async collectGuidelineWarnings(versions: Record<string, string>): Promise<string[]> {
+    const warnings: string[] = [];
+
+    for (const [moduleId, version] of Object.entries(versions).sort(([a], [b]) => a.localeCompare(b))) {
+      const match = await VersionedGuidelines.resolve(moduleId, version);
+      if (match && !match.exact) {
+        const displayName = this.moduleManager.getModule(moduleId)?.getMetadata().displayName ?? moduleId;
+        warnings.push(VersionedGuidelines.formatWarning(displayName, match));
+      }
+    }
+
+    return warnings;
   }
 
   private async initializeModules(): Promise<void> {
-    // Discover and register all modules
+    // Discover and register all modules, then apply franken.config.json enable/disable
     await this.moduleRegistry.discoverModules();
+    await this.moduleRegistry.loadFromConfig(ConfigLoader.getPath(this.projectRoot));
 
     // Register discovered modules with the manager
     for (const registration of this.moduleRegistry.getEnabledRegistrations()) {
@@ -100,9 +263,24 @@ export class StackDetector {
     await this.moduleManager.initialize();
   }
 
-  private async createDetectionContext(): Promise<DetectionContext> {
+  /**
+   * Treat modules forced on in franken.config.json as detected
+   */
+  private applyConfiguredModules(detectionResults: Map<string, DetectionResult>, config: FrankenConfig): void {
+    for (const moduleId of ConfigLoader.getEnabledModules(config)) {
+      if (!detectionResults.has(moduleId) && this.moduleManager.getModule(moduleId)) {
+        detectionResults.set(moduleId, {
+          detected: true,
+          confidence: 1,
+          evidence: [`Enabled in ${CONFIG_FILE}`]
+        });
+      }
+    }
+  }
+
+  private async createDetectionContext(scan: ScanResult, content: FileContentProbe): Promise<DetectionContext> {
     const configFiles = await this.findConfigFiles();
-    const files = await this.scanProjectFiles();
+    const files = scan.files;
     const packageJson = await this.readPackageJson();
     const composerJson = await this.readComposerJson();
 
@@ -111,7 +289,8 @@ export class StackDetector {
       configFiles,
       files,
       packageJson,
-      composerJson
+      composerJson,
+      content
     };
   }
 
@@ -216,39 +395,4 @@ export class StackDetector {
     return null;
   }
 
-
-  private async scanProjectFiles(): Promise<string[]> {
-    const files: string[] = [];
-
-    const scanDirectory = async (dir: string, depth = 0): Promise<void> => {
-      if (depth > 3) return; // Limit recursion depth
-
-      try {
-        const entries = await fs.readdir(dir, { withFileTypes: true });
-
-        for (const entry of entries) {
-          const fullPath = path.join(dir, entry.name);
-          const relativePath = path.relative(this.projectRoot, fullPath);
-
-          // Skip node_modules, vendor, and other common ignored directories
-          if (entry.name.startsWith('.') ||
-              ['node_modules', 'vendor', 'dist', 'build', 'public', '__pycache__'].includes(entry.name)) {
-            continue;
-          }
-
-          if (entry.isDirectory()) {
-            await scanDirectory(fullPath, depth + 1);
-          } else if (entry.isFile()) {
-            files.push(relativePath);
-          }
-        }
-      } catch (error) {
-        // Ignore permission errors or other issues
-      }
-    };
-
-    await scanDirectory(this.projectRoot);
-    return files;
-  }
-
 }
\ No newline at end of file
@@ -0,0 +1,184 @@
+import chalk from 'chalk';
+import { PRIORITY_ORDER } from './types/Module.js';
+import type { ModulePriorityType } from './types/Module.js';
+
+const OPTIONAL_START = '[//]: # (franken-ai:optional:start)';
+const OPTIONAL_END = '[//]: # (franken-ai:optional:end)';
+
+/**
+ * Minimal guideline shape the budget works on
+ */
+export interface BudgetedGuideline {
+  path: string;
+  content: string;
+  priority: ModulePriorityType;
+  optionalBlocks?: string[];  // Text of the blocks marked optional, as found in content (markers removed)
+}
+
+/**
+ * Something removed to fit the budget
+ */
+export interface TrimmedItem {
+  path: string;
+  kind: 'optional' | 'example' | 'guideline';
+  tokens: number;
+}
+
+/**
+ * Outcome of fitting guidelines into a token budget
+ */
+export interface TokenBudgetResult<T extends BudgetedGuideline> {
+  guidelines: T[];
+  maxTokens: number;
+  before: number;  // Estimated tokens before trimming
+  after: number;   // Estimated tokens after trimming
+  trimmed: TrimmedItem[];
+}
+
+/**
+ * Estimates tokens and trims guidelines to fit a budget, in this order:
+ * optional blocks, then code examples, then whole guidelines (lowest priority first)
+ */
+export class TokenBudget {
+  /**
+   * Rough token estimate (about 4 characters per token for English and code)
+   */
+  static estimate(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  /**
+   * Remove the optional block markers, returning the blocks they wrapped
+   */
+  static extractOptionalBlocks(content: string, file: string): { content: string; optionalBlocks: string[] } {
+    if (!content.includes(OPTIONAL_START) && !content.includes(OPTIONAL_END)) {
+      return { content, optionalBlocks: [] };
+    }
+
+    const lines = content.split('\n');
+    const output: string[] = [];
+    const optionalBlocks: string[] = [];
+    let block: string[] | null = null;
+    let startLine = 0;
+
+    lines.forEach((line, index) => {
+      if (line.trim() === OPTIONAL_START) {
+        if (block) throw new Error(`Nested optional block in ${file} (line ${index + 1})`);
+        block = [];
+        startLine = index + 1;
+      } else if (line.trim() === OPTIONAL_END) {
+        if (!block) throw new Error(`Unexpected optional block end in ${file} (line ${index + 1})`);
+        if (block.length > 0) optionalBlocks.push(block.join('\n'));
+        output.push(...block);
+        block = null;
+      } else {
+        (block ?? output).push(line);
+      }
+    });
+
+    if (block) {
+      throw new Error(`Unclosed optional block in ${file} (line ${startLine})`);
+    }
+
+    return { content: output.join('\n'), optionalBlocks };
+  }
+
+  /**
+   * Trim guidelines until the estimated total (overhead included) fits in maxTokens
+   */
+  static fit<T extends BudgetedGuideline>(guidelines: T[], overhead: number, maxTokens: number): TokenBudgetResult<T> {
+    const working = guidelines.map(guideline => ({ ...guideline, optionalBlocks: [...guideline.optionalBlocks ?? []] }));
+    const total = () => overhead + working.reduce((sum, g) => sum + this.estimate(g.content), 0);
+    const before = total();
+    const trimmed: TrimmedItem[] = [];
+    const dropped = new Set<T>();
+
+    // Lowest priority first, later guidelines before earlier ones of the same priority
+    const order = working
+      .map((guideline, index) => ({ guideline, index }))
+      .sort((a, b) => PRIORITY_ORDER[a.guideline.priority] - PRIORITY_ORDER[b.guideline.priority] || b.index - a.index)
+      .map(({ guideline }) => guideline);
+
+    const removeBlock = (guideline: T, block: string, kind: TrimmedItem['kind']) => {
+      const content = guideline.content.replace(guideline.content.includes(`${block}\n`) ? `${block}\n` : block, '');
+      trimmed.push({ path: guideline.path, kind, tokens: this.estimate(guideline.content) - this.estimate(content) });
+      guideline.content = content;
+    };
+
+    for (const guideline of order) {
+      for (const block of guideline.optionalBlocks) {
+        if (total() <= maxTokens) break;
+        removeBlock(guideline, block, 'optional');
+      }
+    }
+
+    for (const guideline of order) {
+      for (const example of this.findExamples(guideline.content)) {
+        if (total() <= maxTokens) break;
+        removeBlock(guideline, example, 'example');
+      }
+    }
+
+    for (const guideline of order) {
+      if (total() <= maxTokens) break;
+      trimmed.push({ path: guideline.path, kind: 'guideline', tokens: this.estimate(guideline.content) });
+      guideline.content = '';
+      dropped.add(guideline);
+    }
+
+    return {
+      guidelines: working.filter(guideline => !dropped.has(guideline)),
+      maxTokens,
+      before,
+      after: total(),
+      trimmed
+    };
+  }
+
+  /**
+   * Format what was trimmed from a generated file for display (nothing when it already fit)
+   */
+  static formatReport(file: string, result: Omit<TokenBudgetResult<BudgetedGuideline>, 'guidelines'>): string[] {
+    if (result.trimmed.length === 0 && result.after <= result.maxTokens) {
+      return [];
+    }
+
+    const tokens = (count: number) => count.toLocaleString('en-US');
+    const lines = [chalk.yellow(
+      `✂️  ${file}: ~${tokens(result.before)} → ~${tokens(result.after)} tokens (budget ${tokens(result.maxTokens)})`
+    )];
+
+    // One line per guideline and kind of cut
+    const groups = new Map<string, { path: string; kind: TrimmedItem['kind']; count: number; tokens: number }>();
+    for (const item of result.trimmed) {
+      const key = `${item.path}:${item.kind}`;
+      const group = groups.get(key) ?? { path: item.path, kind: item.kind, count: 0, tokens: 0 };
+      group.count++;
+      group.tokens += item.tokens;
+      groups.set(key, group);
+    }
+
+    const labels: Record<TrimmedItem['kind'], (count: number) => string> = {
+      optional: count => `${count} optional block${count > 1 ? 's' : ''}`,
+      example: count => `${count} example${count > 1 ? 's' : ''}`,
+      guideline: () => 'removed'
+    };
+
+    for (const group of groups.values()) {
+      lines.push(chalk.gray(`   • ${group.path}: ${labels[group.kind](group.count)} (-${tokens(group.tokens)} tokens)`));
+    }
+
+    if (result.after > result.maxTokens) {
+      lines.push(chalk.red('   ⚠️  Still over budget: the stack, commands and workflow sections alone exceed it'));
+    }
+
+    return lines;
+  }
+
+  /**
+   * Fenced code blocks, with the blank line that follows them
+   */
+  private static findExamples(content: string): string[] {
+    return Array.from(content.matchAll(/^(`{3,}|~{3,})[^\n]*\n[\s\S]*?^\1[ \t]*(?:\n\n?|$)/gm), match => match[0]);
+  }
+}
@@ -0,0 +1,228 @@
+import fs from 'fs-extra';
+import path from 'path';
+import yaml from 'js-yaml';
+
+/**
+ * Where the package list of a workspace comes from
+ */
+export type WorkspaceTool = 'npm' | 'yarn' | 'pnpm' | 'composer' | 'turbo' | 'nx' | 'config' | 'directories';
+
+/**
+ * A package of a workspace
+ */
+export interface WorkspacePackage {
+  name: string;  // package.json or composer.json name, else the directory name
+  path: string;  // Relative to the project root, '/'-separated (e.g. 'apps/web')
+}
+
+/**
+ * Packages found in a project, and the tools declaring them
+ */
+export interface Workspace {
+  tools: WorkspaceTool[];
+  packages: WorkspacePackage[];
+}
+
+/**
+ * Fields read from package.json, composer.json, project.json and nx.json (unvalidated JSON)
+ */
+interface Manifest {
+  name?: unknown;
+  workspaces?: unknown;
+  repositories?: unknown;
+  workspaceLayout?: unknown;
+}
+
+const MANIFESTS = ['package.json', 'composer.json'];
+const SKIPPED_DIRECTORIES = ['node_modules', 'vendor'];
+
+/**
+ * Discovers the packages of a monorepo:
+ *
+ * - package.json "workspaces" (npm, yarn) and pnpm-workspace.yaml
+ * - composer.json path repositories
+ * - Nx projects (project.json below the apps and libs directories)
+ * - otherwise, when the root has no manifest, top-level directories with their own
+ *   package.json or composer.json (e.g. a Laravel backend/ next to a Next.js frontend/)
+ *
+ * Turborepo builds on the package manager workspaces and is only reported as a tool.
+ * Patterns listed in franken.config.json "workspaces.packages" replace the discovery.
+ */
+export class WorkspaceDetector {
+  /**
+   * Find the workspace packages, or null when the project is not a monorepo
+   */
+  static async discover(projectRoot: string, configured?: string[]): Promise<Workspace | null> {
+    const tools: WorkspaceTool[] = [];
+    const patterns: string[] = [];
+    const add = (tool: WorkspaceTool, toolPatterns: string[]) => {
+      if (toolPatterns.length === 0) return;
+      tools.push(tool);
+      patterns.push(...toolPatterns);
+    };
+
+    if (configured) {
+      add('config', configured);
+    } else {
+      const packageJson = await this.readJson(path.join(projectRoot, 'package.json'));
+      const composerJson = await this.readJson(path.join(projectRoot, 'composer.json'));
+
+      const workspaces = packageJson?.workspaces;
+      const npmPatterns = Array.isArray(workspaces) ? workspaces : this.field(workspaces, 'packages');
+      add(await fs.pathExists(path.join(projectRoot, 'yarn.lock')) ? 'yarn' : 'npm', this.strings(npmPatterns));
+      add('pnpm', await this.readPnpmPatterns(projectRoot));
+      const repositories = composerJson?.repositories;
+      const repositoryList: unknown[] = Array.isArray(repositories)
+        ? repositories
+        : Object.values(typeof repositories === 'object' && repositories !== null ? repositories : {});
+      add('composer', this.strings(repositoryList
+        .filter(repository => this.field(repository, 'type') === 'path')
+        .map(repository => this.field(repository, 'url'))));
+      add('nx', await this.readNxPatterns(projectRoot));
+
+      if (patterns.length > 0 && await fs.pathExists(path.join(projectRoot, 'turbo.json'))) {
+        tools.push('turbo');
+      }
+
+      if (patterns.length === 0 && !packageJson && !composerJson) {
+        add('directories', ['*']);
+      }
+    }
+
+    const packages = await this.resolvePackages(projectRoot, patterns);
+    return packages.length > 0 ? { tools, packages } : null;
+  }
+
+  /**
+   * Expand the patterns into package directories containing a manifest (or an Nx project.json)
+   */
+  private static async resolvePackages(projectRoot: string, patterns: string[]): Promise<WorkspacePackage[]> {
+    const included = new Set<string>();
+    const excluded = new Set<string>();
+
+    for (const pattern of patterns) {
+      const negated = pattern.startsWith('!');
+      const normalized = pattern.replace(/^!/, '').replace(/^\.\//, '').replace(/\/+$/, '');
+      if (path.isAbsolute(normalized)) continue;
+
+      for (const dir of await this.expand(projectRoot, normalized.split('/'))) {
+        // Packages outside the project (e.g. a "../shared" path repository) are not ours to write to
+        const resolved = path.posix.normalize(dir);
+        if (resolved === '..' || resolved.startsWith('../')) continue;
+        (negated ? excluded : included).add(resolved === '.' ? '' : resolved);
+      }
+    }
+
+    const packages: WorkspacePackage[] = [];
+    for (const dir of Array.from(included).sort()) {
+      if (excluded.has(dir) || dir === '') continue;
+
+      const manifests = await Promise.all([...MANIFESTS, 'project.json'].map(file => this.readJson(path.join(projectRoot, dir, file))));
+      if (manifests.every(manifest => manifest === null)) continue;
+
+      const name = manifests.map(manifest => manifest?.name).find((value): value is string => typeof value === 'string') ??
+        path.posix.basename(dir);
+      packages.push({ name, path: dir });
+    }
+
+    return packages;
+  }
+
+  /**
+   * Expand a '/'-split glob ('*' and '**' segments) into existing directories
+   */
+  private static async expand(projectRoot: string, segments: string[], base = ''): Promise<string[]> {
+    if (segments.length === 0) return [base];
+
+    const [segment, ...rest] = segments;
+    if (!segment.includes('*')) {
+      const dir = path.posix.join(base, segment);
+      return await this.isDirectory(path.join(projectRoot, dir)) ? this.expand(projectRoot, rest, dir) : [];
+    }
+
+    const children = await this.listDirectories(path.join(projectRoot, base));
+    const results: string[] = [];
+
+    if (segment === '**') {
+      results.push(...await this.expand(projectRoot, rest, base));
+      for (const child of children) {
+        results.push(...await this.expand(projectRoot, segments, path.posix.join(base, child)));
+      }
+      return results;
+    }
+
+    const matcher = new RegExp(`^${segment.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+    for (const child of children.filter(child => matcher.test(child))) {
+      results.push(...await this.expand(projectRoot, rest, path.posix.join(base, child)));
+    }
+    return results;
+  }
+
+  /**
+   * Patterns from pnpm-workspace.yaml
+   */
+  private static async readPnpmPatterns(projectRoot: string): Promise<string[]> {
+    try {
+      const content = await fs.readFile(path.join(projectRoot, 'pnpm-workspace.yaml'), 'utf-8');
+      const workspace = yaml.load(content) as { packages?: unknown } | null;
+      return this.strings(workspace?.packages ?? []);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Nx project directories (apps and libs, or the nx.json "workspaceLayout" directories)
+   */
+  private static async readNxPatterns(projectRoot: string): Promise<string[]> {
+    const nxJson = await this.readJson(path.join(projectRoot, 'nx.json'));
+    if (!nxJson) return [];
+
+    const appsDir = this.field(nxJson.workspaceLayout, 'appsDir');
+    const libsDir = this.field(nxJson.workspaceLayout, 'libsDir');
+    return [
+      `${typeof appsDir === 'string' ? appsDir : 'apps'}/*`,
+      `${typeof libsDir === 'string' ? libsDir : 'libs'}/*`
+    ];
+  }
+
+  private static strings(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+  }
+
+  private static async listDirectories(dir: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      return entries
+        .filter(entry => entry.isDirectory() && !entry.name.startsWith('.') && !SKIPPED_DIRECTORIES.includes(entry.name))
+        .map(entry => entry.name)
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  private static async isDirectory(dir: string): Promise<boolean> {
+    try {
+      return (await fs.stat(dir)).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * A field of a JSON object, or undefined when the value is not an object
+   */
+  private static field(value: unknown, key: string): unknown {
+    return typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+  }
+
+  private static async readJson(file: string): Promise<Manifest | null> {
+    try {
+      const json: unknown = await fs.readJson(file);
+      return typeof json === 'object' && json !== null ? json as Manifest : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -9,6 +9,24 @@ export interface DetectionContext {
   packageJson?: any;
   composerJson?: any;
   files: string[];
+  content?: ContentProbe;  // Missing in hand-built contexts, modules then fall back to file names
+}
+
+/**
+ * Cached, size-limited access to file contents during detection. All reads share
+ * one byte budget; once it is spent, readFile() returns null and grep() finds nothing.
+ */
+export interface ContentProbe {
+  /**
+   * Read a file relative to the project root (only the first bytes of large files),
+   * or null when it is missing, outside the project or over the budget
+   */
+  readFile(file: string): Promise<string | null>;
+
+  /**
+   * The files whose content matches the pattern, stopping after `limit` matches (default 1)
+   */
+  grep(pattern: RegExp, files: string[], limit?: number): Promise<string[]>;
 }
 
 /**
@@ -20,8 +38,50 @@ export interface DetectionResult {
   evidence: string[]; // List of evidence found
   excludes?: string[]; // Module IDs to exclude if this module is detected
   metadata?: Record<string, any>;
+  contributions?: EvidenceContribution[]; // The evidence with its effect on the confidence, in order
+  threshold?: DetectionThreshold;
+}
+
+/**
+ * An evidence item and what it did to the confidence
+ */
+export interface EvidenceContribution {
+  evidence: string;
+  confidence?: number; // Added to the confidence
+  factor?: number;     // Multiplied with the confidence (e.g. 0.5 when a required package is missing)
+}
+
+/**
+ * Confidence a module needs to count as detected
+ */
+export interface DetectionThreshold {
+  minimum: number;
+  inclusive: boolean; // confidence >= minimum instead of confidence > minimum
 }
 
+/**
+ * Outcome of a module's detection, recorded for `detect --explain` and `detect --json`
+ */
+export interface ModuleDetection {
+  module: string;
+  detected: boolean;                 // Still detected after exclusions
+  confidence: number;
+  threshold?: DetectionThreshold;
+  evidence: EvidenceContribution[];  // Without confidence when the module only reports evidence strings
+  excludes?: string[];               // Modules this module excluded
+  excludedBy?: string[];             // Detected modules that excluded this module although it was detected
+  configured?: boolean;              // Only detected because franken.config.json enables it
+  disabled?: boolean;                // Disabled in franken.config.json, not run
+  error?: string;                    // Detection threw
+}
+
+/**
+ * AI tool a guideline is written for
+ */
+export type GuidelineAudience =
+  | 'claude'            // Implementation guidelines (CLAUDE.md and other coding assistants)
+  | 'gemini';           // Large-context analysis guidelines (GEMINI.md)
+
 /**
  * Path to guideline file with metadata
  */
@@ -30,6 +90,21 @@ export interface GuidelinePath {
   priority: ModulePriorityType;
   category: 'framework' | 'language' | 'feature' | 'testing';
   version?: string;
+  audience?: GuidelineAudience; // Defaults to 'claude'
+  metadata?: GuidelineMetadata; // Merged with the file's front-matter (the file wins)
+}
+
+/**
+ * Guideline metadata, declared in code or in the YAML front-matter of the guideline file
+ */
+export interface GuidelineMetadata {
+  title?: string;
+  appliesTo?: string | Record<string, string>; // Semver range for the module's version, or ranges keyed by module id
+  requiresModules?: string[];                   // Only include when all of these modules are included
+  excludeWhenModules?: string[];                // Skip when any of these modules is included
+  category?: GuidelinePath['category'];
+  priority?: ModulePriorityType;
+  audience?: GuidelineAudience;
 }
 
 /**
@@ -68,6 +143,18 @@ export type ModulePriorityType =
   | 'specialized-lang'  // TypeScript, PHP
   | 'base-lang';        // JavaScript
 
+/**
+ * Rank of each priority type (higher wins)
+ */
+export const PRIORITY_ORDER: Record<ModulePriorityType, number> = {
+  'meta-framework': 6,
+  'framework': 5,
+  'css-framework': 4,
+  'laravel-tool': 3,
+  'specialized-lang': 2,
+  'base-lang': 1
+};
+
 /**
  * Base interface for all modules
  */
@@ -87,6 +174,12 @@ export interface Module {
    */
   readonly priorityType: ModulePriorityType;
 
+  /**
+   * Set to false to skip the common guidelines of the module's priority type and categories
+   * (src/guidelines/common/); they are still loaded when another included module uses them
+   */
+  readonly commonGuidelines?: boolean;
+
   /**
    * Get module metadata
    */
@@ -232,7 +325,7 @@ export interface ModuleEvents {
   'module:unloaded': { module: Module };
   'module:error': { module: Module; error: Error };
   'detection:start': { context: DetectionContext };
-  'detection:complete': { results: Map<string, DetectionResult> };
+  'detection:complete': { results: Map<string, DetectionResult>; exclusions: string[]; detections: ModuleDetection[] };
 }
 
 /**
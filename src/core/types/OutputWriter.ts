@@ -0,0 +1,55 @@
+import type { Guideline, GuidelineContext, GuidelineManager } from '../GuidelineManager.js';
+
+/**
+ * File produced by an output writer
+ */
+export interface OutputFile {
+  /** Path relative to the project root */
+  path: string;
+
+  /** Generated content */
+  content: string;
+
+  /** Merge into an existing file through the FrankenAI section markers (defaults to true) */
+  merge?: boolean;
+}
+
+/**
+ * Input shared by every output writer
+ */
+export interface OutputContext {
+  /** Guidelines collected once for the detected stack */
+  guidelines: Guideline[];
+
+  /** Stack and version context */
+  context: GuidelineContext;
+
+  /** Renders the FrankenAI sections */
+  generator: GuidelineManager;
+}
+
+/**
+ * Writer for one AI assistant's context file(s)
+ */
+export interface OutputWriter {
+  /** Target name used by --target (e.g., 'claude', 'cursor') */
+  readonly id: string;
+
+  /** File or directory written, for display */
+  readonly label: string;
+
+  /** Short description shown in help */
+  readonly description: string;
+
+  /**
+   * Render the files for this assistant
+   */
+  render(output: OutputContext): OutputFile[];
+
+  /**
+   * Files generated earlier below root that the rendered files no longer include
+   * (e.g. the rule of a module that is no longer detected), relative to root.
+   * They are removed when the rendered files are written.
+   */
+  findStale?(root: string, files: OutputFile[]): Promise<string[]>;
+}
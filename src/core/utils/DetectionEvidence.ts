@@ -0,0 +1,70 @@
+import type { DetectionResult, DetectionThreshold, EvidenceContribution } from '../types/Module.js';
+
+/**
+ * Collects detection evidence together with its effect on the confidence,
+ * so `detect --explain` can show why a module was or was not detected
+ */
+export class DetectionEvidence {
+  private contributions: EvidenceContribution[] = [];
+  private total = 0;
+
+  private constructor(private threshold: DetectionThreshold) {}
+
+  /**
+   * Detected when the confidence is greater than `minimum`
+   */
+  static above(minimum: number): DetectionEvidence {
+    return new DetectionEvidence({ minimum, inclusive: false });
+  }
+
+  /**
+   * Detected when the confidence is at least `minimum`
+   */
+  static atLeast(minimum: number): DetectionEvidence {
+    return new DetectionEvidence({ minimum, inclusive: true });
+  }
+
+  /**
+   * Record evidence, adding `confidence` (none for purely informative evidence)
+   */
+  add(evidence: string, confidence?: number): void {
+    this.contributions.push(confidence === undefined ? { evidence } : { evidence, confidence });
+    this.total += confidence ?? 0;
+  }
+
+  /**
+   * Record evidence that multiplies the confidence (e.g. a missing required package)
+   */
+  scale(evidence: string, factor: number): void {
+    this.contributions.push({ evidence, factor });
+    this.total *= factor;
+  }
+
+  /**
+   * Confidence so far, uncapped
+   */
+  get confidence(): number {
+    return this.total;
+  }
+
+  /**
+   * Whether the confidence reaches the threshold
+   */
+  get detected(): boolean {
+    return this.threshold.inclusive ? this.total >= this.threshold.minimum : this.total > this.threshold.minimum;
+  }
+
+  /**
+   * The detection result, with the confidence capped at 1
+   */
+  result(extra: Pick<DetectionResult, 'excludes' | 'metadata'> = {}): DetectionResult {
+    return {
+      detected: this.detected,
+      confidence: Math.min(this.total, 1),
+      evidence: this.contributions.map(contribution => contribution.evidence),
+      ...extra,
+      contributions: this.contributions,
+      threshold: this.threshold
+    };
+  }
+}
@@ -0,0 +1,190 @@
+import chalk from 'chalk';
+
+/**
+ * A single line of a line-based diff
+ */
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  text: string;
+}
+
+/**
+ * A unified diff hunk
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+/**
+ * Options for rendering a unified diff
+ */
+export interface UnifiedDiffOptions {
+  oldLabel?: string;
+  newLabel?: string;
+  context?: number;   // Lines of context around changes (default 3)
+  color?: boolean;    // Colour the output with chalk (default true)
+}
+
+/**
+ * Utility functions for line-based diffs
+ */
+export class DiffUtils {
+  /**
+   * Split text into lines (an empty text has no lines)
+   */
+  static splitLines(text: string): string[] {
+    return text === '' ? [] : text.split('\n');
+  }
+
+  /**
+   * Compute a line diff based on the longest common subsequence
+   */
+  static diffLines(oldText: string, newText: string): DiffLine[] {
+    const a = this.splitLines(oldText);
+    const b = this.splitLines(newText);
+
+    // Skip the common prefix and suffix, which is most of the file in practice
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+
+    let suffix = 0;
+    while (
+      suffix < a.length - prefix && suffix < b.length - prefix &&
+      a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) suffix++;
+
+    const oldMiddle = a.slice(prefix, a.length - suffix);
+    const newMiddle = b.slice(prefix, b.length - suffix);
+    const n = oldMiddle.length;
+    const m = newMiddle.length;
+
+    // lcs[i][j] = length of the LCS of oldMiddle[i..] and newMiddle[j..]
+    const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] = oldMiddle[i] === newMiddle[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    const lines: DiffLine[] = a.slice(0, prefix).map(text => ({ type: 'context', text }));
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && oldMiddle[i] === newMiddle[j]) {
+        lines.push({ type: 'context', text: oldMiddle[i] });
+        i++;
+        j++;
+      } else if (j >= m || (i < n && lcs[i + 1][j] >= lcs[i][j + 1])) {
+        lines.push({ type: 'remove', text: oldMiddle[i] });
+        i++;
+      } else {
+        lines.push({ type: 'add', text: newMiddle[j] });
+        j++;
+      }
+    }
+
+    lines.push(...a.slice(a.length - suffix).map(text => ({ type: 'context' as const, text })));
+
+    return lines;
+  }
+
+  /**
+   * Group diff lines into hunks with the given amount of context
+   */
+  static createHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+    // Line numbers (1-based) of each diff line in the old and new text
+    let oldLine = 1;
+    let newLine = 1;
+    const positions = lines.map(line => {
+      const position = { old: oldLine, new: newLine };
+      if (line.type !== 'add') oldLine++;
+      if (line.type !== 'remove') newLine++;
+      return position;
+    });
+    positions.push({ old: oldLine, new: newLine });
+
+    const hunks: DiffHunk[] = [];
+    let index = 0;
+
+    while (index < lines.length) {
+      if (lines[index].type === 'context') {
+        index++;
+        continue;
+      }
+
+      // Extend the hunk while the next change is close enough to share context
+      let lastChange = index;
+      let cursor = index + 1;
+      while (cursor < lines.length) {
+        if (lines[cursor].type !== 'context') {
+          lastChange = cursor++;
+          continue;
+        }
+
+        let runEnd = cursor;
+        while (runEnd < lines.length && lines[runEnd].type === 'context') runEnd++;
+        if (runEnd === lines.length || runEnd - cursor > context * 2) break;
+        cursor = runEnd;
+      }
+
+      const start = Math.max(0, index - context);
+      const end = Math.min(lines.length, lastChange + 1 + context);
+      const hunkLines = lines.slice(start, end);
+      const oldLines = hunkLines.filter(line => line.type !== 'add').length;
+      const newLines = hunkLines.filter(line => line.type !== 'remove').length;
+
+      hunks.push({
+        oldStart: oldLines === 0 ? positions[start].old - 1 : positions[start].old,
+        oldLines,
+        newStart: newLines === 0 ? positions[start].new - 1 : positions[start].new,
+        newLines,
+        lines: hunkLines
+      });
+
+      index = end;
+    }
+
+    return hunks;
+  }
+
+  /**
+   * Render a unified diff, or an empty string when both texts are identical
+   */
+  static formatUnified(oldText: string, newText: string, options: UnifiedDiffOptions = {}): string {
+    if (oldText === newText) {
+      return '';
+    }
+
+    const color = options.color ?? true;
+    const paint = (style: (text: string) => string, text: string) => color ? style(text) : text;
+    const hunks = this.createHunks(this.diffLines(oldText, newText), options.context ?? 3);
+
+    const output: string[] = [
+      paint(chalk.bold, `--- ${options.oldLabel ?? 'current'}`),
+      paint(chalk.bold, `+++ ${options.newLabel ?? 'generated'}`)
+    ];
+
+    for (const hunk of hunks) {
+      output.push(paint(chalk.cyan, `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`));
+
+      for (const line of hunk.lines) {
+        if (line.type === 'add') {
+          output.push(paint(chalk.green, `+${line.text}`));
+        } else if (line.type === 'remove') {
+          output.push(paint(chalk.red, `-${line.text}`));
+        } else {
+          output.push(` ${line.text}`);
+        }
+      }
+    }
+
+    return output.join('\n');
+  }
+}
@@ -0,0 +1,68 @@
+import fs from 'fs-extra';
+import path from 'path';
+import semver from 'semver';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Bundled modules directory (guideline packs use the same layout under their own root)
+ */
+const MODULES_DIR = path.join(__dirname, '..', '..', 'modules');
+
+/**
+ * Versioned guideline directory chosen for a detected version
+ */
+export interface VersionedGuidelineMatch {
+  directory: string;  // '11', '8.5'
+  detected: string;   // Detected version ('^12.0', '8.6')
+  exact: boolean;     // False when falling back to the nearest lower version
+}
+
+/**
+ * Resolves `<module>/guidelines/<version>/` directories against detected versions
+ */
+export class VersionedGuidelines {
+  /**
+   * List a module's versioned guideline directories, lowest version first
+   */
+  static async listVersions(moduleId: string, modulesDir = MODULES_DIR): Promise<string[]> {
+    const root = path.join(modulesDir, moduleId, 'guidelines');
+    if (!await fs.pathExists(root)) return [];
+
+    const entries = await fs.readdir(root, { withFileTypes: true });
+    return entries
+      .filter(entry => entry.isDirectory() && /^\d+(\.\d+)*$/.test(entry.name))
+      .map(entry => entry.name)
+      .sort((a, b) => semver.compare(semver.coerce(a)!, semver.coerce(b)!));
+  }
+
+  /**
+   * Pick the directory matching the version, else the nearest lower one
+   */
+  static async resolve(moduleId: string, version: string, modulesDir = MODULES_DIR): Promise<VersionedGuidelineMatch | null> {
+    const target = semver.coerce(version);
+    if (!target) return null;
+
+    const directories = await this.listVersions(moduleId, modulesDir);
+    const parts = [target.major, target.minor, target.patch];
+
+    const exact = directories.find(directory =>
+      directory.split('.').every((part, index) => Number(part) === parts[index])
+    );
+    if (exact) {
+      return { directory: exact, detected: version, exact: true };
+    }
+
+    const lower = directories.filter(directory => semver.lt(semver.coerce(directory)!, target)).pop();
+    return lower ? { directory: lower, detected: version, exact: false } : null;
+  }
+
+  /**
+   * Warning shown by detect and status when guidelines of another version are used
+   */
+  static formatWarning(displayName: string, match: VersionedGuidelineMatch): string {
+    return `Guidelines for ${displayName} ${match.directory} used for detected ${match.detected}`;
+  }
+}
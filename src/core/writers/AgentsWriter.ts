@@ -0,0 +1,14 @@
+import type { OutputContext, OutputFile, OutputWriter } from '../types/OutputWriter.js';
+
+/**
+ * Writes AGENTS.md, read by Codex, Jules, Aider and other agents
+ */
+export class AgentsWriter implements OutputWriter {
+  readonly id = 'agents';
+  readonly label = 'AGENTS.md';
+  readonly description = 'AGENTS.md for Codex and other coding agents';
+
+  render({ guidelines, context, generator }: OutputContext): OutputFile[] {
+    return [{ path: 'AGENTS.md', content: generator.generateInstructionsContent(guidelines, context) }];
+  }
+}
@@ -0,0 +1,18 @@
+import { Fingerprint } from '../Fingerprint.js';
+import type { OutputContext, OutputFile, OutputWriter } from '../types/OutputWriter.js';
+
+/**
+ * Writes CLAUDE.md for Claude Code (implementation phase), signed with an input fingerprint
+ */
+export class ClaudeWriter implements OutputWriter {
+  readonly id = 'claude';
+  readonly label = 'CLAUDE.md';
+  readonly description = 'CLAUDE.md for Claude Code';
+
+  render({ guidelines, context, generator }: OutputContext): OutputFile[] {
+    const content = generator.generateClaudeContent(guidelines, context);
+    const fingerprint = Fingerprint.create(Fingerprint.computeInputs(guidelines, context, generator), content);
+
+    return [{ path: 'CLAUDE.md', content: Fingerprint.embed(content, fingerprint) }];
+  }
+}
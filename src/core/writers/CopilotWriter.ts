@@ -0,0 +1,17 @@
+import type { OutputContext, OutputFile, OutputWriter } from '../types/OutputWriter.js';
+
+/**
+ * Writes repository custom instructions for GitHub Copilot
+ */
+export class CopilotWriter implements OutputWriter {
+  readonly id = 'copilot';
+  readonly label = '.github/copilot-instructions.md';
+  readonly description = '.github/copilot-instructions.md for GitHub Copilot';
+
+  render({ guidelines, context, generator }: OutputContext): OutputFile[] {
+    return [{
+      path: '.github/copilot-instructions.md',
+      content: generator.generateInstructionsContent(guidelines, context)
+    }];
+  }
+}
@@ -0,0 +1,120 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { RENDERED_CATEGORIES, type Guideline } from '../GuidelineManager.js';
+import type { OutputContext, OutputFile, OutputWriter } from '../types/OutputWriter.js';
+
+/**
+ * Writes Cursor project rules: one always-applied rule with the stack and commands,
+ * plus one rule per module scoped to the module's file extensions
+ */
+export class CursorWriter implements OutputWriter {
+  readonly id = 'cursor';
+  readonly label = '.cursor/rules/';
+  readonly description = '.cursor/rules/*.mdc for Cursor';
+
+  private static readonly RULES_DIR = '.cursor/rules';
+
+  /**
+   * Rule files written by FrankenAI (franken-ai.mdc, franken-ai-<module>.mdc)
+   */
+  private static readonly RULE_FILE = /^franken-ai(-[\w.-]+)?\.mdc$/;
+
+  render({ guidelines, context, generator }: OutputContext): OutputFile[] {
+    const implementationGuidelines = guidelines.filter(g =>
+      g.audience === 'claude' && RENDERED_CATEGORIES.includes(g.category)
+    );
+
+    // Guidelines shared by several modules (e.g. CSS framework common rules) go in the project rule
+    const sharedGuidelines = implementationGuidelines.filter(g => !g.module);
+
+    const files: OutputFile[] = [{
+      path: `${CursorWriter.RULES_DIR}/franken-ai.mdc`,
+      content: this.formatRule(
+        { description: 'Project stack and commands generated by FrankenAI', alwaysApply: true },
+        [
+          generator.generateSection('stack', [], context),
+          generator.generateSection('commands', [], context),
+          ...sharedGuidelines.map(g => g.content)
+        ]
+      ),
+      merge: false
+    }];
+
+    for (const [moduleId, moduleGuidelines] of this.groupByModule(implementationGuidelines)) {
+      const globs = this.toGlobs(moduleGuidelines[0].extensions ?? []);
+
+      files.push({
+        path: `${CursorWriter.RULES_DIR}/franken-ai-${moduleId}.mdc`,
+        content: this.formatRule(
+          {
+            description: `${moduleId} guidelines generated by FrankenAI`,
+            globs,
+            alwaysApply: !globs
+          },
+          moduleGuidelines.map(g => g.content)
+        ),
+        merge: false
+      });
+    }
+
+    return files;
+  }
+
+  /**
+   * FrankenAI rules of modules that are no longer rendered (hand-written rules are kept)
+   */
+  async findStale(root: string, files: OutputFile[]): Promise<string[]> {
+    const rulesDir = path.join(root, CursorWriter.RULES_DIR);
+    if (!await fs.pathExists(rulesDir)) return [];
+
+    const rendered = new Set(files.map(file => file.path));
+    return (await fs.readdir(rulesDir))
+      .filter(name => CursorWriter.RULE_FILE.test(name))
+      .map(name => `${CursorWriter.RULES_DIR}/${name}`)
+      .filter(file => !rendered.has(file))
+      .sort();
+  }
+
+  /**
+   * Group module guidelines by module id, keeping collection order
+   */
+  private groupByModule(guidelines: Guideline[]): Map<string, Guideline[]> {
+    const groups = new Map<string, Guideline[]>();
+
+    for (const guideline of guidelines) {
+      if (!guideline.module) continue;
+
+      const group = groups.get(guideline.module) ?? [];
+      group.push(guideline);
+      groups.set(guideline.module, group);
+    }
+
+    return groups;
+  }
+
+  /**
+   * Convert file extensions (".tsx") to a Cursor glob list ("**\/*.tsx")
+   */
+  private toGlobs(extensions: string[]): string | undefined {
+    const globs = Array.from(new Set(extensions.map(ext => `**/*${ext.startsWith('.') ? ext : `.${ext}`}`)));
+    return globs.length > 0 ? globs.join(',') : undefined;
+  }
+
+  /**
+   * Build an .mdc rule: front-matter followed by the body sections
+   */
+  private formatRule(
+    frontMatter: { description: string; globs?: string; alwaysApply: boolean },
+    body: string[]
+  ): string {
+    const lines = ['---', `description: ${frontMatter.description}`];
+
+    if (frontMatter.globs) {
+      lines.push(`globs: ${frontMatter.globs}`);
+    }
+
+    lines.push(`alwaysApply: ${frontMatter.alwaysApply}`, '---');
+
+    return `${lines.join('\n')}\n\n${body.join('\n\n')}\n`;
+  }
+}
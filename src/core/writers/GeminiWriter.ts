@@ -0,0 +1,14 @@
+import type { OutputContext, OutputFile, OutputWriter } from '../types/OutputWriter.js';
+
+/**
+ * Writes GEMINI.md for Gemini CLI (discovery phase)
+ */
+export class GeminiWriter implements OutputWriter {
+  readonly id = 'gemini';
+  readonly label = 'GEMINI.md';
+  readonly description = 'GEMINI.md for Gemini CLI';
+
+  render({ guidelines, context, generator }: OutputContext): OutputFile[] {
+    return [{ path: 'GEMINI.md', content: generator.generateGeminiContent(guidelines, context) }];
+  }
+}
@@ -0,0 +1,14 @@
+import type { OutputContext, OutputFile, OutputWriter } from '../types/OutputWriter.js';
+
+/**
+ * Writes .windsurfrules for Windsurf (Cascade)
+ */
+export class WindsurfWriter implements OutputWriter {
+  readonly id = 'windsurf';
+  readonly label = '.windsurfrules';
+  readonly description = '.windsurfrules for Windsurf';
+
+  render({ guidelines, context, generator }: OutputContext): OutputFile[] {
+    return [{ path: '.windsurfrules', content: generator.generateInstructionsContent(guidelines, context) }];
+  }
+}
@@ -1,7 +1,6 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import chalk from 'chalk';
 import { CommandRegistry } from './core/CommandRegistry.js';
 import { InitCommand } from './commands/InitCommand.js';
 import { ModulesCommand } from './commands/ModulesCommand.js';
@@ -9,6 +8,11 @@ import { ListCommand } from './commands/ListCommand.js';
 import { AboutCommand } from './commands/AboutCommand.js';
 import { DetectCommand } from './commands/DetectCommand.js';
 import { StatusCommand } from './commands/StatusCommand.js';
+import { UpdateCommand } from './commands/UpdateCommand.js';
+import { DiffCommand } from './commands/DiffCommand.js';
+import { CheckCommand } from './commands/CheckCommand.js';
+import { GuidelinesCommand } from './commands/GuidelinesCommand.js';
+import { GuidelinesLintCommand } from './commands/GuidelinesLintCommand.js';
 
 const program = new Command();
 const commandRegistry = new CommandRegistry();
@@ -25,6 +29,11 @@ const listCommand = new ListCommand(commandRegistry);
 const aboutCommand = new AboutCommand();
 const detectCommand = new DetectCommand();
 const statusCommand = new StatusCommand();
+const updateCommand = new UpdateCommand();
+const diffCommand = new DiffCommand();
+const checkCommand = new CheckCommand();
+const guidelinesCommand = new GuidelinesCommand();
+const guidelinesLintCommand = new GuidelinesLintCommand();
 
 commandRegistry.register(initCommand);
 commandRegistry.register(modulesCommand);
@@ -32,23 +41,17 @@ commandRegistry.register(listCommand);
 commandRegistry.register(aboutCommand);
 commandRegistry.register(detectCommand);
 commandRegistry.register(statusCommand);
+commandRegistry.register(updateCommand);
+commandRegistry.register(diffCommand);
+commandRegistry.register(checkCommand);
+commandRegistry.register(guidelinesCommand);
+commandRegistry.register(guidelinesLintCommand);
 
 // Configure all registered commands with Commander.js
 commandRegistry.getAllCommands().forEach(command => {
   command.configure(program);
 });
 
-// Update command - regenerate sections (coming soon)
-program
-  .command('update [section]')
-  .description('🔄 Update specific sections in CLAUDE.md')
-  .option('-f, --force', 'Force update without confirmation')
-  .option('-v, --verbose', 'Show detailed output')
-  .action(async (_section, _options) => {
-    console.log(chalk.yellow('🚧 Coming soon: Selective section updates'));
-    console.log(chalk.gray('   For now, use: franken-ai init --force'));
-  });
-
 // Parse command line arguments
 program.parse();
 
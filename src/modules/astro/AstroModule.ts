@@ -8,6 +8,7 @@ import type {
 } from '../../core/types/Module.js';
 import type { StackCommands } from '../../core/StackDetector.js';
 import { AstroDetection } from './detection.js';
+import { VersionedGuidelines } from '../../core/utils/VersionedGuidelines.js';
 
 export class AstroModule implements FrameworkModule {
   readonly id = 'astro';
@@ -55,15 +56,14 @@ export class AstroModule implements FrameworkModule {
       version
     });
 
-    // Version-specific guidelines
-    if (version) {
-      const majorVersion = this.extractMajorVersion(version);
-      const versionSpecificPath = `astro/guidelines/${majorVersion}/features.md`;
+    // Version-specific guidelines (nearest lower version when there is no exact match)
+    const match = version ? await VersionedGuidelines.resolve(this.id, version) : null;
+    if (match) {
       paths.push({
-        path: versionSpecificPath,
+        path: `astro/guidelines/${match.directory}/features.md`,
         priority: 'meta-framework',
         category: 'framework',
-        version: majorVersion
+        version: match.directory
       });
     }
 
@@ -125,6 +125,20 @@ export class AstroModule implements FrameworkModule {
       `${packageManager} install`
     ];
 
+    // Command descriptions for the CLAUDE.md commands section
+    commands.descriptions = {
+      [`${packageManager} run dev`]: 'Start the Astro dev server',
+      [`${packageManager} run build`]: 'Build the site for production',
+      [`${packageManager} run preview`]: 'Preview the production build locally',
+      [`${packageManager} run test`]: 'Run tests',
+      [`${packageManager} run test:vitest`]: 'Run Vitest tests',
+      [`${packageManager} run test:playwright`]: 'Run Playwright end-to-end tests',
+      [`${packageManager} run lint`]: 'Run linter',
+      [`${packageManager} run lint:fix`]: 'Fix linting issues',
+      [`${packageManager} run check`]: 'Type-check .astro files with astro check',
+      [`${packageManager} install`]: 'Install dependencies'
+    };
+
     return commands;
   }
 
@@ -136,11 +150,6 @@ export class AstroModule implements FrameworkModule {
     return AstroDetection.getConfigFiles();
   }
 
-  private extractMajorVersion(version: string): string {
-    const match = version.match(/^[^\d]*(\d+)/);
-    return match ? match[1] : version;
-  }
-
   private getPreferredPackageManager(packageManagers: string[]): string {
     if (packageManagers.includes('bun')) return 'bun';
     if (packageManagers.includes('yarn')) return 'yarn';
@@ -1,6 +1,7 @@
 import fs from 'fs-extra';
 import path from 'path';
 import type { DetectionContext, DetectionResult } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
 import { VersionUtils, type NpmVersionInfo } from '../../core/utils/VersionUtils.js';
 
 /**
@@ -11,42 +12,36 @@ export class AstroDetection {
    * Detect Astro framework
    */
   static async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.above(0.3);
 
     // Check for Astro in package.json dependencies
     if (context.packageJson?.dependencies?.['astro']) {
-      evidence.push('astro in package.json dependencies');
-      confidence += 0.9;
+      evidence.add('astro in package.json dependencies', 0.9);
     }
 
     if (context.packageJson?.devDependencies?.['astro']) {
-      evidence.push('astro in package.json devDependencies');
-      confidence += 0.9;
+      evidence.add('astro in package.json devDependencies', 0.9);
     }
 
     // Check for astro.config.js/ts
     const astroConfigFiles = ['astro.config.js', 'astro.config.ts', 'astro.config.mjs'];
     for (const configFile of astroConfigFiles) {
       if (context.configFiles.includes(configFile)) {
-        evidence.push(`Astro config file: ${configFile}`);
-        confidence += 0.8;
+        evidence.add(`Astro config file: ${configFile}`, 0.8);
       }
     }
 
     // Check for .astro files
     const astroFiles = context.files.filter(file => file.endsWith('.astro'));
     if (astroFiles.length > 0) {
-      evidence.push(`Astro component files found: ${astroFiles.length}`);
-      confidence += Math.min(astroFiles.length * 0.1, 0.5);
+      evidence.add(`Astro component files found: ${astroFiles.length}`, Math.min(astroFiles.length * 0.1, 0.5));
     }
 
     // Check for Astro-specific directories
     const astroDirs = ['src/pages', 'src/components', 'src/layouts'];
     for (const dir of astroDirs) {
       if (context.files.some(file => file.startsWith(dir + '/'))) {
-        evidence.push(`Astro directory structure: ${dir}`);
-        confidence += 0.1;
+        evidence.add(`Astro directory structure: ${dir}`, 0.1);
       }
     }
 
@@ -59,31 +54,22 @@ export class AstroDetection {
     for (const integration of astroIntegrations) {
       if (context.packageJson?.dependencies?.[integration] ||
           context.packageJson?.devDependencies?.[integration]) {
-        evidence.push(`Astro integration detected: ${integration}`);
-        confidence += 0.2;
+        evidence.add(`Astro integration detected: ${integration}`, 0.2);
       }
     }
 
     // Check for public directory (common in Astro)
     if (context.files.some(file => file.startsWith('public/'))) {
-      evidence.push('Public directory found (Astro convention)');
-      confidence += 0.1;
+      evidence.add('Public directory found (Astro convention)', 0.1);
     }
 
     // Check for Astro scripts in package.json
     const scripts = context.packageJson?.scripts || {};
     if (scripts['dev']?.includes('astro') || scripts['build']?.includes('astro') || scripts['preview']?.includes('astro')) {
-      evidence.push('Astro scripts in package.json');
-      confidence += 0.3;
+      evidence.add('Astro scripts in package.json', 0.3);
     }
 
-    // Ensure confidence doesn't exceed 1.0
-    confidence = Math.min(confidence, 1.0);
-
-    return {
-      detected: confidence > 0.3,
-      confidence,
-      evidence,
+    return evidence.result({
       metadata: {
         hasAstroConfig: astroConfigFiles.some(file => context.configFiles.includes(file)),
         astroFilesCount: astroFiles.length,
@@ -92,7 +78,7 @@ export class AstroDetection {
           context.packageJson?.dependencies?.[integration] || context.packageJson?.devDependencies?.[integration]
         )
       }
-    };
+    });
   }
 
   /**
@@ -6,6 +6,8 @@ import type {
   ModuleMetadata,
   GuidelinePath
 } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
+import { VersionedGuidelines } from '../../core/utils/VersionedGuidelines.js';
 import type { StackCommands } from '../../core/StackDetector.js';
 
 export class BootstrapModule implements LibraryModule {
@@ -27,31 +29,26 @@ export class BootstrapModule implements LibraryModule {
   }
 
   async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.above(0.3);
 
     if (context.packageJson) {
       if (context.packageJson.dependencies?.bootstrap || context.packageJson.devDependencies?.bootstrap) {
-        evidence.push('bootstrap in package.json dependencies');
-        confidence += 0.8;
+        evidence.add('bootstrap in package.json dependencies', 0.8);
       }
 
       if (context.packageJson.dependencies?.['bootstrap-icons'] ||
           context.packageJson.devDependencies?.['bootstrap-icons']) {
-        evidence.push('Bootstrap Icons detected');
-        confidence += 0.1;
+        evidence.add('Bootstrap Icons detected', 0.1);
       }
 
       if (context.packageJson.dependencies?.['@popperjs/core'] ||
           context.packageJson.devDependencies?.['@popperjs/core']) {
-        evidence.push('Popper.js (Bootstrap dependency) detected');
-        confidence += 0.1;
+        evidence.add('Popper.js (Bootstrap dependency) detected', 0.1);
       }
 
       if (context.packageJson.dependencies?.['react-bootstrap'] ||
           context.packageJson.devDependencies?.['react-bootstrap']) {
-        evidence.push('React Bootstrap detected');
-        confidence += 0.2;
+        evidence.add('React Bootstrap detected', 0.2);
       }
 
       if (context.packageJson.dependencies?.['vue-bootstrap'] ||
@@ -60,14 +57,12 @@ export class BootstrapModule implements LibraryModule {
           context.packageJson.devDependencies?.['vue-bootstrap'] ||
           context.packageJson.devDependencies?.['bootstrap-vue'] ||
           context.packageJson.devDependencies?.['bootstrap-vue-next']) {
-        evidence.push('Vue Bootstrap detected');
-        confidence += 0.2;
+        evidence.add('Vue Bootstrap detected', 0.2);
       }
 
       if (context.packageJson.dependencies?.['@ng-bootstrap/ng-bootstrap'] ||
           context.packageJson.devDependencies?.['@ng-bootstrap/ng-bootstrap']) {
-        evidence.push('Angular Bootstrap (ng-bootstrap) detected');
-        confidence += 0.2;
+        evidence.add('Angular Bootstrap (ng-bootstrap) detected', 0.2);
       }
     }
 
@@ -78,14 +73,12 @@ export class BootstrapModule implements LibraryModule {
     );
 
     if (hasBootstrapImports) {
-      evidence.push('CSS files that commonly contain Bootstrap imports found');
-      confidence += 0.2;
+      evidence.add('CSS files that commonly contain Bootstrap imports found', 0.2);
     }
 
     const htmlFiles = files.filter(file => file.endsWith('.html'));
     if (htmlFiles.length > 0) {
-      evidence.push(`HTML files found: ${htmlFiles.length} (likely to use Bootstrap classes)`);
-      confidence += 0.1;
+      evidence.add(`HTML files found: ${htmlFiles.length} (likely to use Bootstrap classes)`, 0.1);
     }
 
     const componentFiles = files.filter(file =>
@@ -95,21 +88,15 @@ export class BootstrapModule implements LibraryModule {
     );
 
     if (componentFiles.length > 0) {
-      evidence.push(`Component files found: ${componentFiles.length} (likely to use Bootstrap classes)`);
-      confidence += 0.1;
+      evidence.add(`Component files found: ${componentFiles.length} (likely to use Bootstrap classes)`, 0.1);
     }
 
     const scssFiles = files.filter(file => file.endsWith('.scss'));
     if (scssFiles.length > 0) {
-      evidence.push('SCSS files found (commonly used with Bootstrap customization)');
-      confidence += 0.1;
+      evidence.add('SCSS files found (commonly used with Bootstrap customization)', 0.1);
     }
 
-    return {
-      detected: confidence > 0.3,
-      confidence: Math.min(confidence, 1),
-      evidence
-    };
+    return evidence.result();
   }
 
   async detectVersion(context: DetectionContext): Promise<string | undefined> {
@@ -136,13 +123,14 @@ export class BootstrapModule implements LibraryModule {
       }
     ];
 
-    if (version) {
-      const majorVersion = version.split('.')[0];
+    // Version-specific guidelines (nearest lower version when there is no exact match)
+    const match = version ? await VersionedGuidelines.resolve(this.id, version) : null;
+    if (match) {
       paths.push({
-        path: `bootstrap/guidelines/${majorVersion}/features.md`,
+        path: `bootstrap/guidelines/${match.directory}/features.md`,
         priority: this.priorityType,
         category: 'framework',
-        version: majorVersion
+        version: match.directory
       });
     }
 
@@ -182,6 +170,22 @@ export class BootstrapModule implements LibraryModule {
       commands.build.push(`${preferredPM === 'npm' ? 'npx' : preferredPM} sass src/scss:dist/css`);
     }
 
+    // Command descriptions for the CLAUDE.md commands section
+    const runner = preferredPM === 'npm' ? 'npx' : preferredPM;
+    commands.descriptions = {
+      [`${runCmd} dev`]: 'Start development server',
+      [`${runCmd} serve`]: 'Serve the site locally',
+      [`${runCmd} start`]: 'Start the app',
+      [`${runner} gulp watch`]: 'Rebuild assets on change with gulp',
+      [`${runCmd} build`]: 'Build for production',
+      [`${runner} webpack --mode production`]: 'Bundle assets with webpack',
+      [`${runner} gulp build`]: 'Build assets with gulp',
+      [`${runner} sass src/scss:dist/css`]: 'Compile Sass to CSS',
+      [`${runCmd} test`]: 'Run tests',
+      [`${runCmd} lint`]: 'Run linter',
+      [installCmd]: 'Install dependencies'
+    };
+
     return commands;
   }
 
@@ -236,13 +236,11 @@ describe('BootstrapModule', () => {
       expect(paths[0].category).toBe('framework');
     });
 
-    test('should return version-specific guidelines when version provided', async () => {
+    test('should skip version-specific guidelines without a versioned directory', async () => {
       const paths = await module.getGuidelinePaths('5.3.2');
 
-      expect(paths).toHaveLength(2);
+      expect(paths).toHaveLength(1);
       expect(paths[0].path).toBe('bootstrap/guidelines/css-framework.md');
-      expect(paths[1].path).toBe('bootstrap/guidelines/5/features.md');
-      expect(paths[1].version).toBe('5');
     });
   });
 
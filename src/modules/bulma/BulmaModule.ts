@@ -6,6 +6,8 @@ import type {
   ModuleMetadata,
   GuidelinePath
 } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
+import { VersionedGuidelines } from '../../core/utils/VersionedGuidelines.js';
 import type { StackCommands } from '../../core/StackDetector.js';
 
 export class BulmaModule implements LibraryModule {
@@ -27,47 +29,40 @@ export class BulmaModule implements LibraryModule {
   }
 
   async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.above(0.3);
 
     if (context.packageJson) {
       if (context.packageJson.dependencies?.bulma || context.packageJson.devDependencies?.bulma) {
-        evidence.push('bulma in package.json dependencies');
-        confidence += 0.8;
+        evidence.add('bulma in package.json dependencies', 0.8);
       }
 
       if (context.packageJson.dependencies?.['@bulma/extensions'] ||
           context.packageJson.devDependencies?.['@bulma/extensions']) {
-        evidence.push('Bulma extensions detected');
-        confidence += 0.1;
+        evidence.add('Bulma extensions detected', 0.1);
       }
 
       if (context.packageJson.dependencies?.['bulma-extensions'] ||
           context.packageJson.devDependencies?.['bulma-extensions']) {
-        evidence.push('Bulma community extensions detected');
-        confidence += 0.1;
+        evidence.add('Bulma community extensions detected', 0.1);
       }
 
       if (context.packageJson.dependencies?.['react-bulma-components'] ||
           context.packageJson.devDependencies?.['react-bulma-components']) {
-        evidence.push('React Bulma components detected');
-        confidence += 0.2;
+        evidence.add('React Bulma components detected', 0.2);
       }
 
       if (context.packageJson.dependencies?.['vue-bulma-components'] ||
           context.packageJson.dependencies?.['buefy'] ||
           context.packageJson.devDependencies?.['vue-bulma-components'] ||
           context.packageJson.devDependencies?.['buefy']) {
-        evidence.push('Vue Bulma components detected');
-        confidence += 0.2;
+        evidence.add('Vue Bulma components detected', 0.2);
       }
 
       if (context.packageJson.dependencies?.['@angular/cdk'] ||
           context.packageJson.dependencies?.['ngx-bulma'] ||
           context.packageJson.devDependencies?.['@angular/cdk'] ||
           context.packageJson.devDependencies?.['ngx-bulma']) {
-        evidence.push('Angular Bulma components detected');
-        confidence += 0.2;
+        evidence.add('Angular Bulma components detected', 0.2);
       }
     }
 
@@ -78,14 +73,12 @@ export class BulmaModule implements LibraryModule {
     );
 
     if (hasBulmaImports) {
-      evidence.push('CSS files that commonly contain Bulma imports found');
-      confidence += 0.2;
+      evidence.add('CSS files that commonly contain Bulma imports found', 0.2);
     }
 
     const htmlFiles = files.filter(file => file.endsWith('.html'));
     if (htmlFiles.length > 0) {
-      evidence.push(`HTML files found: ${htmlFiles.length} (likely to use Bulma classes)`);
-      confidence += 0.1;
+      evidence.add(`HTML files found: ${htmlFiles.length} (likely to use Bulma classes)`, 0.1);
     }
 
     const componentFiles = files.filter(file =>
@@ -95,21 +88,15 @@ export class BulmaModule implements LibraryModule {
     );
 
     if (componentFiles.length > 0) {
-      evidence.push(`Component files found: ${componentFiles.length} (likely to use Bulma classes)`);
-      confidence += 0.1;
+      evidence.add(`Component files found: ${componentFiles.length} (likely to use Bulma classes)`, 0.1);
     }
 
     const scssFiles = files.filter(file => file.endsWith('.scss') || file.endsWith('.sass'));
     if (scssFiles.length > 0) {
-      evidence.push('SCSS/Sass files found (commonly used with Bulma customization)');
-      confidence += 0.1;
+      evidence.add('SCSS/Sass files found (commonly used with Bulma customization)', 0.1);
     }
 
-    return {
-      detected: confidence > 0.3,
-      confidence: Math.min(confidence, 1),
-      evidence
-    };
+    return evidence.result();
   }
 
   async detectVersion(context: DetectionContext): Promise<string | undefined> {
@@ -139,14 +126,14 @@ export class BulmaModule implements LibraryModule {
       }
     ];
 
-    if (version) {
-      const majorVersion = version.split('.')[0];
-      const versionPath = majorVersion === '1' ? '1' : '0.9';
+    // Version-specific guidelines (nearest lower version when there is no exact match)
+    const match = version ? await VersionedGuidelines.resolve(this.id, version) : null;
+    if (match) {
       paths.push({
-        path: `bulma/guidelines/${versionPath}/features.md`,
+        path: `bulma/guidelines/${match.directory}/features.md`,
         priority: this.priorityType,
         category: 'framework',
-        version: versionPath
+        version: match.directory
       });
     }
 
@@ -186,6 +173,22 @@ export class BulmaModule implements LibraryModule {
       commands.build.push(`${preferredPM === 'npm' ? 'npx' : preferredPM} sass src/scss:dist/css`);
     }
 
+    // Command descriptions for the CLAUDE.md commands section
+    const runner = preferredPM === 'npm' ? 'npx' : preferredPM;
+    commands.descriptions = {
+      [`${runCmd} dev`]: 'Start development server',
+      [`${runCmd} serve`]: 'Serve the site locally',
+      [`${runCmd} start`]: 'Start the app',
+      [`${runner} gulp watch`]: 'Rebuild assets on change with gulp',
+      [`${runCmd} build`]: 'Build for production',
+      [`${runner} webpack --mode production`]: 'Bundle assets with webpack',
+      [`${runner} gulp build`]: 'Build assets with gulp',
+      [`${runner} sass src/scss:dist/css`]: 'Compile Sass to CSS',
+      [`${runCmd} test`]: 'Run tests',
+      [`${runCmd} lint`]: 'Run linter',
+      [installCmd]: 'Install dependencies'
+    };
+
     return commands;
   }
 
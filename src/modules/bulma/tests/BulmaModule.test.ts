@@ -255,22 +255,11 @@ describe('BulmaModule', () => {
       expect(paths[0].category).toBe('framework');
     });
 
-    test('should return version-specific guidelines for 1.x', async () => {
+    test('should skip version-specific guidelines without a versioned directory', async () => {
       const paths = await module.getGuidelinePaths('1.0.0');
 
-      expect(paths).toHaveLength(2);
-      expect(paths[0].path).toBe('bulma/guidelines/css-framework.md');
-      expect(paths[1].path).toBe('bulma/guidelines/1/features.md');
-      expect(paths[1].version).toBe('1');
-    });
-
-    test('should return version-specific guidelines for 0.9.x', async () => {
-      const paths = await module.getGuidelinePaths('0.9.4');
-
-      expect(paths).toHaveLength(2);
+      expect(paths).toHaveLength(1);
       expect(paths[0].path).toBe('bulma/guidelines/css-framework.md');
-      expect(paths[1].path).toBe('bulma/guidelines/0.9/features.md');
-      expect(paths[1].version).toBe('0.9');
     });
   });
 
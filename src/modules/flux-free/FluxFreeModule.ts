@@ -72,6 +72,14 @@ export class FluxFreeModule implements LibraryModule {
       'php artisan flux:install' // If Flux has installation
     ];
 
+    // Command descriptions for the CLAUDE.md commands section
+    commands.descriptions = {
+      'php artisan serve': 'Start development server',
+      'php artisan livewire:publish --config': 'Publish the Livewire config for customization',
+      'composer install': 'Install PHP dependencies',
+      'php artisan flux:install': 'Install Flux'
+    };
+
     return commands;
   }
 
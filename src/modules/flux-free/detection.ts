@@ -1,22 +1,20 @@
 import type { DetectionContext, DetectionResult } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
 
 export class FluxFreeDetection {
   static async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.atLeast(0.6);
 
     const composerJson = context.composerJson;
     if (composerJson) {
       if (composerJson.require?.['livewire/flux'] ||
           composerJson['require-dev']?.['livewire/flux']) {
-        evidence.push('Flux UI found in composer.json dependencies');
-        confidence += 0.7;
+        evidence.add('Flux UI found in composer.json dependencies', 0.7);
 
         // Check if it's Pro version (exclude Free if Pro detected)
         const isProVersion = this.isFluxProVersion(context);
         if (isProVersion) {
-          evidence.push('Flux UI Pro version detected');
-          confidence = 0; // Free version not applicable if Pro is detected
+          // Free version not applicable if Pro is detected
           return {
             detected: false,
             confidence: 0,
@@ -24,48 +22,39 @@ export class FluxFreeDetection {
             excludes: ['flux-free'] // This module excludes itself if Pro is detected
           };
         } else {
-          evidence.push('Flux UI Free version detected');
+          evidence.add('Flux UI Free version detected');
         }
       }
     }
 
     // Check for Livewire (required for Flux)
     const hasLivewire = this.hasLivewire(composerJson);
-    if (!hasLivewire && confidence > 0) {
-      evidence.push('Warning: Flux UI requires Livewire');
-      confidence *= 0.5;
+    if (!hasLivewire && evidence.confidence > 0) {
+      evidence.scale('Warning: Flux UI requires Livewire', 0.5);
     } else if (hasLivewire) {
-      evidence.push('Livewire framework detected (required for Flux)');
-      confidence += 0.2;
+      evidence.add('Livewire framework detected (required for Flux)', 0.2);
     }
 
     // Check for Laravel framework
     const hasLaravel = this.hasLaravelFramework(composerJson);
     if (hasLaravel) {
-      evidence.push('Laravel framework detected');
-      confidence += 0.1;
+      evidence.add('Laravel framework detected', 0.1);
     }
 
     // Check for Flux component usage
-    const hasFluxComponents = this.hasFluxComponentUsage(context.files);
+    const hasFluxComponents = await this.hasFluxComponentUsage(context);
     if (hasFluxComponents) {
-      evidence.push('Flux UI component usage detected');
-      confidence += 0.3;
+      evidence.add('Flux UI component usage detected', 0.3);
     }
 
-    const detected = confidence >= 0.6;
-
-    return {
-      detected,
-      confidence: Math.min(confidence, 1.0),
-      evidence,
+    return evidence.result({
       metadata: {
         hasLivewire,
         hasLaravelFramework: hasLaravel,
         hasFluxComponents,
         isProVersion: false
       }
-    };
+    });
   }
 
   static async detectVersion(context: DetectionContext): Promise<string | undefined> {
@@ -116,13 +105,19 @@ export class FluxFreeDetection {
              composerJson.require?.['illuminate/support']);
   }
 
-  private static hasFluxComponentUsage(files: string[]): boolean {
+  private static async hasFluxComponentUsage(context: DetectionContext): Promise<boolean> {
+    const bladeFiles = context.files.filter(file => file.endsWith('.blade.php'));
+
+    // Look for <flux:*> tags in the Blade views
+    if (context.content) {
+      return (await context.content.grep(/<flux:[\w.-]+/, bladeFiles)).length > 0;
+    }
+
     // Look for Blade files that might contain Flux components
-    return files.some(file =>
-      file.endsWith('.blade.php') &&
-      (file.includes('/livewire/') ||
-       file.includes('/components/') ||
-       file.includes('/resources/views/'))
+    return bladeFiles.some(file =>
+      file.includes('/livewire/') ||
+      file.includes('/components/') ||
+      file.includes('/resources/views/')
     );
   }
 
@@ -1,6 +1,7 @@
 import { describe, test, expect, beforeEach } from 'bun:test';
 import { FluxFreeModule } from '../FluxFreeModule.js';
 import type { DetectionContext, ModuleContext } from '../../../core/types/Module.js';
+import { probeContents } from '../../../../tests/helpers/contentProbe.js';
 
 describe('FluxFreeModule', () => {
   let module: FluxFreeModule;
@@ -82,6 +83,24 @@ describe('FluxFreeModule', () => {
       expect(result.evidence).toContain('Flux UI found in composer.json dependencies');
     });
 
+    test('should look for <flux:> tags when file contents can be read', async () => {
+      const context = (view: string): DetectionContext => ({
+        projectRoot: '/test',
+        configFiles: ['composer.json'],
+        files: ['resources/views/dashboard.blade.php'],
+        packageJson: null,
+        composerJson: { require: { 'livewire/flux': '^1.0.0', 'livewire/livewire': '^3.0.0' } },
+        content: probeContents({ 'resources/views/dashboard.blade.php': view })
+      });
+
+      const withTags = await module.detect(context('<flux:button variant="primary">Save</flux:button>'));
+      const withoutTags = await module.detect(context('<button>Save</button>'));
+
+      expect(withTags.evidence).toContain('Flux UI component usage detected');
+      expect(withoutTags.evidence).not.toContain('Flux UI component usage detected');
+      expect(withoutTags.confidence).toBeLessThan(withTags.confidence);
+    });
+
     test('should reduce confidence without Livewire dependency', async () => {
       const context: DetectionContext = {
         projectRoot: '/test',
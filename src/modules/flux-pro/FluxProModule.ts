@@ -83,6 +83,15 @@ export class FluxProModule implements LibraryModule {
       'php artisan flux:install --pro'
     ];
 
+    // Command descriptions for the CLAUDE.md commands section
+    commands.descriptions = {
+      'php artisan serve': 'Start development server',
+      'php artisan livewire:publish --config': 'Publish the Livewire config for customization',
+      'php artisan flux:publish --pro': 'Publish Flux Pro components',
+      'composer install': 'Install PHP dependencies',
+      'php artisan flux:install --pro': 'Install Flux Pro'
+    };
+
     return commands;
   }
 
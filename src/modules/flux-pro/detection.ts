@@ -1,25 +1,22 @@
 import type { DetectionContext, DetectionResult } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
 
 export class FluxProDetection {
   static async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.atLeast(0.8);
 
     const composerJson = context.composerJson;
     if (composerJson) {
       if (composerJson.require?.['livewire/flux'] ||
           composerJson['require-dev']?.['livewire/flux']) {
-        evidence.push('Flux UI found in composer.json dependencies');
-        confidence += 0.7;
+        evidence.add('Flux UI found in composer.json dependencies', 0.7);
 
         // Check specifically for Pro version indicators
         const isProVersion = this.isFluxProVersion(context);
         if (isProVersion) {
-          evidence.push('Flux UI Pro version indicators detected');
-          confidence += 0.3;
+          evidence.add('Flux UI Pro version indicators detected', 0.3);
         } else {
           // If Flux is detected but no Pro indicators, this is likely Free version
-          confidence = 0;
           return {
             detected: false,
             confidence: 0,
@@ -32,41 +29,31 @@ export class FluxProDetection {
 
     // Check for Livewire (required for Flux)
     const hasLivewire = this.hasLivewire(composerJson);
-    if (!hasLivewire && confidence > 0) {
-      evidence.push('Warning: Flux UI requires Livewire');
-      confidence *= 0.5;
+    if (!hasLivewire && evidence.confidence > 0) {
+      evidence.scale('Warning: Flux UI requires Livewire', 0.5);
     } else if (hasLivewire) {
-      evidence.push('Livewire framework detected (required for Flux)');
-      confidence += 0.1;
+      evidence.add('Livewire framework detected (required for Flux)', 0.1);
     }
 
     // Check for Laravel framework
     const hasLaravel = this.hasLaravelFramework(composerJson);
     if (hasLaravel) {
-      evidence.push('Laravel framework detected');
-      confidence += 0.1;
+      evidence.add('Laravel framework detected', 0.1);
     }
 
     // Check for Pro-specific component usage
-    const hasProComponents = this.hasFluxProComponents(context.files);
+    const hasProComponents = await this.hasFluxProComponents(context);
     if (hasProComponents) {
-      evidence.push('Flux UI Pro components detected');
-      confidence += 0.4;
+      evidence.add('Flux UI Pro components detected', 0.4);
     }
 
     // Check for Pro license or configuration
     const hasProLicense = this.hasProLicense(context);
     if (hasProLicense) {
-      evidence.push('Flux UI Pro license or configuration detected');
-      confidence += 0.3;
+      evidence.add('Flux UI Pro license or configuration detected', 0.3);
     }
 
-    const detected = confidence >= 0.8; // Higher threshold for Pro detection
-
-    return {
-      detected,
-      confidence: Math.min(confidence, 1.0),
-      evidence,
+    return evidence.result({
       metadata: {
         hasLivewire,
         hasLaravelFramework: hasLaravel,
@@ -74,7 +61,7 @@ export class FluxProDetection {
         hasProLicense,
         isProVersion: true
       }
-    };
+    });
   }
 
   static async detectVersion(context: DetectionContext): Promise<string | undefined> {
@@ -154,7 +141,9 @@ export class FluxProDetection {
     return hasProInFiles || hasProInConfig;
   }
 
-  private static hasFluxProComponents(files: string[]): boolean {
+  private static async hasFluxProComponents(context: DetectionContext): Promise<boolean> {
+    const files = context.files;
+
     // Look for Pro-specific components mentioned in Flux UI Pro docs
     const proComponents = [
       'flux:accordion',
@@ -172,6 +161,13 @@ export class FluxProDetection {
       'flux:toast'
     ];
 
+    // Look for Pro component tags in the Blade views
+    if (context.content) {
+      const tags = proComponents.map(component => component.replace('flux:', '')).join('|');
+      const bladeFiles = files.filter(file => file.endsWith('.blade.php'));
+      return (await context.content.grep(new RegExp(`<flux:(${tags})\\b`), bladeFiles)).length > 0;
+    }
+
     // Check for Pro components in file names or Pro-specific paths
     return files.some(file =>
       file.endsWith('.blade.php') &&
@@ -84,6 +84,15 @@ export class FolioModule implements LibraryModule {
       'php artisan folio:install'    // If Folio has installation command
     ];
 
+    // Command descriptions for the CLAUDE.md commands section
+    commands.descriptions = {
+      'php artisan folio:list': 'List all Folio routes',
+      'php artisan folio:page': 'Create a new Folio page',
+      'php artisan serve': 'Start development server',
+      'composer install': 'Install PHP dependencies',
+      'php artisan folio:install': 'Install Folio'
+    };
+
     return commands;
   }
 
@@ -1,28 +1,25 @@
 import type { DetectionContext, DetectionResult } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
 
 export class FolioDetection {
   static async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.atLeast(0.7);
 
     // Check composer.json for Folio dependency
     const composerJson = context.composerJson;
     if (composerJson) {
       if (composerJson.require?.['laravel/folio'] ||
           composerJson['require-dev']?.['laravel/folio']) {
-        evidence.push('Laravel Folio found in composer.json dependencies');
-        confidence += 0.8;
+        evidence.add('Laravel Folio found in composer.json dependencies', 0.8);
       }
     }
 
     // Check for Laravel framework (required for Folio)
     const hasLaravel = this.hasLaravelFramework(composerJson);
-    if (!hasLaravel && confidence > 0) {
-      evidence.push('Warning: Folio requires Laravel framework');
-      confidence *= 0.5; // Reduce confidence if no Laravel
+    if (!hasLaravel && evidence.confidence > 0) {
+      evidence.scale('Warning: Folio requires Laravel framework', 0.5);
     } else if (hasLaravel) {
-      evidence.push('Laravel framework detected (required for Folio)');
-      confidence += 0.2;
+      evidence.add('Laravel framework detected (required for Folio)', 0.2);
     }
 
     // Check for Folio pages directory structure
@@ -31,8 +28,7 @@ export class FolioDetection {
     );
 
     if (hasPagesDirectory) {
-      evidence.push('Folio pages directory found (resources/views/pages/)');
-      confidence += 0.6;
+      evidence.add('Folio pages directory found (resources/views/pages/)', 0.6);
     }
 
     // Check for Folio-specific configuration
@@ -42,15 +38,13 @@ export class FolioDetection {
     );
 
     if (foundConfigFiles.length > 0) {
-      evidence.push(`Folio config found: ${foundConfigFiles.join(', ')}`);
-      confidence += 0.3;
+      evidence.add(`Folio config found: ${foundConfigFiles.join(', ')}`, 0.3);
     }
 
     // Look for Folio page patterns
     const hasFolioPages = this.hasFolioPagePatterns(context.files);
     if (hasFolioPages) {
-      evidence.push('Folio page patterns detected in files');
-      confidence += 0.4;
+      evidence.add('Folio page patterns detected in files', 0.4);
     }
 
     // Check for service provider registration (in config/app.php or bootstrap/providers.php)
@@ -58,24 +52,18 @@ export class FolioDetection {
       (file === 'config/app.php' || file === 'bootstrap/providers.php')
     );
 
-    if (hasServiceProvider && confidence > 0) {
-      evidence.push('Laravel configuration files found');
-      confidence += 0.1;
+    if (hasServiceProvider && evidence.confidence > 0) {
+      evidence.add('Laravel configuration files found', 0.1);
     }
 
-    const detected = confidence >= 0.7;
-
-    return {
-      detected,
-      confidence: Math.min(confidence, 1.0),
-      evidence,
+    return evidence.result({
       metadata: {
         hasLaravelFramework: hasLaravel,
         hasPagesDirectory,
         hasConfigFiles: foundConfigFiles.length > 0,
         folioPageCount: this.countFolioPages(context.files)
       }
-    };
+    });
   }
 
   static async detectVersion(context: DetectionContext): Promise<string | undefined> {
@@ -6,6 +6,8 @@ import type {
   ModuleMetadata,
   GuidelinePath
 } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
+import { VersionedGuidelines } from '../../core/utils/VersionedGuidelines.js';
 import type { StackCommands } from '../../core/StackDetector.js';
 
 export class InertiaModule implements LibraryModule {
@@ -27,8 +29,7 @@ export class InertiaModule implements LibraryModule {
   }
 
   async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.atLeast(0.4);
 
     // Check for Laravel first (Inertia backend requires Laravel)
     if (context.composerJson) {
@@ -41,8 +42,7 @@ export class InertiaModule implements LibraryModule {
         // Check for Inertia Laravel adapter
         if (context.composerJson.require?.['inertiajs/inertia-laravel'] ||
             context.composerJson['require-dev']?.['inertiajs/inertia-laravel']) {
-          evidence.push('inertiajs/inertia-laravel in composer.json dependencies');
-          confidence += 0.7;
+          evidence.add('inertiajs/inertia-laravel in composer.json dependencies', 0.7);
         }
       }
     }
@@ -51,26 +51,22 @@ export class InertiaModule implements LibraryModule {
     if (context.packageJson) {
       if (context.packageJson.dependencies?.['@inertiajs/react'] ||
           context.packageJson.devDependencies?.['@inertiajs/react']) {
-        evidence.push('Inertia React adapter detected');
-        confidence += 0.6;
+        evidence.add('Inertia React adapter detected', 0.6);
       }
 
       if (context.packageJson.dependencies?.['@inertiajs/vue3'] ||
           context.packageJson.devDependencies?.['@inertiajs/vue3']) {
-        evidence.push('Inertia Vue 3 adapter detected');
-        confidence += 0.6;
+        evidence.add('Inertia Vue 3 adapter detected', 0.6);
       }
 
       if (context.packageJson.dependencies?.['@inertiajs/vue2'] ||
           context.packageJson.devDependencies?.['@inertiajs/vue2']) {
-        evidence.push('Inertia Vue 2 adapter detected');
-        confidence += 0.6;
+        evidence.add('Inertia Vue 2 adapter detected', 0.6);
       }
 
       if (context.packageJson.dependencies?.['@inertiajs/svelte'] ||
           context.packageJson.devDependencies?.['@inertiajs/svelte']) {
-        evidence.push('Inertia Svelte adapter detected');
-        confidence += 0.6;
+        evidence.add('Inertia Svelte adapter detected', 0.6);
       }
     }
 
@@ -84,21 +80,18 @@ export class InertiaModule implements LibraryModule {
     );
 
     if (inertiaPages.length > 0) {
-      evidence.push(`Inertia Pages directory found: ${inertiaPages.length} files`);
-      confidence += Math.min(inertiaPages.length * 0.05, 0.3);
+      evidence.add(`Inertia Pages directory found: ${inertiaPages.length} files`, Math.min(inertiaPages.length * 0.05, 0.3));
     }
 
     // Check for Inertia middleware
     if (files.some(file => file.includes('app/Http/Middleware') && file.includes('Inertia'))) {
-      evidence.push('Inertia middleware found');
-      confidence += 0.2;
+      evidence.add('Inertia middleware found', 0.2);
     }
 
     // Check for Inertia config files
     const configFiles = context.configFiles || [];
     if (configFiles.includes('config/inertia.php') || files.some(file => file.includes('config/inertia.php'))) {
-      evidence.push('Inertia config file found');
-      confidence += 0.2;
+      evidence.add('Inertia config file found', 0.2);
     }
 
     // Check for app.js/app.ts with Inertia setup
@@ -107,9 +100,13 @@ export class InertiaModule implements LibraryModule {
       (file.endsWith('.js') || file.endsWith('.ts') || file.endsWith('.jsx') || file.endsWith('.tsx'))
     );
 
-    if (appFiles.length > 0) {
-      evidence.push('Frontend app files found (likely Inertia setup)');
-      confidence += 0.1;
+    if (context.content) {
+      const [inertiaApp] = await context.content.grep(/\bcreateInertiaApp\b/, appFiles);
+      if (inertiaApp) {
+        evidence.add(`createInertiaApp() found in ${inertiaApp}`, 0.3);
+      }
+    } else if (appFiles.length > 0) {
+      evidence.add('Frontend app files found (likely Inertia setup)', 0.1);
     }
 
     // Check for Inertia-specific imports or usage patterns in JS/TS files
@@ -120,8 +117,7 @@ export class InertiaModule implements LibraryModule {
     );
 
     if (jsFiles.length > 0) {
-      evidence.push(`Frontend component files found: ${jsFiles.length}`);
-      confidence += 0.1;
+      evidence.add(`Frontend component files found: ${jsFiles.length}`, 0.1);
     }
 
     // Determine what to exclude based on detected frontend adapters
@@ -132,28 +128,25 @@ export class InertiaModule implements LibraryModule {
           context.packageJson.dependencies?.['@inertiajs/vue2'] ||
           context.packageJson.devDependencies?.['@inertiajs/vue2']) {
         excludes.push('vue');
-        evidence.push('Inertia handles Vue integration - excluding standalone Vue guidelines');
+        evidence.add('Inertia handles Vue integration - excluding standalone Vue guidelines');
       }
 
       if (context.packageJson.dependencies?.['@inertiajs/react'] ||
           context.packageJson.devDependencies?.['@inertiajs/react']) {
         excludes.push('react');
-        evidence.push('Inertia handles React integration - excluding standalone React guidelines');
+        evidence.add('Inertia handles React integration - excluding standalone React guidelines');
       }
 
       if (context.packageJson.dependencies?.['@inertiajs/svelte'] ||
           context.packageJson.devDependencies?.['@inertiajs/svelte']) {
         excludes.push('svelte');
-        evidence.push('Inertia handles Svelte integration - excluding standalone Svelte guidelines');
+        evidence.add('Inertia handles Svelte integration - excluding standalone Svelte guidelines');
       }
     }
 
-    return {
-      detected: confidence >= 0.4,
-      confidence: Math.min(confidence, 1),
-      evidence,
+    return evidence.result({
       excludes: excludes.length > 0 ? excludes : undefined
-    };
+    });
   }
 
   async detectVersion(context: DetectionContext): Promise<string | undefined> {
@@ -182,17 +175,19 @@ export class InertiaModule implements LibraryModule {
       {
         path: 'inertia/guidelines/gemini-analysis.md',
         priority: this.priorityType,
-        category: 'framework'
+        category: 'framework',
+        audience: 'gemini'
       }
     ];
 
-    if (version) {
-      const majorVersion = version.split('.')[0];
+    // Version-specific guidelines (nearest lower version when there is no exact match)
+    const match = version ? await VersionedGuidelines.resolve(this.id, version) : null;
+    if (match) {
       paths.push({
-        path: `inertia/guidelines/${majorVersion}/features.md`,
+        path: `inertia/guidelines/${match.directory}/features.md`,
         priority: this.priorityType,
         category: 'framework',
-        version: majorVersion
+        version: match.directory
       });
     }
 
@@ -227,6 +222,21 @@ export class InertiaModule implements LibraryModule {
       commands.dev?.push(`${runCmd} watch`);
     }
 
+    // Command descriptions for the CLAUDE.md commands section
+    commands.descriptions = {
+      'php artisan serve': 'Start development server',
+      [`${runCmd} dev`]: 'Start the asset dev server with hot reload',
+      [`${runCmd} watch`]: 'Rebuild assets on change',
+      [`${runCmd} build`]: 'Build assets for production',
+      'php artisan optimize': 'Cache config, routes and views',
+      'php artisan test': 'Run tests',
+      [`${runCmd} test`]: 'Run frontend tests',
+      './vendor/bin/pint': 'Fix code style with Laravel Pint',
+      [`${runCmd} lint`]: 'Run frontend linter',
+      'composer install': 'Install PHP dependencies',
+      [installCmd]: 'Install Node.js dependencies'
+    };
+
     return commands;
   }
 
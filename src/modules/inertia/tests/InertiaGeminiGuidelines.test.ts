@@ -28,11 +28,9 @@ describe('Inertia Gemini Guidelines Integration', () => {
       expect(geminiGuideline!.priority).toBe('laravel-tool');
       expect(geminiGuideline!.category).toBe('framework');
 
-      // Should have version-specific guidelines
-      const versionGuideline = paths.find(p => p.path === 'inertia/guidelines/1/features.md');
-      expect(versionGuideline).toBeDefined();
-
-      expect(paths).toHaveLength(3);
+      // No version-specific guidelines without a versioned directory
+      expect(paths.some(p => p.path.endsWith('/features.md'))).toBe(false);
+      expect(paths).toHaveLength(2);
     });
 
     test('should include Gemini guidelines without version', async () => {
@@ -75,7 +73,7 @@ describe('Inertia Gemini Guidelines Integration', () => {
 
     test('should work in combined Laravel + Inertia project', async () => {
       const context: GuidelineContext = {
-        laravelVersion: '11.0',
+        versions: new Map([['laravel', '11.0']]),
         stack: {
           frameworks: ['Laravel', 'Inertia.js'],
           languages: ['PHP', 'JavaScript'],
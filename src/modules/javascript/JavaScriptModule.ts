@@ -6,6 +6,7 @@ import type {
   GuidelinePath
 } from '../../core/types/Module.js';
 import { JavaScriptDetection } from './detection.js';
+import { VersionedGuidelines } from '../../core/utils/VersionedGuidelines.js';
 
 export class JavaScriptModule implements LanguageModule {
   readonly id = 'javascript';
@@ -44,14 +45,14 @@ export class JavaScriptModule implements LanguageModule {
       version
     });
 
-    // Version-specific guidelines (if they exist)
-    if (version) {
-      const versionSpecificPath = `javascript/guidelines/${version}/features.md`;
+    // Version-specific guidelines (nearest lower version when there is no exact match)
+    const match = version ? await VersionedGuidelines.resolve(this.id, version) : null;
+    if (match) {
       paths.push({
-        path: versionSpecificPath,
+        path: `javascript/guidelines/${match.directory}/features.md`,
         priority: 'base-lang',
         category: 'language',
-        version
+        version: match.directory
       });
     }
 
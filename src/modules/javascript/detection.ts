@@ -1,6 +1,7 @@
 import fs from 'fs-extra';
 import path from 'path';
 import type { DetectionContext, DetectionResult } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
 
 /**
  * JavaScript detection utilities
@@ -10,13 +11,11 @@ export class JavaScriptDetection {
    * Detect JavaScript language
    */
   static async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.above(0.3);
 
     // Check for package.json (strong JavaScript indicator)
     if (context.packageJson) {
-      evidence.push('package.json found');
-      confidence += 0.8;
+      evidence.add('package.json found', 0.8);
     }
 
     // Check for .js files
@@ -24,16 +23,14 @@ export class JavaScriptDetection {
       file.endsWith('.js') || file.endsWith('.mjs') || file.endsWith('.cjs')
     );
     if (jsFiles.length > 0) {
-      evidence.push(`JavaScript files found: ${jsFiles.length}`);
-      confidence += Math.min(jsFiles.length * 0.05, 0.5);
+      evidence.add(`JavaScript files found: ${jsFiles.length}`, Math.min(jsFiles.length * 0.05, 0.5));
     }
 
     // Check for Node.js specific files
     const nodeFiles = ['package.json', 'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb'];
     for (const nodeFile of nodeFiles) {
       if (context.configFiles.includes(nodeFile)) {
-        evidence.push(`Node.js file: ${nodeFile}`);
-        confidence += 0.2;
+        evidence.add(`Node.js file: ${nodeFile}`, 0.2);
         break; // Only count one Node.js indicator
       }
     }
@@ -47,8 +44,7 @@ export class JavaScriptDetection {
 
     for (const configFile of jsConfigFiles) {
       if (context.configFiles.includes(configFile)) {
-        evidence.push(`JavaScript config file: ${configFile}`);
-        confidence += 0.1;
+        evidence.add(`JavaScript config file: ${configFile}`, 0.1);
       }
     }
 
@@ -56,25 +52,17 @@ export class JavaScriptDetection {
     const jsDirs = ['src/', 'lib/', 'public/', 'dist/', 'build/', 'node_modules/'];
     for (const dir of jsDirs) {
       if (context.files.some(file => file.startsWith(dir))) {
-        evidence.push(`JavaScript directory: ${dir}`);
-        confidence += 0.05;
+        evidence.add(`JavaScript directory: ${dir}`, 0.05);
       }
     }
 
     // Check if NOT TypeScript (lower confidence if TS files present)
     const tsFiles = context.files.filter(file => file.endsWith('.ts') && !file.endsWith('.d.ts'));
     if (tsFiles.length > jsFiles.length) {
-      evidence.push('More TypeScript files detected, reducing JavaScript confidence');
-      confidence *= 0.5; // Reduce confidence if more TS than JS
+      evidence.scale('More TypeScript files detected, reducing JavaScript confidence', 0.5);
     }
 
-    // Ensure confidence doesn't exceed 1.0
-    confidence = Math.min(confidence, 1.0);
-
-    return {
-      detected: confidence > 0.3,
-      confidence,
-      evidence,
+    return evidence.result({
       metadata: {
         hasPackageJson: !!context.packageJson,
         jsFilesCount: jsFiles.length,
@@ -82,7 +70,7 @@ export class JavaScriptDetection {
         hasNodeModules: context.files.some(file => file.startsWith('node_modules/')),
         configFilesFound: jsConfigFiles.filter(file => context.configFiles.includes(file))
       }
-    };
+    });
   }
 
   /**
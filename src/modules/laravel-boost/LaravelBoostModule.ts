@@ -79,6 +79,16 @@ export class LaravelBoostModule implements LibraryModule {
       'php artisan boost:install'
     ];
 
+    // Command descriptions for the CLAUDE.md commands section
+    commands.descriptions = {
+      'php artisan serve': 'Start development server',
+      'php artisan boost:dev': 'Start Laravel Boost in development mode',
+      'php artisan optimize': 'Cache config, routes and views',
+      'php artisan boost:build': 'Build Laravel Boost resources',
+      'composer install': 'Install PHP dependencies',
+      'php artisan boost:install': 'Install Laravel Boost'
+    };
+
     return commands;
   }
 
@@ -1,42 +1,25 @@
 import type { DetectionContext, DetectionResult } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
 
 export class LaravelBoostDetection {
   static async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.atLeast(0.6);
 
     // Check for Laravel Boost indicators
-    const boostIndicators = this.checkBoostIndicators(context);
-    if (boostIndicators.found) {
-      evidence.push(...boostIndicators.evidence);
-      confidence += boostIndicators.confidence;
-    }
+    const boostComponents = this.checkBoostIndicators(context, evidence);
 
     // Check for Laravel framework (required)
     const hasLaravel = this.hasLaravelFramework(context.composerJson);
-    if (!hasLaravel && confidence > 0) {
-      evidence.push('Warning: Laravel Boost requires Laravel framework');
-      confidence *= 0.3;
+    if (!hasLaravel && evidence.confidence > 0) {
+      evidence.scale('Warning: Laravel Boost requires Laravel framework', 0.3);
     } else if (hasLaravel) {
-      evidence.push('Laravel framework detected (required for Boost)');
-      confidence += 0.1;
+      evidence.add('Laravel framework detected (required for Boost)', 0.1);
     }
 
-    const detected = confidence >= 0.6;
-
-    const result: DetectionResult = {
-      detected,
-      confidence: Math.min(confidence, 1.0),
-      evidence,
-      metadata: {
-        hasLaravelFramework: hasLaravel,
-        boostComponents: boostIndicators.components
-      }
-    };
-
     // If Laravel Boost is detected, mark modules for exclusion
-    if (detected) {
-      result.excludes = [
+    let excludes: string[] | undefined;
+    if (evidence.detected) {
+      excludes = [
         'laravel', // Core Laravel detection redundant
         'tailwind', // Boost manages Tailwind
         'livewire', // Boost includes Livewire patterns
@@ -48,10 +31,16 @@ export class LaravelBoostDetection {
         'flux-free', // Boost may include UI patterns
         'flux-pro' // Boost may include advanced UI
       ];
-      evidence.push(`Laravel Boost detected - excluding ${result.excludes.length} redundant modules`);
+      evidence.add(`Laravel Boost detected - excluding ${excludes.length} redundant modules`);
     }
 
-    return result;
+    return evidence.result({
+      excludes,
+      metadata: {
+        hasLaravelFramework: hasLaravel,
+        boostComponents
+      }
+    });
   }
 
   static async detectVersion(context: DetectionContext): Promise<string | undefined> {
@@ -90,15 +79,11 @@ export class LaravelBoostDetection {
     ];
   }
 
-  private static checkBoostIndicators(context: DetectionContext): {
-    found: boolean;
-    confidence: number;
-    evidence: string[];
-    components: string[];
-  } {
-    const evidence: string[] = [];
+  /**
+   * Record the Laravel Boost indicators found, returning the Boost components in use
+   */
+  private static checkBoostIndicators(context: DetectionContext, evidence: DetectionEvidence): string[] {
     const components: string[] = [];
-    let confidence = 0;
 
     // Check for Laravel Boost config files
     const configFiles = [
@@ -114,8 +99,7 @@ export class LaravelBoostDetection {
     );
 
     if (hasBoostConfig) {
-      evidence.push('Laravel Boost configuration file detected');
-      confidence += 0.8;
+      evidence.add('Laravel Boost configuration file detected', 0.8);
     }
 
     // Check for Boost-specific directory structure
@@ -131,8 +115,7 @@ export class LaravelBoostDetection {
     );
 
     if (hasBoostDirs) {
-      evidence.push('Laravel Boost directory structure detected');
-      confidence += 0.6;
+      evidence.add('Laravel Boost directory structure detected', 0.6);
     }
 
     // Check for Boost methodology files in DATA
@@ -148,8 +131,7 @@ export class LaravelBoostDetection {
     );
 
     if (hasBoostData) {
-      evidence.push('Laravel Boost methodology data files detected');
-      confidence += 0.7;
+      evidence.add('Laravel Boost methodology data files detected', 0.7);
       components.push('boost-methodology');
     }
 
@@ -167,8 +149,7 @@ export class LaravelBoostDetection {
     );
 
     if (hasBoostPatterns) {
-      evidence.push('Laravel Boost patterns detected in files');
-      confidence += 0.4;
+      evidence.add('Laravel Boost patterns detected in files', 0.4);
     }
 
     // Check package.json for boost-related dependencies
@@ -185,17 +166,11 @@ export class LaravelBoostDetection {
       }).some(dep => boostDeps.includes(dep));
 
       if (hasBoostDeps) {
-        evidence.push('Laravel Boost dependencies detected in package.json');
-        confidence += 0.5;
+        evidence.add('Laravel Boost dependencies detected in package.json', 0.5);
       }
     }
 
-    return {
-      found: confidence > 0,
-      confidence,
-      evidence,
-      components
-    };
+    return components;
   }
 
   private static hasLaravelFramework(composerJson: any): boolean {
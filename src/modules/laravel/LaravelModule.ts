@@ -8,6 +8,7 @@ import type {
 } from '../../core/types/Module.js';
 import type { StackCommands } from '../../core/StackDetector.js';
 import { LaravelDetection } from './detection.js';
+import { VersionedGuidelines } from '../../core/utils/VersionedGuidelines.js';
 
 export class LaravelModule implements FrameworkModule {
   readonly id = 'laravel';
@@ -60,18 +61,18 @@ export class LaravelModule implements FrameworkModule {
       path: 'laravel/guidelines/gemini-analysis.md',
       priority: 'meta-framework',
       category: 'framework',
-      version
+      version,
+      audience: 'gemini'
     });
 
-    // Version-specific guidelines
-    if (version) {
-      const majorVersion = this.extractMajorVersion(version);
-      const versionSpecificPath = `laravel/guidelines/${majorVersion}/features.md`;
+    // Version-specific guidelines (nearest lower version when there is no exact match)
+    const match = version ? await VersionedGuidelines.resolve(this.id, version) : null;
+    if (match) {
       paths.push({
-        path: versionSpecificPath,
+        path: `laravel/guidelines/${match.directory}/features.md`,
         priority: 'meta-framework',
         category: 'framework',
-        version: majorVersion
+        version: match.directory
       });
     }
 
@@ -144,8 +145,26 @@ export class LaravelModule implements FrameworkModule {
     if (context.detectedStack.configFiles.includes('package.json')) {
       const packageManager = this.getPreferredPackageManager(context.detectedStack.packageManagers);
       commands.install.push(`${packageManager} install`);
+      commands.descriptions = { [`${packageManager} install`]: 'Install Node.js dependencies' };
     }
 
+    // Command descriptions for the CLAUDE.md commands section
+    commands.descriptions = {
+      ...commands.descriptions,
+      'php artisan serve': 'Start development server',
+      'php artisan tinker': 'Interactive REPL',
+      'npm run dev': 'Build assets for development',
+      'npm run build': 'Build assets for production',
+      'npm run production': 'Build assets for production (Laravel Mix)',
+      'php artisan test': 'Run tests',
+      'vendor/bin/phpunit': 'Run PHPUnit tests',
+      'vendor/bin/pest': 'Run Pest tests',
+      './vendor/bin/pint': 'Fix code style with Laravel Pint',
+      'vendor/bin/php-cs-fixer fix': 'Fix code style with PHP CS Fixer',
+      'vendor/bin/phpstan analyse': 'Run PHPStan static analysis',
+      'composer install': 'Install PHP dependencies'
+    };
+
     return commands;
   }
 
@@ -157,11 +176,6 @@ export class LaravelModule implements FrameworkModule {
     return LaravelDetection.getConfigFiles();
   }
 
-  private extractMajorVersion(version: string): string {
-    const match = version.match(/^[^\d]*(\d+)/);
-    return match ? match[1] : version;
-  }
-
   private getPreferredPackageManager(packageManagers: string[]): string {
     if (packageManagers.includes('bun')) return 'bun';
     if (packageManagers.includes('yarn')) return 'yarn';
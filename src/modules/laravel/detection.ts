@@ -2,6 +2,7 @@ import fs from 'fs-extra';
 import path from 'path';
 import semver from 'semver';
 import type { DetectionContext, DetectionResult } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
 
 /**
  * Version information for Laravel
@@ -86,19 +87,16 @@ export class LaravelDetection {
    * Detect Laravel framework
    */
   static async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.above(0.3);
 
     // Check for artisan file (strongest indicator)
     if (context.configFiles.includes('artisan')) {
-      evidence.push('artisan command file found');
-      confidence += 0.9;
+      evidence.add('artisan command file found', 0.9);
     }
 
     // Check composer.json for Laravel framework
     if (context.composerJson?.require?.['laravel/framework']) {
-      evidence.push('laravel/framework in composer.json dependencies');
-      confidence += 0.8;
+      evidence.add('laravel/framework in composer.json dependencies', 0.8);
     }
 
     // Check for Laravel directory structure
@@ -112,8 +110,7 @@ export class LaravelDetection {
 
     for (const dir of laravelDirs) {
       if (context.files.some(file => file.startsWith(dir + '/'))) {
-        evidence.push(`Laravel directory structure: ${dir}`);
-        confidence += 0.1;
+        evidence.add(`Laravel directory structure: ${dir}`, 0.1);
       }
     }
 
@@ -127,16 +124,14 @@ export class LaravelDetection {
 
     for (const file of laravelFiles) {
       if (context.files.includes(file)) {
-        evidence.push(`Laravel file: ${file}`);
-        confidence += 0.15;
+        evidence.add(`Laravel file: ${file}`, 0.15);
       }
     }
 
     // Check for Laravel config files
     const configFiles = context.files.filter(file => file.startsWith('config/') && file.endsWith('.php'));
     if (configFiles.length > 5) {
-      evidence.push(`Laravel config files found: ${configFiles.length}`);
-      confidence += 0.2;
+      evidence.add(`Laravel config files found: ${configFiles.length}`, 0.2);
     }
 
     // Check for .env file (common in Laravel)
@@ -146,8 +141,7 @@ export class LaravelDetection {
         if (await fs.pathExists(envPath)) {
           const envContent = await fs.readFile(envPath, 'utf-8');
           if (envContent.includes('APP_NAME=') || envContent.includes('APP_KEY=')) {
-            evidence.push('.env file with Laravel variables');
-            confidence += 0.1;
+            evidence.add('.env file with Laravel variables', 0.1);
           }
         }
       } catch (error) {
@@ -155,13 +149,7 @@ export class LaravelDetection {
       }
     }
 
-    // Ensure confidence doesn't exceed 1.0
-    confidence = Math.min(confidence, 1.0);
-
-    return {
-      detected: confidence > 0.3, // Require at least 30% confidence
-      confidence,
-      evidence,
+    return evidence.result({
       metadata: {
         hasArtisan: context.configFiles.includes('artisan'),
         hasComposerJson: !!context.composerJson,
@@ -170,7 +158,7 @@ export class LaravelDetection {
         ),
         configFilesCount: configFiles.length
       }
-    };
+    });
   }
 
   /**
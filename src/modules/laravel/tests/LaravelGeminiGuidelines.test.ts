@@ -47,8 +47,7 @@ describe('Laravel Gemini Guidelines Integration', () => {
   describe('GuidelineManager Integration', () => {
     test('should load Laravel Gemini guidelines in full context', async () => {
       const context: GuidelineContext = {
-        laravelVersion: '11.0',
-        phpVersion: '8.2',
+        versions: new Map([['laravel', '11.0'], ['php', '8.2']]),
         stack: {
           frameworks: ['Laravel'],
           languages: ['PHP'],
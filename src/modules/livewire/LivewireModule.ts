@@ -6,6 +6,8 @@ import type {
   ModuleMetadata,
   GuidelinePath
 } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
+import { VersionedGuidelines } from '../../core/utils/VersionedGuidelines.js';
 import type { StackCommands } from '../../core/StackDetector.js';
 
 export class LivewireModule implements LibraryModule {
@@ -27,8 +29,7 @@ export class LivewireModule implements LibraryModule {
   }
 
   async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.atLeast(0.3);
 
     // Check for Laravel first (Livewire requires Laravel)
     if (!context.composerJson) {
@@ -47,15 +48,13 @@ export class LivewireModule implements LibraryModule {
     // Check for Livewire in composer.json
     if (context.composerJson.require?.['livewire/livewire'] ||
         context.composerJson['require-dev']?.['livewire/livewire']) {
-      evidence.push('livewire/livewire in composer.json dependencies');
-      confidence += 0.8;
+      evidence.add('livewire/livewire in composer.json dependencies', 0.8);
     }
 
     // Check for Livewire v3 package name
     if (context.composerJson.require?.['livewire/volt'] ||
         context.composerJson['require-dev']?.['livewire/volt']) {
-      evidence.push('livewire/volt detected (Livewire v3 companion)');
-      confidence += 0.2;
+      evidence.add('livewire/volt detected (Livewire v3 companion)', 0.2);
     }
 
     // Check for Livewire directories
@@ -67,8 +66,7 @@ export class LivewireModule implements LibraryModule {
     );
 
     if (livewireComponents.length > 0) {
-      evidence.push(`Livewire components found: ${livewireComponents.length}`);
-      confidence += Math.min(livewireComponents.length * 0.1, 0.3);
+      evidence.add(`Livewire components found: ${livewireComponents.length}`, Math.min(livewireComponents.length * 0.1, 0.3));
     }
 
     // Check for Livewire Blade directives in view files
@@ -82,15 +80,13 @@ export class LivewireModule implements LibraryModule {
     }
 
     if (wireDirectivesFound > 0) {
-      evidence.push(`Blade files with Livewire directives: ${wireDirectivesFound}`);
-      confidence += Math.min(wireDirectivesFound * 0.05, 0.2);
+      evidence.add(`Blade files with Livewire directives: ${wireDirectivesFound}`, Math.min(wireDirectivesFound * 0.05, 0.2));
     }
 
     // Check for Livewire config
     const configFiles = context.configFiles || [];
     if (configFiles.includes('config/livewire.php') || files.some(file => file.includes('config/livewire.php'))) {
-      evidence.push('Livewire config file found');
-      confidence += 0.2;
+      evidence.add('Livewire config file found', 0.2);
     }
 
     // Check for Livewire tests
@@ -102,15 +98,10 @@ export class LivewireModule implements LibraryModule {
     );
 
     if (livewireTests.length > 0) {
-      evidence.push(`Livewire test files found: ${livewireTests.length}`);
-      confidence += 0.1;
+      evidence.add(`Livewire test files found: ${livewireTests.length}`, 0.1);
     }
 
-    return {
-      detected: confidence >= 0.3,
-      confidence: Math.min(confidence, 1),
-      evidence
-    };
+    return evidence.result();
   }
 
   async detectVersion(context: DetectionContext): Promise<string | undefined> {
@@ -137,13 +128,14 @@ export class LivewireModule implements LibraryModule {
       }
     ];
 
-    if (version) {
-      const majorVersion = version.split('.')[0];
+    // Version-specific guidelines (nearest lower version when there is no exact match)
+    const match = version ? await VersionedGuidelines.resolve(this.id, version) : null;
+    if (match) {
       paths.push({
-        path: `livewire/guidelines/${majorVersion}/features.md`,
+        path: `livewire/guidelines/${match.directory}/features.md`,
         priority: this.priorityType,
         category: 'framework',
-        version: majorVersion
+        version: match.directory
       });
     }
 
@@ -173,6 +165,18 @@ export class LivewireModule implements LibraryModule {
       commands.test?.push('./vendor/bin/pest --group=livewire');
     }
 
+    // Command descriptions for the CLAUDE.md commands section
+    commands.descriptions = {
+      'php artisan livewire:publish --force': 'Publish Livewire assets',
+      'php artisan serve': 'Start development server',
+      'php artisan optimize': 'Cache config, routes and views',
+      'php artisan test': 'Run tests',
+      './vendor/bin/phpunit --filter=Livewire': 'Run Livewire PHPUnit tests',
+      './vendor/bin/pest --group=livewire': 'Run Livewire Pest tests',
+      './vendor/bin/pint': 'Fix code style with Laravel Pint',
+      'composer install': 'Install PHP dependencies'
+    };
+
     return commands;
   }
 
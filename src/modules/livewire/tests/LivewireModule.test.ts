@@ -197,13 +197,11 @@ describe('LivewireModule', () => {
       expect(paths[0].category).toBe('framework');
     });
 
-    test('should return version-specific guidelines when version provided', async () => {
+    test('should skip version-specific guidelines without a versioned directory', async () => {
       const paths = await module.getGuidelinePaths('3.4.0');
 
-      expect(paths).toHaveLength(2);
+      expect(paths).toHaveLength(1);
       expect(paths[0].path).toBe('livewire/guidelines/laravel-tool.md');
-      expect(paths[1].path).toBe('livewire/guidelines/3/features.md');
-      expect(paths[1].version).toBe('3');
     });
   });
 
@@ -8,6 +8,7 @@ import type {
 } from '../../core/types/Module.js';
 import type { StackCommands } from '../../core/StackDetector.js';
 import { NextDetection } from './detection.js';
+import { VersionedGuidelines } from '../../core/utils/VersionedGuidelines.js';
 
 export class NextModule implements FrameworkModule {
   readonly id = 'next';
@@ -60,18 +61,18 @@ export class NextModule implements FrameworkModule {
       path: 'next/guidelines/gemini-analysis.md',
       priority: 'meta-framework',
       category: 'framework',
-      version
+      version,
+      audience: 'gemini'
     });
 
-    // Version-specific guidelines
-    if (version) {
-      const majorVersion = this.extractMajorVersion(version);
-      const versionSpecificPath = `next/guidelines/${majorVersion}/features.md`;
+    // Version-specific guidelines (nearest lower version when there is no exact match)
+    const match = version ? await VersionedGuidelines.resolve(this.id, version) : null;
+    if (match) {
       paths.push({
-        path: versionSpecificPath,
+        path: `next/guidelines/${match.directory}/features.md`,
         priority: 'meta-framework',
         category: 'framework',
-        version: majorVersion
+        version: match.directory
       });
     }
 
@@ -131,6 +132,20 @@ export class NextModule implements FrameworkModule {
       `${packageManager} install`
     ];
 
+    // Command descriptions for the CLAUDE.md commands section
+    commands.descriptions = {
+      [`${packageManager} run dev`]: 'Start the Next.js development server',
+      [`${packageManager} run start`]: 'Start the production server',
+      [`${packageManager} run build`]: 'Build for production',
+      [`${packageManager} run export`]: 'Export static site',
+      [`${packageManager} run test`]: 'Run tests',
+      [`${packageManager} run test:vitest`]: 'Run Vitest tests',
+      [`${packageManager} run test:jest`]: 'Run Jest tests',
+      [`${packageManager} run lint`]: 'Run next lint',
+      [`${packageManager} run lint:fix`]: 'Fix linting issues',
+      [`${packageManager} install`]: 'Install dependencies'
+    };
+
     return commands;
   }
 
@@ -142,11 +157,6 @@ export class NextModule implements FrameworkModule {
     return NextDetection.getConfigFiles();
   }
 
-  private extractMajorVersion(version: string): string {
-    const match = version.match(/^[^\d]*(\d+)/);
-    return match ? match[1] : version;
-  }
-
   private getPreferredPackageManager(packageManagers: string[]): string {
     if (packageManagers.includes('bun')) return 'bun';
     if (packageManagers.includes('yarn')) return 'yarn';
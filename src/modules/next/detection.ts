@@ -1,6 +1,7 @@
 import fs from 'fs-extra';
 import path from 'path';
 import type { DetectionContext, DetectionResult } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
 import { VersionUtils, type NpmVersionInfo } from '../../core/utils/VersionUtils.js';
 
 /**
@@ -11,26 +12,22 @@ export class NextDetection {
    * Detect Next.js framework
    */
   static async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.above(0.3);
 
     // Check for Next.js in package.json dependencies
     if (context.packageJson?.dependencies?.['next']) {
-      evidence.push('next in package.json dependencies');
-      confidence += 0.9;
+      evidence.add('next in package.json dependencies', 0.9);
     }
 
     if (context.packageJson?.devDependencies?.['next']) {
-      evidence.push('next in package.json devDependencies');
-      confidence += 0.9;
+      evidence.add('next in package.json devDependencies', 0.9);
     }
 
     // Check for Next.js config files
     const nextConfigFiles = ['next.config.js', 'next.config.ts', 'next.config.mjs'];
     for (const configFile of nextConfigFiles) {
       if (context.configFiles.includes(configFile)) {
-        evidence.push(`Next.js config file: ${configFile}`);
-        confidence += 0.8;
+        evidence.add(`Next.js config file: ${configFile}`, 0.8);
       }
     }
 
@@ -38,8 +35,7 @@ export class NextDetection {
     const nextDirs = ['pages', 'app', 'public'];
     for (const dir of nextDirs) {
       if (context.files.some(file => file.startsWith(dir + '/'))) {
-        evidence.push(`Next.js directory structure: ${dir}`);
-        confidence += 0.3;
+        evidence.add(`Next.js directory structure: ${dir}`, 0.3);
       }
     }
 
@@ -57,41 +53,36 @@ export class NextDetection {
 
     for (const file of nextFiles) {
       if (context.files.includes(file)) {
-        evidence.push(`Next.js file: ${file}`);
-        confidence += 0.2;
+        evidence.add(`Next.js file: ${file}`, 0.2);
       }
     }
 
     // Check for .next directory (build output)
     if (context.files.some(file => file.startsWith('.next/'))) {
-      evidence.push('Next.js build directory (.next) found');
-      confidence += 0.1;
+      evidence.add('Next.js build directory (.next) found', 0.1);
     }
 
     // Check for Next.js scripts in package.json
     const scripts = context.packageJson?.scripts || {};
     if (scripts['dev']?.includes('next') || scripts['build']?.includes('next') || scripts['start']?.includes('next')) {
-      evidence.push('Next.js scripts in package.json');
-      confidence += 0.3;
+      evidence.add('Next.js scripts in package.json', 0.3);
     }
 
-    // Ensure confidence doesn't exceed 1.0
-    confidence = Math.min(confidence, 1.0);
-
-    const detected = confidence > 0.3;
+    // Next.js includes React
+    const detected = evidence.detected;
+    if (detected) {
+      evidence.add('Next.js includes React - excluding standalone React guidelines');
+    }
 
-    return {
-      detected,
-      confidence,
-      evidence: detected ? [...evidence, 'Next.js includes React - excluding standalone React guidelines'] : evidence,
-      excludes: detected ? ['react'] : undefined, // Next.js includes React
+    return evidence.result({
+      excludes: detected ? ['react'] : undefined,
       metadata: {
         hasNextConfig: nextConfigFiles.some(file => context.configFiles.includes(file)),
         hasPagesDir: context.files.some(file => file.startsWith('pages/')),
         hasAppDir: context.files.some(file => file.startsWith('app/')),
         hasPublicDir: context.files.some(file => file.startsWith('public/'))
       }
-    };
+    });
   }
 
   /**
@@ -146,6 +146,14 @@ describe('NextModule', () => {
       expect(paths[1].path).toBe('next/guidelines/13/features.md');
       expect(paths[1].version).toBe('13');
     });
+
+    test('should fall back to the nearest lower version guidelines', async () => {
+      const paths = await module.getGuidelinePaths('15.0.3');
+      const versionGuideline = paths.find(p => p.path.endsWith('/features.md'));
+
+      expect(versionGuideline?.path).toBe('next/guidelines/14/features.md');
+      expect(versionGuideline?.version).toBe('14');
+    });
   });
 
   describe('generateCommands', () => {
@@ -8,6 +8,7 @@ import type {
 } from '../../core/types/Module.js';
 import type { StackCommands } from '../../core/StackDetector.js';
 import { NuxtDetection } from './detection.js';
+import { VersionedGuidelines } from '../../core/utils/VersionedGuidelines.js';
 
 export class NuxtModule implements FrameworkModule {
   readonly id = 'nuxt';
@@ -60,18 +61,18 @@ export class NuxtModule implements FrameworkModule {
       path: 'nuxt/guidelines/gemini-analysis.md',
       priority: 'meta-framework',
       category: 'framework',
-      version
+      version,
+      audience: 'gemini'
     });
 
-    // Version-specific guidelines
-    if (version) {
-      const majorVersion = this.extractMajorVersion(version);
-      const versionSpecificPath = `nuxt/guidelines/${majorVersion}/features.md`;
+    // Version-specific guidelines (nearest lower version when there is no exact match)
+    const match = version ? await VersionedGuidelines.resolve(this.id, version) : null;
+    if (match) {
       paths.push({
-        path: versionSpecificPath,
+        path: `nuxt/guidelines/${match.directory}/features.md`,
         priority: 'meta-framework',
         category: 'framework',
-        version: majorVersion
+        version: match.directory
       });
     }
 
@@ -131,6 +132,20 @@ export class NuxtModule implements FrameworkModule {
       `${packageManager} install`
     ];
 
+    // Command descriptions for the CLAUDE.md commands section
+    commands.descriptions = {
+      [`${packageManager} run dev`]: 'Start the Nuxt development server',
+      [`${packageManager} run start`]: 'Start the production server',
+      [`${packageManager} run build`]: 'Build for production',
+      [`${packageManager} run generate`]: 'Generate static site',
+      [`${packageManager} run test`]: 'Run tests',
+      [`${packageManager} run test:vitest`]: 'Run Vitest tests',
+      [`${packageManager} run test:jest`]: 'Run Jest tests',
+      [`${packageManager} run lint`]: 'Run linter',
+      [`${packageManager} run lint:fix`]: 'Fix linting issues',
+      [`${packageManager} install`]: 'Install dependencies'
+    };
+
     return commands;
   }
 
@@ -142,11 +157,6 @@ export class NuxtModule implements FrameworkModule {
     return NuxtDetection.getConfigFiles();
   }
 
-  private extractMajorVersion(version: string): string {
-    const match = version.match(/^[^\d]*(\d+)/);
-    return match ? match[1] : version;
-  }
-
   private getPreferredPackageManager(packageManagers: string[]): string {
     if (packageManagers.includes('bun')) return 'bun';
     if (packageManagers.includes('yarn')) return 'yarn';
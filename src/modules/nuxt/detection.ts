@@ -1,6 +1,7 @@
 import fs from 'fs-extra';
 import path from 'path';
 import type { DetectionContext, DetectionResult } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
 import { VersionUtils, type NpmVersionInfo } from '../../core/utils/VersionUtils.js';
 
 /**
@@ -11,33 +12,28 @@ export class NuxtDetection {
    * Detect Nuxt.js framework
    */
   static async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.above(0.3);
 
     // Check for Nuxt in package.json dependencies
     if (context.packageJson?.dependencies?.['nuxt']) {
-      evidence.push('nuxt in package.json dependencies');
-      confidence += 0.9;
+      evidence.add('nuxt in package.json dependencies', 0.9);
     }
 
     if (context.packageJson?.devDependencies?.['nuxt']) {
-      evidence.push('nuxt in package.json devDependencies');
-      confidence += 0.9;
+      evidence.add('nuxt in package.json devDependencies', 0.9);
     }
 
     // Check for legacy Nuxt 2 packages
     if (context.packageJson?.dependencies?.['nuxt-edge'] ||
         context.packageJson?.devDependencies?.['nuxt-edge']) {
-      evidence.push('nuxt-edge in dependencies');
-      confidence += 0.8;
+      evidence.add('nuxt-edge in dependencies', 0.8);
     }
 
     // Check for Nuxt config files
     const nuxtConfigFiles = ['nuxt.config.js', 'nuxt.config.ts'];
     for (const configFile of nuxtConfigFiles) {
       if (context.configFiles.includes(configFile)) {
-        evidence.push(`Nuxt config file: ${configFile}`);
-        confidence += 0.8;
+        evidence.add(`Nuxt config file: ${configFile}`, 0.8);
       }
     }
 
@@ -46,47 +42,40 @@ export class NuxtDetection {
     let dirCount = 0;
     for (const dir of nuxtDirs) {
       if (context.files.some(file => file.startsWith(dir + '/'))) {
-        evidence.push(`Nuxt directory structure: ${dir}`);
-        confidence += 0.1;
+        evidence.add(`Nuxt directory structure: ${dir}`, 0.1);
         dirCount++;
       }
     }
 
     // Bonus for multiple Nuxt directories
     if (dirCount >= 3) {
-      evidence.push('Multiple Nuxt directories found');
-      confidence += 0.2;
+      evidence.add('Multiple Nuxt directories found', 0.2);
     }
 
     // Check for .nuxt directory (build output)
     if (context.files.some(file => file.startsWith('.nuxt/'))) {
-      evidence.push('Nuxt build directory (.nuxt) found');
-      confidence += 0.1;
+      evidence.add('Nuxt build directory (.nuxt) found', 0.1);
     }
 
     // Check for Nuxt scripts in package.json
     const scripts = context.packageJson?.scripts || {};
     if (scripts['dev']?.includes('nuxt') || scripts['build']?.includes('nuxt') || scripts['generate']?.includes('nuxt')) {
-      evidence.push('Nuxt scripts in package.json');
-      confidence += 0.3;
+      evidence.add('Nuxt scripts in package.json', 0.3);
     }
 
     // Check for Vue dependency (Nuxt is Vue-based)
     if (context.packageJson?.dependencies?.['vue'] || context.packageJson?.devDependencies?.['vue']) {
-      evidence.push('Vue.js detected (Nuxt dependency)');
-      confidence += 0.1;
+      evidence.add('Vue.js detected (Nuxt dependency)', 0.1);
     }
 
-    // Ensure confidence doesn't exceed 1.0
-    confidence = Math.min(confidence, 1.0);
-
-    const detected = confidence > 0.3;
+    // Nuxt includes Vue
+    const detected = evidence.detected;
+    if (detected) {
+      evidence.add('Nuxt.js includes Vue.js - excluding standalone Vue guidelines');
+    }
 
-    return {
-      detected,
-      confidence,
-      evidence: detected ? [...evidence, 'Nuxt.js includes Vue.js - excluding standalone Vue guidelines'] : evidence,
-      excludes: detected ? ['vue'] : undefined, // Nuxt includes Vue
+    return evidence.result({
+      excludes: detected ? ['vue'] : undefined,
       metadata: {
         hasNuxtConfig: nuxtConfigFiles.some(file => context.configFiles.includes(file)),
         hasPagesDir: context.files.some(file => file.startsWith('pages/')),
@@ -94,7 +83,7 @@ export class NuxtDetection {
         hasLayoutsDir: context.files.some(file => file.startsWith('layouts/')),
         nuxtDirCount: dirCount
       }
-    };
+    });
   }
 
   /**
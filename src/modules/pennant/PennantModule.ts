@@ -75,6 +75,14 @@ export class PennantModule implements LibraryModule {
       'php artisan pennant:install'    // If Pennant has installation
     ];
 
+    // Command descriptions for the CLAUDE.md commands section
+    commands.descriptions = {
+      'php artisan pennant:purge': 'Purge stored feature flags',
+      'php artisan pennant:clear': 'Clear the feature flag cache',
+      'composer install': 'Install PHP dependencies',
+      'php artisan pennant:install': 'Install Pennant'
+    };
+
     return commands;
   }
 
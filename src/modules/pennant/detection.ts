@@ -1,28 +1,25 @@
 import type { DetectionContext, DetectionResult } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
 
 export class PennantDetection {
   static async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.atLeast(0.7);
 
     // Check composer.json for Pennant dependency
     const composerJson = context.composerJson;
     if (composerJson) {
       if (composerJson.require?.['laravel/pennant'] ||
           composerJson['require-dev']?.['laravel/pennant']) {
-        evidence.push('Laravel Pennant found in composer.json dependencies');
-        confidence += 0.8;
+        evidence.add('Laravel Pennant found in composer.json dependencies', 0.8);
       }
     }
 
     // Check for Laravel framework (required for Pennant)
     const hasLaravel = this.hasLaravelFramework(composerJson);
-    if (!hasLaravel && confidence > 0) {
-      evidence.push('Warning: Pennant requires Laravel framework');
-      confidence *= 0.5;
+    if (!hasLaravel && evidence.confidence > 0) {
+      evidence.scale('Warning: Pennant requires Laravel framework', 0.5);
     } else if (hasLaravel) {
-      evidence.push('Laravel framework detected (required for Pennant)');
-      confidence += 0.2;
+      evidence.add('Laravel framework detected (required for Pennant)', 0.2);
     }
 
     // Check for Pennant configuration
@@ -32,29 +29,22 @@ export class PennantDetection {
     );
 
     if (foundConfigFiles.length > 0) {
-      evidence.push(`Pennant config found: ${foundConfigFiles.join(', ')}`);
-      confidence += 0.4;
+      evidence.add(`Pennant config found: ${foundConfigFiles.join(', ')}`, 0.4);
     }
 
     // Look for feature flag usage patterns in PHP files
     const hasFeatureFlagUsage = this.hasFeatureFlagPatterns(context.files);
     if (hasFeatureFlagUsage) {
-      evidence.push('Feature flag usage patterns detected');
-      confidence += 0.3;
+      evidence.add('Feature flag usage patterns detected', 0.3);
     }
 
-    const detected = confidence >= 0.7;
-
-    return {
-      detected,
-      confidence: Math.min(confidence, 1.0),
-      evidence,
+    return evidence.result({
       metadata: {
         hasLaravelFramework: hasLaravel,
         hasConfigFiles: foundConfigFiles.length > 0,
         hasFeatureFlagUsage
       }
-    };
+    });
   }
 
   static async detectVersion(context: DetectionContext): Promise<string | undefined> {
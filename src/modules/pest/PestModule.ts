@@ -8,6 +8,7 @@ import type {
 } from '../../core/types/Module.js';
 import type { StackCommands } from '../../core/StackDetector.js';
 import { PestDetection } from './detection.js';
+import { VersionedGuidelines } from '../../core/utils/VersionedGuidelines.js';
 
 export class PestModule implements LibraryModule {
   readonly id = 'pest';
@@ -65,15 +66,14 @@ export class PestModule implements LibraryModule {
       version
     });
 
-    // Version-specific guidelines
-    if (version) {
-      const majorVersion = this.extractMajorVersion(version);
-      const versionSpecificPath = `pest/guidelines/${majorVersion}/features.md`;
+    // Version-specific guidelines (nearest lower version when there is no exact match)
+    const match = version ? await VersionedGuidelines.resolve(this.id, version) : null;
+    if (match) {
       paths.push({
-        path: versionSpecificPath,
+        path: `pest/guidelines/${match.directory}/features.md`,
         priority: 'laravel-tool',
         category: 'testing',
-        version: majorVersion
+        version: match.directory
       });
     }
 
@@ -114,6 +114,19 @@ export class PestModule implements LibraryModule {
       'composer install --dev'
     ];
 
+    // Command descriptions for the CLAUDE.md commands section
+    commands.descriptions = {
+      'php artisan test': 'Run tests',
+      'php artisan test --parallel': 'Run tests in parallel',
+      'vendor/bin/pest': 'Run Pest tests',
+      'composer test': 'Run the composer test script',
+      'php artisan test --coverage': 'Run tests with coverage',
+      'vendor/bin/pest --coverage': 'Run Pest tests with coverage',
+      'php artisan test --profile': 'List the slowest tests',
+      'vendor/bin/pest --profile': 'List the slowest tests',
+      'composer install --dev': 'Install PHP dependencies, dev included'
+    };
+
     return commands;
   }
 
@@ -124,9 +137,4 @@ export class PestModule implements LibraryModule {
   getConfigFiles(): string[] {
     return PestDetection.getConfigFiles();
   }
-
-  private extractMajorVersion(version: string): string {
-    const match = version.match(/^[^\d]*(\d+)/);
-    return match ? match[1] : version;
-  }
 }
\ No newline at end of file
@@ -1,24 +1,22 @@
 import type { DetectionContext, DetectionResult } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
 
 export class PestDetection {
   static async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.atLeast(0.7);
 
     // Check composer.json for Pest dependency
     const composerJson = context.composerJson;
     if (composerJson) {
       if (composerJson.require?.['pestphp/pest'] ||
           composerJson['require-dev']?.['pestphp/pest']) {
-        evidence.push('Pest found in composer.json dependencies');
-        confidence += 0.8;
+        evidence.add('Pest found in composer.json dependencies', 0.8);
       }
 
       // Check for Laravel-specific Pest plugin
       if (composerJson.require?.['pestphp/pest-plugin-laravel'] ||
           composerJson['require-dev']?.['pestphp/pest-plugin-laravel']) {
-        evidence.push('Pest Laravel plugin found in composer.json');
-        confidence += 0.2;
+        evidence.add('Pest Laravel plugin found in composer.json', 0.2);
       }
     }
 
@@ -29,8 +27,7 @@ export class PestDetection {
     );
 
     if (foundConfigFiles.length > 0) {
-      evidence.push(`Pest config found: ${foundConfigFiles.join(', ')}`);
-      confidence += 0.4;
+      evidence.add(`Pest config found: ${foundConfigFiles.join(', ')}`, 0.4);
     }
 
     // Check for tests directory with Pest-style tests
@@ -40,8 +37,7 @@ export class PestDetection {
     );
 
     if (hasPestTests) {
-      evidence.push('Tests directory with Pest-style tests found');
-      confidence += 0.3;
+      evidence.add('Tests directory with Pest-style tests found', 0.3);
     }
 
     // Look for Pest-specific functions in test files (it, test, describe)
@@ -51,8 +47,7 @@ export class PestDetection {
     );
 
     if (hasPestDir) {
-      evidence.push('Pest-specific test files found');
-      confidence += 0.4;
+      evidence.add('Pest-specific test files found', 0.4);
     }
 
     // Check for vendor/bin/pest
@@ -61,22 +56,16 @@ export class PestDetection {
     );
 
     if (hasVendorBin) {
-      evidence.push('Pest binary found in vendor/bin');
-      confidence += 0.2;
+      evidence.add('Pest binary found in vendor/bin', 0.2);
     }
 
-    const detected = confidence >= 0.7;
-
-    return {
-      detected,
-      confidence: Math.min(confidence, 1.0),
-      evidence,
+    return evidence.result({
       metadata: {
         hasConfigFile: foundConfigFiles.length > 0,
         hasLaravelPlugin: this.hasLaravelPlugin(composerJson),
         configFiles: foundConfigFiles
       }
-    };
+    });
   }
 
   static async detectVersion(context: DetectionContext): Promise<string | undefined> {
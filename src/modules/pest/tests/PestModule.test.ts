@@ -164,14 +164,12 @@ describe('PestModule', () => {
       expect(paths[1].path).toBe('pest/guidelines/laravel-integration.md');
     });
 
-    test('should return version-specific guidelines when version provided', async () => {
+    test('should skip version-specific guidelines without a versioned directory', async () => {
       const paths = await module.getGuidelinePaths('2.24.1');
 
-      expect(paths).toHaveLength(3);
+      expect(paths).toHaveLength(2);
       expect(paths[0].path).toBe('pest/guidelines/framework.md');
       expect(paths[1].path).toBe('pest/guidelines/laravel-integration.md');
-      expect(paths[2].path).toBe('pest/guidelines/2/features.md');
-      expect(paths[2].version).toBe('2');
     });
   });
 
@@ -6,6 +6,7 @@ import type {
   GuidelinePath
 } from '../../core/types/Module.js';
 import { PHPDetection } from './detection.js';
+import { VersionedGuidelines } from '../../core/utils/VersionedGuidelines.js';
 
 export class PHPModule implements LanguageModule {
   readonly id = 'php';
@@ -44,14 +45,14 @@ export class PHPModule implements LanguageModule {
       version
     });
 
-    // Version-specific guidelines
-    if (version) {
-      const versionSpecificPath = `php/guidelines/${version}/features.md`;
+    // Version-specific guidelines (nearest lower version when there is no exact match)
+    const match = version ? await VersionedGuidelines.resolve(this.id, version) : null;
+    if (match) {
       paths.push({
-        path: versionSpecificPath,
+        path: `php/guidelines/${match.directory}/features.md`,
         priority: 'specialized-lang',
         category: 'language',
-        version
+        version: match.directory
       });
     }
 
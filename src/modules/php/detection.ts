@@ -1,6 +1,7 @@
 import fs from 'fs-extra';
 import path from 'path';
 import type { DetectionContext, DetectionResult } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
 
 /**
  * PHP detection utilities
@@ -10,28 +11,24 @@ export class PHPDetection {
    * Detect PHP language
    */
   static async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.above(0.3);
 
     // Check for composer.json (strongest PHP indicator)
     if (context.composerJson) {
-      evidence.push('composer.json found');
-      confidence += 0.9;
+      evidence.add('composer.json found', 0.9);
     }
 
     // Check for .php files
     const phpFiles = context.files.filter(file => file.endsWith('.php'));
     if (phpFiles.length > 0) {
-      evidence.push(`PHP files found: ${phpFiles.length}`);
-      confidence += Math.min(phpFiles.length * 0.1, 0.7);
+      evidence.add(`PHP files found: ${phpFiles.length}`, Math.min(phpFiles.length * 0.1, 0.7));
     }
 
     // Check for PHP-specific config files
     const phpConfigFiles = ['php.ini', '.php-version', '.php-cs-fixer.php', 'phpunit.xml', 'phpstan.neon'];
     for (const configFile of phpConfigFiles) {
       if (context.configFiles.includes(configFile)) {
-        evidence.push(`PHP config file: ${configFile}`);
-        confidence += 0.2;
+        evidence.add(`PHP config file: ${configFile}`, 0.2);
       }
     }
 
@@ -39,8 +36,7 @@ export class PHPDetection {
     const phpDirs = ['vendor/', 'app/', 'src/', 'public/'];
     for (const dir of phpDirs) {
       if (context.files.some(file => file.startsWith(dir))) {
-        evidence.push(`PHP directory structure: ${dir}`);
-        confidence += 0.1;
+        evidence.add(`PHP directory structure: ${dir}`, 0.1);
       }
     }
 
@@ -48,25 +44,18 @@ export class PHPDetection {
     const phpEntryPoints = ['index.php', 'public/index.php', 'web/index.php'];
     for (const entryPoint of phpEntryPoints) {
       if (context.files.includes(entryPoint)) {
-        evidence.push(`PHP entry point: ${entryPoint}`);
-        confidence += 0.2;
+        evidence.add(`PHP entry point: ${entryPoint}`, 0.2);
       }
     }
 
-    // Ensure confidence doesn't exceed 1.0
-    confidence = Math.min(confidence, 1.0);
-
-    return {
-      detected: confidence > 0.3,
-      confidence,
-      evidence,
+    return evidence.result({
       metadata: {
         hasComposerJson: !!context.composerJson,
         phpFilesCount: phpFiles.length,
         hasVendorDir: context.files.some(file => file.startsWith('vendor/')),
         configFilesFound: phpConfigFiles.filter(file => context.configFiles.includes(file))
       }
-    };
+    });
   }
 
   /**
@@ -8,6 +8,7 @@ import type {
 } from '../../core/types/Module.js';
 import type { StackCommands } from '../../core/StackDetector.js';
 import { PHPUnitDetection } from './detection.js';
+import { VersionedGuidelines } from '../../core/utils/VersionedGuidelines.js';
 
 export class PHPUnitModule implements LibraryModule {
   readonly id = 'phpunit';
@@ -54,15 +55,14 @@ export class PHPUnitModule implements LibraryModule {
       version
     });
 
-    // Version-specific guidelines
-    if (version) {
-      const majorVersion = this.extractMajorVersion(version);
-      const versionSpecificPath = `phpunit/guidelines/${majorVersion}/features.md`;
+    // Version-specific guidelines (nearest lower version when there is no exact match)
+    const match = version ? await VersionedGuidelines.resolve(this.id, version) : null;
+    if (match) {
       paths.push({
-        path: versionSpecificPath,
+        path: `phpunit/guidelines/${match.directory}/features.md`,
         priority: 'laravel-tool',
         category: 'testing',
-        version: majorVersion
+        version: match.directory
       });
     }
 
@@ -102,6 +102,17 @@ export class PHPUnitModule implements LibraryModule {
       'composer install --dev'
     ];
 
+    // Command descriptions for the CLAUDE.md commands section
+    commands.descriptions = {
+      'php artisan test': 'Run tests',
+      'php artisan test --parallel': 'Run tests in parallel',
+      'vendor/bin/phpunit': 'Run PHPUnit tests',
+      'composer test': 'Run the composer test script',
+      'php artisan test --coverage': 'Run tests with coverage',
+      'vendor/bin/phpunit --coverage-html coverage': 'Generate an HTML coverage report',
+      'composer install --dev': 'Install PHP dependencies, dev included'
+    };
+
     return commands;
   }
 
@@ -112,9 +123,4 @@ export class PHPUnitModule implements LibraryModule {
   getConfigFiles(): string[] {
     return PHPUnitDetection.getConfigFiles();
   }
-
-  private extractMajorVersion(version: string): string {
-    const match = version.match(/^[^\d]*(\d+)/);
-    return match ? match[1] : version;
-  }
 }
\ No newline at end of file
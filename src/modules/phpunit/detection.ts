@@ -1,17 +1,16 @@
 import type { DetectionContext, DetectionResult } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
 
 export class PHPUnitDetection {
   static async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.atLeast(0.6);
 
     // Check composer.json for PHPUnit dependency
     const composerJson = context.composerJson;
     if (composerJson) {
       if (composerJson.require?.['phpunit/phpunit'] ||
           composerJson['require-dev']?.['phpunit/phpunit']) {
-        evidence.push('PHPUnit found in composer.json dependencies');
-        confidence += 0.7;
+        evidence.add('PHPUnit found in composer.json dependencies', 0.7);
       }
     }
 
@@ -22,8 +21,7 @@ export class PHPUnitDetection {
     );
 
     if (foundConfigFiles.length > 0) {
-      evidence.push(`PHPUnit config found: ${foundConfigFiles.join(', ')}`);
-      confidence += 0.6;
+      evidence.add(`PHPUnit config found: ${foundConfigFiles.join(', ')}`, 0.6);
     }
 
     // Check for tests directory structure
@@ -32,8 +30,7 @@ export class PHPUnitDetection {
     );
 
     if (hasTestsDir) {
-      evidence.push('Tests directory with PHP files found');
-      confidence += 0.4;
+      evidence.add('Tests directory with PHP files found', 0.4);
     }
 
     // Look for PHPUnit test class patterns
@@ -42,8 +39,7 @@ export class PHPUnitDetection {
     );
 
     if (hasTestClasses) {
-      evidence.push('PHPUnit test classes found');
-      confidence += 0.3;
+      evidence.add('PHPUnit test classes found', 0.3);
     }
 
     // Check for vendor/bin/phpunit
@@ -52,22 +48,16 @@ export class PHPUnitDetection {
     );
 
     if (hasVendorBin) {
-      evidence.push('PHPUnit binary found in vendor/bin');
-      confidence += 0.2;
+      evidence.add('PHPUnit binary found in vendor/bin', 0.2);
     }
 
-    const detected = confidence >= 0.6;
-
-    return {
-      detected,
-      confidence: Math.min(confidence, 1.0),
-      evidence,
+    return evidence.result({
       metadata: {
         hasConfigFile: foundConfigFiles.length > 0,
         hasTestsDirectory: hasTestsDir,
         configFiles: foundConfigFiles
       }
-    };
+    });
   }
 
   static async detectVersion(context: DetectionContext): Promise<string | undefined> {
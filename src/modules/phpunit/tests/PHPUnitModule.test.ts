@@ -185,13 +185,11 @@ describe('PHPUnitModule', () => {
       expect(paths[0].category).toBe('testing');
     });
 
-    test('should return version-specific guidelines when version provided', async () => {
+    test('should skip version-specific guidelines without a versioned directory', async () => {
       const paths = await module.getGuidelinePaths('10.5.1');
 
-      expect(paths).toHaveLength(2);
+      expect(paths).toHaveLength(1);
       expect(paths[0].path).toBe('phpunit/guidelines/framework.md');
-      expect(paths[1].path).toBe('phpunit/guidelines/10/features.md');
-      expect(paths[1].version).toBe('10');
     });
   });
 
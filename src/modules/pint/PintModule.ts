@@ -93,6 +93,16 @@ export class PintModule implements LibraryModule {
       'composer install --dev'
     ];
 
+    // Command descriptions for the CLAUDE.md commands section
+    commands.descriptions = {
+      './vendor/bin/pint': 'Fix code style with Laravel Pint',
+      './vendor/bin/pint --diff': 'Fix code style in files changed from the main branch',
+      './vendor/bin/pint --dirty': 'Fix code style in uncommitted files',
+      'vendor/bin/pint': 'Fix code style with Laravel Pint',
+      'composer pint': 'Run the composer pint script',
+      'composer install --dev': 'Install PHP dependencies, dev included'
+    };
+
     return commands;
   }
 
@@ -1,17 +1,16 @@
 import type { DetectionContext, DetectionResult } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
 
 export class PintDetection {
   static async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.atLeast(0.7);
 
     // Check composer.json for Pint dependency
     const composerJson = context.composerJson;
     if (composerJson) {
       if (composerJson.require?.['laravel/pint'] ||
           composerJson['require-dev']?.['laravel/pint']) {
-        evidence.push('Laravel Pint found in composer.json dependencies');
-        confidence += 0.8;
+        evidence.add('Laravel Pint found in composer.json dependencies', 0.8);
       }
     }
 
@@ -22,8 +21,7 @@ export class PintDetection {
     );
 
     if (foundConfigFiles.length > 0) {
-      evidence.push(`Pint config found: ${foundConfigFiles.join(', ')}`);
-      confidence += 0.4;
+      evidence.add(`Pint config found: ${foundConfigFiles.join(', ')}`, 0.4);
     }
 
     // Check for vendor/bin/pint
@@ -32,29 +30,22 @@ export class PintDetection {
     );
 
     if (hasVendorBin) {
-      evidence.push('Pint binary found in vendor/bin');
-      confidence += 0.3;
+      evidence.add('Pint binary found in vendor/bin', 0.3);
     }
 
     // Check for Laravel framework (Pint is primarily for Laravel)
     const hasLaravel = this.hasLaravelFramework(composerJson);
-    if (hasLaravel && confidence > 0) {
-      evidence.push('Laravel framework detected (Pint\'s primary target)');
-      confidence += 0.2;
+    if (hasLaravel && evidence.confidence > 0) {
+      evidence.add('Laravel framework detected (Pint\'s primary target)', 0.2);
     }
 
-    const detected = confidence >= 0.7;
-
-    return {
-      detected,
-      confidence: Math.min(confidence, 1.0),
-      evidence,
+    return evidence.result({
       metadata: {
         hasConfigFile: foundConfigFiles.length > 0,
         hasLaravelFramework: hasLaravel,
         configFiles: foundConfigFiles
       }
-    };
+    });
   }
 
   static async detectVersion(context: DetectionContext): Promise<string | undefined> {
@@ -2,6 +2,7 @@ import fs from 'fs-extra';
 import path from 'path';
 import semver from 'semver';
 import type { DetectionContext, DetectionResult } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
 
 /**
  * Version information for React
@@ -92,31 +93,26 @@ export class ReactDetection {
    * Detect React framework
    */
   static async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.above(0.3);
 
     // Check for React in package.json dependencies
     if (context.packageJson?.dependencies?.['react']) {
-      evidence.push('react in package.json dependencies');
-      confidence += 0.9;
+      evidence.add('react in package.json dependencies', 0.9);
     }
 
     if (context.packageJson?.devDependencies?.['react']) {
-      evidence.push('react in package.json devDependencies');
-      confidence += 0.9;
+      evidence.add('react in package.json devDependencies', 0.9);
     }
 
     // Check for React DOM (stronger indicator of React app)
     if (context.packageJson?.dependencies?.['react-dom']) {
-      evidence.push('react-dom in dependencies');
-      confidence += 0.8;
+      evidence.add('react-dom in dependencies', 0.8);
     }
 
     // Check for Create React App
     if (context.packageJson?.dependencies?.['react-scripts'] ||
         context.packageJson?.devDependencies?.['react-scripts']) {
-      evidence.push('Create React App detected');
-      confidence += 0.7;
+      evidence.add('Create React App detected', 0.7);
     }
 
     // Check for Vite with React plugin
@@ -125,8 +121,7 @@ export class ReactDetection {
           context.packageJson?.devDependencies?.['@vitejs/plugin-react'] ||
           context.packageJson?.dependencies?.['@vitejs/plugin-react-swc'] ||
           context.packageJson?.devDependencies?.['@vitejs/plugin-react-swc']) {
-        evidence.push('Vite with React plugin detected');
-        confidence += 0.7;
+        evidence.add('Vite with React plugin detected', 0.7);
       }
     }
 
@@ -137,15 +132,13 @@ export class ReactDetection {
       (file.endsWith('.ts') && file.includes('src/'))
     );
     if (reactFiles.length > 0) {
-      evidence.push(`React component files found: ${reactFiles.length}`);
-      confidence += Math.min(reactFiles.length * 0.05, 0.3);
+      evidence.add(`React component files found: ${reactFiles.length}`, Math.min(reactFiles.length * 0.05, 0.3));
     }
 
     // Check for React Router
     if (context.packageJson?.dependencies?.['react-router-dom'] ||
         context.packageJson?.devDependencies?.['react-router-dom']) {
-      evidence.push('React Router detected');
-      confidence += 0.2;
+      evidence.add('React Router detected', 0.2);
     }
 
     // Check for popular React state management
@@ -153,8 +146,7 @@ export class ReactDetection {
     for (const lib of stateLibs) {
       if (context.packageJson?.dependencies?.[lib] ||
           context.packageJson?.devDependencies?.[lib]) {
-        evidence.push(`React state management (${lib}) detected`);
-        confidence += 0.1;
+        evidence.add(`React state management (${lib}) detected`, 0.1);
         break; // Only count one state management library
       }
     }
@@ -163,31 +155,23 @@ export class ReactDetection {
     const reactDirs = ['src/components', 'src/pages', 'src/hooks'];
     for (const dir of reactDirs) {
       if (context.files.some(file => file.startsWith(dir + '/'))) {
-        evidence.push(`React directory structure: ${dir}`);
-        confidence += 0.1;
+        evidence.add(`React directory structure: ${dir}`, 0.1);
       }
     }
 
     // Check for public/index.html (typical React app structure)
     if (context.files.includes('public/index.html')) {
-      evidence.push('React app structure (public/index.html)');
-      confidence += 0.1;
+      evidence.add('React app structure (public/index.html)', 0.1);
     }
 
-    // Ensure confidence doesn't exceed 1.0
-    confidence = Math.min(confidence, 1.0);
-
-    return {
-      detected: confidence > 0.3,
-      confidence,
-      evidence,
+    return evidence.result({
       metadata: {
         hasReactDOM: !!(context.packageJson?.dependencies?.['react-dom']),
         hasReactRouter: !!(context.packageJson?.dependencies?.['react-router-dom'] || context.packageJson?.devDependencies?.['react-router-dom']),
         hasCreateReactApp: !!(context.packageJson?.dependencies?.['react-scripts'] || context.packageJson?.devDependencies?.['react-scripts']),
         reactFilesCount: reactFiles.length
       }
-    };
+    });
   }
 
   /**
@@ -1,6 +1,7 @@
 import fs from 'fs-extra';
 import path from 'path';
 import type { DetectionContext, DetectionResult } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
 import { VersionUtils, type NpmVersionInfo } from '../../core/utils/VersionUtils.js';
 
 /**
@@ -11,26 +12,22 @@ export class SolidDetection {
    * Detect Solid.js framework
    */
   static async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.above(0.3);
 
     // Check for solid-js in package.json dependencies
     if (context.packageJson?.dependencies?.['solid-js']) {
-      evidence.push('solid-js in package.json dependencies');
-      confidence += 0.9;
+      evidence.add('solid-js in package.json dependencies', 0.9);
     }
 
     if (context.packageJson?.devDependencies?.['solid-js']) {
-      evidence.push('solid-js in package.json devDependencies');
-      confidence += 0.9;
+      evidence.add('solid-js in package.json devDependencies', 0.9);
     }
 
     // Check for Vite with Solid plugin
     if (context.configFiles.includes('vite.config.js') || context.configFiles.includes('vite.config.ts')) {
       if (context.packageJson?.dependencies?.['vite-plugin-solid'] ||
           context.packageJson?.devDependencies?.['vite-plugin-solid']) {
-        evidence.push('Vite with Solid plugin detected');
-        confidence += 0.8;
+        evidence.add('Vite with Solid plugin detected', 0.8);
       }
     }
 
@@ -45,8 +42,7 @@ export class SolidDetection {
     for (const tool of solidBuildTools) {
       if (context.packageJson?.dependencies?.[tool] ||
           context.packageJson?.devDependencies?.[tool]) {
-        evidence.push(`Solid build tool detected: ${tool}`);
-        confidence += 0.3;
+        evidence.add(`Solid build tool detected: ${tool}`, 0.3);
       }
     }
 
@@ -55,23 +51,20 @@ export class SolidDetection {
       file.endsWith('.jsx') || file.endsWith('.tsx')
     );
     if (jsxFiles.length > 0) {
-      evidence.push(`JSX/TSX files found: ${jsxFiles.length}`);
-      confidence += Math.min(jsxFiles.length * 0.05, 0.3);
+      evidence.add(`JSX/TSX files found: ${jsxFiles.length}`, Math.min(jsxFiles.length * 0.05, 0.3));
     }
 
     // Check for Solid-specific directories
     const solidDirs = ['src/components', 'src/routes', 'src/pages'];
     for (const dir of solidDirs) {
       if (context.files.some(file => file.startsWith(dir + '/'))) {
-        evidence.push(`Solid directory structure: ${dir}`);
-        confidence += 0.1;
+        evidence.add(`Solid directory structure: ${dir}`, 0.1);
       }
     }
 
     // Check for solid-start config
     if (context.configFiles.includes('app.config.ts') || context.configFiles.includes('app.config.js')) {
-      evidence.push('Solid Start config detected');
-      confidence += 0.3;
+      evidence.add('Solid Start config detected', 0.3);
     }
 
     // Check for Solid scripts in package.json
@@ -81,17 +74,10 @@ export class SolidDetection {
     );
 
     if (solidScripts.length > 0) {
-      evidence.push('Solid-related scripts in package.json');
-      confidence += 0.2;
+      evidence.add('Solid-related scripts in package.json', 0.2);
     }
 
-    // Ensure confidence doesn't exceed 1.0
-    confidence = Math.min(confidence, 1.0);
-
-    return {
-      detected: confidence > 0.3,
-      confidence,
-      evidence,
+    return evidence.result({
       metadata: {
         hasSolidJs: !!(context.packageJson?.dependencies?.['solid-js'] || context.packageJson?.devDependencies?.['solid-js']),
         hasVitePlugin: !!(context.packageJson?.dependencies?.['vite-plugin-solid'] || context.packageJson?.devDependencies?.['vite-plugin-solid']),
@@ -101,7 +87,7 @@ export class SolidDetection {
           context.packageJson?.dependencies?.[tool] || context.packageJson?.devDependencies?.[tool]
         )
       }
-    };
+    });
   }
 
   /**
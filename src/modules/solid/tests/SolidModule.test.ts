@@ -178,13 +178,11 @@ describe('SolidModule', () => {
       expect(paths[0].category).toBe('framework');
     });
 
-    test('should return version-specific guidelines when version provided', async () => {
+    test('should skip version-specific guidelines without a versioned directory', async () => {
       const paths = await module.getGuidelinePaths('1.8.0');
 
-      expect(paths).toHaveLength(2);
+      expect(paths).toHaveLength(1);
       expect(paths[0].path).toBe('solid/guidelines/framework.md');
-      expect(paths[1].path).toBe('solid/guidelines/1/features.md');
-      expect(paths[1].version).toBe('1');
     });
   });
 
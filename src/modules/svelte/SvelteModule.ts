@@ -8,6 +8,7 @@ import type {
 } from '../../core/types/Module.js';
 import type { StackCommands } from '../../core/StackDetector.js';
 import { SvelteDetection } from './detection.js';
+import { VersionedGuidelines } from '../../core/utils/VersionedGuidelines.js';
 
 export class SvelteModule implements FrameworkModule {
   readonly id = 'svelte';
@@ -55,15 +56,14 @@ export class SvelteModule implements FrameworkModule {
       version
     });
 
-    // Version-specific guidelines (if they exist)
-    if (version) {
-      const majorVersion = this.extractMajorVersion(version);
-      const versionSpecificPath = `svelte/guidelines/${majorVersion}/features.md`;
+    // Version-specific guidelines (nearest lower version when there is no exact match)
+    const match = version ? await VersionedGuidelines.resolve(this.id, version) : null;
+    if (match) {
       paths.push({
-        path: versionSpecificPath,
+        path: `svelte/guidelines/${match.directory}/features.md`,
         priority: 'framework',
         category: 'framework',
-        version: majorVersion
+        version: match.directory
       });
     }
 
@@ -124,6 +124,19 @@ export class SvelteModule implements FrameworkModule {
       `${packageManager} install`
     ];
 
+    // Command descriptions for the CLAUDE.md commands section
+    commands.descriptions = {
+      [`${packageManager} run dev`]: 'Start the Vite development server',
+      [`${packageManager} run build`]: 'Build for production',
+      [`${packageManager} run test`]: 'Run tests',
+      [`${packageManager} run test:vitest`]: 'Run Vitest tests',
+      [`${packageManager} run test:jest`]: 'Run Jest tests',
+      [`${packageManager} run lint`]: 'Run linter',
+      [`${packageManager} run lint:fix`]: 'Fix linting issues',
+      [`${packageManager} run check`]: 'Type-check components with svelte-check',
+      [`${packageManager} install`]: 'Install dependencies'
+    };
+
     return commands;
   }
 
@@ -135,11 +148,6 @@ export class SvelteModule implements FrameworkModule {
     return SvelteDetection.getConfigFiles();
   }
 
-  private extractMajorVersion(version: string): string {
-    const match = version.match(/^[^\d]*(\d+)/);
-    return match ? match[1] : version;
-  }
-
   private getPreferredPackageManager(packageManagers: string[]): string {
     if (packageManagers.includes('bun')) return 'bun';
     if (packageManagers.includes('yarn')) return 'yarn';
@@ -1,6 +1,7 @@
 import fs from 'fs-extra';
 import path from 'path';
 import type { DetectionContext, DetectionResult } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
 import { VersionUtils, type NpmVersionInfo } from '../../core/utils/VersionUtils.js';
 
 /**
@@ -11,26 +12,22 @@ export class SvelteDetection {
    * Detect Svelte framework
    */
   static async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.above(0.3);
 
     // Check for Svelte in package.json dependencies
     if (context.packageJson?.dependencies?.['svelte']) {
-      evidence.push('svelte in package.json dependencies');
-      confidence += 0.9;
+      evidence.add('svelte in package.json dependencies', 0.9);
     }
 
     if (context.packageJson?.devDependencies?.['svelte']) {
-      evidence.push('svelte in package.json devDependencies');
-      confidence += 0.9;
+      evidence.add('svelte in package.json devDependencies', 0.9);
     }
 
     // Check for Vite with Svelte plugin
     if (context.configFiles.includes('vite.config.js') || context.configFiles.includes('vite.config.ts')) {
       if (context.packageJson?.dependencies?.['@sveltejs/vite-plugin-svelte'] ||
           context.packageJson?.devDependencies?.['@sveltejs/vite-plugin-svelte']) {
-        evidence.push('Vite with Svelte plugin detected');
-        confidence += 0.8;
+        evidence.add('Vite with Svelte plugin detected', 0.8);
       }
     }
 
@@ -38,47 +35,37 @@ export class SvelteDetection {
     if (context.configFiles.includes('rollup.config.js')) {
       if (context.packageJson?.dependencies?.['rollup-plugin-svelte'] ||
           context.packageJson?.devDependencies?.['rollup-plugin-svelte']) {
-        evidence.push('Rollup with Svelte plugin detected');
-        confidence += 0.7;
+        evidence.add('Rollup with Svelte plugin detected', 0.7);
       }
     }
 
     // Check for .svelte files
     const svelteFiles = context.files.filter(file => file.endsWith('.svelte'));
     if (svelteFiles.length > 0) {
-      evidence.push(`Svelte component files found: ${svelteFiles.length}`);
-      confidence += Math.min(svelteFiles.length * 0.1, 0.5);
+      evidence.add(`Svelte component files found: ${svelteFiles.length}`, Math.min(svelteFiles.length * 0.1, 0.5));
     }
 
     // Check for Svelte-specific directories
     const svelteDirs = ['src/lib', 'src/routes', 'src/components'];
     for (const dir of svelteDirs) {
       if (context.files.some(file => file.startsWith(dir + '/'))) {
-        evidence.push(`Svelte directory structure: ${dir}`);
-        confidence += 0.1;
+        evidence.add(`Svelte directory structure: ${dir}`, 0.1);
       }
     }
 
     // Check for svelte.config.js
     if (context.configFiles.includes('svelte.config.js')) {
-      evidence.push('svelte.config.js found');
-      confidence += 0.7;
+      evidence.add('svelte.config.js found', 0.7);
     }
 
-    // Ensure confidence doesn't exceed 1.0
-    confidence = Math.min(confidence, 1.0);
-
-    return {
-      detected: confidence > 0.3,
-      confidence,
-      evidence,
+    return evidence.result({
       metadata: {
         hasSvelteConfig: context.configFiles.includes('svelte.config.js'),
         hasVitePlugin: !!(context.packageJson?.dependencies?.['@sveltejs/vite-plugin-svelte'] || context.packageJson?.devDependencies?.['@sveltejs/vite-plugin-svelte']),
         hasRollupPlugin: !!(context.packageJson?.dependencies?.['rollup-plugin-svelte'] || context.packageJson?.devDependencies?.['rollup-plugin-svelte']),
         svelteFilesCount: svelteFiles.length
       }
-    };
+    });
   }
 
   /**
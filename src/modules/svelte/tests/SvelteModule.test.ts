@@ -167,20 +167,11 @@ describe('SvelteModule', () => {
       expect(paths[0].category).toBe('framework');
     });
 
-    test('should return version-specific guidelines when version provided', async () => {
+    test('should skip version-specific guidelines without a versioned directory', async () => {
       const paths = await module.getGuidelinePaths('4.0.0');
 
-      expect(paths).toHaveLength(2);
+      expect(paths).toHaveLength(1);
       expect(paths[0].path).toBe('svelte/guidelines/framework.md');
-      expect(paths[1].path).toBe('svelte/guidelines/4/features.md');
-      expect(paths[1].version).toBe('4');
-    });
-
-    test('should extract major version correctly', async () => {
-      const paths = await module.getGuidelinePaths('v3.59.2');
-
-      expect(paths[1].path).toBe('svelte/guidelines/3/features.md');
-      expect(paths[1].version).toBe('3');
     });
   });
 
@@ -1,6 +1,7 @@
 import fs from 'fs-extra';
 import path from 'path';
 import type { DetectionContext, DetectionResult } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
 import { VersionUtils, type NpmVersionInfo } from '../../core/utils/VersionUtils.js';
 
 /**
@@ -11,18 +12,15 @@ export class SvelteKitDetection {
    * Detect SvelteKit framework
    */
   static async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.above(0.3);
 
     // Check for SvelteKit in package.json dependencies
     if (context.packageJson?.dependencies?.['@sveltejs/kit']) {
-      evidence.push('@sveltejs/kit in package.json dependencies');
-      confidence += 0.9;
+      evidence.add('@sveltejs/kit in package.json dependencies', 0.9);
     }
 
     if (context.packageJson?.devDependencies?.['@sveltejs/kit']) {
-      evidence.push('@sveltejs/kit in package.json devDependencies');
-      confidence += 0.9;
+      evidence.add('@sveltejs/kit in package.json devDependencies', 0.9);
     }
 
     // Check for SvelteKit adapter
@@ -37,8 +35,7 @@ export class SvelteKitDetection {
     for (const adapter of adapters) {
       if (context.packageJson?.dependencies?.[adapter] ||
           context.packageJson?.devDependencies?.[adapter]) {
-        evidence.push(`SvelteKit adapter detected: ${adapter}`);
-        confidence += 0.3;
+        evidence.add(`SvelteKit adapter detected: ${adapter}`, 0.3);
         break; // Only count one adapter
       }
     }
@@ -50,8 +47,7 @@ export class SvelteKitDetection {
         if (await fs.pathExists(configPath)) {
           const configContent = await fs.readFile(configPath, 'utf-8');
           if (configContent.includes('@sveltejs/kit') || configContent.includes('kit:')) {
-            evidence.push('svelte.config.js with SvelteKit configuration');
-            confidence += 0.8;
+            evidence.add('svelte.config.js with SvelteKit configuration', 0.8);
           }
         }
       } catch (error) {
@@ -64,13 +60,11 @@ export class SvelteKitDetection {
     for (const dir of svelteKitDirs) {
       if (dir === 'src/app.html') {
         if (context.files.includes(dir)) {
-          evidence.push(`SvelteKit file: ${dir}`);
-          confidence += 0.3;
+          evidence.add(`SvelteKit file: ${dir}`, 0.3);
         }
       } else {
         if (context.files.some(file => file.startsWith(dir + '/'))) {
-          evidence.push(`SvelteKit directory structure: ${dir}`);
-          confidence += 0.2;
+          evidence.add(`SvelteKit directory structure: ${dir}`, 0.2);
         }
       }
     }
@@ -87,31 +81,22 @@ export class SvelteKitDetection {
 
     for (const file of svelteKitFiles) {
       if (context.files.includes(file)) {
-        evidence.push(`SvelteKit file: ${file}`);
-        confidence += 0.2;
+        evidence.add(`SvelteKit file: ${file}`, 0.2);
       }
     }
 
     // Check for .svelte-kit directory (build output)
     if (context.files.some(file => file.startsWith('.svelte-kit/'))) {
-      evidence.push('SvelteKit build directory (.svelte-kit) found');
-      confidence += 0.1;
+      evidence.add('SvelteKit build directory (.svelte-kit) found', 0.1);
     }
 
     // Check for SvelteKit scripts in package.json
     const scripts = context.packageJson?.scripts || {};
     if (scripts['dev']?.includes('vite') || scripts['build']?.includes('vite') || scripts['preview']?.includes('vite')) {
-      evidence.push('SvelteKit Vite scripts in package.json');
-      confidence += 0.2;
+      evidence.add('SvelteKit Vite scripts in package.json', 0.2);
     }
 
-    // Ensure confidence doesn't exceed 1.0
-    confidence = Math.min(confidence, 1.0);
-
-    return {
-      detected: confidence > 0.3,
-      confidence,
-      evidence,
+    return evidence.result({
       metadata: {
         hasSvelteKitConfig: context.configFiles.includes('svelte.config.js'),
         hasRoutesDir: context.files.some(file => file.startsWith('src/routes/')),
@@ -120,7 +105,7 @@ export class SvelteKitDetection {
           context.packageJson?.dependencies?.[adapter] || context.packageJson?.devDependencies?.[adapter]
         )
       }
-    };
+    });
   }
 
   /**
@@ -193,20 +193,11 @@ describe('SvelteKitModule', () => {
       expect(paths[0].category).toBe('framework');
     });
 
-    test('should return version-specific guidelines when version provided', async () => {
+    test('should skip version-specific guidelines without a versioned directory', async () => {
       const paths = await module.getGuidelinePaths('2.0.0');
 
-      expect(paths).toHaveLength(2);
+      expect(paths).toHaveLength(1);
       expect(paths[0].path).toBe('sveltekit/guidelines/framework.md');
-      expect(paths[1].path).toBe('sveltekit/guidelines/2/features.md');
-      expect(paths[1].version).toBe('2');
-    });
-
-    test('should extract major version correctly', async () => {
-      const paths = await module.getGuidelinePaths('v1.30.4');
-
-      expect(paths[1].path).toBe('sveltekit/guidelines/1/features.md');
-      expect(paths[1].version).toBe('1');
     });
   });
 
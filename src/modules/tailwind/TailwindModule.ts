@@ -6,6 +6,8 @@ import type {
   ModuleMetadata,
   GuidelinePath
 } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
+import { VersionedGuidelines } from '../../core/utils/VersionedGuidelines.js';
 import type { StackCommands } from '../../core/StackDetector.js';
 
 export class TailwindModule implements LibraryModule {
@@ -27,58 +29,60 @@ export class TailwindModule implements LibraryModule {
   }
 
   async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.above(0.3);
 
     if (context.packageJson) {
       if (context.packageJson.dependencies?.tailwindcss || context.packageJson.devDependencies?.tailwindcss) {
-        evidence.push('tailwindcss in package.json dependencies');
-        confidence += 0.8;
+        evidence.add('tailwindcss in package.json dependencies', 0.8);
       }
 
       if (context.packageJson.dependencies?.['@tailwindcss/typography'] ||
           context.packageJson.devDependencies?.['@tailwindcss/typography']) {
-        evidence.push('Tailwind typography plugin detected');
-        confidence += 0.1;
+        evidence.add('Tailwind typography plugin detected', 0.1);
       }
 
       if (context.packageJson.dependencies?.['@tailwindcss/forms'] ||
           context.packageJson.devDependencies?.['@tailwindcss/forms']) {
-        evidence.push('Tailwind forms plugin detected');
-        confidence += 0.1;
+        evidence.add('Tailwind forms plugin detected', 0.1);
       }
 
       if (context.packageJson.dependencies?.['@headlessui/react'] ||
           context.packageJson.dependencies?.['@headlessui/vue'] ||
           context.packageJson.devDependencies?.['@headlessui/react'] ||
           context.packageJson.devDependencies?.['@headlessui/vue']) {
-        evidence.push('Headless UI (Tailwind companion) detected');
-        confidence += 0.1;
+        evidence.add('Headless UI (Tailwind companion) detected', 0.1);
       }
     }
 
     const configFiles = context.configFiles || [];
     if (configFiles.includes('tailwind.config.js') || configFiles.includes('tailwind.config.ts') ||
         configFiles.includes('tailwind.config.mjs') || configFiles.includes('tailwind.config.cjs')) {
-      evidence.push('Tailwind config file found');
-      confidence += 0.6;
+      evidence.add('Tailwind config file found', 0.6);
     }
 
     if (configFiles.includes('postcss.config.js') || configFiles.includes('postcss.config.ts')) {
-      evidence.push('PostCSS config found (commonly used with Tailwind)');
-      confidence += 0.1;
+      evidence.add('PostCSS config found (commonly used with Tailwind)', 0.1);
     }
 
     const files = context.files || [];
     const cssFiles = files.filter(file => file.endsWith('.css') || file.endsWith('.scss'));
-    const hasTailwindImports = cssFiles.some(file =>
+    const entryCssFiles = cssFiles.filter(file =>
       file.includes('globals.css') || file.includes('app.css') || file.includes('main.css') ||
       file.includes('index.css') || file.includes('style.css')
     );
 
-    if (hasTailwindImports) {
-      evidence.push('CSS files that commonly contain Tailwind imports found');
-      confidence += 0.2;
+    if (context.content) {
+      // Tailwind 3 directives or the Tailwind 4 import, entry stylesheets first
+      const otherCssFiles = cssFiles.filter(file => !entryCssFiles.includes(file));
+      const [tailwindCss] = await context.content.grep(
+        /@tailwind\s+(base|components|utilities)|@import\s+(url\()?["']tailwindcss/,
+        [...entryCssFiles, ...otherCssFiles]
+      );
+      if (tailwindCss) {
+        evidence.add(`Tailwind directives found in ${tailwindCss}`, 0.4);
+      }
+    } else if (entryCssFiles.length > 0) {
+      evidence.add('CSS files that commonly contain Tailwind imports found', 0.2);
     }
 
     const jsxTsxFiles = files.filter(file =>
@@ -87,15 +91,10 @@ export class TailwindModule implements LibraryModule {
     );
 
     if (jsxTsxFiles.length > 0) {
-      evidence.push(`Component files found: ${jsxTsxFiles.length} (likely to use Tailwind classes)`);
-      confidence += 0.1;
+      evidence.add(`Component files found: ${jsxTsxFiles.length} (likely to use Tailwind classes)`, 0.1);
     }
 
-    return {
-      detected: confidence > 0.3,
-      confidence: Math.min(confidence, 1),
-      evidence
-    };
+    return evidence.result();
   }
 
   async detectVersion(context: DetectionContext): Promise<string | undefined> {
@@ -122,13 +121,14 @@ export class TailwindModule implements LibraryModule {
       }
     ];
 
-    if (version) {
-      const majorVersion = version.split('.')[0];
+    // Version-specific guidelines (nearest lower version when there is no exact match)
+    const match = version ? await VersionedGuidelines.resolve(this.id, version) : null;
+    if (match) {
       paths.push({
-        path: `tailwind/guidelines/${majorVersion}/features.md`,
+        path: `tailwind/guidelines/${match.directory}/features.md`,
         priority: this.priorityType,
         category: 'framework',
-        version: majorVersion
+        version: match.directory
       });
     }
 
@@ -162,6 +162,18 @@ export class TailwindModule implements LibraryModule {
       commands.build.push(`${preferredPM === 'npm' ? 'npx' : preferredPM} postcss src/styles.css -o dist/styles.css`);
     }
 
+    // Command descriptions for the CLAUDE.md commands section
+    const runner = preferredPM === 'npm' ? 'npx' : preferredPM;
+    commands.descriptions = {
+      [`${runCmd} dev`]: 'Start development server',
+      [`${runner} tailwindcss build`]: 'Build the Tailwind CSS output',
+      [`${runCmd} build`]: 'Build for production',
+      [`${runner} postcss src/styles.css -o dist/styles.css`]: 'Process styles with PostCSS',
+      [`${runCmd} test`]: 'Run tests',
+      [`${runCmd} lint`]: 'Run linter',
+      [installCmd]: 'Install dependencies'
+    };
+
     return commands;
   }
 
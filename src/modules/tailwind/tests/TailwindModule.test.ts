@@ -1,6 +1,7 @@
 import { describe, test, expect, beforeEach } from 'bun:test';
 import { TailwindModule } from '../TailwindModule.js';
 import type { DetectionContext, ModuleContext } from '../../../core/types/Module.js';
+import { probeContents } from '../../../../tests/helpers/contentProbe.js';
 
 describe('TailwindModule', () => {
   let module: TailwindModule;
@@ -121,6 +122,41 @@ describe('TailwindModule', () => {
       expect(result.evidence).toContain('PostCSS config found (commonly used with Tailwind)');
     });
 
+    test('should detect Tailwind directives in stylesheets', async () => {
+      const context: DetectionContext = {
+        projectRoot: '/test',
+        configFiles: ['package.json'],
+        files: ['resources/css/app.css', 'resources/css/theme.css'],
+        packageJson: {},
+        composerJson: null,
+        content: probeContents({
+          'resources/css/app.css': 'body { margin: 0; }',
+          'resources/css/theme.css': '@import "tailwindcss";\n@theme { --color-brand: #f00; }'
+        })
+      };
+
+      const result = await module.detect(context);
+
+      expect(result.detected).toBe(true);
+      expect(result.evidence).toContain('Tailwind directives found in resources/css/theme.css');
+    });
+
+    test('should not trust stylesheet names when their content can be read', async () => {
+      const context: DetectionContext = {
+        projectRoot: '/test',
+        configFiles: ['package.json', 'postcss.config.js'],
+        files: ['src/styles/globals.css'],
+        packageJson: {},
+        composerJson: null,
+        content: probeContents({ 'src/styles/globals.css': '.btn { color: red; }' })
+      };
+
+      const result = await module.detect(context);
+
+      expect(result.detected).toBe(false);
+      expect(result.evidence).not.toContain('CSS files that commonly contain Tailwind imports found');
+    });
+
     test('should not detect non-Tailwind CSS project', async () => {
       const context: DetectionContext = {
         projectRoot: '/test',
@@ -190,13 +226,11 @@ describe('TailwindModule', () => {
       expect(paths[0].category).toBe('framework');
     });
 
-    test('should return version-specific guidelines when version provided', async () => {
+    test('should skip version-specific guidelines without a versioned directory', async () => {
       const paths = await module.getGuidelinePaths('3.4.1');
 
-      expect(paths).toHaveLength(2);
+      expect(paths).toHaveLength(1);
       expect(paths[0].path).toBe('tailwind/guidelines/css-framework.md');
-      expect(paths[1].path).toBe('tailwind/guidelines/3/features.md');
-      expect(paths[1].version).toBe('3');
     });
   });
 
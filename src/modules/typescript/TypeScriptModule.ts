@@ -6,6 +6,7 @@ import type {
   GuidelinePath
 } from '../../core/types/Module.js';
 import { TypeScriptDetection } from './detection.js';
+import { VersionedGuidelines } from '../../core/utils/VersionedGuidelines.js';
 
 export class TypeScriptModule implements LanguageModule {
   readonly id = 'typescript';
@@ -53,14 +54,14 @@ export class TypeScriptModule implements LanguageModule {
       version
     });
 
-    // Version-specific guidelines (if they exist)
-    if (version) {
-      const versionSpecificPath = `typescript/guidelines/${version}/features.md`;
+    // Version-specific guidelines (nearest lower version when there is no exact match)
+    const match = version ? await VersionedGuidelines.resolve(this.id, version) : null;
+    if (match) {
       paths.push({
-        path: versionSpecificPath,
+        path: `typescript/guidelines/${match.directory}/features.md`,
         priority: 'specialized-lang',
         category: 'language',
-        version
+        version: match.directory
       });
     }
 
@@ -1,6 +1,7 @@
 import fs from 'fs-extra';
 import path from 'path';
 import type { DetectionContext, DetectionResult } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
 import { VersionUtils, type NpmVersionInfo } from '../../core/utils/VersionUtils.js';
 
 /**
@@ -11,20 +12,17 @@ export class TypeScriptDetection {
    * Detect TypeScript language
    */
   static async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.above(0.3);
 
     // Check for tsconfig.json (strongest TypeScript indicator)
     if (context.configFiles.includes('tsconfig.json')) {
-      evidence.push('tsconfig.json found');
-      confidence += 0.9;
+      evidence.add('tsconfig.json found', 0.9);
     }
 
     // Check for TypeScript in package.json
     if (context.packageJson?.dependencies?.['typescript'] ||
         context.packageJson?.devDependencies?.['typescript']) {
-      evidence.push('typescript in package.json dependencies');
-      confidence += 0.8;
+      evidence.add('typescript in package.json dependencies', 0.8);
     }
 
     // Check for .ts/.tsx files
@@ -32,15 +30,13 @@ export class TypeScriptDetection {
       (file.endsWith('.ts') && !file.endsWith('.d.ts')) || file.endsWith('.tsx')
     );
     if (tsFiles.length > 0) {
-      evidence.push(`TypeScript files found: ${tsFiles.length}`);
-      confidence += Math.min(tsFiles.length * 0.1, 0.7);
+      evidence.add(`TypeScript files found: ${tsFiles.length}`, Math.min(tsFiles.length * 0.1, 0.7));
     }
 
     // Check for .d.ts files (type definitions)
     const dtsFiles = context.files.filter(file => file.endsWith('.d.ts'));
     if (dtsFiles.length > 0) {
-      evidence.push(`TypeScript declaration files found: ${dtsFiles.length}`);
-      confidence += Math.min(dtsFiles.length * 0.05, 0.3);
+      evidence.add(`TypeScript declaration files found: ${dtsFiles.length}`, Math.min(dtsFiles.length * 0.05, 0.3));
     }
 
     // Check for TypeScript-specific packages
@@ -52,8 +48,7 @@ export class TypeScriptDetection {
     for (const pkg of tsPackages) {
       if (context.packageJson?.dependencies?.[pkg] ||
           context.packageJson?.devDependencies?.[pkg]) {
-        evidence.push(`TypeScript package detected: ${pkg}`);
-        confidence += 0.1;
+        evidence.add(`TypeScript package detected: ${pkg}`, 0.1);
       }
     }
 
@@ -65,18 +60,11 @@ export class TypeScriptDetection {
 
     for (const configFile of tsConfigFiles) {
       if (context.configFiles.includes(configFile)) {
-        evidence.push(`TypeScript config file: ${configFile}`);
-        confidence += 0.2;
+        evidence.add(`TypeScript config file: ${configFile}`, 0.2);
       }
     }
 
-    // Ensure confidence doesn't exceed 1.0
-    confidence = Math.min(confidence, 1.0);
-
-    return {
-      detected: confidence > 0.3,
-      confidence,
-      evidence,
+    return evidence.result({
       metadata: {
         hasTsConfig: context.configFiles.includes('tsconfig.json'),
         hasTypeScript: !!(context.packageJson?.dependencies?.['typescript'] || context.packageJson?.devDependencies?.['typescript']),
@@ -86,7 +74,7 @@ export class TypeScriptDetection {
           context.packageJson?.dependencies?.[pkg] || context.packageJson?.devDependencies?.[pkg]
         )
       }
-    };
+    });
   }
 
   /**
@@ -192,13 +192,11 @@ describe('TypeScriptModule', () => {
       expect(paths[0].category).toBe('language');
     });
 
-    test('should return version-specific guidelines when version provided', async () => {
+    test('should skip version-specific guidelines without a versioned directory', async () => {
       const paths = await module.getGuidelinePaths('5.2');
 
-      expect(paths).toHaveLength(2);
+      expect(paths).toHaveLength(1);
       expect(paths[0].path).toBe('typescript/guidelines/language.md');
-      expect(paths[1].path).toBe('typescript/guidelines/5.2/features.md');
-      expect(paths[1].version).toBe('5.2');
     });
   });
 
@@ -102,6 +102,17 @@ export class VoltModule implements LibraryModule {
       'php artisan volt:install'     // If Volt has installation command
     ];
 
+    // Command descriptions for the CLAUDE.md commands section
+    commands.descriptions = {
+      'php artisan make:volt': 'Create a new Volt component',
+      'php artisan volt:list': 'List Volt components',
+      'php artisan serve': 'Start development server',
+      'php artisan test --filter=Volt': 'Run Volt tests',
+      'php artisan test tests/Feature/Volt/': 'Run the Volt feature tests',
+      'composer install': 'Install PHP dependencies',
+      'php artisan volt:install': 'Install Volt'
+    };
+
     return commands;
   }
 
@@ -1,42 +1,37 @@
 import type { DetectionContext, DetectionResult } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
 
 export class VoltDetection {
   static async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.atLeast(0.7);
 
     // Check composer.json for Volt dependency
     const composerJson = context.composerJson;
     if (composerJson) {
       if (composerJson.require?.['livewire/volt'] ||
           composerJson['require-dev']?.['livewire/volt']) {
-        evidence.push('Livewire Volt found in composer.json dependencies');
-        confidence += 0.8;
+        evidence.add('Livewire Volt found in composer.json dependencies', 0.8);
       }
     }
 
     // Check for Livewire dependency (required for Volt)
     const hasLivewire = this.hasLivewire(composerJson);
-    if (!hasLivewire && confidence > 0) {
-      evidence.push('Warning: Volt requires Livewire framework');
-      confidence *= 0.5; // Reduce confidence if no Livewire
+    if (!hasLivewire && evidence.confidence > 0) {
+      evidence.scale('Warning: Volt requires Livewire framework', 0.5);
     } else if (hasLivewire) {
-      evidence.push('Livewire framework detected (required for Volt)');
-      confidence += 0.3;
+      evidence.add('Livewire framework detected (required for Volt)', 0.3);
     }
 
     // Check for Laravel framework (required for both Livewire and Volt)
     const hasLaravel = this.hasLaravelFramework(composerJson);
     if (hasLaravel) {
-      evidence.push('Laravel framework detected (required for Volt)');
-      confidence += 0.2;
+      evidence.add('Laravel framework detected (required for Volt)', 0.2);
     }
 
     // Check for Volt component files
     const hasVoltComponents = this.hasVoltComponentPatterns(context.files);
     if (hasVoltComponents) {
-      evidence.push('Volt component patterns detected in Blade files');
-      confidence += 0.6;
+      evidence.add('Volt component patterns detected in Blade files', 0.6);
     }
 
     // Check for Volt-specific directories
@@ -45,8 +40,7 @@ export class VoltDetection {
     );
 
     if (hasVoltDirectories) {
-      evidence.push('Volt-specific directories found');
-      confidence += 0.4;
+      evidence.add('Volt-specific directories found', 0.4);
     }
 
     // Check for configuration files
@@ -56,23 +50,17 @@ export class VoltDetection {
     );
 
     if (foundConfigFiles.length > 0) {
-      evidence.push(`Volt/Livewire config found: ${foundConfigFiles.join(', ')}`);
-      confidence += 0.2;
+      evidence.add(`Volt/Livewire config found: ${foundConfigFiles.join(', ')}`, 0.2);
     }
 
-    const detected = confidence >= 0.7;
-
-    return {
-      detected,
-      confidence: Math.min(confidence, 1.0),
-      evidence,
+    return evidence.result({
       metadata: {
         hasLivewire,
         hasLaravelFramework: hasLaravel,
         hasVoltComponents,
         voltComponentCount: this.countVoltComponents(context.files)
       }
-    };
+    });
   }
 
   static async detectVersion(context: DetectionContext): Promise<string | undefined> {
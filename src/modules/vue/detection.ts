@@ -1,6 +1,7 @@
 import fs from 'fs-extra';
 import path from 'path';
 import type { DetectionContext, DetectionResult } from '../../core/types/Module.js';
+import { DetectionEvidence } from '../../core/utils/DetectionEvidence.js';
 import { VersionUtils, type NpmVersionInfo } from '../../core/utils/VersionUtils.js';
 
 /**
@@ -11,26 +12,22 @@ export class VueDetection {
    * Detect Vue.js framework
    */
   static async detect(context: DetectionContext): Promise<DetectionResult> {
-    const evidence: string[] = [];
-    let confidence = 0;
+    const evidence = DetectionEvidence.above(0.3);
 
     // Check for Vue in package.json dependencies
     if (context.packageJson?.dependencies?.['vue']) {
-      evidence.push('vue in package.json dependencies');
-      confidence += 0.9;
+      evidence.add('vue in package.json dependencies', 0.9);
     }
 
     if (context.packageJson?.devDependencies?.['vue']) {
-      evidence.push('vue in package.json devDependencies');
-      confidence += 0.9;
+      evidence.add('vue in package.json devDependencies', 0.9);
     }
 
     // Check for Vue-specific config files
     const vueConfigFiles = ['vue.config.js', 'vue.config.ts'];
     for (const configFile of vueConfigFiles) {
       if (context.configFiles.includes(configFile)) {
-        evidence.push(`Vue config file: ${configFile}`);
-        confidence += 0.8;
+        evidence.add(`Vue config file: ${configFile}`, 0.8);
       }
     }
 
@@ -38,23 +35,20 @@ export class VueDetection {
     if (context.configFiles.includes('vite.config.js') || context.configFiles.includes('vite.config.ts')) {
       if (context.packageJson?.dependencies?.['@vitejs/plugin-vue'] ||
           context.packageJson?.devDependencies?.['@vitejs/plugin-vue']) {
-        evidence.push('Vite with Vue plugin detected');
-        confidence += 0.7;
+        evidence.add('Vite with Vue plugin detected', 0.7);
       }
     }
 
     // Check for .vue files
     const vueFiles = context.files.filter(file => file.endsWith('.vue'));
     if (vueFiles.length > 0) {
-      evidence.push(`Vue SFC files found: ${vueFiles.length}`);
-      confidence += Math.min(vueFiles.length * 0.1, 0.5);
+      evidence.add(`Vue SFC files found: ${vueFiles.length}`, Math.min(vueFiles.length * 0.1, 0.5));
     }
 
     // Check for Vue Router
     if (context.packageJson?.dependencies?.['vue-router'] ||
         context.packageJson?.devDependencies?.['vue-router']) {
-      evidence.push('Vue Router detected');
-      confidence += 0.2;
+      evidence.add('Vue Router detected', 0.2);
     }
 
     // Check for Vuex or Pinia
@@ -62,26 +56,18 @@ export class VueDetection {
         context.packageJson?.devDependencies?.['vuex'] ||
         context.packageJson?.dependencies?.['pinia'] ||
         context.packageJson?.devDependencies?.['pinia']) {
-      evidence.push('Vue state management (Vuex/Pinia) detected');
-      confidence += 0.2;
+      evidence.add('Vue state management (Vuex/Pinia) detected', 0.2);
     }
 
     // Check for Vue-specific directories
     const vueDirs = ['src/components', 'src/views', 'src/pages'];
     for (const dir of vueDirs) {
       if (context.files.some(file => file.startsWith(dir + '/'))) {
-        evidence.push(`Vue directory structure: ${dir}`);
-        confidence += 0.1;
+        evidence.add(`Vue directory structure: ${dir}`, 0.1);
       }
     }
 
-    // Ensure confidence doesn't exceed 1.0
-    confidence = Math.min(confidence, 1.0);
-
-    return {
-      detected: confidence > 0.3,
-      confidence,
-      evidence,
+    return evidence.result({
       metadata: {
         hasVueConfig: vueConfigFiles.some(file => context.configFiles.includes(file)),
         hasVueRouter: !!(context.packageJson?.dependencies?.['vue-router'] || context.packageJson?.devDependencies?.['vue-router']),
@@ -91,7 +77,7 @@ export class VueDetection {
         ),
         vueFilesCount: vueFiles.length
       }
-    };
+    });
   }
 
   /**
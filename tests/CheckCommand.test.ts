@@ -0,0 +1,109 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
+import { CheckCommand, CHECK_EXIT_CODES } from '../src/commands/CheckCommand.js';
+import { InitCommand } from '../src/commands/InitCommand.js';
+import { Fingerprint } from '../src/core/Fingerprint.js';
+import { StackDetector } from '../src/core/StackDetector.js';
+
+describe('CheckCommand', () => {
+  let tmpDir: string;
+  let originalCwd: string;
+  let claudeMdPath: string;
+  let checkCommand: CheckCommand;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'franken-ai-check-test-'));
+    originalCwd = process.cwd();
+    process.chdir(tmpDir);
+    claudeMdPath = path.join(tmpDir, 'CLAUDE.md');
+    checkCommand = new CheckCommand();
+
+    await fs.writeJson(path.join(tmpDir, 'package.json'), {
+      dependencies: { react: '^18.2.0', 'react-dom': '^18.2.0' }
+    });
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    process.exitCode = 0;
+    await fs.remove(tmpDir);
+  });
+
+  const init = () => new InitCommand().execute({ yes: true, force: true, target: 'claude', silent: true });
+
+  test('should expose signature metadata', () => {
+    const signature = checkCommand.getSignature();
+
+    expect(signature.name).toBe('check');
+    expect(signature.category).toBe('Setup');
+  });
+
+  test('should embed a fingerprint when generating CLAUDE.md', async () => {
+    await init();
+
+    const fingerprint = Fingerprint.parse(await fs.readFile(claudeMdPath, 'utf-8'));
+    expect(fingerprint?.modules).toContain('react@18');
+    expect(Object.keys(fingerprint?.sections ?? {})).toContain('stack');
+  });
+
+  test('should exit zero when CLAUDE.md is up to date', async () => {
+    await init();
+
+    await checkCommand.execute();
+
+    expect(process.exitCode).toBe(CHECK_EXIT_CODES.upToDate);
+  });
+
+  test('should report missing CLAUDE.md or fingerprint', async () => {
+    await checkCommand.execute();
+    expect(process.exitCode).toBe(CHECK_EXIT_CODES.missing);
+
+    process.exitCode = 0;
+    await init();
+    await fs.writeFile(claudeMdPath, Fingerprint.strip(await fs.readFile(claudeMdPath, 'utf-8')));
+
+    await checkCommand.execute();
+    expect(process.exitCode).toBe(CHECK_EXIT_CODES.missing);
+  });
+
+  test('should report stale CLAUDE.md when a framework version changes', async () => {
+    await init();
+    await fs.writeJson(path.join(tmpDir, 'package.json'), {
+      dependencies: { react: '^19.0.0', 'react-dom': '^19.0.0' }
+    });
+
+    await checkCommand.execute();
+
+    expect(process.exitCode).toBe(CHECK_EXIT_CODES.stale);
+  });
+
+  test('should prefer hand-edited over stale', async () => {
+    await init();
+    const content = await fs.readFile(claudeMdPath, 'utf-8');
+    await fs.writeFile(claudeMdPath, content.replace('npm run dev', 'npm start'));
+    await fs.writeJson(path.join(tmpDir, 'package.json'), {
+      dependencies: { react: '^19.0.0', 'react-dom': '^19.0.0' }
+    });
+
+    await checkCommand.execute();
+
+    expect(process.exitCode).toBe(CHECK_EXIT_CODES.edited);
+  });
+
+  test('should report a failing check apart from a stale CLAUDE.md', async () => {
+    await init();
+    const detect = spyOn(StackDetector.prototype, 'detect').mockRejectedValue(new Error('detection failed'));
+    const error = spyOn(console, 'error').mockImplementation(() => {});
+
+    try {
+      await checkCommand.execute();
+    } finally {
+      detect.mockRestore();
+      error.mockRestore();
+    }
+
+    expect(process.exitCode).toBe(CHECK_EXIT_CODES.error);
+  });
+});
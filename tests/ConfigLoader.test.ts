@@ -0,0 +1,73 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
+import { ConfigLoader, CONFIG_FILE } from '../src/core/ConfigLoader.js';
+
+describe('ConfigLoader', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'franken-ai-config-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmpDir);
+  });
+
+  test('should return an empty config when the file does not exist', async () => {
+    expect(await ConfigLoader.load(tmpDir)).toEqual({});
+  });
+
+  test('should load a valid config', async () => {
+    const config = {
+      modules: ['tailwind', { id: 'bootstrap', enabled: false }],
+      versions: { laravel: '11' },
+      guidelines: ['docs/ai/conventions.md'],
+      targets: ['claude', 'cursor'],
+      sections: ['stack', 'guidelines'],
+      maxTokens: 8000
+    };
+    await fs.writeJson(path.join(tmpDir, CONFIG_FILE), config);
+
+    expect(await ConfigLoader.load(tmpDir)).toEqual(config);
+  });
+
+  test('should split enabled and disabled modules', () => {
+    const config = {
+      modules: ['tailwind', { id: 'react', enabled: true }, { id: 'bootstrap', enabled: false }]
+    };
+
+    expect(ConfigLoader.getEnabledModules(config)).toEqual(['tailwind', 'react']);
+    expect(ConfigLoader.getDisabledModules(config)).toEqual(['bootstrap']);
+  });
+
+  test('should reject malformed JSON', async () => {
+    await fs.writeFile(path.join(tmpDir, CONFIG_FILE), '{ modules: [');
+
+    await expect(ConfigLoader.load(tmpDir)).rejects.toThrow(`Invalid ${CONFIG_FILE}`);
+  });
+
+  test('should reject invalid fields', async () => {
+    const cases = [
+      { config: [], message: 'expected a JSON object' },
+      { config: { modules: [42] }, message: '"modules"' },
+      { config: { versions: { laravel: 11 } }, message: '"versions"' },
+      { config: { guidelines: 'docs/ai.md' }, message: '"guidelines"' },
+      { config: { targets: [true] }, message: '"targets"' },
+      { config: { sections: ['stack', 'tools'] }, message: 'unknown section(s) in "sections": tools' },
+      { config: { maxTokens: '8k' }, message: '"maxTokens"' },
+      { config: { scan: ['public/'] }, message: '"scan" must be an object' },
+      { config: { scan: { ignore: 'storage/' } }, message: '"scan.ignore"' },
+      { config: { scan: { maxDepth: -1 } }, message: '"scan.maxDepth"' },
+      { config: { scan: { maxFiles: 0 } }, message: '"scan.maxFiles"' },
+      { config: { workspaces: { packages: 'apps/*' } }, message: '"workspaces.packages"' },
+      { config: { workspaces: { nested: 'yes' } }, message: '"workspaces.nested"' }
+    ];
+
+    for (const { config, message } of cases) {
+      await fs.writeJson(path.join(tmpDir, CONFIG_FILE), config);
+      await expect(ConfigLoader.load(tmpDir)).rejects.toThrow(message);
+    }
+  });
+});
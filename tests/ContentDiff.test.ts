@@ -0,0 +1,108 @@
+import { describe, test, expect } from 'bun:test';
+import { ContentDiff } from '../src/core/ContentDiff.js';
+import { DiffUtils } from '../src/core/utils/DiffUtils.js';
+
+describe('ContentDiff', () => {
+  const block = (name: string, body: string) =>
+    `[//]: # (franken-ai:${name}:start)\n${body}\n[//]: # (franken-ai:${name}:end)`;
+
+  describe('DiffUtils', () => {
+    test('should produce an empty diff for identical content', () => {
+      expect(DiffUtils.formatUnified('a\nb', 'a\nb')).toBe('');
+    });
+
+    test('should render a unified diff with context', () => {
+      const oldText = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight'].join('\n');
+      const newText = ['one', 'two', 'three', 'four', 'FIVE', 'six', 'seven', 'eight', 'nine'].join('\n');
+
+      const diff = DiffUtils.formatUnified(oldText, newText, {
+        oldLabel: 'a/CLAUDE.md',
+        newLabel: 'b/CLAUDE.md',
+        color: false
+      });
+
+      expect(diff).toBe([
+        '--- a/CLAUDE.md',
+        '+++ b/CLAUDE.md',
+        '@@ -2,7 +2,8 @@',
+        ' two',
+        ' three',
+        ' four',
+        '-five',
+        '+FIVE',
+        ' six',
+        ' seven',
+        ' eight',
+        '+nine'
+      ].join('\n'));
+    });
+
+    test('should split distant changes into separate hunks', () => {
+      const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+      const newLines = [...oldLines];
+      newLines[1] = 'changed 2';
+      newLines[17] = 'changed 18';
+
+      const hunks = DiffUtils.createHunks(DiffUtils.diffLines(oldLines.join('\n'), newLines.join('\n')));
+
+      expect(hunks).toHaveLength(2);
+      expect(hunks[0]).toMatchObject({ oldStart: 1, oldLines: 5, newStart: 1, newLines: 5 });
+      expect(hunks[1]).toMatchObject({ oldStart: 15, oldLines: 6, newStart: 15, newLines: 6 });
+    });
+
+    test('should diff against an empty file', () => {
+      const diff = DiffUtils.formatUnified('', 'a\nb', { color: false });
+      expect(diff).toContain('@@ -0,0 +1,2 @@');
+      expect(diff).toContain('+a\n+b');
+    });
+  });
+
+  test('should report section statuses', () => {
+    const current = [
+      '# Notes',
+      block('stack', 'React'),
+      block('commands', 'npm run dev'),
+      block('workflow', 'old workflow')
+    ].join('\n\n');
+    const pending = [
+      '# Notes',
+      block('stack', 'React'),
+      block('commands', 'bun run dev'),
+      block('guidelines', 'React Framework Guidelines')
+    ].join('\n\n');
+
+    expect(ContentDiff.compareSections(current, pending)).toEqual([
+      { name: 'stack', status: 'unchanged' },
+      { name: 'commands', status: 'changed' },
+      { name: 'workflow', status: 'removed' },
+      { name: 'guidelines', status: 'added' }
+    ]);
+  });
+
+  test('should flag missing files as new', () => {
+    const result = ContentDiff.compare('CLAUDE.md', null, block('stack', 'React'), false);
+
+    expect(result.exists).toBe(false);
+    expect(result.hasChanges).toBe(true);
+    expect(result.sections).toEqual([{ name: 'stack', status: 'added' }]);
+    expect(result.unified.startsWith('--- /dev/null\n+++ b/CLAUDE.md')).toBe(true);
+  });
+
+  test('should flag files to delete as removed', () => {
+    const result = ContentDiff.compare('.cursor/rules/franken-ai-vue.mdc', 'Vue rules\n', null, false);
+
+    expect(result.removed).toBe(true);
+    expect(result.hasChanges).toBe(true);
+    expect(result.unified.startsWith('--- a/.cursor/rules/franken-ai-vue.mdc\n+++ /dev/null')).toBe(true);
+    expect(ContentDiff.formatReport(result)[0]).toContain('removed');
+  });
+
+  test('should report no changes for identical content', () => {
+    const content = block('stack', 'React');
+    const result = ContentDiff.compare('CLAUDE.md', content, content);
+
+    expect(result.hasChanges).toBe(false);
+    expect(result.unified).toBe('');
+    expect(ContentDiff.formatReport(result)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
+import { DetectCommand } from '../src/commands/DetectCommand.js';
+
+describe('DetectCommand', () => {
+  let tmpDir: string;
+  let originalCwd: string;
+  let detectCommand: DetectCommand;
+  let output: string[];
+  const originalConsoleLog = console.log;
+  const originalConsoleError = console.error;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'franken-ai-detect-test-'));
+    originalCwd = process.cwd();
+    process.chdir(tmpDir);
+    detectCommand = new DetectCommand();
+    output = [];
+    console.log = (...args: any[]) => {
+      output.push(args.join(' '));
+    };
+    console.error = console.log;
+
+    await fs.writeJson(path.join(tmpDir, 'package.json'), {
+      dependencies: { next: '^14.0.0', react: '^18.2.0' }
+    });
+  });
+
+  afterEach(async () => {
+    console.log = originalConsoleLog;
+    console.error = originalConsoleError;
+    process.chdir(originalCwd);
+    process.exitCode = 0;
+    await fs.remove(tmpDir);
+  });
+
+  // Output after the "Detecting Project Stack..." header
+  const result = () => output.slice(2).join('\n');
+
+  test('should include module detections in the JSON output', async () => {
+    await detectCommand.execute({ json: true, cache: false });
+
+    const stack = JSON.parse(result());
+    expect(stack.detections).toContainEqual(expect.objectContaining({ module: 'react', detected: false, excludedBy: ['next'] }));
+  });
+
+  test('should explain evidence, threshold and exclusions of a module', async () => {
+    await detectCommand.execute({ explain: 'react', cache: false });
+
+    expect(result()).toContain('Detection of react');
+    expect(result()).toContain('react in package.json dependencies');
+    expect(result()).toContain('+0.90');
+    expect(result()).toContain('(needs > 0.3)');
+    expect(result()).toContain('Detected, but excluded by next (not included)');
+  });
+
+  test('should explain a module as JSON', async () => {
+    await detectCommand.execute({ explain: 'next', json: true, cache: false });
+
+    expect(JSON.parse(result())).toMatchObject({ module: 'next', detected: true, excludes: ['react'] });
+  });
+
+  test('should reject unknown modules', async () => {
+    await detectCommand.execute({ explain: 'cobol', cache: false });
+
+    expect(result()).toContain('Unknown module: cobol');
+    expect(process.exitCode).toBe(1);
+  });
+});
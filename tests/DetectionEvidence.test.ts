@@ -0,0 +1,42 @@
+import { describe, test, expect } from 'bun:test';
+import { DetectionEvidence } from '../src/core/utils/DetectionEvidence.js';
+
+describe('DetectionEvidence', () => {
+  test('should record each evidence item with its contribution', () => {
+    const evidence = DetectionEvidence.atLeast(0.6);
+    evidence.add('livewire/flux in composer.json', 0.7);
+    evidence.scale('Livewire missing', 0.5);
+    evidence.add('Blade views found');
+
+    expect(evidence.result()).toEqual({
+      detected: false,
+      confidence: 0.35,
+      evidence: ['livewire/flux in composer.json', 'Livewire missing', 'Blade views found'],
+      contributions: [
+        { evidence: 'livewire/flux in composer.json', confidence: 0.7 },
+        { evidence: 'Livewire missing', factor: 0.5 },
+        { evidence: 'Blade views found' }
+      ],
+      threshold: { minimum: 0.6, inclusive: true }
+    });
+  });
+
+  test('should compare against exclusive and inclusive thresholds', () => {
+    const above = DetectionEvidence.above(0.3);
+    const atLeast = DetectionEvidence.atLeast(0.3);
+    above.add('config file', 0.3);
+    atLeast.add('config file', 0.3);
+
+    expect(above.detected).toBe(false);
+    expect(atLeast.detected).toBe(true);
+  });
+
+  test('should cap the reported confidence at 1', () => {
+    const evidence = DetectionEvidence.above(0.3);
+    evidence.add('dependency', 0.9);
+    evidence.add('config file', 0.7);
+
+    expect(evidence.confidence).toBeCloseTo(1.6);
+    expect(evidence.result({ excludes: ['react'] })).toMatchObject({ detected: true, confidence: 1, excludes: ['react'] });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
+import { DiffCommand } from '../src/commands/DiffCommand.js';
+import { InitCommand } from '../src/commands/InitCommand.js';
+
+describe('DiffCommand', () => {
+  let tmpDir: string;
+  let originalCwd: string;
+  let diffCommand: DiffCommand;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'franken-ai-diff-test-'));
+    originalCwd = process.cwd();
+    process.chdir(tmpDir);
+    diffCommand = new DiffCommand();
+
+    await fs.writeJson(path.join(tmpDir, 'package.json'), {
+      dependencies: { react: '^18.2.0', 'react-dom': '^18.2.0' }
+    });
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    process.exitCode = 0;
+    await fs.remove(tmpDir);
+  });
+
+  test('should expose signature metadata', () => {
+    const signature = diffCommand.getSignature();
+
+    expect(signature.name).toBe('diff');
+    expect(signature.category).toBe('Setup');
+    expect(signature.options?.map(o => o.flags)).toContain('-t, --target <targets>');
+  });
+
+  test('should exit non-zero when CLAUDE.md does not exist yet', async () => {
+    await diffCommand.execute({ target: 'claude' });
+
+    expect(process.exitCode).toBe(1);
+    expect(await fs.pathExists(path.join(tmpDir, 'CLAUDE.md'))).toBe(false);
+  });
+
+  test('should exit zero when generated files are up to date', async () => {
+    await new InitCommand().execute({ yes: true, force: true, target: 'claude', silent: true });
+
+    await diffCommand.execute({ target: 'claude' });
+
+    expect(process.exitCode).toBe(0);
+  });
+
+  test('should exit non-zero without writing when a section changed', async () => {
+    await new InitCommand().execute({ yes: true, force: true, target: 'claude', silent: true });
+
+    const claudeMdPath = path.join(tmpDir, 'CLAUDE.md');
+    const edited = (await fs.readFile(claudeMdPath, 'utf-8')).replace('npm run dev', 'npm start');
+    await fs.writeFile(claudeMdPath, edited);
+
+    await diffCommand.execute({ target: 'claude' });
+
+    expect(process.exitCode).toBe(1);
+    expect(await fs.readFile(claudeMdPath, 'utf-8')).toBe(edited);
+  });
+
+  test('should reject unknown targets', async () => {
+    await diffCommand.execute({ target: 'vim' });
+
+    expect(process.exitCode).toBe(1);
+  });
+});
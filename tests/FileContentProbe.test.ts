@@ -0,0 +1,75 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
+import { FileContentProbe } from '../src/core/FileContentProbe.js';
+
+describe('FileContentProbe', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'franken-ai-content-probe-test-'));
+    await fs.outputFile(path.join(tmpDir, 'resources', 'js', 'app.ts'), "import { createInertiaApp } from '@inertiajs/vue3';\n");
+    await fs.outputFile(path.join(tmpDir, 'resources', 'css', 'app.css'), '@import "tailwindcss";\n');
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmpDir);
+  });
+
+  describe('readFile', () => {
+    test('should read and cache files relative to the project root', async () => {
+      const probe = new FileContentProbe(tmpDir);
+
+      expect(await probe.readFile('resources/css/app.css')).toBe('@import "tailwindcss";\n');
+      await fs.writeFile(path.join(tmpDir, 'resources', 'css', 'app.css'), 'body {}');
+      expect(await probe.readFile('resources/css/app.css')).toBe('@import "tailwindcss";\n');
+      expect(probe.getReadFiles()).toEqual(['resources/css/app.css']);
+    });
+
+    test('should return null for missing files and paths outside the project', async () => {
+      const probe = new FileContentProbe(tmpDir);
+
+      expect(await probe.readFile('resources/css/missing.css')).toBeNull();
+      expect(await probe.readFile('resources')).toBeNull();
+      expect(await probe.readFile('../outside.txt')).toBeNull();
+      expect(probe.getReadFiles()).toEqual([]);
+    });
+
+    test('should only read the start of large files', async () => {
+      const probe = new FileContentProbe(tmpDir, { maxFileBytes: 8 });
+
+      expect(await probe.readFile('resources/css/app.css')).toBe('@import ');
+    });
+
+    test('should stop reading once the byte budget is spent', async () => {
+      const probe = new FileContentProbe(tmpDir, { byteBudget: 30 });
+
+      expect(await probe.readFile('resources/css/app.css')).toHaveLength(23);
+      expect(await probe.readFile('resources/js/app.ts')).toHaveLength(7);
+      expect(probe.isExhausted()).toBe(true);
+      await fs.outputFile(path.join(tmpDir, 'resources', 'css', 'theme.css'), '@tailwind base;');
+      expect(await probe.readFile('resources/css/theme.css')).toBeNull();
+    });
+  });
+
+  describe('grep', () => {
+    test('should return matching files up to the limit', async () => {
+      const probe = new FileContentProbe(tmpDir);
+      const files = ['resources/js/app.ts', 'resources/css/app.css'];
+
+      expect(await probe.grep(/createInertiaApp/, files)).toEqual(['resources/js/app.ts']);
+      expect(await probe.grep(/import/, files)).toEqual(['resources/js/app.ts']);
+      expect(await probe.grep(/import/, files, 2)).toEqual(files);
+      expect(await probe.grep(/<flux:/, files)).toEqual([]);
+    });
+
+    test('should not read further files after a match', async () => {
+      const probe = new FileContentProbe(tmpDir);
+
+      await probe.grep(/createInertiaApp/, ['resources/js/app.ts', 'resources/css/app.css']);
+
+      expect(probe.getReadFiles()).toEqual(['resources/js/app.ts']);
+    });
+  });
+});
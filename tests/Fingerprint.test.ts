@@ -0,0 +1,61 @@
+import { describe, test, expect } from 'bun:test';
+import { Fingerprint, type FingerprintInputs } from '../src/core/Fingerprint.js';
+
+describe('Fingerprint', () => {
+  const block = (name: string, body: string) =>
+    `[//]: # (franken-ai:${name}:start)\n${body}\n[//]: # (franken-ai:${name}:end)`;
+
+  const content = ['# Team Notes', block('stack', 'React'), block('commands', 'npm run dev')].join('\n\n');
+  const inputs: FingerprintInputs = {
+    franken: '0.1.0',
+    modules: ['react@18', 'tailwind'],
+    guidelines: Fingerprint.hash('guidelines')
+  };
+
+  test('should embed the marker above the first section and parse it back', () => {
+    const data = Fingerprint.create(inputs, content);
+    const signed = Fingerprint.embed(content, data);
+
+    expect(signed.startsWith('# Team Notes\n\n[//]: # (franken-ai:fingerprint hash=')).toBe(true);
+    expect(Fingerprint.parse(signed)).toEqual(data);
+    expect(Fingerprint.strip(signed)).toBe(content);
+  });
+
+  test('should replace an existing marker instead of adding a second one', () => {
+    const signed = Fingerprint.embed(content, Fingerprint.create(inputs, content));
+    const resigned = Fingerprint.embed(signed, Fingerprint.create({ ...inputs, franken: '0.2.0' }, content));
+
+    expect(resigned.match(/franken-ai:fingerprint/g)).toHaveLength(1);
+    expect(Fingerprint.parse(resigned)?.franken).toBe('0.2.0');
+  });
+
+  test('should return null for content without a fingerprint', () => {
+    expect(Fingerprint.parse(content)).toBeNull();
+  });
+
+  test('should report module, version and guideline drift', () => {
+    const stored = Fingerprint.create(inputs, content);
+    const drift = Fingerprint.compare(stored, {
+      franken: '0.1.0',
+      modules: ['react@19', 'vite'],
+      guidelines: Fingerprint.hash('changed guidelines')
+    }, content);
+
+    expect(drift.franken).toBeUndefined();
+    expect(drift.modulesAdded).toEqual(['vite']);
+    expect(drift.modulesRemoved).toEqual(['tailwind']);
+    expect(drift.versionsChanged).toEqual([{ module: 'react', from: '18', to: '19' }]);
+    expect(drift.guidelinesChanged).toBe(true);
+    expect(drift.editedSections).toEqual([]);
+    expect(Fingerprint.isStale(drift)).toBe(true);
+  });
+
+  test('should detect hand-edited sections without flagging them as stale', () => {
+    const stored = Fingerprint.create(inputs, content);
+    const edited = content.replace('npm run dev', 'npm start');
+    const drift = Fingerprint.compare(stored, inputs, edited);
+
+    expect(drift.editedSections).toEqual(['commands']);
+    expect(Fingerprint.isStale(drift)).toBe(false);
+  });
+});
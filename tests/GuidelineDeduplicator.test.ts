@@ -0,0 +1,57 @@
+import { describe, test, expect } from 'bun:test';
+import { GuidelineDeduplicator, type DeduplicatedGuideline } from '../src/core/GuidelineDeduplicator.js';
+
+describe('GuidelineDeduplicator', () => {
+  const hooks = [
+    '## Hooks',
+    '- Call hooks at the top level of components, never in loops or conditions',
+    '- Keep effects small and list every dependency'
+  ].join('\n');
+
+  test('should remove near-duplicate sections from later guidelines', () => {
+    const guidelines: DeduplicatedGuideline[] = [
+      { path: 'next.md', content: `# Next.js\n\n${hooks}\n\n## Routing\n- Use the App Router` },
+      { path: 'react.md', content: `# React\n\n${hooks.replace('small', 'very small')}\n\n## State\n- Lift state up` }
+    ];
+
+    const result = GuidelineDeduplicator.deduplicate(guidelines);
+
+    expect(result.guidelines[0].content).toBe(guidelines[0].content);
+    expect(result.guidelines[1].content).toBe('# React\n\n## State\n- Lift state up');
+    expect(result.merges).toEqual([{ path: 'react.md', keptIn: 'next.md', kind: 'section', label: 'Hooks' }]);
+  });
+
+  test('should keep sections with the same heading but different content', () => {
+    const guidelines: DeduplicatedGuideline[] = [
+      { path: 'next.md', content: '## What NOT to Do\n- Don\'t use the Pages Router for new projects' },
+      { path: 'react.md', content: '## What NOT to Do\n- Don\'t use class components for new development' }
+    ];
+
+    const result = GuidelineDeduplicator.deduplicate(guidelines);
+
+    expect(result.merges).toEqual([]);
+    expect(result.guidelines).toEqual(guidelines);
+  });
+
+  test('should remove identical code blocks and headings left empty', () => {
+    const code = '```bash\nnpm install\nnpm run build\nnpm run test\n```';
+    const guidelines: DeduplicatedGuideline[] = [
+      { path: 'a.md', content: `## Setup\n${code}` },
+      { path: 'b.md', content: `## Build\n\n### Commands\n${code}\n\n## Other\nText` }
+    ];
+
+    const result = GuidelineDeduplicator.deduplicate(guidelines);
+
+    expect(result.guidelines[1].content).toBe('## Other\nText');
+    expect(result.merges).toEqual([{ path: 'b.md', keptIn: 'a.md', kind: 'code', label: 'npm install' }]);
+  });
+
+  test('should only compare guidelines written for the same audience', () => {
+    const guidelines: DeduplicatedGuideline[] = [
+      { path: 'claude.md', content: hooks, audience: 'claude' },
+      { path: 'gemini.md', content: hooks, audience: 'gemini' }
+    ];
+
+    expect(GuidelineDeduplicator.deduplicate(guidelines).merges).toEqual([]);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, test, expect } from 'bun:test';
+import { GuidelineFrontMatter } from '../src/core/GuidelineFrontMatter.js';
+
+describe('GuidelineFrontMatter', () => {
+  const file = 'laravel/guidelines/features.md';
+
+  test('should split the front-matter from the markdown', () => {
+    const raw = [
+      '---',
+      'title: Laravel 11 Features',
+      'appliesTo: ">=11 <12"',
+      'requiresModules: [livewire]',
+      'priority: meta-framework',
+      '---',
+      '',
+      '# Laravel 11'
+    ].join('\n');
+
+    const parsed = GuidelineFrontMatter.parse(raw, file);
+
+    expect(parsed.metadata).toEqual({
+      title: 'Laravel 11 Features',
+      appliesTo: '>=11 <12',
+      requiresModules: ['livewire'],
+      priority: 'meta-framework'
+    });
+    expect(parsed.content).toBe('# Laravel 11');
+  });
+
+  test('should leave files without front-matter untouched', () => {
+    const parsed = GuidelineFrontMatter.parse('# Guide\n\n---\n', file);
+
+    expect(parsed.metadata).toEqual({});
+    expect(parsed.content).toBe('# Guide\n\n---\n');
+  });
+
+  test('should report invalid front-matter with file and line', () => {
+    expect(() => GuidelineFrontMatter.parse('---\ntitle: Guide\ncategory: styling\n---\n', file))
+      .toThrow(`Invalid front-matter in ${file} (line 3): "category" must be one of`);
+    expect(() => GuidelineFrontMatter.parse('---\ntitle: Guide\nappliesTo: "not a range"\n---\n', file))
+      .toThrow(`Invalid front-matter in ${file} (line 3): "appliesTo"`);
+    expect(() => GuidelineFrontMatter.parse('---\ntitle: Guide\nrequires: [livewire]\n---\n', file))
+      .toThrow(`Invalid front-matter in ${file} (line 3): "requires" is not a known front-matter key`);
+    expect(() => GuidelineFrontMatter.parse('---\ntitle: [Guide\n---\n', file))
+      .toThrow(`Invalid front-matter in ${file} (line 3)`);
+    expect(() => GuidelineFrontMatter.parse('---\ntitle: Guide\n', file))
+      .toThrow(`Invalid front-matter in ${file} (line 1): front-matter is not closed`);
+  });
+
+  test('should match version ranges against the module version', () => {
+    const versions = new Map([['laravel', '^11.9'], ['php', '8.3']]);
+
+    expect(GuidelineFrontMatter.isApplicable({ appliesTo: '>=11 <12' }, 'laravel', ['laravel'], versions, file)).toBe(true);
+    expect(GuidelineFrontMatter.isApplicable({ appliesTo: '>=12' }, 'laravel', ['laravel'], versions, file)).toBe(false);
+    expect(GuidelineFrontMatter.isApplicable({ appliesTo: { php: '>=8.2' } }, undefined, [], versions, file)).toBe(true);
+    expect(GuidelineFrontMatter.isApplicable({ appliesTo: { vue: '>=3' } }, undefined, [], versions, file)).toBe(false);
+    expect(() => GuidelineFrontMatter.isApplicable({ appliesTo: '>=11' }, undefined, [], versions, file))
+      .toThrow(`Invalid front-matter in ${file}`);
+  });
+
+  test('should require and exclude modules', () => {
+    const metadata = { requiresModules: ['livewire'], excludeWhenModules: ['inertia'] };
+
+    expect(GuidelineFrontMatter.isApplicable(metadata, 'laravel', ['laravel', 'livewire'], undefined, file)).toBe(true);
+    expect(GuidelineFrontMatter.isApplicable(metadata, 'laravel', ['laravel'], undefined, file)).toBe(false);
+    expect(GuidelineFrontMatter.isApplicable(metadata, 'laravel', ['laravel', 'livewire', 'inertia'], undefined, file)).toBe(false);
+  });
+});
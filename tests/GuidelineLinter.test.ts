@@ -0,0 +1,141 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
+import { GuidelineLinter } from '../src/core/GuidelineLinter.js';
+import type { GuidelinePath } from '../src/core/types/Module.js';
+import { lintGuidelineErrors } from './helpers/lintGuidelines.js';
+
+/**
+ * Files modules declare but do not ship yet
+ */
+const KNOWN_MISSING = [
+  'astro/guidelines/framework.md',
+  'flux-pro/guidelines/pro-features.md',
+  'folio/guidelines/page-organization.md',
+  'inertia/guidelines/laravel-tool.md',
+  'pest/guidelines/laravel-integration.md',
+  'pint/guidelines/laravel-integration.md',
+  'solid/guidelines/framework.md',
+  'volt/guidelines/livewire-integration.md',
+  'volt/guidelines/testing.md'
+];
+
+describe('GuidelineLinter', () => {
+  describe('lintContent', () => {
+    test('should accept a well-formed guideline', () => {
+      const content = [
+        '---',
+        'audience: claude',
+        '---',
+        '# Guide',
+        '',
+        '```ts',
+        '# not a heading',
+        '```'
+      ].join('\n');
+
+      expect(GuidelineLinter.lintContent(content, 'react/guidelines/framework.md')).toEqual([]);
+    });
+
+    test('should report unclosed code fences with their line', () => {
+      const content = ['# Guide', '', '```php', 'echo 1;', '~~~'].join('\n');
+
+      expect(GuidelineLinter.lintContent(content, 'laravel/guidelines/framework.md')).toEqual([
+        { file: 'laravel/guidelines/framework.md', severity: 'error', rule: 'code-fence', message: 'Unclosed code fence', line: 3 }
+      ]);
+    });
+
+    test('should warn about missing or repeated top-level headings', () => {
+      const none = GuidelineLinter.lintContent('## Section', 'vue/guidelines/framework.md');
+      const several = GuidelineLinter.lintContent('# One\n\n# Two', 'vue/guidelines/framework.md');
+
+      expect(none).toMatchObject([{ severity: 'warning', rule: 'heading' }]);
+      expect(several).toMatchObject([{ severity: 'warning', rule: 'heading', line: 3 }]);
+    });
+
+    test('should report malformed front-matter, templates and optional blocks', () => {
+      const template = GuidelineLinter.lintContent('# Guide\n{{#if module.vue}}\nVue', 'inertia/guidelines/framework.md');
+      const frontMatter = GuidelineLinter.lintContent('---\naudience: robots\n---\n# Guide', 'inertia/guidelines/framework.md');
+
+      expect(template.map(issue => issue.rule)).toEqual(['template']);
+      expect(frontMatter.map(issue => issue.rule)).toEqual(['front-matter']);
+    });
+
+    test('should warn about tags naming no template variable', () => {
+      const content = ['---', 'audience: claude', '---', '# Guide', '{{packageManager}} {{version.vue}} {{version.acme}}', '{{title}}'].join('\n');
+
+      expect(GuidelineLinter.lintContent(content, 'vue/guidelines/framework.md', ['vue'])).toEqual([
+        {
+          file: 'vue/guidelines/framework.md',
+          severity: 'warning',
+          rule: 'template-variable',
+          message: 'Unknown template variable "version.acme" is rendered as written (escape it as \\{{version.acme}})',
+          line: 5
+        },
+        {
+          file: 'vue/guidelines/framework.md',
+          severity: 'warning',
+          rule: 'template-variable',
+          message: 'Unknown template variable "title" is rendered as written (escape it as \\{{title}})',
+          line: 6
+        }
+      ]);
+    });
+  });
+
+  describe('lint', () => {
+    let tmpDir: string;
+
+    const createModule = (supportedVersions: string[], paths: (version?: string) => string[]) => ({
+      id: 'acme',
+      getMetadata: () => ({ name: 'acme', displayName: 'Acme', description: '', version: '1.0.0', author: '', keywords: [], supportedVersions }),
+      getGuidelinePaths: async (version?: string): Promise<GuidelinePath[]> =>
+        paths(version).map(file => ({ path: file, priority: 'framework', category: 'framework' }))
+    });
+
+    beforeEach(async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'franken-ai-guideline-linter-test-'));
+      await fs.outputFile(path.join(tmpDir, 'acme', 'guidelines', 'framework.md'), '# Acme\n');
+      await fs.outputFile(path.join(tmpDir, 'acme', 'guidelines', '2', 'features.md'), '# Acme 2\n```\n');
+    });
+
+    afterEach(async () => {
+      await fs.remove(tmpDir);
+    });
+
+    test('should report missing paths, missing versions and content per file', async () => {
+      const module = createModule(['1.x', '2.x'], version => [
+        'acme/guidelines/framework.md',
+        'acme/guidelines/testing.md',
+        ...(version ? [`acme/guidelines/${version.replace('.x', '')}/features.md`] : [])
+      ]);
+
+      const issues = await GuidelineLinter.lint([module], tmpDir);
+      const files = GuidelineLinter.groupByFile(issues);
+
+      expect(Array.from(files.keys())).toEqual([
+        'acme/guidelines/',
+        'acme/guidelines/testing.md',
+        'acme/guidelines/1/features.md',
+        'acme/guidelines/2/features.md'
+      ]);
+      expect(files.get('acme/guidelines/')).toMatchObject([
+        { severity: 'warning', rule: 'missing-version', message: 'No versioned guidelines for supported version 1.x' }
+      ]);
+      expect(files.get('acme/guidelines/testing.md')).toMatchObject([{ module: 'acme', severity: 'error', rule: 'missing-path' }]);
+      expect(files.get('acme/guidelines/1/features.md')).toMatchObject([{ severity: 'warning', rule: 'missing-path' }]);
+      expect(files.get('acme/guidelines/2/features.md')).toMatchObject([{ severity: 'error', rule: 'code-fence', line: 2 }]);
+    });
+  });
+
+  describe('bundled modules', () => {
+    test('should have valid guidelines', async () => {
+      expect(await lintGuidelineErrors(undefined, KNOWN_MISSING)).toEqual([]);
+    });
+
+    test('should reject unknown modules', async () => {
+      await expect(GuidelineLinter.lintAll(['cobol'])).rejects.toThrow('Unknown module: cobol');
+    });
+  });
+});
@@ -4,6 +4,7 @@ import path from 'path';
 import os from 'os';
 import { GuidelineManager, type GuidelineContext } from '../src/core/GuidelineManager.js';
 import type { DetectedStack } from '../src/core/StackDetector.js';
+import { PestModule } from '../src/modules/pest/PestModule.js';
 
 describe('GuidelineManager', () => {
   let tmpDir: string;
@@ -41,7 +42,7 @@ describe('GuidelineManager', () => {
     test('should collect React guidelines', async () => {
       const context: GuidelineContext = {
         stack: createMockStack({ frameworks: ['React'] }),
-        reactVersion: '18'
+        versions: new Map([['react', '18']])
       };
 
       const guidelines = await manager.collectGuidelines(context);
@@ -63,8 +64,7 @@ describe('GuidelineManager', () => {
           frameworks: ['Laravel'],
           packageManagers: ['composer']
         }),
-        laravelVersion: '12',
-        phpVersion: '8.4'
+        versions: new Map([['laravel', '12'], ['php', '8.4']])
       };
 
       const guidelines = await manager.collectGuidelines(context);
@@ -109,8 +109,7 @@ describe('GuidelineManager', () => {
           languages: ['PHP', 'JavaScript'],
           packageManagers: ['composer', 'npm']
         }),
-        laravelVersion: '12',
-        phpVersion: '8.4'
+        versions: new Map([['laravel', '12'], ['php', '8.4']])
       };
 
       const guidelines = await manager.collectGuidelines(context);
@@ -129,6 +128,34 @@ describe('GuidelineManager', () => {
     });
   });
 
+  describe('Exclusions', () => {
+    test('should drop modules excluded in the detection trail without printing', async () => {
+      const warnings: string[] = [];
+      const originalWarn = console.warn;
+      console.warn = (...args: any[]) => { warnings.push(args.join(' ')); };
+
+      try {
+        const context: GuidelineContext = {
+          stack: createMockStack({
+            frameworks: ['Next.js', 'React'],
+            detections: [
+              { module: 'next', detected: true, confidence: 1, evidence: [] },
+              { module: 'react', detected: false, confidence: 0.9, evidence: [], excludedBy: ['next'] }
+            ]
+          })
+        };
+
+        const guidelines = await manager.collectGuidelines(context);
+
+        expect(guidelines.some(g => g.module === 'next')).toBe(true);
+        expect(guidelines.some(g => g.module === 'react')).toBe(false);
+        expect(warnings).toEqual([]);
+      } finally {
+        console.warn = originalWarn;
+      }
+    });
+  });
+
   describe('CLAUDE.md Content Generation', () => {
     test('should generate complete CLAUDE.md for React project', async () => {
       const context: GuidelineContext = {
@@ -136,7 +163,7 @@ describe('GuidelineManager', () => {
           frameworks: ['React'],
           languages: ['JavaScript', 'TypeScript']
         }),
-        reactVersion: '18'
+        versions: new Map([['react', '18']])
       };
 
       const guidelines = await manager.collectGuidelines(context);
@@ -159,10 +186,17 @@ describe('GuidelineManager', () => {
           runtime: 'php',
           languages: ['PHP'],
           frameworks: ['Laravel'],
-          packageManagers: ['composer']
+          packageManagers: ['composer'],
+          commands: {
+            dev: ['php artisan serve'],
+            build: [],
+            test: ['php artisan test'],
+            lint: [],
+            install: ['composer install'],
+            sources: { 'php artisan serve': ['laravel'], 'php artisan test': ['laravel'], 'composer install': ['laravel'] }
+          }
         }),
-        laravelVersion: '12',
-        phpVersion: '8.4'
+        versions: new Map([['laravel', '12'], ['php', '8.4']])
       };
 
       const guidelines = await manager.collectGuidelines(context);
@@ -178,6 +212,68 @@ describe('GuidelineManager', () => {
       expect(content).toContain('composer install');
     });
 
+    test('should list every detected module version in the stack section', async () => {
+      const context: GuidelineContext = {
+        stack: createMockStack({
+          runtime: 'php',
+          languages: ['PHP'],
+          frameworks: ['Laravel']
+        }),
+        versions: new Map([['laravel', '12'], ['livewire', '3'], ['tailwind', '4'], ['pest', '3']])
+      };
+
+      const guidelines = await manager.collectGuidelines(context);
+      const content = manager.generateClaudeContent(guidelines, context);
+
+      expect(content).toContain('- **Laravel Version**: 12');
+      expect(content).toContain('- **Livewire Version**: 3');
+      expect(content).toContain('- **Tailwind CSS Version**: 4');
+      expect(content).toContain('- **Pest Version**: 3');
+    });
+
+    test('should note versioned guidelines used for another version', async () => {
+      const context: GuidelineContext = {
+        stack: createMockStack({
+          frameworks: ['Next.js', 'React'],
+          guidelineWarnings: ['Guidelines for Next.js 14 used for detected 15']
+        }),
+        versions: new Map([['next', '15']])
+      };
+
+      const guidelines = await manager.collectGuidelines(context);
+      const content = manager.generateClaudeContent(guidelines, context);
+
+      expect(content).toContain('- **Guideline Note**: Guidelines for Next.js 14 used for detected 15');
+      expect(guidelines.some(g => g.path === 'next/guidelines/14/features.md')).toBe(true);
+    });
+
+    test('should render module commands with descriptions and contributing modules', async () => {
+      const context: GuidelineContext = {
+        stack: createMockStack({
+          frameworks: ['Svelte'],
+          packageManagers: ['bun'],
+          commands: {
+            dev: ['bun run dev'],
+            build: [],
+            test: ['vendor/bin/pest', 'bun run test', 'vendor/bin/pest'],
+            lint: [],
+            install: ['bun install'],
+            descriptions: { 'bun run dev': 'Start the Vite development server', 'vendor/bin/pest': 'Run Pest tests' },
+            sources: { 'bun run dev': ['svelte'], 'vendor/bin/pest': ['pest'], 'bun install': ['svelte', 'tailwind'] }
+          }
+        })
+      };
+
+      const content = manager.generateClaudeContent([], context);
+
+      expect(content).toContain('- `bun run dev` - Start the Vite development server (svelte)');
+      expect(content).toContain('- `bun run test` - Run tests');
+      expect(content).toContain('- `bun install` - Install dependencies (svelte, tailwind)');
+      expect(content.match(/`vendor\/bin\/pest`/g)).toHaveLength(1);
+      expect(content).not.toContain('### Build');
+      expect(content).not.toContain('### Linting');
+    });
+
     test('should include workflow section', async () => {
       const context: GuidelineContext = {
         stack: createMockStack({ frameworks: ['React'] })
@@ -192,7 +288,7 @@ describe('GuidelineManager', () => {
       expect(content).toContain('gemini -p "@src/ @app/ What\'s the overall architecture?"');
     });
 
-    test('should generate correct commands for different package managers', async () => {
+    test('should fall back to package manager commands when no module contributes any', async () => {
       const contexts = [
         {
           packageManagers: ['yarn'],
@@ -219,7 +315,8 @@ describe('GuidelineManager', () => {
         const context: GuidelineContext = {
           stack: createMockStack({
             frameworks: ['React'],
-            packageManagers
+            packageManagers,
+            commands: { dev: [], build: [], test: [], lint: [], install: [] }
           })
         };
 
@@ -231,6 +328,454 @@ describe('GuidelineManager', () => {
     });
   });
 
+  describe('Workspace Packages', () => {
+    test('should summarize the packages in the stack section', () => {
+      const context: GuidelineContext = {
+        stack: createMockStack({
+          workspaceTools: ['pnpm', 'turbo'],
+          packages: [
+            { name: 'acme/api', path: 'apps/api', stack: createMockStack({ runtime: 'php', frameworks: ['Laravel'], languages: ['PHP'] }) },
+            { name: 'docs', path: 'docs', stack: createMockStack({ languages: [] }) }
+          ]
+        })
+      };
+
+      const section = manager.generateSection('stack', [], context);
+
+      expect(section).toContain('### Workspace Packages (pnpm, turbo)');
+      expect(section).toContain('- **acme/api** (`apps/api/`): Laravel, PHP');
+      expect(section).toContain('- **docs** (`docs/`): Generic');
+    });
+  });
+
+  describe('GEMINI.md Content Generation', () => {
+    const laravelContext = (): GuidelineContext => ({
+      stack: createMockStack({
+        runtime: 'php',
+        languages: ['PHP'],
+        frameworks: ['Laravel'],
+        packageManagers: ['composer']
+      }),
+      versions: new Map([['laravel', '12'], ['php', '8.4']])
+    });
+
+    test('should mark gemini-analysis guidelines for Gemini', async () => {
+      const guidelines = await manager.collectGuidelines(laravelContext());
+
+      const analysis = guidelines.find(g => g.path === 'laravel/guidelines/gemini-analysis.md');
+      expect(analysis?.audience).toBe('gemini');
+
+      const framework = guidelines.find(g => g.path === 'laravel/guidelines/framework.md');
+      expect(framework?.audience).toBe('claude');
+    });
+
+    test('should keep analysis guidelines out of CLAUDE.md', async () => {
+      const context = laravelContext();
+      const guidelines = await manager.collectGuidelines(context);
+      const content = manager.generateClaudeContent(guidelines, context);
+
+      expect(content).toContain('Laravel Core Guidelines');
+      expect(content).not.toContain('# Laravel Analysis with Gemini CLI');
+    });
+
+    test('should generate GEMINI.md with stack summary and analysis guidelines', async () => {
+      const context = laravelContext();
+      const guidelines = await manager.collectGuidelines(context);
+      const content = manager.generateGeminiContent(guidelines, context);
+
+      expect(content).toContain('## Detected Stack: Laravel');
+      expect(content).toContain('- **Laravel Version**: 12');
+      expect(content).toContain('### Your Role: Discovery Phase (Gemini CLI)');
+      expect(content).toContain('# Laravel Analysis with Gemini CLI');
+      expect(content).not.toContain('Laravel Core Guidelines');
+      expect(content).not.toContain('## Commands');
+    });
+
+    test('should omit the guidelines section when no analysis guidelines apply', async () => {
+      const context: GuidelineContext = {
+        stack: createMockStack({ frameworks: ['React'] })
+      };
+
+      const guidelines = await manager.collectGuidelines(context);
+      const content = manager.generateGeminiContent(guidelines, context);
+
+      expect(content).toContain('## Detected Stack: React');
+      expect(content).not.toContain('franken-ai:guidelines:start');
+    });
+  });
+
+  describe('Guideline Templates', () => {
+    test('should resolve the package manager and TypeScript blocks in React guidelines', async () => {
+      const context: GuidelineContext = {
+        stack: createMockStack({ frameworks: ['React'], languages: ['JavaScript'], packageManagers: ['pnpm'] })
+      };
+
+      const guidelines = await manager.collectGuidelines(context);
+      const react = guidelines.find(g => g.path === 'react/guidelines/framework.md');
+
+      expect(react?.content).toContain('`pnpm run test`');
+      expect(react?.content).not.toContain('### TypeScript First');
+      expect(react?.content).not.toContain('{{');
+    });
+
+    test('should report the guideline file of a missing variable', async () => {
+      const originalCwd = process.cwd();
+      await fs.outputFile(path.join(tmpDir, 'docs', 'ai.md'), 'Target Vue {{version.vue}}.');
+
+      try {
+        process.chdir(tmpDir);
+
+        const context: GuidelineContext = {
+          stack: createMockStack({ frameworks: ['React'] }),
+          config: { guidelines: ['docs/ai.md'] }
+        };
+
+        await expect(manager.collectGuidelines(context))
+          .rejects.toThrow('Missing template variable "version.vue" in docs/ai.md (line 1)');
+      } finally {
+        process.chdir(originalCwd);
+      }
+    });
+  });
+
+  describe('Token Budget', () => {
+    const createLaravelContext = (maxTokens?: number): GuidelineContext => ({
+      stack: createMockStack({ runtime: 'php', languages: ['PHP'], frameworks: ['Laravel'] }),
+      versions: new Map([['laravel', '12'], ['php', '8.3']]),
+      maxTokens
+    });
+
+    test('should strip optional block markers from guideline content', async () => {
+      const guidelines = await manager.collectGuidelines(createLaravelContext());
+      const laravel = guidelines.find(g => g.path === 'laravel/guidelines/framework.md');
+
+      expect(laravel?.content).toContain('## Common Issues & Solutions');
+      expect(laravel?.content).not.toContain('franken-ai:optional');
+      expect(laravel?.optionalBlocks).toHaveLength(1);
+    });
+
+    test('should trim optional blocks first to fit the budget', async () => {
+      const guidelines = await manager.collectGuidelines(createLaravelContext());
+      const unlimited = manager.applyTokenBudget(guidelines, createLaravelContext(1_000_000));
+      const claude = unlimited.reports.find(report => report.file === 'CLAUDE.md')!;
+      expect(claude.trimmed).toEqual([]);
+
+      const { guidelines: trimmed, reports } = manager.applyTokenBudget(guidelines, createLaravelContext(claude.before - 50));
+      const report = reports.find(r => r.file === 'CLAUDE.md')!;
+
+      expect(report.trimmed).toEqual([
+        { path: 'laravel/guidelines/framework.md', kind: 'optional', tokens: expect.any(Number) }
+      ]);
+      expect(report.after).toBeLessThanOrEqual(claude.before - 50);
+      expect(trimmed.find(g => g.path === 'laravel/guidelines/framework.md')?.content)
+        .not.toContain('## Common Issues & Solutions');
+      expect(trimmed).toHaveLength(guidelines.length);
+    });
+
+    test('should drop the lowest priority guidelines last', async () => {
+      const guidelines = await manager.collectGuidelines(createLaravelContext());
+      const { guidelines: trimmed, reports } = manager.applyTokenBudget(guidelines, createLaravelContext(1500));
+      const report = reports.find(r => r.file === 'CLAUDE.md')!;
+
+      const kinds = report.trimmed.map(item => item.kind);
+      expect(kinds.indexOf('guideline')).toBeGreaterThan(kinds.lastIndexOf('example'));
+      expect(kinds.lastIndexOf('example')).toBeGreaterThan(kinds.lastIndexOf('optional'));
+      expect(trimmed.some(g => g.path === 'laravel/guidelines/framework.md')).toBe(true);
+      expect(trimmed.some(g => g.priority === 'specialized-lang' && g.audience === 'claude')).toBe(false);
+    });
+  });
+
+  describe('Project Overrides', () => {
+    test('should replace and extend bundled guidelines from .franken/guidelines', async () => {
+      const originalCwd = process.cwd();
+      const overridesDir = path.join(tmpDir, '.franken', 'guidelines');
+      await fs.outputFile(path.join(overridesDir, 'tailwind', 'css-framework.md'), '# House Tailwind Rules\n\nNo arbitrary values.');
+      await fs.outputFile(path.join(overridesDir, 'react', 'framework.prepend.md'), '> Read the house rules first.\n');
+      await fs.outputFile(path.join(overridesDir, 'react', 'framework.append.md'), '## House Rules\n\nUse {{packageManager}}.');
+
+      try {
+        process.chdir(tmpDir);
+
+        const context: GuidelineContext = {
+          stack: createMockStack({ frameworks: ['React', 'Tailwind CSS'] })
+        };
+
+        const guidelines = await manager.collectGuidelines(context);
+        const tailwind = guidelines.find(g => g.path === 'tailwind/guidelines/css-framework.md');
+        const react = guidelines.find(g => g.path === 'react/guidelines/framework.md');
+
+        expect(tailwind?.content).toBe('# House Tailwind Rules\n\nNo arbitrary values.');
+        expect(tailwind?.overrides).toEqual(['.franken/guidelines/tailwind/css-framework.md']);
+
+        expect(react?.content.startsWith('> Read the house rules first.\n\n')).toBe(true);
+        expect(react?.content).toContain('React Framework Guidelines');
+        expect(react?.content.endsWith('## House Rules\n\nUse npm.')).toBe(true);
+        expect(react?.overrides).toEqual([
+          '.franken/guidelines/react/framework.prepend.md',
+          '.franken/guidelines/react/framework.append.md'
+        ]);
+      } finally {
+        process.chdir(originalCwd);
+      }
+    });
+  });
+
+  describe('Common Guidelines', () => {
+    test('should load common guidelines once per priority type and category', async () => {
+      const context: GuidelineContext = {
+        stack: createMockStack({ frameworks: ['Pest', 'PHPUnit', 'Tailwind CSS'] })
+      };
+
+      const guidelines = await manager.collectGuidelines(context);
+      const common = guidelines.filter(g => g.id.startsWith('common-'));
+
+      expect(common.map(g => g.path).sort()).toEqual([
+        'common/category/testing.md',
+        'common/priority/css-framework.md',
+        'common/priority/laravel-tool.md'
+      ]);
+      expect(common.find(g => g.id === 'common-category-testing')?.category).toBe('testing');
+      expect(common.find(g => g.id === 'common-category-testing')?.priority).toBe('laravel-tool');
+    });
+
+    test('should render the common testing guidelines', async () => {
+      const context: GuidelineContext = {
+        stack: createMockStack({ frameworks: ['Pest'] })
+      };
+
+      const guidelines = await manager.collectGuidelines(context);
+      const content = manager.generateClaudeContent(guidelines, context);
+
+      expect(content).toContain('Every change comes with a test that fails without it');
+    });
+
+    test('should skip common guidelines for modules that opt out', async () => {
+      Object.defineProperty(PestModule.prototype, 'commonGuidelines', { value: false, configurable: true });
+
+      try {
+        const context: GuidelineContext = {
+          stack: createMockStack({ frameworks: ['Pest'] })
+        };
+
+        const guidelines = await manager.collectGuidelines(context);
+
+        expect(guidelines.some(g => g.module === 'pest')).toBe(true);
+        expect(guidelines.some(g => g.id.startsWith('common-'))).toBe(false);
+      } finally {
+        delete (PestModule.prototype as { commonGuidelines?: boolean }).commonGuidelines;
+      }
+    });
+  });
+
+  describe('Deduplication', () => {
+    test('should drop sections repeated from a higher-priority guideline', async () => {
+      const projectGuideline = path.join(tmpDir, 'styling.md');
+      await fs.writeFile(projectGuideline, [
+        '# Styling',
+        '',
+        '### Responsive Design',
+        '- Mobile-first approach: design for small screens first, then enhance for larger screens',
+        '- Use framework-specific responsive utilities',
+        '- Test on multiple device sizes',
+        '',
+        '### Brand Colors',
+        '- Use the colors from the design tokens'
+      ].join('\n'));
+
+      const context: GuidelineContext = {
+        stack: createMockStack({ frameworks: ['Tailwind CSS'] }),
+        config: { guidelines: [projectGuideline] }
+      };
+
+      const guidelines = await manager.collectGuidelines(context);
+      const project = guidelines.find(g => g.path === projectGuideline);
+
+      expect(project?.content).toBe('# Styling\n\n### Brand Colors\n- Use the colors from the design tokens');
+      expect(project?.duplicates).toEqual([{
+        path: projectGuideline,
+        keptIn: 'common/priority/css-framework.md',
+        kind: 'section',
+        label: 'Responsive Design'
+      }]);
+      expect(guidelines.find(g => g.id === 'common-css-framework')?.content).toContain('### Responsive Design');
+    });
+  });
+
+  describe('Combination Guidelines', () => {
+    test('should load combination guidelines after the module guidelines', async () => {
+      const context: GuidelineContext = {
+        stack: createMockStack({ frameworks: ['React', 'Inertia.js'], languages: ['JavaScript', 'TypeScript'] })
+      };
+
+      const guidelines = await manager.collectGuidelines(context);
+      const index = guidelines.findIndex(g => g.path === 'combinations/inertia+react.md');
+
+      expect(index).toBeGreaterThan(-1);
+      expect(guidelines[index].combination).toEqual(['inertia', 'react']);
+      expect(guidelines[index].priority).toBe('framework');
+      expect(guidelines[index].content).toContain('## Typed Props');
+      expect(guidelines.slice(index + 1).every(g => g.combination)).toBe(true);
+      expect(guidelines.some(g => g.path === 'combinations/inertia+vue.md')).toBe(false);
+    });
+
+    test('should skip combination guidelines when a module is missing', async () => {
+      const context: GuidelineContext = {
+        stack: createMockStack({ frameworks: ['React'] })
+      };
+
+      const guidelines = await manager.collectGuidelines(context);
+
+      expect(guidelines.some(g => g.combination)).toBe(false);
+    });
+  });
+
+  describe('Guideline Packs', () => {
+    test('should load guidelines from packs installed as dependencies', async () => {
+      const originalCwd = process.cwd();
+      const packDir = path.join(tmpDir, 'node_modules', '@acme', 'franken-guidelines');
+      await fs.writeJson(path.join(tmpDir, 'package.json'), { devDependencies: { '@acme/franken-guidelines': '^1.0.0' } });
+      await fs.outputJson(path.join(packDir, 'package.json'), {
+        name: '@acme/franken-guidelines',
+        version: '1.0.0',
+        franken: { frankenVersion: '>=0.1.0' }
+      });
+      await fs.outputFile(path.join(packDir, 'modules', 'tailwind', 'guidelines', 'css-framework.md'), '# Acme Tailwind');
+      await fs.outputFile(path.join(packDir, 'modules', 'react', 'guidelines', 'state.md'), '# Acme State Management');
+
+      try {
+        process.chdir(tmpDir);
+
+        const context: GuidelineContext = {
+          stack: createMockStack({ frameworks: ['React', 'Tailwind CSS'] })
+        };
+
+        const guidelines = await manager.collectGuidelines(context);
+        const tailwind = guidelines.find(g => g.path === 'tailwind/guidelines/css-framework.md');
+        const state = guidelines.find(g => g.path === 'react/guidelines/state.md');
+
+        expect(tailwind?.content).toBe('# Acme Tailwind');
+        expect(tailwind?.pack).toBe('@acme/franken-guidelines');
+        expect(state?.module).toBe('react');
+        expect(state?.priority).toBe('framework');
+        expect(guidelines.some(g => g.path === 'react/guidelines/framework.md')).toBe(true);
+      } finally {
+        process.chdir(originalCwd);
+      }
+    });
+  });
+
+  describe('Guideline Front-Matter', () => {
+    test('should apply front-matter metadata and rules to guideline files', async () => {
+      const originalCwd = process.cwd();
+      await fs.outputFile(
+        path.join(tmpDir, 'docs', 'react.md'),
+        '---\ntitle: React Conventions\ncategory: testing\nrequiresModules: [react]\n---\n\n# React Conventions'
+      );
+      await fs.outputFile(
+        path.join(tmpDir, 'docs', 'vue.md'),
+        '---\nrequiresModules: [vue]\n---\n\n# Vue Conventions'
+      );
+      await fs.outputFile(
+        path.join(tmpDir, 'docs', 'react-19.md'),
+        '---\nappliesTo:\n  react: ">=19"\n---\n\n# React 19'
+      );
+
+      try {
+        process.chdir(tmpDir);
+
+        const context: GuidelineContext = {
+          stack: createMockStack({ frameworks: ['React'] }),
+          config: { guidelines: ['docs/react.md', 'docs/vue.md', 'docs/react-19.md'] },
+          versions: new Map([['react', '18.3.1']])
+        };
+
+        const guidelines = await manager.collectGuidelines(context);
+        const react = guidelines.find(g => g.path === 'docs/react.md');
+
+        expect(react?.title).toBe('React Conventions');
+        expect(react?.category).toBe('testing');
+        expect(react?.content).toBe('# React Conventions');
+        expect(guidelines.some(g => g.path === 'docs/vue.md')).toBe(false);
+        expect(guidelines.some(g => g.path === 'docs/react-19.md')).toBe(false);
+      } finally {
+        process.chdir(originalCwd);
+      }
+    });
+
+    test('should report invalid front-matter with file and line', async () => {
+      const originalCwd = process.cwd();
+      await fs.outputFile(path.join(tmpDir, 'docs', 'ai.md'), '---\ntitle: Team\npriority: high\n---\n\n# Team');
+
+      try {
+        process.chdir(tmpDir);
+
+        const context: GuidelineContext = {
+          stack: createMockStack({ frameworks: ['React'] }),
+          config: { guidelines: ['docs/ai.md'] }
+        };
+
+        await expect(manager.collectGuidelines(context))
+          .rejects.toThrow('Invalid front-matter in docs/ai.md (line 3): "priority" must be one of');
+      } finally {
+        process.chdir(originalCwd);
+      }
+    });
+  });
+
+  describe('Project Config', () => {
+    test('should order sections as configured', async () => {
+      const context: GuidelineContext = {
+        stack: createMockStack({ frameworks: ['React'] }),
+        config: { sections: ['guidelines', 'stack'] }
+      };
+
+      const guidelines = await manager.collectGuidelines(context);
+      const content = manager.generateClaudeContent(guidelines, context);
+
+      const positions = ['guidelines', 'stack', 'commands', 'workflow']
+        .map(name => content.indexOf(`[//]: # (franken-ai:${name}:start)`));
+
+      expect(positions.every(position => position > 0)).toBe(true);
+      expect([...positions].sort((a, b) => a - b)).toEqual(positions);
+    });
+
+    test('should include extra guideline files', async () => {
+      const originalCwd = process.cwd();
+      await fs.outputFile(path.join(tmpDir, 'docs', 'ai.md'), '# Team Conventions\n\nUse feature folders.');
+
+      try {
+        process.chdir(tmpDir);
+
+        const context: GuidelineContext = {
+          stack: createMockStack({ frameworks: ['React'] }),
+          config: { guidelines: ['docs/ai.md', 'docs/missing.md'] }
+        };
+
+        const guidelines = await manager.collectGuidelines(context);
+        const projectGuideline = guidelines.find(g => g.path === 'docs/ai.md');
+        expect(projectGuideline?.category).toBe('framework');
+        expect(guidelines.some(g => g.path === 'docs/missing.md')).toBe(false);
+
+        const content = manager.generateClaudeContent(guidelines, context);
+        expect(content).toContain('# Team Conventions');
+      } finally {
+        process.chdir(originalCwd);
+      }
+    });
+
+    test('should honour modules enabled or disabled in config', async () => {
+      const context: GuidelineContext = {
+        stack: createMockStack({ frameworks: ['React'] }),
+        config: { modules: ['tailwind', { id: 'react', enabled: false }] }
+      };
+
+      const guidelines = await manager.collectGuidelines(context);
+
+      expect(guidelines.some(g => g.module === 'react')).toBe(false);
+      expect(guidelines.some(g => g.module === 'tailwind')).toBe(true);
+    });
+  });
+
   describe('Priority and Ordering', () => {
     test('should sort guidelines by priority', async () => {
       const context: GuidelineContext = {
@@ -238,7 +783,7 @@ describe('GuidelineManager', () => {
           frameworks: ['Laravel'],
           languages: ['JavaScript']
         }),
-        laravelVersion: '12'
+        versions: new Map([['laravel', '12']])
       };
 
       const guidelines = await manager.collectGuidelines(context);
@@ -0,0 +1,52 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
+import { GuidelineOverrides, OVERRIDES_DIR } from '../src/core/GuidelineOverrides.js';
+
+describe('GuidelineOverrides', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'franken-ai-overrides-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmpDir);
+  });
+
+  test('should map bundled guideline paths inside the module guidelines directory', () => {
+    expect(GuidelineOverrides.getRelativePath('tailwind', 'tailwind/guidelines/css-framework.md')).toBe('css-framework.md');
+    expect(GuidelineOverrides.getRelativePath('laravel', 'laravel/guidelines/12/features.md')).toBe('12/features.md');
+  });
+
+  test('should find replacement and extension files for a guideline', async () => {
+    const dir = path.join(tmpDir, OVERRIDES_DIR, 'pest');
+    await fs.outputFile(path.join(dir, 'framework.md'), '# House Pest rules');
+    await fs.outputFile(path.join(dir, 'framework.append.md'), 'Use datasets.');
+
+    const overrides = await GuidelineOverrides.find('pest', 'pest/guidelines/framework.md', tmpDir);
+
+    expect(overrides).toEqual([
+      { file: '.franken/guidelines/pest/framework.md', moduleId: 'pest', target: 'pest/guidelines/framework.md', mode: 'replace' },
+      { file: '.franken/guidelines/pest/framework.append.md', moduleId: 'pest', target: 'pest/guidelines/framework.md', mode: 'append' }
+    ]);
+    expect(await GuidelineOverrides.find('tailwind', 'tailwind/guidelines/css-framework.md', tmpDir)).toEqual([]);
+  });
+
+  test('should list every override in the project', async () => {
+    const root = path.join(tmpDir, OVERRIDES_DIR);
+    await fs.outputFile(path.join(root, 'tailwind', 'css-framework.prepend.md'), 'Use our design tokens.');
+    await fs.outputFile(path.join(root, 'laravel', '12', 'features.md'), '# Laravel 12');
+    await fs.outputFile(path.join(root, 'README.md'), 'Not in a module folder');
+
+    expect(await GuidelineOverrides.list(tmpDir)).toEqual([
+      { file: '.franken/guidelines/laravel/12/features.md', moduleId: 'laravel', target: 'laravel/guidelines/12/features.md', mode: 'replace' },
+      { file: '.franken/guidelines/tailwind/css-framework.prepend.md', moduleId: 'tailwind', target: 'tailwind/guidelines/css-framework.md', mode: 'prepend' }
+    ]);
+  });
+
+  test('should list nothing without an overrides directory', async () => {
+    expect(await GuidelineOverrides.list(tmpDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
+import { GuidelinePacks, PACK_KEYWORD } from '../src/core/GuidelinePacks.js';
+
+describe('GuidelinePacks', () => {
+  let tmpDir: string;
+
+  const installPack = async (name: string, manifest: Record<string, unknown>, files: Record<string, string> = {}) => {
+    const packageDir = path.join(tmpDir, 'node_modules', name);
+    await fs.outputJson(path.join(packageDir, 'package.json'), { name, version: '1.0.0', ...manifest });
+    for (const [file, content] of Object.entries(files)) {
+      await fs.outputFile(path.join(packageDir, file), content);
+    }
+  };
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'franken-ai-packs-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmpDir);
+  });
+
+  test('should discover packs among the project dependencies', async () => {
+    await fs.writeJson(path.join(tmpDir, 'package.json'), {
+      dependencies: { lodash: '^4.0.0' },
+      devDependencies: { '@acme/franken-guidelines': '^1.0.0', 'team-rules': '^1.0.0' }
+    });
+    await installPack('lodash', {});
+    await installPack('@acme/franken-guidelines', { keywords: [PACK_KEYWORD], peerDependencies: { '@franken-ai/franken-ai': '>=0.1.0' } });
+    await installPack('team-rules', { franken: { frankenVersion: '>=0.1.0', guidelines: 'rules', priority: 5 } });
+
+    const { packs, warnings } = await GuidelinePacks.discover(tmpDir);
+
+    expect(warnings).toEqual([]);
+    expect(packs.map(pack => [pack.name, pack.priority])).toEqual([['team-rules', 5], ['@acme/franken-guidelines', 0]]);
+    expect(packs[0].modulesDir).toBe(path.join(tmpDir, 'node_modules', 'team-rules', 'rules'));
+  });
+
+  test('should ignore packs without a supported FrankenAI version', async () => {
+    await fs.writeJson(path.join(tmpDir, 'package.json'), {
+      devDependencies: { 'old-pack': '^1.0.0', 'loose-pack': '^1.0.0' }
+    });
+    await installPack('old-pack', { franken: { frankenVersion: '<0.1.0' } });
+    await installPack('loose-pack', { keywords: [PACK_KEYWORD] });
+
+    const { packs, warnings } = await GuidelinePacks.discover(tmpDir);
+
+    expect(packs).toEqual([]);
+    expect(warnings).toEqual([
+      'Guideline pack loose-pack ignored: it does not declare the FrankenAI versions it supports',
+      expect.stringContaining('Guideline pack old-pack ignored: it supports FrankenAI <0.1.0')
+    ]);
+  });
+
+  test('should collect module files and resolve conflicts by precedence', async () => {
+    await fs.writeJson(path.join(tmpDir, 'package.json'), {
+      devDependencies: { 'pack-a': '^1.0.0', 'pack-b': '^1.0.0' }
+    });
+    await installPack('pack-a', { franken: { frankenVersion: '>=0.1.0' } }, {
+      'modules/laravel/guidelines/framework.md': '# A',
+      'modules/laravel/guidelines/11/house.md': '# A 11'
+    });
+    await installPack('pack-b', { franken: { frankenVersion: '>=0.1.0' } }, {
+      'modules/laravel/guidelines/framework.md': '# B',
+      'modules/laravel/guidelines/queues.md': '# B queues'
+    });
+
+    const { packs } = await GuidelinePacks.discover(tmpDir);
+    const { guidelines, conflicts } = await GuidelinePacks.collect(packs, 'laravel', '12');
+
+    expect(guidelines.map(g => [g.path, g.pack])).toEqual([
+      ['laravel/guidelines/framework.md', 'pack-a'],
+      ['laravel/guidelines/11/house.md', 'pack-a'],
+      ['laravel/guidelines/queues.md', 'pack-b']
+    ]);
+    expect(conflicts).toEqual(['laravel/guidelines/framework.md from pack-b ignored: pack-a takes precedence']);
+  });
+});
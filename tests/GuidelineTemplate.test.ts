@@ -0,0 +1,73 @@
+import { describe, test, expect } from 'bun:test';
+import { GuidelineTemplate, type TemplateVariables } from '../src/core/GuidelineTemplate.js';
+
+describe('GuidelineTemplate', () => {
+  const variables: TemplateVariables = {
+    packageManager: 'pnpm',
+    'version.laravel': '12',
+    'version.vue': undefined,
+    'module.typescript': true,
+    'module.livewire': false
+  };
+
+  test('should insert variables', () => {
+    const content = 'Run `{{packageManager}} run test` on Laravel {{version.laravel}}.';
+
+    expect(GuidelineTemplate.render(content, variables, 'react/guidelines/framework.md'))
+      .toBe('Run `pnpm run test` on Laravel 12.');
+  });
+
+  test('should keep or drop conditional blocks', () => {
+    const content = [
+      '# Guide',
+      '{{#if module.typescript}}',
+      'Use TypeScript.',
+      '{{else}}',
+      'Use JSDoc.',
+      '{{/if}}',
+      '{{#unless module.livewire}}',
+      'No Livewire.',
+      '{{/unless}}',
+      'Done: {{#if version.vue}}Vue{{else}}no Vue{{/if}}.'
+    ].join('\n');
+
+    expect(GuidelineTemplate.render(content, variables, 'guide.md')).toBe([
+      '# Guide',
+      'Use TypeScript.',
+      'No Livewire.',
+      'Done: no Vue.'
+    ].join('\n'));
+  });
+
+  test('should leave Vue and Blade mustaches untouched', () => {
+    const content = '<p>{{ user.name }}</p> {{-- comment --}} \\{{packageManager}}';
+
+    expect(GuidelineTemplate.render(content, variables, 'vue.md'))
+      .toBe('<p>{{ user.name }}</p> {{-- comment --}} {{packageManager}}');
+  });
+
+  test('should keep tags naming no variable as written', () => {
+    const content = 'Angular: <h1>{{title}}</h1> with {{packageManager}}';
+
+    expect(GuidelineTemplate.render(content, variables, 'angular.md'))
+      .toBe('Angular: <h1>{{title}}</h1> with pnpm');
+    expect(GuidelineTemplate.listVariables(content, 'angular.md')).toEqual([
+      { name: 'title', line: 1 },
+      { name: 'packageManager', line: 1 }
+    ]);
+  });
+
+  test('should name the guideline file for missing variables and blocks on unknown variables', () => {
+    expect(() => GuidelineTemplate.render('Vue {{version.vue}}', variables, 'vue/guidelines/framework.md'))
+      .toThrow('Missing template variable "version.vue" in vue/guidelines/framework.md (line 1)');
+    expect(() => GuidelineTemplate.render('\n{{#if module.typescrpt}}x{{/if}}', variables, 'react.md'))
+      .toThrow('Unknown template variable "module.typescrpt" in react.md (line 2)');
+  });
+
+  test('should reject unbalanced blocks', () => {
+    expect(() => GuidelineTemplate.render('{{#if module.typescript}}x', variables, 'a.md'))
+      .toThrow('Unclosed {{#if module.typescript}} in a.md (line 1)');
+    expect(() => GuidelineTemplate.render('x{{/if}}', variables, 'a.md'))
+      .toThrow('Unexpected {{/if}} in a.md (line 1)');
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
+import { Command } from 'commander';
+import { GuidelinesCommand } from '../src/commands/GuidelinesCommand.js';
+
+describe('GuidelinesCommand', () => {
+  let tmpDir: string;
+  let originalCwd: string;
+  let guidelinesCommand: GuidelinesCommand;
+  let output: string[];
+  const originalConsoleLog = console.log;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'franken-ai-guidelines-command-test-'));
+    originalCwd = process.cwd();
+    process.chdir(tmpDir);
+    guidelinesCommand = new GuidelinesCommand();
+
+    output = [];
+    console.log = (...args: any[]) => {
+      output.push(args.join(' '));
+    };
+
+    await fs.writeJson(path.join(tmpDir, 'package.json'), {
+      dependencies: { react: '^18.2.0', 'react-dom': '^18.2.0' }
+    });
+  });
+
+  afterEach(async () => {
+    console.log = originalConsoleLog;
+    process.chdir(originalCwd);
+    process.exitCode = 0;
+    await fs.remove(tmpDir);
+  });
+
+  const json = () => JSON.parse(output.join('\n'));
+
+  test('should configure list, show and search subcommands', () => {
+    const program = new Command();
+    guidelinesCommand.configure(program);
+
+    const guidelines = program.commands.find(cmd => cmd.name() === 'guidelines');
+    expect(guidelines?.commands.map(cmd => cmd.name())).toEqual(['list', 'show', 'search']);
+    expect(guidelines?.commands.every(cmd => cmd.options.some(opt => opt.long === '--json'))).toBe(true);
+  });
+
+  test('should list all guidelines and mark those applying to the project', async () => {
+    await guidelinesCommand.execute('list', undefined, { json: true });
+
+    const { guidelines } = json();
+    const react18 = guidelines.find((g: any) => g.path === 'react/guidelines/18/features.md');
+    const react19 = guidelines.find((g: any) => g.path === 'react/guidelines/19/features.md');
+
+    expect(react18).toMatchObject({ module: 'react', version: '18', category: 'framework', applies: true });
+    expect(react19.applies).toBe(false);
+    expect(guidelines.some((g: any) => g.module === 'laravel' && !g.applies)).toBe(true);
+    expect(guidelines.some((g: any) => g.source === 'combination')).toBe(true);
+  });
+
+  test('should show the resolved guidelines of a module for a given version', async () => {
+    await guidelinesCommand.execute('show', 'react@19', { json: true });
+
+    const result = json();
+    expect(result.module).toBe('react');
+    expect(result.version).toBe('19');
+    expect(result.guidelines.map((g: any) => g.path)).toContain('react/guidelines/19/features.md');
+    expect(result.guidelines.every((g: any) => !g.content.includes('{{#if'))).toBe(true);
+  });
+
+  test('should show modules that were not detected', async () => {
+    await guidelinesCommand.execute('show', 'laravel', {});
+
+    expect(output.join('\n')).toContain('laravel/guidelines/framework.md');
+  });
+
+  test('should report unknown modules', async () => {
+    const originalConsoleError = console.error;
+    console.error = () => {};
+
+    try {
+      await guidelinesCommand.execute('show', 'cobol', {});
+    } finally {
+      console.error = originalConsoleError;
+    }
+
+    expect(process.exitCode).toBe(1);
+  });
+
+  test('should search guideline files case-insensitively', async () => {
+    await guidelinesCommand.execute('search', 'USEEFFECT', { json: true });
+
+    const { term, matches } = json();
+    expect(term).toBe('USEEFFECT');
+    expect(matches.length).toBeGreaterThan(0);
+    expect(matches[0]).toHaveProperty('line');
+    expect(matches.every((m: any) => m.text.toLowerCase().includes('useeffect'))).toBe(true);
+  });
+});
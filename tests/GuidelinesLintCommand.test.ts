@@ -0,0 +1,51 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { Command } from 'commander';
+import { GuidelinesLintCommand } from '../src/commands/GuidelinesLintCommand.js';
+
+describe('GuidelinesLintCommand', () => {
+  let lintCommand: GuidelinesLintCommand;
+  let output: string[];
+  const originalConsoleLog = console.log;
+
+  beforeEach(() => {
+    lintCommand = new GuidelinesLintCommand();
+    output = [];
+    console.log = (...args: any[]) => {
+      output.push(args.join(' '));
+    };
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+    process.exitCode = 0;
+  });
+
+  test('should configure the guidelines:lint command', () => {
+    const program = new Command();
+    lintCommand.configure(program);
+
+    const command = program.commands.find(cmd => cmd.name() === 'guidelines:lint');
+    expect(command?.options.some(opt => opt.long === '--json')).toBe(true);
+  });
+
+  test('should report valid modules', async () => {
+    await lintCommand.execute(['react'], {});
+
+    expect(output.join('\n')).toContain('All guidelines are valid');
+    expect(process.exitCode).toBe(0);
+  });
+
+  test('should report issues per file and fail on errors', async () => {
+    await lintCommand.execute(['volt'], { json: true });
+
+    const result = JSON.parse(output.join('\n'));
+    expect(result.errors).toBeGreaterThan(0);
+    expect(result.issues).toContainEqual(expect.objectContaining({
+      file: 'volt/guidelines/testing.md',
+      module: 'volt',
+      severity: 'error',
+      rule: 'missing-path'
+    }));
+    expect(process.exitCode).toBe(1);
+  });
+});
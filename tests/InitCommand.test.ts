@@ -3,6 +3,7 @@ import fs from 'fs-extra';
 import path from 'path';
 import os from 'os';
 import { InitCommand } from '../src/commands/InitCommand.js';
+import { StackDetector } from '../src/core/StackDetector.js';
 
 describe('InitCommand', () => {
   let tmpDir: string;
@@ -19,6 +20,11 @@ describe('InitCommand', () => {
   });
 
   describe('Version Detection', () => {
+    const detectVersions = async () => {
+      const stack = await new StackDetector().detect();
+      return (await initCommand.createGuidelineContext(stack)).versions!;
+    };
+
     test('should detect PHP version from composer.json', async () => {
       await fs.writeJson(path.join(tmpDir, 'composer.json'), {
         require: {
@@ -26,12 +32,17 @@ describe('InitCommand', () => {
         }
       });
 
-      // @ts-ignore - accessing private method for testing
-      const phpVersion = await initCommand.detectPHPVersion();
-      expect(phpVersion).toBe('8.4');
+      const versions = await detectVersions();
+      expect(versions.get('php')).toBe('8.4');
     });
 
-    test('should detect Laravel version from composer.lock', async () => {
+    test('should prefer the Laravel version installed in composer.lock', async () => {
+      await fs.writeFile(path.join(tmpDir, 'artisan'), '#!/usr/bin/env php');
+      await fs.writeJson(path.join(tmpDir, 'composer.json'), {
+        require: {
+          'laravel/framework': '^11.0'
+        }
+      });
       await fs.writeJson(path.join(tmpDir, 'composer.lock'), {
         packages: [
           {
@@ -41,9 +52,8 @@ describe('InitCommand', () => {
         ]
       });
 
-      // @ts-ignore - accessing private method for testing
-      const laravelVersion = await initCommand.detectLaravelVersion();
-      expect(laravelVersion).toBe('12');
+      const versions = await detectVersions();
+      expect(versions.get('laravel')).toBe('12');
     });
 
     test('should detect Vue version from package.json dependencies', async () => {
@@ -53,9 +63,8 @@ describe('InitCommand', () => {
         }
       });
 
-      // @ts-ignore - accessing private method for testing
-      const vueVersion = await initCommand.detectVueVersion();
-      expect(vueVersion).toBe('3');
+      const versions = await detectVersions();
+      expect(versions.get('vue')).toBe('3');
     });
 
     test('should detect Vue version from package.json devDependencies', async () => {
@@ -65,21 +74,21 @@ describe('InitCommand', () => {
         }
       });
 
-      // @ts-ignore - accessing private method for testing
-      const vueVersion = await initCommand.detectVueVersion();
-      expect(vueVersion).toBe('2');
+      const versions = await detectVersions();
+      expect(versions.get('vue')).toBe('2');
     });
 
-    test('should detect React version from package.json', async () => {
+    test('should detect library versions such as Tailwind', async () => {
       await fs.writeJson(path.join(tmpDir, 'package.json'), {
         dependencies: {
-          react: '^18.2.0'
+          react: '^18.2.0',
+          tailwindcss: '^3.4.0'
         }
       });
 
-      // @ts-ignore - accessing private method for testing
-      const reactVersion = await initCommand.detectReactVersion();
-      expect(reactVersion).toBe('18');
+      const versions = await detectVersions();
+      expect(versions.get('react')).toBe('18');
+      expect(versions.get('tailwind')).toBe('3');
     });
 
     test('should detect Next.js version from package.json', async () => {
@@ -89,9 +98,8 @@ describe('InitCommand', () => {
         }
       });
 
-      // @ts-ignore - accessing private method for testing
-      const nextVersion = await initCommand.detectNextVersion();
-      expect(nextVersion).toBe('14');
+      const versions = await detectVersions();
+      expect(versions.get('next')).toBe('14');
     });
 
     test('should detect Nuxt version from package.json', async () => {
@@ -101,67 +109,39 @@ describe('InitCommand', () => {
         }
       });
 
-      // @ts-ignore - accessing private method for testing
-      const nuxtVersion = await initCommand.detectNuxtVersion();
-      expect(nuxtVersion).toBe('3');
+      const versions = await detectVersions();
+      expect(versions.get('nuxt')).toBe('3');
     });
 
-    test('should return undefined for missing versions', async () => {
-      // @ts-ignore - accessing private method for testing
-      const phpVersion = await initCommand.detectPHPVersion();
-      expect(phpVersion).toBeUndefined();
-
-      // @ts-ignore - accessing private method for testing
-      const vueVersion = await initCommand.detectVueVersion();
-      expect(vueVersion).toBeUndefined();
+    test('should return no versions for an empty project', async () => {
+      const versions = await detectVersions();
+      expect(versions.size).toBe(0);
     });
 
     test('should handle complex version strings', async () => {
       const testCases = [
         { input: '^8.3.0', expected: '8.3', field: 'php' }, // PHP should return major.minor version
-        { input: '~11.0.5', expected: '11', field: 'laravel' },
         { input: '>=18.0.0', expected: '18', field: 'react' },
         { input: '3.4.21', expected: '3', field: 'vue' },
-        { input: 'beta-3.9.0', expected: '3', field: 'nuxt' },
         { input: 'v14.2.0', expected: '14', field: 'next' }
       ];
 
       for (const { input, expected, field } of testCases) {
+        await fs.remove(path.join(tmpDir, 'package.json'));
+        await fs.remove(path.join(tmpDir, 'composer.json'));
+
         if (field === 'php') {
           await fs.writeJson(path.join(tmpDir, 'composer.json'), {
             require: { php: input }
           });
-          // @ts-ignore - accessing private method for testing
-          const version = await initCommand.detectPHPVersion();
-          expect(version).toBe(expected);
         } else {
           await fs.writeJson(path.join(tmpDir, 'package.json'), {
             dependencies: { [field]: input }
           });
-
-          switch (field) {
-            case 'vue':
-              // @ts-ignore - accessing private method for testing
-              const vueVersion = await initCommand.detectVueVersion();
-              expect(vueVersion).toBe(expected);
-              break;
-            case 'react':
-              // @ts-ignore - accessing private method for testing
-              const reactVersion = await initCommand.detectReactVersion();
-              expect(reactVersion).toBe(expected);
-              break;
-            case 'next':
-              // @ts-ignore - accessing private method for testing
-              const nextVersion = await initCommand.detectNextVersion();
-              expect(nextVersion).toBe(expected);
-              break;
-            case 'nuxt':
-              // @ts-ignore - accessing private method for testing
-              const nuxtVersion = await initCommand.detectNuxtVersion();
-              expect(nuxtVersion).toBe(expected);
-              break;
-          }
         }
+
+        const versions = await detectVersions();
+        expect(versions.get(field)).toBe(expected);
       }
     });
   });
@@ -283,6 +263,144 @@ describe('InitCommand', () => {
     });
   });
 
+  describe('Output Targets', () => {
+    test('should generate CLAUDE.md and GEMINI.md by default', async () => {
+      await fs.writeFile(path.join(tmpDir, 'artisan'), '#!/usr/bin/env php');
+      await fs.writeJson(path.join(tmpDir, 'composer.json'), {
+        require: { 'laravel/framework': '^12.0', php: '^8.4.0' }
+      });
+
+      await initCommand.execute({ yes: true, force: true });
+
+      const claudeContent = await fs.readFile(path.join(tmpDir, 'CLAUDE.md'), 'utf-8');
+      const geminiContent = await fs.readFile(path.join(tmpDir, 'GEMINI.md'), 'utf-8');
+
+      expect(claudeContent).toContain('Laravel Core Guidelines');
+      expect(claudeContent).not.toContain('# Laravel Analysis with Gemini CLI');
+      expect(geminiContent).toContain('## Detected Stack: Laravel');
+      expect(geminiContent).toContain('# Laravel Analysis with Gemini CLI');
+    });
+
+    test('should only generate the selected targets', async () => {
+      await fs.writeJson(path.join(tmpDir, 'package.json'), {
+        dependencies: { react: '^18.2.0' }
+      });
+
+      await initCommand.execute({ yes: true, force: true, target: 'claude' });
+
+      expect(await fs.pathExists(path.join(tmpDir, 'CLAUDE.md'))).toBe(true);
+      expect(await fs.pathExists(path.join(tmpDir, 'GEMINI.md'))).toBe(false);
+    });
+
+    test('should generate files for other assistants from the same guidelines', async () => {
+      await fs.writeJson(path.join(tmpDir, 'package.json'), {
+        dependencies: { react: '^18.2.0' }
+      });
+
+      await initCommand.execute({ yes: true, force: true, target: 'agents,cursor,copilot,windsurf' });
+
+      expect(await fs.pathExists(path.join(tmpDir, 'CLAUDE.md'))).toBe(false);
+      expect(await fs.pathExists(path.join(tmpDir, 'AGENTS.md'))).toBe(true);
+      expect(await fs.pathExists(path.join(tmpDir, '.github', 'copilot-instructions.md'))).toBe(true);
+      expect(await fs.pathExists(path.join(tmpDir, '.windsurfrules'))).toBe(true);
+
+      const reactRule = await fs.readFile(path.join(tmpDir, '.cursor', 'rules', 'franken-ai-react.mdc'), 'utf-8');
+      expect(reactRule).toContain('globs: **/*.js,**/*.jsx,**/*.ts,**/*.tsx');
+      expect(reactRule).toContain('React Framework Guidelines');
+    });
+
+    test('should remove Cursor rules of modules no longer detected', async () => {
+      await fs.writeJson(path.join(tmpDir, 'package.json'), {
+        dependencies: { react: '^18.2.0' }
+      });
+      await fs.outputFile(path.join(tmpDir, '.cursor', 'rules', 'franken-ai-vue.mdc'), 'Vue rules');
+      await fs.outputFile(path.join(tmpDir, '.cursor', 'rules', 'team.mdc'), 'Team rules');
+
+      await initCommand.execute({ yes: true, force: true, target: 'cursor' });
+
+      expect(await fs.pathExists(path.join(tmpDir, '.cursor', 'rules', 'franken-ai-react.mdc'))).toBe(true);
+      expect(await fs.pathExists(path.join(tmpDir, '.cursor', 'rules', 'franken-ai-vue.mdc'))).toBe(false);
+      expect(await fs.pathExists(path.join(tmpDir, '.cursor', 'rules', 'team.mdc'))).toBe(true);
+    });
+
+    test('should read targets and pinned versions from franken.config.json', async () => {
+      await fs.writeFile(path.join(tmpDir, 'artisan'), '#!/usr/bin/env php');
+      await fs.writeJson(path.join(tmpDir, 'composer.json'), {
+        require: { 'laravel/framework': '^12.0', php: '^8.4.0' }
+      });
+      await fs.writeJson(path.join(tmpDir, 'franken.config.json'), {
+        targets: ['claude'],
+        versions: { laravel: '11' }
+      });
+
+      await initCommand.execute({ yes: true, force: true });
+
+      expect(await fs.pathExists(path.join(tmpDir, 'GEMINI.md'))).toBe(false);
+      const content = await fs.readFile(path.join(tmpDir, 'CLAUDE.md'), 'utf-8');
+      expect(content).toContain('- **Laravel Version**: 11');
+    });
+
+    test('should stop on an invalid franken.config.json', async () => {
+      await fs.writeFile(path.join(tmpDir, 'franken.config.json'), '{ targets: ');
+
+      await initCommand.execute({ yes: true, force: true });
+
+      expect(process.exitCode).toBe(1);
+      process.exitCode = 0;
+      expect(await fs.pathExists(path.join(tmpDir, 'CLAUDE.md'))).toBe(false);
+    });
+
+    test('should not write anything in dry-run mode', async () => {
+      await fs.writeJson(path.join(tmpDir, 'package.json'), {
+        dependencies: { react: '^18.2.0' }
+      });
+      await fs.writeFile(path.join(tmpDir, 'CLAUDE.md'), 'Existing content');
+
+      await initCommand.execute({ dryRun: true });
+
+      expect(await fs.readFile(path.join(tmpDir, 'CLAUDE.md'), 'utf-8')).toBe('Existing content');
+      expect(await fs.pathExists(path.join(tmpDir, 'GEMINI.md'))).toBe(false);
+    });
+
+    test('should reject unknown targets without writing files', async () => {
+      await initCommand.execute({ yes: true, force: true, target: 'claude,vim' });
+
+      expect(process.exitCode).toBe(1);
+      process.exitCode = 0;
+      expect(await fs.pathExists(path.join(tmpDir, 'CLAUDE.md'))).toBe(false);
+    });
+  });
+
+  describe('Workspaces', () => {
+    beforeEach(async () => {
+      await fs.outputJson(path.join(tmpDir, 'backend', 'composer.json'), { require: { 'laravel/framework': '^11.0' } });
+      await fs.writeFile(path.join(tmpDir, 'backend', 'artisan'), '#!/usr/bin/env php');
+      await fs.outputJson(path.join(tmpDir, 'frontend', 'package.json'), { dependencies: { react: '^18.2.0' } });
+    });
+
+    test('should generate a root summary and context files per package', async () => {
+      await initCommand.execute({ yes: true, force: true, target: 'claude' });
+
+      const root = await fs.readFile(path.join(tmpDir, 'CLAUDE.md'), 'utf-8');
+      const backend = await fs.readFile(path.join(tmpDir, 'backend', 'CLAUDE.md'), 'utf-8');
+      const frontend = await fs.readFile(path.join(tmpDir, 'frontend', 'CLAUDE.md'), 'utf-8');
+
+      expect(root).toContain('### Workspace Packages (directories)');
+      expect(backend).toContain('## Detected Stack: Laravel');
+      expect(frontend).toContain('React Framework Guidelines');
+      expect(frontend).not.toContain('Laravel Core Guidelines');
+    });
+
+    test('should only write the root files when nested files are disabled', async () => {
+      await fs.writeJson(path.join(tmpDir, 'franken.config.json'), { workspaces: { nested: false } });
+
+      await initCommand.execute({ yes: true, force: true, target: 'claude' });
+
+      expect(await fs.pathExists(path.join(tmpDir, 'CLAUDE.md'))).toBe(true);
+      expect(await fs.pathExists(path.join(tmpDir, 'backend', 'CLAUDE.md'))).toBe(false);
+    });
+  });
+
   describe('Command Generation for Different Package Managers', () => {
     test('should generate yarn commands when yarn.lock exists', async () => {
       await fs.writeJson(path.join(tmpDir, 'package.json'), {
@@ -346,9 +464,9 @@ describe('InitCommand', () => {
     test('should handle corrupted JSON files', async () => {
       await fs.writeFile(path.join(tmpDir, 'package.json'), '{ invalid json }');
 
-      // @ts-ignore - accessing private method for testing
-      const vueVersion = await initCommand.detectVueVersion();
-      expect(vueVersion).toBeUndefined();
+      const stack = await new StackDetector().detect();
+      const context = await initCommand.createGuidelineContext(stack);
+      expect(context.versions?.get('vue')).toBeUndefined();
     });
 
     test('should handle existing CLAUDE.md with --force option', async () => {
@@ -363,8 +481,53 @@ describe('InitCommand', () => {
       const claudeContent = await fs.readFile(path.join(tmpDir, 'CLAUDE.md'), 'utf-8');
       expect(claudeContent).toContain('FrankenAI Configuration');
       expect(claudeContent).toContain('Vue.js Framework Guidelines');
+      expect(claudeContent.startsWith('Existing content')).toBe(true);
+    });
+
+    test('should replace existing CLAUDE.md with --overwrite option', async () => {
+      await fs.writeFile(path.join(tmpDir, 'CLAUDE.md'), 'Existing content');
+      await fs.writeJson(path.join(tmpDir, 'package.json'), {
+        dependencies: { vue: '^3.4.0' }
+      });
+
+      const options = { yes: true, force: true, overwrite: true };
+      await initCommand.execute(options);
+
+      const claudeContent = await fs.readFile(path.join(tmpDir, 'CLAUDE.md'), 'utf-8');
+      expect(claudeContent).toContain('Vue.js Framework Guidelines');
       expect(claudeContent).not.toContain('Existing content');
     });
+
+    test('should keep hand-written notes when updating FrankenAI sections', async () => {
+      await fs.writeFile(path.join(tmpDir, 'CLAUDE.md'), [
+        '# FrankenAI Configuration',
+        '',
+        '## Team Notes',
+        'Deploy only on Tuesdays.',
+        '',
+        '[//]: # (franken-ai:stack:start)',
+        '## Detected Stack: Laravel',
+        '[//]: # (franken-ai:stack:end)',
+        '',
+        '## More Notes',
+        'Ask before touching billing.'
+      ].join('\n'));
+      await fs.writeJson(path.join(tmpDir, 'package.json'), {
+        dependencies: { vue: '^3.4.0' }
+      });
+
+      await initCommand.execute({ yes: true });
+
+      const claudeContent = await fs.readFile(path.join(tmpDir, 'CLAUDE.md'), 'utf-8');
+      expect(claudeContent).toContain('Deploy only on Tuesdays.');
+      expect(claudeContent).toContain('Ask before touching billing.');
+      expect(claudeContent).toContain('## Detected Stack: Vue');
+      expect(claudeContent).not.toContain('## Detected Stack: Laravel');
+      expect(claudeContent).toContain('Vue.js Framework Guidelines');
+      expect(claudeContent.indexOf('Deploy only on Tuesdays.')).toBeLessThan(
+        claudeContent.indexOf('## Detected Stack: Vue')
+      );
+    });
   });
 
   describe('Multi-Framework Projects', () => {
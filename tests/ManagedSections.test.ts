@@ -0,0 +1,100 @@
+import { describe, test, expect } from 'bun:test';
+import { ManagedSections } from '../src/core/ManagedSections.js';
+
+const block = (name: string, body: string) =>
+  `[//]: # (franken-ai:${name}:start)\n${body}\n[//]: # (franken-ai:${name}:end)`;
+
+describe('ManagedSections', () => {
+  const generated = [
+    '# FrankenAI Configuration',
+    block('stack', '## Detected Stack: React'),
+    block('commands', '## Commands'),
+    block('workflow', '## FrankenAI Workflow'),
+    block('guidelines', 'React Framework Guidelines')
+  ].join('\n\n');
+
+  describe('Section Access', () => {
+    test('should list and extract sections', () => {
+      expect(ManagedSections.list(generated)).toEqual(['stack', 'commands', 'workflow', 'guidelines']);
+      expect(ManagedSections.extract(generated, 'commands')).toBe(block('commands', '## Commands'));
+      expect(ManagedSections.extract(generated, 'tools')).toBeNull();
+    });
+
+    test('should replace a section and leave the rest untouched', () => {
+      const content = `Intro\n\n${block('stack', 'old')}\n\nOutro`;
+      const updated = ManagedSections.replace(content, 'stack', block('stack', 'new'));
+
+      expect(updated).toBe(`Intro\n\n${block('stack', 'new')}\n\nOutro`);
+    });
+
+    test('should throw when replacing a missing section', () => {
+      expect(() => ManagedSections.replace('Intro', 'stack', block('stack', 'new'))).toThrow();
+    });
+  });
+
+  describe('Merge', () => {
+    test('should append generated content to a file without FrankenAI sections', () => {
+      const merged = ManagedSections.merge('# Our Project\n\nHouse rules.\n', generated);
+
+      expect(merged).toBe(`# Our Project\n\nHouse rules.\n\n${generated}`);
+    });
+
+    test('should update marked blocks in place and keep surrounding content', () => {
+      const existing = [
+        '# FrankenAI Configuration',
+        '## Team Notes',
+        block('stack', '## Detected Stack: Vue.js'),
+        'Between stack and commands',
+        block('commands', '## Old Commands'),
+        block('workflow', '## Old Workflow'),
+        block('guidelines', 'Old Guidelines'),
+        '## Footer'
+      ].join('\n\n');
+
+      const merged = ManagedSections.merge(existing, generated);
+
+      expect(merged).toBe([
+        '# FrankenAI Configuration',
+        '## Team Notes',
+        block('stack', '## Detected Stack: React'),
+        'Between stack and commands',
+        block('commands', '## Commands'),
+        block('workflow', '## FrankenAI Workflow'),
+        block('guidelines', 'React Framework Guidelines'),
+        '## Footer'
+      ].join('\n\n'));
+    });
+
+    test('should insert missing blocks next to their neighbours', () => {
+      const existing = [
+        'Notes before',
+        block('stack', 'old stack'),
+        'Notes in the middle',
+        block('guidelines', 'old guidelines'),
+        'Notes after'
+      ].join('\n\n');
+
+      const merged = ManagedSections.merge(existing, generated);
+
+      expect(ManagedSections.list(merged)).toEqual(['stack', 'commands', 'workflow', 'guidelines']);
+      expect(merged.indexOf('franken-ai:workflow:end')).toBeLessThan(merged.indexOf('Notes in the middle'));
+      expect(merged.indexOf('franken-ai:stack:end')).toBeLessThan(merged.indexOf('franken-ai:commands:start'));
+      expect(merged.startsWith('Notes before')).toBe(true);
+      expect(merged.endsWith('Notes after')).toBe(true);
+    });
+
+    test('should insert before the next section when no previous one exists', () => {
+      const existing = `Intro\n\n${block('guidelines', 'old')}`;
+      const merged = ManagedSections.merge(existing, block('stack', 'new stack') + '\n\n' + block('guidelines', 'new'));
+
+      expect(merged).toBe(`Intro\n\n${block('stack', 'new stack')}\n\n${block('guidelines', 'new')}`);
+    });
+
+    test('should drop blocks the generator no longer produces', () => {
+      const existing = `${block('stack', 'old')}\n\n${block('guidelines', 'stale guidelines')}\n\nKeep me`;
+      const merged = ManagedSections.merge(existing, block('stack', 'new'));
+
+      expect(merged).toBe(`${block('stack', 'new')}\n\nKeep me`);
+    });
+  });
+});
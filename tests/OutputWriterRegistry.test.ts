@@ -0,0 +1,129 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
+import { OutputWriterRegistry, DEFAULT_TARGETS } from '../src/core/OutputWriterRegistry.js';
+import { GuidelineManager, type GuidelineContext } from '../src/core/GuidelineManager.js';
+import type { OutputContext } from '../src/core/types/OutputWriter.js';
+import type { DetectedStack } from '../src/core/StackDetector.js';
+
+describe('OutputWriterRegistry', () => {
+  let registry: OutputWriterRegistry;
+  let manager: GuidelineManager;
+
+  const createMockStack = (overrides: Partial<DetectedStack> = {}): DetectedStack => ({
+    runtime: 'node',
+    languages: ['JavaScript', 'TypeScript'],
+    frameworks: ['React', 'Tailwind CSS'],
+    packageManagers: ['npm'],
+    configFiles: ['package.json'],
+    commands: {
+      dev: ['npm run dev'],
+      build: ['npm run build'],
+      test: ['npm run test'],
+      lint: ['npm run lint'],
+      install: ['npm install']
+    },
+    ...overrides
+  });
+
+  const createOutputContext = async (stack: DetectedStack): Promise<OutputContext> => {
+    const context: GuidelineContext = { stack, versions: new Map([['react', '18']]) };
+    const guidelines = await manager.collectGuidelines(context);
+    return { guidelines, context, generator: manager };
+  };
+
+  beforeEach(() => {
+    registry = new OutputWriterRegistry();
+    manager = new GuidelineManager();
+  });
+
+  afterEach(() => {
+    manager.clear();
+  });
+
+  test('should register the built-in writers', () => {
+    expect(registry.getTargets()).toEqual(['claude', 'gemini', 'agents', 'cursor', 'copilot', 'windsurf']);
+    expect(DEFAULT_TARGETS).toEqual(['claude', 'gemini']);
+    expect(registry.get('vim')).toBeUndefined();
+  });
+
+  test('should write single-file targets to their conventional paths', async () => {
+    const output = await createOutputContext(createMockStack());
+
+    const paths = ['claude', 'gemini', 'agents', 'copilot', 'windsurf']
+      .map(target => registry.get(target)!.render(output).map(file => file.path));
+
+    expect(paths).toEqual([
+      ['CLAUDE.md'],
+      ['GEMINI.md'],
+      ['AGENTS.md'],
+      ['.github/copilot-instructions.md'],
+      ['.windsurfrules']
+    ]);
+  });
+
+  test('should render other assistants without the Claude Code workflow', async () => {
+    const output = await createOutputContext(createMockStack());
+
+    const [agents] = registry.get('agents')!.render(output);
+
+    expect(agents.content).toContain('## Detected Stack: React');
+    expect(agents.content).toContain('## Commands');
+    expect(agents.content).toContain('React Framework Guidelines');
+    expect(agents.content).not.toContain('Implementation Phase (Claude Code)');
+  });
+
+  test('should write one Cursor rule per module with globs from its extensions', async () => {
+    const output = await createOutputContext(createMockStack());
+
+    const files = registry.get('cursor')!.render(output);
+    const paths = files.map(file => file.path);
+
+    expect(paths[0]).toBe('.cursor/rules/franken-ai.mdc');
+    expect(paths).toContain('.cursor/rules/franken-ai-react.mdc');
+    expect(paths).toContain('.cursor/rules/franken-ai-tailwind.mdc');
+    expect(files.every(file => file.merge === false)).toBe(true);
+
+    const projectRule = files[0].content;
+    expect(projectRule.startsWith('---\ndescription: Project stack and commands generated by FrankenAI\nalwaysApply: true\n---')).toBe(true);
+    expect(projectRule).toContain('## Commands');
+
+    const reactRule = files.find(file => file.path.endsWith('franken-ai-react.mdc'))!.content;
+    expect(reactRule).toContain('globs: **/*.js,**/*.jsx,**/*.ts,**/*.tsx');
+    expect(reactRule).toContain('alwaysApply: false');
+    expect(reactRule).toContain('React Framework Guidelines');
+  });
+
+  test('should write Cursor rules for testing guidelines', async () => {
+    const output = await createOutputContext(createMockStack({
+      runtime: 'php',
+      languages: ['PHP'],
+      frameworks: ['Laravel', 'Pest'],
+      packageManagers: ['composer']
+    }));
+
+    const files = registry.get('cursor')!.render(output);
+
+    expect(files.map(file => file.path)).toContain('.cursor/rules/franken-ai-pest.mdc');
+    expect(files[0].content).toContain('Every change comes with a test that fails without it');
+  });
+
+  test('should find Cursor rules of modules that are no longer rendered', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'franken-ai-cursor-rules-test-'));
+
+    try {
+      const rulesDir = path.join(tmpDir, '.cursor', 'rules');
+      for (const name of ['franken-ai.mdc', 'franken-ai-react.mdc', 'franken-ai-vue.mdc', 'team-conventions.mdc']) {
+        await fs.outputFile(path.join(rulesDir, name), '---\n---\n');
+      }
+
+      const cursor = registry.get('cursor')!;
+      const files = cursor.render(await createOutputContext(createMockStack()));
+
+      expect(await cursor.findStale!(tmpDir, files)).toEqual(['.cursor/rules/franken-ai-vue.mdc']);
+    } finally {
+      await fs.remove(tmpDir);
+    }
+  });
+});
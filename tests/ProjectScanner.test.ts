@@ -0,0 +1,69 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
+import { ProjectScanner } from '../src/core/ProjectScanner.js';
+
+describe('ProjectScanner', () => {
+  let tmpDir: string;
+
+  const touch = (...files: string[]) => Promise.all(files.map(file => fs.outputFile(path.join(tmpDir, file), '')));
+  const scanFiles = async (scanner = new ProjectScanner(tmpDir)) => (await scanner.scan()).files.sort();
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'franken-ai-scanner-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmpDir);
+  });
+
+  test('should skip dot entries and dependency directories by default', async () => {
+    await touch('composer.json', 'public/index.php', '.env', '.github/workflows/ci.yml', 'node_modules/react/index.js', 'vendor/autoload.php');
+
+    expect(await scanFiles()).toEqual(['composer.json', 'public/index.php']);
+  });
+
+  test('should honour .gitignore files, nested ones applying to their directory', async () => {
+    await fs.outputFile(path.join(tmpDir, '.gitignore'), '/public/build\n*.log\n');
+    await fs.outputFile(path.join(tmpDir, 'storage', 'app', '.gitignore'), '*\n!.gitignore\n!keep.txt\n');
+    await touch('public/index.php', 'public/build/app.js', 'debug.log', 'storage/app/upload.jpg', 'storage/app/keep.txt');
+
+    expect(await scanFiles()).toEqual(['public/index.php', 'storage/app/.gitignore', 'storage/app/keep.txt']);
+  });
+
+  test('should apply the configured ignore and include patterns', async () => {
+    await touch('src/App.vue', 'src/legacy/Old.vue', '.github/workflows/ci.yml', 'dist/app.js');
+
+    const scanner = new ProjectScanner(tmpDir, { ignore: ['src/legacy/'], include: ['.github/workflows/', 'dist/'] });
+
+    expect(await scanFiles(scanner)).toEqual(['.github/workflows/ci.yml', 'dist/app.js', 'src/App.vue']);
+  });
+
+  test('should stop at maxDepth', async () => {
+    await touch('resources/js/Pages/Auth/Login.vue', 'resources/js/app.js');
+
+    expect(await scanFiles(new ProjectScanner(tmpDir, { maxDepth: 2 }))).toEqual(['resources/js/app.js']);
+    expect(await scanFiles()).toContain('resources/js/Pages/Auth/Login.vue');
+  });
+
+  test('should stop and report truncation at maxFiles', async () => {
+    await touch('a.js', 'b.js', 'c.js');
+
+    const result = await new ProjectScanner(tmpDir, { maxFiles: 2 }).scan();
+
+    expect(result.files).toHaveLength(2);
+    expect(result.truncated).toBe(true);
+  });
+
+  test('should reuse cached listings of unchanged directories', async () => {
+    await touch('src/App.vue');
+    const first = await new ProjectScanner(tmpDir).scan();
+
+    await touch('src/Nav.vue');
+    const second = await new ProjectScanner(tmpDir).scan(first.directories);
+
+    expect(second).toMatchObject({ directoriesScanned: 1, directoriesReused: 1 });
+    expect(second.files.sort()).toEqual(['src/App.vue', 'src/Nav.vue']);
+  });
+});
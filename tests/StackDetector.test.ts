@@ -125,6 +125,18 @@ describe('StackDetector', () => {
       expect(stack.runtime).toBe('node');
     });
 
+    test('should warn when guidelines of an older Next.js version are used', async () => {
+      await fs.writeJson(path.join(tmpDir, 'package.json'), {
+        dependencies: {
+          next: '^15.0.0',
+          react: '^19.0.0'
+        }
+      });
+
+      const stack = await detector.detect();
+      expect(stack.guidelineWarnings).toContain('Guidelines for Next.js 14 used for detected 15');
+    });
+
     test('should detect Next.js from config file', async () => {
       await fs.writeFile(path.join(tmpDir, 'next.config.js'), 'module.exports = {};');
       await fs.writeJson(path.join(tmpDir, 'package.json'), {
@@ -319,6 +331,23 @@ describe('StackDetector', () => {
       expect(stack.commands.dev).toContain('php artisan serve');
       expect(stack.commands.test).toContain('php artisan test');
     });
+
+    test('should attribute commands to their modules for a Svelte + Pest project', async () => {
+      await fs.writeJson(path.join(tmpDir, 'package.json'), {
+        devDependencies: { svelte: '^5.0.0' }
+      });
+      await fs.writeJson(path.join(tmpDir, 'composer.json'), {
+        'require-dev': { 'pestphp/pest': '^3.0' }
+      });
+      await fs.writeFile(path.join(tmpDir, 'bun.lockb'), '');
+
+      const stack = await detector.detect();
+      expect(stack.commands.dev).toEqual(['bun run dev']);
+      expect(stack.commands.test).toContain('vendor/bin/pest');
+      expect(stack.commands.sources?.['bun run dev']).toEqual(['svelte']);
+      expect(stack.commands.sources?.['vendor/bin/pest']).toEqual(['pest']);
+      expect(stack.commands.descriptions?.['vendor/bin/pest']).toBe('Run Pest tests');
+    });
   });
 
   describe('Mixed Projects', () => {
@@ -361,6 +390,161 @@ describe('StackDetector', () => {
     */
   });
 
+  describe('Project Config', () => {
+    test('should force-enable modules listed in franken.config.json', async () => {
+      await fs.writeJson(path.join(tmpDir, 'package.json'), { name: 'test-project' });
+      await fs.writeJson(path.join(tmpDir, 'franken.config.json'), { modules: ['react'] });
+
+      const stack = await detector.detect();
+      expect(stack.frameworks).toContain('React');
+      expect(stack.detections?.find(detection => detection.module === 'react')).toMatchObject({ detected: true, configured: true });
+    });
+
+    test('should ignore modules disabled in franken.config.json', async () => {
+      await fs.writeJson(path.join(tmpDir, 'package.json'), {
+        dependencies: { react: '^18.2.0' }
+      });
+      await fs.writeJson(path.join(tmpDir, 'franken.config.json'), {
+        modules: [{ id: 'react', enabled: false }]
+      });
+
+      const stack = await detector.detect();
+      expect(stack.frameworks).not.toContain('React');
+      expect(stack.detections?.find(detection => detection.module === 'react')).toMatchObject({ detected: false, disabled: true });
+    });
+
+    test('should warn when the scan stops at scan.maxFiles', async () => {
+      await fs.writeJson(path.join(tmpDir, 'package.json'), { name: 'test-project' });
+      await fs.writeJson(path.join(tmpDir, 'franken.config.json'), { scan: { maxFiles: 1 } });
+      await fs.outputFile(path.join(tmpDir, 'src', 'index.js'), '');
+
+      const warnings: string[] = [];
+      const originalConsoleWarn = console.warn;
+      console.warn = (message: string) => warnings.push(message);
+
+      try {
+        await detector.detect();
+      } finally {
+        console.warn = originalConsoleWarn;
+      }
+
+      expect(warnings.some(warning => warning.includes('Stopped scanning after 1 files'))).toBe(true);
+    });
+
+    test('should reject an invalid franken.config.json', async () => {
+      await fs.writeJson(path.join(tmpDir, 'franken.config.json'), { sections: ['tools'] });
+
+      await expect(detector.detect()).rejects.toThrow('Invalid franken.config.json');
+    });
+  });
+
+  describe('Detection Explanations', () => {
+    test('should record evidence, thresholds and exclusions of every module', async () => {
+      await fs.writeJson(path.join(tmpDir, 'package.json'), {
+        dependencies: { next: '^14.0.0', react: '^18.2.0' }
+      });
+
+      const stack = await detector.detect();
+      const next = stack.detections?.find(detection => detection.module === 'next');
+      const react = stack.detections?.find(detection => detection.module === 'react');
+      const vue = stack.detections?.find(detection => detection.module === 'vue');
+
+      expect(next).toMatchObject({ detected: true, excludes: ['react'], threshold: { minimum: 0.3, inclusive: false } });
+      expect(next?.evidence).toContainEqual({ evidence: 'next in package.json dependencies', confidence: 0.9 });
+      expect(react).toMatchObject({ detected: false, excludedBy: ['next'] });
+      expect(vue).toMatchObject({ detected: false, confidence: 0, evidence: [] });
+    });
+  });
+
+  describe('Workspaces', () => {
+    test('should detect each workspace package on its own', async () => {
+      await fs.writeJson(path.join(tmpDir, 'package.json'), { name: 'acme', workspaces: ['apps/*'] });
+      await fs.outputJson(path.join(tmpDir, 'apps', 'web', 'package.json'), { name: 'web', dependencies: { react: '^18.2.0' } });
+      await fs.outputJson(path.join(tmpDir, 'apps', 'api', 'composer.json'), { name: 'acme/api', require: { php: '^8.3' } });
+
+      const stack = await detector.detect();
+
+      expect(stack.workspaceTools).toEqual(['npm']);
+      expect(stack.packages?.map(({ name, path }) => ({ name, path }))).toEqual([
+        { name: 'acme/api', path: 'apps/api' },
+        { name: 'web', path: 'apps/web' }
+      ]);
+      expect(stack.packages?.[0].stack.languages).toContain('PHP');
+      expect(stack.packages?.[1].stack.frameworks).toContain('React');
+      expect(stack.packages?.[1].stack.packages).toBeUndefined();
+    });
+
+    test('should not look for packages when workspaces are disabled', async () => {
+      await fs.writeJson(path.join(tmpDir, 'package.json'), { workspaces: ['apps/*'] });
+      await fs.outputJson(path.join(tmpDir, 'apps', 'web', 'package.json'), { name: 'web' });
+
+      const stack = await new StackDetector(tmpDir, { workspaces: false }).detect();
+      expect(stack.packages).toBeUndefined();
+    });
+  });
+
+  describe('Detection Cache', () => {
+    const cachePath = () => path.join(tmpDir, '.franken', 'cache', 'detection.json');
+
+    beforeEach(async () => {
+      await fs.writeJson(path.join(tmpDir, 'package.json'), { dependencies: { vue: '^3.4.0' } });
+      await fs.outputFile(path.join(tmpDir, 'src', 'components', 'App.vue'), '<template></template>');
+    });
+
+    test('should reuse the cached stack while inputs are unchanged', async () => {
+      const first = await detector.detect();
+      expect(detector.getCacheStats()?.stackReused).toBe(false);
+      expect(await fs.pathExists(cachePath())).toBe(true);
+
+      const cached = new StackDetector(tmpDir);
+      expect(await cached.detect()).toEqual(first);
+      expect(cached.getCacheStats()).toMatchObject({ stackReused: true });
+    });
+
+    test('should detect again when a manifest changes', async () => {
+      await detector.detect();
+      await fs.writeJson(path.join(tmpDir, 'package.json'), { dependencies: { react: '^18.2.0' } });
+
+      const changed = new StackDetector(tmpDir);
+      const stack = await changed.detect();
+
+      expect(changed.getCacheStats()?.stackReused).toBe(false);
+      expect(stack.frameworks).toContain('React');
+      expect(stack.frameworks).not.toContain('Vue.js');
+    });
+
+    test('should detect again when a file read during detection changes', async () => {
+      await fs.outputFile(path.join(tmpDir, 'src', 'app.css'), 'body { margin: 0; }');
+      await detector.detect();
+      expect((await fs.readJson(cachePath())).probed).toEqual(['src/app.css']);
+
+      await fs.writeFile(path.join(tmpDir, 'src', 'app.css'), '@import "tailwindcss";');
+      const changed = new StackDetector(tmpDir);
+      await changed.detect();
+
+      expect(changed.getCacheStats()?.stackReused).toBe(false);
+    });
+
+    test('should only rescan changed directories', async () => {
+      await detector.detect();
+      await new StackDetector(tmpDir).detect();  // Picks up the new .franken directory in the root
+
+      await fs.writeFile(path.join(tmpDir, 'src', 'components', 'Nav.vue'), '<template></template>');
+      const incremental = new StackDetector(tmpDir);
+      await incremental.detect();
+
+      expect(incremental.getCacheStats()).toEqual({ stackReused: false, directoriesScanned: 1, directoriesReused: 2 });
+    });
+
+    test('should neither read nor write the cache when disabled', async () => {
+      const uncached = new StackDetector(tmpDir, { cache: false });
+      await uncached.detect();
+
+      expect(uncached.getCacheStats()).toBeUndefined();
+      expect(await fs.pathExists(cachePath())).toBe(false);
+    });
+  });
+
   describe('Edge Cases', () => {
     test('should handle empty project', async () => {
       const stack = await detector.detect();
@@ -0,0 +1,77 @@
+import { describe, test, expect } from 'bun:test';
+import { TokenBudget, type BudgetedGuideline } from '../src/core/TokenBudget.js';
+
+describe('TokenBudget', () => {
+  const start = '[//]: # (franken-ai:optional:start)';
+  const end = '[//]: # (franken-ai:optional:end)';
+
+  test('should estimate about four characters per token', () => {
+    expect(TokenBudget.estimate('')).toBe(0);
+    expect(TokenBudget.estimate('a'.repeat(400))).toBe(100);
+  });
+
+  test('should extract optional blocks and remove their markers', () => {
+    const content = ['# Guide', start, '## Tips', 'Nice to know.', end, '', '## Rules'].join('\n');
+
+    const result = TokenBudget.extractOptionalBlocks(content, 'guide.md');
+
+    expect(result.content).toBe('# Guide\n## Tips\nNice to know.\n\n## Rules');
+    expect(result.optionalBlocks).toEqual(['## Tips\nNice to know.']);
+  });
+
+  test('should report unbalanced optional markers with file and line', () => {
+    expect(() => TokenBudget.extractOptionalBlocks(`# Guide\n${start}\nTips`, 'guide.md'))
+      .toThrow('Unclosed optional block in guide.md (line 2)');
+    expect(() => TokenBudget.extractOptionalBlocks(`# Guide\n${end}`, 'guide.md'))
+      .toThrow('Unexpected optional block end in guide.md (line 2)');
+  });
+
+  test('should trim optional blocks, then examples, then lowest priority guidelines', () => {
+    const example = '```php\n' + 'x'.repeat(400) + '\n```\n\n';
+    const tips = 't'.repeat(400);
+    const guidelines: BudgetedGuideline[] = [
+      { path: 'laravel.md', priority: 'meta-framework', content: `# Laravel\n${tips}\n${example}Rules`, optionalBlocks: [tips] },
+      { path: 'php.md', priority: 'specialized-lang', content: `# PHP\n${example}${'r'.repeat(200)}` }
+    ];
+
+    const optionalOnly = TokenBudget.fit(guidelines, 0, 300);
+    expect(optionalOnly.trimmed.map(item => item.kind)).toEqual(['optional']);
+    expect(optionalOnly.guidelines[0].content).not.toContain(tips);
+    expect(optionalOnly.guidelines[1].content).toContain('```php');
+
+    const examples = TokenBudget.fit(guidelines, 0, 200);
+    expect(examples.trimmed.map(item => `${item.path}:${item.kind}`)).toEqual(['laravel.md:optional', 'php.md:example']);
+
+    const dropped = TokenBudget.fit(guidelines, 0, 20);
+    expect(dropped.guidelines.map(g => g.path)).toEqual(['laravel.md']);
+    expect(dropped.trimmed.filter(item => item.kind === 'guideline').map(item => item.path)).toEqual(['php.md']);
+    expect(guidelines[0].content).toContain(tips);
+  });
+
+  test('should leave guidelines that fit untouched', () => {
+    const guidelines: BudgetedGuideline[] = [{ path: 'php.md', priority: 'base-lang', content: '# PHP' }];
+
+    const result = TokenBudget.fit(guidelines, 100, 1000);
+
+    expect(result.trimmed).toEqual([]);
+    expect(result.guidelines[0].content).toBe('# PHP');
+    expect(TokenBudget.formatReport('CLAUDE.md', result)).toEqual([]);
+  });
+
+  test('should format the trimmed items per guideline', () => {
+    const lines = TokenBudget.formatReport('CLAUDE.md', {
+      maxTokens: 8000,
+      before: 12000,
+      after: 7900,
+      trimmed: [
+        { path: 'laravel.md', kind: 'optional', tokens: 300 },
+        { path: 'laravel.md', kind: 'optional', tokens: 200 },
+        { path: 'php.md', kind: 'guideline', tokens: 3600 }
+      ]
+    }).join('\n');
+
+    expect(lines).toContain('CLAUDE.md: ~12,000 → ~7,900 tokens (budget 8,000)');
+    expect(lines).toContain('laravel.md: 2 optional blocks (-500 tokens)');
+    expect(lines).toContain('php.md: removed (-3,600 tokens)');
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
+import { UpdateCommand } from '../src/commands/UpdateCommand.js';
+import { ManagedSections } from '../src/core/ManagedSections.js';
+import { Fingerprint } from '../src/core/Fingerprint.js';
+
+describe('UpdateCommand', () => {
+  let tmpDir: string;
+  let originalCwd: string;
+  let updateCommand: UpdateCommand;
+
+  const staleClaudeMd = [
+    '# Team Notes',
+    '',
+    'Always run the linter before pushing.',
+    '',
+    '[//]: # (franken-ai:stack:start)',
+    '## Detected Stack: Vue.js',
+    '[//]: # (franken-ai:stack:end)',
+    '',
+    '[//]: # (franken-ai:commands:start)',
+    '## Commands',
+    '- `custom command` - Kept until commands are updated',
+    '[//]: # (franken-ai:commands:end)',
+    '',
+    '## Footer written by hand'
+  ].join('\n');
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'franken-ai-update-test-'));
+    originalCwd = process.cwd();
+    process.chdir(tmpDir);
+    updateCommand = new UpdateCommand();
+
+    await fs.writeJson(path.join(tmpDir, 'package.json'), {
+      dependencies: { react: '^18.2.0', 'react-dom': '^18.2.0' }
+    });
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    process.exitCode = 0;
+    await fs.remove(tmpDir);
+  });
+
+  test('should expose signature metadata', () => {
+    const signature = updateCommand.getSignature();
+
+    expect(signature.name).toBe('update');
+    expect(signature.category).toBe('Setup');
+    expect(signature.options?.map(o => o.flags)).toContain('-f, --force');
+    expect(signature.options?.map(o => o.flags)).toContain('-v, --verbose');
+  });
+
+  test('should regenerate only the requested section', async () => {
+    await fs.writeFile(path.join(tmpDir, 'CLAUDE.md'), staleClaudeMd);
+
+    await updateCommand.execute('stack', { force: true });
+
+    const content = await fs.readFile(path.join(tmpDir, 'CLAUDE.md'), 'utf-8');
+    expect(content).toContain('## Detected Stack: React');
+    expect(content).not.toContain('## Detected Stack: Vue.js');
+    expect(content).toContain('- `custom command` - Kept until commands are updated');
+    expect(content.startsWith('# Team Notes\n\nAlways run the linter before pushing.')).toBe(true);
+    expect(content.endsWith('## Footer written by hand')).toBe(true);
+  });
+
+  test('should regenerate every present section when no section is given', async () => {
+    await fs.writeFile(path.join(tmpDir, 'CLAUDE.md'), staleClaudeMd);
+
+    await updateCommand.execute(undefined, { force: true });
+
+    const content = await fs.readFile(path.join(tmpDir, 'CLAUDE.md'), 'utf-8');
+    expect(content).toContain('## Detected Stack: React');
+    expect(content).not.toContain('custom command');
+    expect(ManagedSections.list(content)).toEqual(['stack', 'commands']);
+    expect(content).toContain('## Footer written by hand');
+    expect(Fingerprint.parse(content)?.modules).toContain('react@18');
+  });
+
+  test('should reject unknown sections', async () => {
+    await fs.writeFile(path.join(tmpDir, 'CLAUDE.md'), staleClaudeMd);
+
+    await updateCommand.execute('tools', { force: true });
+
+    expect(process.exitCode).toBe(1);
+    const content = await fs.readFile(path.join(tmpDir, 'CLAUDE.md'), 'utf-8');
+    expect(content).toBe(staleClaudeMd);
+  });
+
+  test('should fail when the section markers are missing', async () => {
+    await fs.writeFile(path.join(tmpDir, 'CLAUDE.md'), staleClaudeMd);
+
+    await updateCommand.execute('guidelines', { force: true });
+
+    expect(process.exitCode).toBe(1);
+    const content = await fs.readFile(path.join(tmpDir, 'CLAUDE.md'), 'utf-8');
+    expect(content).toBe(staleClaudeMd);
+  });
+
+  test('should fail when CLAUDE.md does not exist', async () => {
+    await updateCommand.execute('stack', { force: true });
+
+    expect(process.exitCode).toBe(1);
+    expect(await fs.pathExists(path.join(tmpDir, 'CLAUDE.md'))).toBe(false);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, test, expect } from 'bun:test';
+import { VersionedGuidelines } from '../src/core/utils/VersionedGuidelines.js';
+
+describe('VersionedGuidelines', () => {
+  test('should list versioned guideline directories in version order', async () => {
+    expect(await VersionedGuidelines.listVersions('laravel')).toEqual(['10', '11', '12']);
+    expect(await VersionedGuidelines.listVersions('php')).toEqual(['8.1', '8.2', '8.3', '8.4', '8.5']);
+    expect(await VersionedGuidelines.listVersions('tailwind')).toEqual([]);
+  });
+
+  test('should use the exact version when it exists', async () => {
+    expect(await VersionedGuidelines.resolve('laravel', '^12.3')).toEqual({ directory: '12', detected: '^12.3', exact: true });
+    expect(await VersionedGuidelines.resolve('php', '8.3')).toEqual({ directory: '8.3', detected: '8.3', exact: true });
+  });
+
+  test('should fall back to the nearest lower version', async () => {
+    expect(await VersionedGuidelines.resolve('next', '15.0.3')).toEqual({ directory: '14', detected: '15.0.3', exact: false });
+    expect(await VersionedGuidelines.resolve('php', '8.6')).toEqual({ directory: '8.5', detected: '8.6', exact: false });
+  });
+
+  test('should resolve nothing below the oldest version or without versioned guidelines', async () => {
+    expect(await VersionedGuidelines.resolve('laravel', '9')).toBeNull();
+    expect(await VersionedGuidelines.resolve('tailwind', '4')).toBeNull();
+    expect(await VersionedGuidelines.resolve('laravel', 'dev-master')).toBeNull();
+  });
+
+  test('should format the fallback warning', () => {
+    expect(VersionedGuidelines.formatWarning('Next.js', { directory: '14', detected: '15.0.3', exact: false }))
+      .toBe('Guidelines for Next.js 14 used for detected 15.0.3');
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
+import { WorkspaceDetector } from '../src/core/WorkspaceDetector.js';
+
+describe('WorkspaceDetector', () => {
+  let tmpDir: string;
+
+  const writeJson = (file: string, content: object) => fs.outputJson(path.join(tmpDir, file), content);
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'franken-ai-workspace-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmpDir);
+  });
+
+  test('should return null for a single project', async () => {
+    await writeJson('package.json', { dependencies: { react: '^18.2.0' } });
+    await writeJson('docs/package.json', { name: 'docs' });
+
+    expect(await WorkspaceDetector.discover(tmpDir)).toBeNull();
+  });
+
+  test('should expand package.json workspaces', async () => {
+    await writeJson('package.json', { workspaces: ['apps/*', 'packages/**'] });
+    await fs.writeFile(path.join(tmpDir, 'yarn.lock'), '');
+    await writeJson('apps/web/package.json', { name: '@acme/web' });
+    await writeJson('packages/ui/button/package.json', { name: '@acme/button' });
+    await fs.ensureDir(path.join(tmpDir, 'apps', 'empty'));
+
+    expect(await WorkspaceDetector.discover(tmpDir)).toEqual({
+      tools: ['yarn'],
+      packages: [
+        { name: '@acme/web', path: 'apps/web' },
+        { name: '@acme/button', path: 'packages/ui/button' }
+      ]
+    });
+  });
+
+  test('should read pnpm-workspace.yaml with exclusions and report Turborepo', async () => {
+    await writeJson('package.json', { name: 'root' });
+    await fs.writeFile(path.join(tmpDir, 'pnpm-workspace.yaml'), "packages:\n  - 'apps/*'\n  - '!apps/legacy'\n");
+    await writeJson('turbo.json', {});
+    await writeJson('apps/web/package.json', { name: 'web' });
+    await writeJson('apps/legacy/package.json', { name: 'legacy' });
+
+    expect(await WorkspaceDetector.discover(tmpDir)).toEqual({
+      tools: ['pnpm', 'turbo'],
+      packages: [{ name: 'web', path: 'apps/web' }]
+    });
+  });
+
+  test('should read composer path repositories and Nx projects', async () => {
+    await writeJson('composer.json', { repositories: [{ type: 'path', url: 'modules/*' }, { type: 'vcs', url: 'https://example.com' }] });
+    await writeJson('nx.json', {});
+    await writeJson('modules/billing/composer.json', { name: 'acme/billing' });
+    await writeJson('apps/api/project.json', { name: 'api' });
+
+    const workspace = await WorkspaceDetector.discover(tmpDir);
+
+    expect(workspace?.tools).toEqual(['composer', 'nx']);
+    expect(workspace?.packages).toEqual([
+      { name: 'api', path: 'apps/api' },
+      { name: 'acme/billing', path: 'modules/billing' }
+    ]);
+  });
+
+  test('should ignore packages outside the project root', async () => {
+    await writeJson('app/composer.json', {
+      repositories: [
+        { type: 'path', url: '../shared' },
+        { type: 'path', url: path.join(tmpDir, 'shared') },
+        { type: 'path', url: 'modules/../../shared' },
+        { type: 'path', url: 'modules/*' }
+      ]
+    });
+    await writeJson('app/modules/billing/composer.json', { name: 'acme/billing' });
+    await writeJson('shared/composer.json', { name: 'acme/shared' });
+
+    const workspace = await WorkspaceDetector.discover(path.join(tmpDir, 'app'));
+
+    expect(workspace?.packages).toEqual([{ name: 'acme/billing', path: 'modules/billing' }]);
+  });
+
+  test('should use top-level directories with manifests when the root has none', async () => {
+    await writeJson('backend/composer.json', { name: 'acme/backend' });
+    await writeJson('frontend/package.json', {});
+    await fs.ensureDir(path.join(tmpDir, 'docs'));
+
+    expect(await WorkspaceDetector.discover(tmpDir)).toEqual({
+      tools: ['directories'],
+      packages: [
+        { name: 'acme/backend', path: 'backend' },
+        { name: 'frontend', path: 'frontend' }
+      ]
+    });
+  });
+
+  test('should use configured packages instead of discovery', async () => {
+    await writeJson('package.json', { workspaces: ['apps/*'] });
+    await writeJson('apps/web/package.json', { name: 'web' });
+    await writeJson('backend/composer.json', { name: 'acme/backend' });
+
+    expect((await WorkspaceDetector.discover(tmpDir, ['backend']))?.packages).toEqual([{ name: 'acme/backend', path: 'backend' }]);
+    expect(await WorkspaceDetector.discover(tmpDir, [])).toBeNull();
+  });
+});
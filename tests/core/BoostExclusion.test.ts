@@ -3,7 +3,7 @@ import { ModuleManager } from '../../src/core/ModuleManager.js';
 import { LaravelBoostModule } from '../../src/modules/laravel-boost/LaravelBoostModule.js';
 import { LaravelModule } from '../../src/modules/laravel/LaravelModule.js';
 import { TailwindModule } from '../../src/modules/tailwind/TailwindModule.js';
-import type { DetectionContext, ModuleRegistration } from '../../src/core/types/Module.js';
+import type { DetectionContext, ModuleDetection, ModuleRegistration } from '../../src/core/types/Module.js';
 
 describe('Laravel Boost Exclusion Integration', () => {
   let moduleManager: ModuleManager;
@@ -76,6 +76,28 @@ describe('Laravel Boost Exclusion Integration', () => {
     expect(boostResult?.excludes).toContain('tailwind');
   });
 
+  test('should record which module excluded which', async () => {
+    const context: DetectionContext = {
+      projectRoot: '/test',
+      configFiles: ['composer.json', 'boost.config.php', 'tailwind.config.js'],
+      files: ['resources/boost/components/UserCard.blade.php'],
+      packageJson: { devDependencies: { tailwindcss: '^3.0.0' } },
+      composerJson: { require: { 'laravel/framework': '^10.0.0' } }
+    };
+
+    let detections: ModuleDetection[] = [];
+    moduleManager.once('detection:complete', event => { detections = event.detections; });
+    await moduleManager.detectStack(context);
+
+    const boost = detections.find(detection => detection.module === 'laravel-boost');
+    const tailwind = detections.find(detection => detection.module === 'tailwind');
+    expect(detections.map(detection => detection.module)).toEqual(['laravel', 'laravel-boost', 'tailwind']);
+    expect(boost).toMatchObject({ detected: true, threshold: { minimum: 0.6, inclusive: true } });
+    expect(boost?.excludes).toContain('tailwind');
+    expect(boost?.evidence).toContainEqual({ evidence: 'Laravel Boost configuration file detected', confidence: 0.8 });
+    expect(tailwind).toMatchObject({ detected: false, excludedBy: ['laravel-boost'] });
+  });
+
   test('should not exclude modules when Laravel Boost is not detected', async () => {
     const context: DetectionContext = {
       projectRoot: '/test',
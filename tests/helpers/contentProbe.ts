@@ -0,0 +1,12 @@
+import type { ContentProbe } from '../../src/core/types/Module.js';
+
+/**
+ * ContentProbe serving the given file contents (keyed by path relative to the project root)
+ * instead of reading from disk
+ */
+export function probeContents(contents: Record<string, string>): ContentProbe {
+  return {
+    readFile: async file => contents[file] ?? null,
+    grep: async (pattern, files, limit = 1) => files.filter(file => pattern.test(contents[file] ?? '')).slice(0, limit)
+  };
+}
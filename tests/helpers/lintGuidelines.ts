@@ -0,0 +1,19 @@
+import { GuidelineLinter, type GuidelineLintIssue } from '../../src/core/GuidelineLinter.js';
+
+/**
+ * Run the guideline lint for the bundled modules (all, or the given ids) and return
+ * the errors as "file:line message" strings, so a failing expectation lists them.
+ * Errors for files in `allowMissing` (known missing guideline files) are left out.
+ */
+export async function lintGuidelineErrors(moduleIds?: string[], allowMissing: string[] = []): Promise<string[]> {
+  const issues = await GuidelineLinter.lintAll(moduleIds);
+
+  return issues
+    .filter(issue => issue.severity === 'error')
+    .filter(issue => !(issue.rule === 'missing-path' && allowMissing.includes(issue.file)))
+    .map(formatIssue);
+}
+
+function formatIssue(issue: GuidelineLintIssue): string {
+  return `${issue.file}${issue.line !== undefined ? `:${issue.line}` : ''} ${issue.message}`;
+}